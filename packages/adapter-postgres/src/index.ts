@@ -15,6 +15,7 @@ import {
     Actor,
     GoalStatus,
     type Goal,
+    type Log,
     type Memory,
     type Relationship,
     type UUID,
@@ -1011,6 +1012,7 @@ export class PostgresDatabaseAdapter
     }
 
     async log(params: {
+        id?: UUID;
         body: { [key: string]: unknown };
         userId: UUID;
         roomId: UUID;
@@ -1026,7 +1028,7 @@ export class PostgresDatabaseAdapter
 
         return this.withDatabase(async () => {
             try {
-                const logId = v4(); // Generate ID for tracking
+                const logId = params.id ?? v4(); // Generate ID for tracking
                 await this.pool.query(
                     `INSERT INTO logs (
                         id,
@@ -1066,6 +1068,90 @@ export class PostgresDatabaseAdapter
         }, "log");
     }
 
+    async getLogs(params: {
+        id?: UUID;
+        types?: string[];
+        userId?: UUID;
+        roomId?: UUID;
+        since?: number;
+        until?: number;
+        body?: { [key: string]: string };
+        count?: number;
+        offset?: number;
+    }): Promise<Log[]> {
+        return this.withDatabase(async () => {
+            let sql = "SELECT * FROM logs WHERE 1 = 1";
+            const values: any[] = [];
+            let paramCount = 0;
+
+            if (params.id) {
+                paramCount++;
+                sql += ` AND id = $${paramCount}`;
+                values.push(params.id);
+            }
+
+            if (params.types?.length) {
+                paramCount++;
+                sql += ` AND type = ANY($${paramCount})`;
+                values.push(params.types);
+            }
+
+            if (params.userId) {
+                paramCount++;
+                sql += ` AND "userId" = $${paramCount}`;
+                values.push(params.userId);
+            }
+
+            if (params.roomId) {
+                paramCount++;
+                sql += ` AND "roomId" = $${paramCount}`;
+                values.push(params.roomId);
+            }
+
+            if (params.since) {
+                paramCount++;
+                sql += ` AND "createdAt" >= to_timestamp($${paramCount})`;
+                values.push(params.since / 1000);
+            }
+
+            if (params.until) {
+                paramCount++;
+                sql += ` AND "createdAt" <= to_timestamp($${paramCount})`;
+                values.push(params.until / 1000);
+            }
+
+            for (const [key, value] of Object.entries(params.body ?? {})) {
+                sql += ` AND body->>$${paramCount + 1} = $${paramCount + 2}`;
+                paramCount += 2;
+                values.push(key, value);
+            }
+
+            sql += ' ORDER BY "createdAt" DESC';
+
+            if (params.count) {
+                paramCount++;
+                sql += ` LIMIT $${paramCount}`;
+                values.push(params.count);
+            }
+
+            if (params.offset) {
+                paramCount++;
+                sql += ` OFFSET $${paramCount}`;
+                values.push(params.offset);
+            }
+
+            const { rows } = await this.pool.query(sql, values);
+            return rows.map((row) => ({
+                ...row,
+                body:
+                    typeof row.body === "string"
+                        ? JSON.parse(row.body)
+                        : row.body,
+                createdAt: new Date(row.createdAt).getTime(),
+            }));
+        }, "getLogs");
+    }
+
     async searchMemoriesByEmbedding(
         embedding: number[],
         params: {
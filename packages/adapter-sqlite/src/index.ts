@@ -8,6 +8,7 @@ import {
     GoalStatus,
     Participant,
     type Goal,
+    type Log,
     type Memory,
     type Relationship,
     type UUID,
@@ -15,7 +16,7 @@ import {
 import { Database } from "better-sqlite3";
 import { v4 } from "uuid";
 import { load } from "./sqlite_vec.ts";
-import { sqliteTables } from "./sqliteTables.ts";
+import { logsCreatedAtMigration, sqliteTables } from "./sqliteTables.ts";
 
 export class SqliteDatabaseAdapter
     extends DatabaseAdapter<Database>
@@ -77,6 +78,9 @@ export class SqliteDatabaseAdapter
 
     async init() {
         this.db.exec(sqliteTables);
+        if ((this.db.pragma("user_version", { simple: true }) as number) < 1) {
+            this.db.exec(logsCreatedAtMigration);
+        }
     }
 
     async close() {
@@ -396,23 +400,91 @@ export class SqliteDatabaseAdapter
     }
 
     async log(params: {
+        id?: UUID;
         body: { [key: string]: unknown };
         userId: UUID;
         roomId: UUID;
         type: string;
     }): Promise<void> {
         const sql =
-            "INSERT INTO logs (body, userId, roomId, type) VALUES (?, ?, ?, ?)";
+            "INSERT INTO logs (id, body, userId, roomId, type, createdAt) VALUES (?, ?, ?, ?, ?, ?)";
         this.db
             .prepare(sql)
             .run(
+                params.id ?? v4(),
                 JSON.stringify(params.body),
                 params.userId,
                 params.roomId,
-                params.type
+                params.type,
+                Date.now()
             );
     }
 
+    async getLogs(params: {
+        id?: UUID;
+        types?: string[];
+        userId?: UUID;
+        roomId?: UUID;
+        since?: number;
+        until?: number;
+        body?: { [key: string]: string };
+        count?: number;
+        offset?: number;
+    }): Promise<Log[]> {
+        let sql = "SELECT * FROM logs WHERE 1 = 1";
+        const queryParams = [] as any[];
+
+        if (params.id) {
+            sql += " AND id = ?";
+            queryParams.push(params.id);
+        }
+
+        if (params.types?.length) {
+            sql += ` AND type IN (${params.types.map(() => "?").join(", ")})`;
+            queryParams.push(...params.types);
+        }
+
+        if (params.userId) {
+            sql += " AND userId = ?";
+            queryParams.push(params.userId);
+        }
+
+        if (params.roomId) {
+            sql += " AND roomId = ?";
+            queryParams.push(params.roomId);
+        }
+
+        if (params.since) {
+            sql += " AND createdAt >= ?";
+            queryParams.push(params.since);
+        }
+
+        if (params.until) {
+            sql += " AND createdAt <= ?";
+            queryParams.push(params.until);
+        }
+
+        for (const [key, value] of Object.entries(params.body ?? {})) {
+            sql += " AND json_extract(body, ?) = ?";
+            queryParams.push(`$.${key}`, value);
+        }
+
+        sql += " ORDER BY createdAt DESC";
+
+        if (params.count || params.offset) {
+            // SQLite needs a limit for an offset, -1 is none
+            sql += " LIMIT ? OFFSET ?";
+            queryParams.push(params.count || -1, params.offset ?? 0);
+        }
+
+        const logs = this.db.prepare(sql).all(...queryParams) as any[];
+
+        return logs.map((log) => ({
+            ...log,
+            body: JSON.parse(log.body),
+        }));
+    }
+
     async getMemories(params: {
         roomId: UUID;
         count?: number;
@@ -102,3 +102,12 @@ CREATE UNIQUE INDEX IF NOT EXISTS "memories_id_key" ON "memories" ("id");
 CREATE UNIQUE INDEX IF NOT EXISTS "participants_id_key" ON "participants" ("id");
 
 COMMIT;`;
+
+// Logs written before createdAt was set explicitly hold the
+// CURRENT_TIMESTAMP default, a UTC string, instead of epoch ms. Databases
+// at user_version 1 or above have been converted.
+export const logsCreatedAtMigration = `
+BEGIN TRANSACTION;
+UPDATE logs SET createdAt = CAST(strftime('%s', createdAt) AS INTEGER) * 1000 WHERE typeof(createdAt) = 'text';
+PRAGMA user_version = 1;
+COMMIT;`;
@@ -4,12 +4,13 @@ export * from "./types.ts";
 import {
     Account,
     Actor, DatabaseAdapter, GoalStatus, IDatabaseCacheAdapter, Participant, type Goal,
+    type Log,
     type Memory,
     type Relationship,
     type UUID
 } from "@ai16z/eliza";
 import { v4 } from "uuid";
-import { sqliteTables } from "./sqliteTables.ts";
+import { logsCreatedAtMigration, sqliteTables } from "./sqliteTables.ts";
 import { Database } from "./types.ts";
 
 export class SqlJsDatabaseAdapter
@@ -22,6 +23,10 @@ export class SqlJsDatabaseAdapter
 
     async init() {
         this.db.exec(sqliteTables);
+        const [{ values }] = this.db.exec("PRAGMA user_version");
+        if ((values[0][0] as number) < 1) {
+            this.db.exec(logsCreatedAtMigration);
+        }
     }
 
     async close() {
@@ -419,23 +424,97 @@ export class SqlJsDatabaseAdapter
     }
 
     async log(params: {
+        id?: UUID;
         body: { [key: string]: unknown };
         userId: UUID;
         roomId: UUID;
         type: string;
     }): Promise<void> {
         const sql =
-            "INSERT INTO logs (body, userId, roomId, type) VALUES (?, ?, ?, ?)";
+            "INSERT INTO logs (id, body, userId, roomId, type, createdAt) VALUES (?, ?, ?, ?, ?, ?)";
         const stmt = this.db.prepare(sql);
         stmt.run([
+            params.id ?? v4(),
             JSON.stringify(params.body),
             params.userId,
             params.roomId,
             params.type,
+            Date.now(),
         ]);
         stmt.free();
     }
 
+    async getLogs(params: {
+        id?: UUID;
+        types?: string[];
+        userId?: UUID;
+        roomId?: UUID;
+        since?: number;
+        until?: number;
+        body?: { [key: string]: string };
+        count?: number;
+        offset?: number;
+    }): Promise<Log[]> {
+        let sql = "SELECT * FROM logs WHERE 1 = 1";
+
+        if (params.id) {
+            sql += " AND id = ?";
+        }
+
+        if (params.types?.length) {
+            sql += ` AND type IN (${params.types.map(() => "?").join(", ")})`;
+        }
+
+        if (params.userId) {
+            sql += " AND userId = ?";
+        }
+
+        if (params.roomId) {
+            sql += " AND roomId = ?";
+        }
+
+        if (params.since) {
+            sql += " AND createdAt >= ?";
+        }
+
+        if (params.until) {
+            sql += " AND createdAt <= ?";
+        }
+
+        const bodyFields = Object.entries(params.body ?? {});
+        sql += bodyFields.map(() => " AND json_extract(body, ?) = ?").join("");
+
+        sql += " ORDER BY createdAt DESC";
+
+        const paginated = !!(params.count || params.offset);
+        if (paginated) {
+            // SQLite needs a limit for an offset, -1 is none
+            sql += " LIMIT ? OFFSET ?";
+        }
+
+        const stmt = this.db.prepare(sql);
+        stmt.bind([
+            ...(params.id ? [params.id] : []),
+            ...(params.types ?? []),
+            ...(params.userId ? [params.userId] : []),
+            ...(params.roomId ? [params.roomId] : []),
+            ...(params.since ? [params.since] : []),
+            ...(params.until ? [params.until] : []),
+            ...bodyFields.flatMap(([key, value]) => [`$.${key}`, value]),
+            ...(paginated ? [params.count || -1, params.offset ?? 0] : []),
+        ]);
+        const logs: Log[] = [];
+        while (stmt.step()) {
+            const log = stmt.getAsObject() as unknown as any;
+            logs.push({
+                ...log,
+                body: JSON.parse(log.body),
+            });
+        }
+        stmt.free();
+        return logs;
+    }
+
     async getMemories(params: {
         roomId: UUID;
         count?: number;
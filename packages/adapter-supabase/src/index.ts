@@ -2,6 +2,7 @@ import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import {
     type Memory,
     type Goal,
+    type Log,
     type Relationship,
     Actor,
     GoalStatus,
@@ -252,12 +253,14 @@ export class SupabaseDatabaseAdapter extends DatabaseAdapter {
     }
 
     async log(params: {
+        id?: UUID;
         body: { [key: string]: unknown };
         userId: UUID;
         roomId: UUID;
         type: string;
     }): Promise<void> {
         const { error } = await this.supabase.from("logs").insert({
+            id: params.id ?? uuid(),
             body: params.body,
             userId: params.userId,
             roomId: params.roomId,
@@ -270,6 +273,71 @@ export class SupabaseDatabaseAdapter extends DatabaseAdapter {
         }
     }
 
+    async getLogs(params: {
+        id?: UUID;
+        types?: string[];
+        userId?: UUID;
+        roomId?: UUID;
+        since?: number;
+        until?: number;
+        body?: { [key: string]: string };
+        count?: number;
+        offset?: number;
+    }): Promise<Log[]> {
+        const query = this.supabase.from("logs").select("*");
+
+        if (params.id) {
+            query.eq("id", params.id);
+        }
+
+        if (params.types?.length) {
+            query.in("type", params.types);
+        }
+
+        if (params.userId) {
+            query.eq("userId", params.userId);
+        }
+
+        if (params.roomId) {
+            query.eq("roomId", params.roomId);
+        }
+
+        if (params.since) {
+            query.gte("createdAt", new Date(params.since).toISOString());
+        }
+
+        if (params.until) {
+            query.lte("createdAt", new Date(params.until).toISOString());
+        }
+
+        for (const [key, value] of Object.entries(params.body ?? {})) {
+            query.eq(`body->>${key}`, value);
+        }
+
+        query.order("createdAt", { ascending: false });
+
+        if (params.offset) {
+            // Without a count, up to PostgREST's default of 1000 rows
+            query.range(
+                params.offset,
+                params.offset + (params.count ?? 1000) - 1
+            );
+        } else if (params.count) {
+            query.limit(params.count);
+        }
+
+        const { data, error } = await query;
+
+        if (error) {
+            throw new Error(`Error retrieving logs: ${error.message}`);
+        }
+
+        return data.map((log) => ({
+            ...log,
+            createdAt: new Date(log.createdAt).getTime(),
+        }));
+    }
+
     async getMemories(params: {
         roomId: UUID;
         count?: number;
@@ -0,0 +1,135 @@
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    // 0 is Sunday; 7 is accepted for Sunday when parsing
+    daysOfWeek: Set<number>;
+    // A restricted day of month and day of week match either, as in cron
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+    "@hourly": "0 * * * *",
+    "@daily": "0 0 * * *",
+    "@weekly": "0 0 * * 0",
+    "@monthly": "0 0 1 * *",
+};
+
+const FIELD_RANGES: [number, number][] = [
+    [0, 59],
+    [0, 23],
+    [1, 31],
+    [1, 12],
+    [0, 7],
+];
+
+// Longest search for a matching minute before giving up, e.g. on "0 0 30 2 *"
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(",")) {
+        const [range, stepText] = part.split("/");
+        const step = stepText === undefined ? 1 : Number(stepText);
+
+        let start: number;
+        let end: number;
+        if (range === "*") {
+            [start, end] = [min, max];
+        } else if (range.includes("-")) {
+            [start, end] = range.split("-").map(Number);
+        } else {
+            start = Number(range);
+            // "5/15" steps from 5 to the end of the range
+            end = stepText === undefined ? start : max;
+        }
+
+        if (
+            !Number.isInteger(start) ||
+            !Number.isInteger(end) ||
+            !Number.isInteger(step) ||
+            step < 1 ||
+            start < min ||
+            end > max ||
+            start > end
+        ) {
+            throw new Error(`Invalid cron field "${field}"`);
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Parses a five field cron expression (minute hour day-of-month month
+ * day-of-week) with *, ranges, steps and lists, or one of @hourly, @daily,
+ * @weekly and @monthly.
+ */
+export function parseCron(expression: string): CronSchedule {
+    const fields = (MACROS[expression.trim()] ?? expression)
+        .trim()
+        .split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(
+            `Invalid cron expression "${expression}": expected 5 fields`
+        );
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+        (field, i) => parseField(field, FIELD_RANGES[i])
+    );
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        anyDayOfMonth: fields[2] === "*",
+        anyDayOfWeek: fields[4] === "*",
+    };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+    if (schedule.anyDayOfMonth) return dayOfWeek;
+    if (schedule.anyDayOfWeek) return dayOfMonth;
+    return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * First minute strictly after `after` that the schedule matches, in UTC.
+ * @returns Epoch milliseconds
+ */
+export function nextCronRun(schedule: CronSchedule, after: number): number {
+    const date = new Date(after);
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+    while (date.getTime() - after <= MAX_SEARCH_MS) {
+        if (!schedule.months.has(date.getUTCMonth() + 1)) {
+            date.setUTCMonth(date.getUTCMonth() + 1, 1);
+            date.setUTCHours(0, 0);
+        } else if (!matchesDay(schedule, date)) {
+            date.setUTCDate(date.getUTCDate() + 1);
+            date.setUTCHours(0, 0);
+        } else if (!schedule.hours.has(date.getUTCHours())) {
+            date.setUTCHours(date.getUTCHours() + 1, 0);
+        } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+            date.setUTCMinutes(date.getUTCMinutes() + 1);
+        } else {
+            return date.getTime();
+        }
+    }
+
+    throw new Error("Cron schedule never matches");
+}
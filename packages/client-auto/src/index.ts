@@ -1,19 +1,45 @@
-import { Client, IAgentRuntime } from "@ai16z/eliza";
+import {
+    Client,
+    elizaLogger,
+    getDatabaseCacheManager,
+    IAgentRuntime,
+} from "@ai16z/eliza";
+import { JobScheduler } from "./scheduler.ts";
+
+export * from "./cron.ts";
+export * from "./scheduler.ts";
 
 export class AutoClient {
-    interval: NodeJS.Timeout;
     runtime: IAgentRuntime;
+    scheduler: JobScheduler;
 
     constructor(runtime: IAgentRuntime) {
         this.runtime = runtime;
+        // Job records persist in the database so schedules survive restarts
+        this.scheduler = new JobScheduler(
+            runtime,
+            getDatabaseCacheManager(runtime)
+        );
+
+        // Jobs come from the agent's plugins
+        for (const plugin of runtime.plugins ?? []) {
+            for (const job of plugin.jobs ?? []) {
+                try {
+                    this.scheduler.register(job);
+                } catch (error) {
+                    elizaLogger.error(
+                        `Error registering job ${job.name} from ${plugin.name}:`,
+                        error
+                    );
+                }
+            }
+        }
+
+        this.scheduler.start();
+    }
 
-        // start a loop that runs every x seconds
-        this.interval = setInterval(
-            async () => {
-                console.log("running auto client...");
-            },
-            60 * 60 * 1000
-        ); // 1 hour in milliseconds
+    stop() {
+        this.scheduler.stop();
     }
 }
 
@@ -22,8 +48,9 @@ export const AutoClientInterface: Client = {
         const client = new AutoClient(runtime);
         return client;
     },
-    stop: async (_runtime: IAgentRuntime) => {
-        console.warn("Direct client does not support stopping yet");
+    stop: async (runtime: IAgentRuntime) => {
+        const client = runtime.clients?.auto as AutoClient | undefined;
+        client?.stop();
     },
 };
 
@@ -0,0 +1,301 @@
+import {
+    elizaLogger,
+    IAgentRuntime,
+    ICacheManager,
+    Job,
+    JobState,
+    Memory,
+    stringToUuid,
+} from "@ai16z/eliza";
+import { CronSchedule, nextCronRun, parseCron } from "./cron.ts";
+
+export interface JobRun {
+    startedAt: number;
+    finishedAt: number;
+    status: "success" | "failed";
+    // Text returned by the job, or the error it failed with
+    result: string;
+}
+
+/**
+ * Persisted state of a job, kept in the database adapter so schedules and
+ * history survive restarts.
+ */
+export interface JobRecord {
+    name: string;
+    nextRunAt: number;
+    lastRun?: JobRun;
+    // Newest first, at most SchedulerConfig.historySize runs
+    history: JobRun[];
+    // Consecutive failed runs, driving the backoff
+    failures: number;
+    // Overlap lock; a holder that outlives lockedUntil is presumed dead
+    lockedBy?: string;
+    lockedUntil?: number;
+    // Written with each claim so a claimant can tell its write survived
+    lockVersion?: string;
+    // Values the job stored through JobState.set
+    data: Record<string, unknown>;
+}
+
+export interface SchedulerConfig {
+    // How often due jobs are looked for
+    tickMs: number;
+    // Run timeout for jobs that do not set their own
+    defaultTimeoutMs: number;
+    historySize: number;
+    // Delay after the first failure, doubled for each further one
+    backoffBaseMs: number;
+    backoffMaxMs: number;
+    // Wait between writing a claim and reading it back. Concurrent claims
+    // land within it, and only the last one written runs the job.
+    claimSettleMs: number;
+}
+
+export const SCHEDULER_DEFAULTS: SchedulerConfig = {
+    tickMs: 30 * 1000,
+    defaultTimeoutMs: 30 * 60 * 1000,
+    historySize: 20,
+    backoffBaseMs: 60 * 1000,
+    backoffMaxMs: 6 * 60 * 60 * 1000,
+    claimSettleMs: 1000,
+};
+
+const SCHEDULER_CONFIG = {
+    CACHE_PREFIX: "auto-client/jobs",
+};
+
+interface ScheduledJob {
+    job: Job;
+    cron?: CronSchedule;
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    let timer: NodeJS.Timeout;
+    return Promise.race([
+        promise,
+        new Promise<never>((_, reject) => {
+            timer = setTimeout(
+                () => reject(new Error(`Timed out after ${ms}ms`)),
+                ms
+            );
+        }),
+    ]).finally(() => clearTimeout(timer));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs registered jobs on their cron or interval schedules. A job runs in
+ * one place at a time: runs are skipped while this process is still
+ * running it or another process holds its lock. The store has no
+ * conditional write, so a lock is claimed by writing it with a fresh
+ * version and reading it back after the settle delay; a claim another
+ * process overwrote is given up. Failed runs are retried no sooner than an
+ * exponential backoff.
+ */
+export class JobScheduler {
+    private jobs = new Map<string, ScheduledJob>();
+    private running = new Set<string>();
+    private timer?: NodeJS.Timeout;
+    private config: SchedulerConfig;
+    // Identifies this process's locks
+    private readonly instanceId = stringToUuid(
+        `${Date.now()}-${Math.random()}`
+    );
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private store: ICacheManager,
+        config: Partial<SchedulerConfig> = {},
+        private now: () => number = Date.now
+    ) {
+        this.config = { ...SCHEDULER_DEFAULTS, ...config };
+    }
+
+    register(job: Job): void {
+        if (this.jobs.has(job.name)) {
+            throw new Error(`Job ${job.name} is already registered`);
+        }
+        if (!job.cron && !(job.intervalMs > 0)) {
+            throw new Error(`Job ${job.name} needs a cron or interval`);
+        }
+
+        this.jobs.set(job.name, {
+            job,
+            cron: job.cron ? parseCron(job.cron) : undefined,
+        });
+    }
+
+    start(): void {
+        if (this.timer) return;
+
+        this.timer = setInterval(() => {
+            this.tick().catch((error) =>
+                elizaLogger.error("Error running scheduled jobs:", error)
+            );
+        }, this.config.tickMs);
+        void this.tick();
+    }
+
+    stop(): void {
+        clearInterval(this.timer);
+        this.timer = undefined;
+    }
+
+    async getRecords(): Promise<JobRecord[]> {
+        return Promise.all(
+            [...this.jobs.values()].map((scheduled) => this.load(scheduled))
+        );
+    }
+
+    /**
+     * Runs every job that is due.
+     * @returns Runs made by this tick
+     */
+    async tick(): Promise<JobRun[]> {
+        const runs = await Promise.all(
+            [...this.jobs.values()].map((scheduled) => this.runIfDue(scheduled))
+        );
+        return runs.filter(Boolean);
+    }
+
+    private async runIfDue(scheduled: ScheduledJob): Promise<JobRun | null> {
+        const { name } = scheduled.job;
+        if (this.running.has(name)) return null;
+        this.running.add(name);
+
+        const timeoutMs =
+            scheduled.job.timeoutMs ?? this.config.defaultTimeoutMs;
+        let record: JobRecord;
+        let startedAt: number;
+        try {
+            record = await this.load(scheduled);
+            startedAt = this.now();
+            const lockedElsewhere =
+                record.lockedBy &&
+                record.lockedBy !== this.instanceId &&
+                record.lockedUntil > startedAt;
+            if (record.nextRunAt > startedAt || lockedElsewhere) {
+                this.running.delete(name);
+                return null;
+            }
+
+            const lockVersion = stringToUuid(
+                `${this.instanceId}-${startedAt}-${Math.random()}`
+            );
+            await this.save({
+                ...record,
+                lockedBy: this.instanceId,
+                lockedUntil: startedAt + timeoutMs,
+                lockVersion,
+            });
+            await sleep(this.config.claimSettleMs);
+
+            const claimed = await this.load(scheduled);
+            if (claimed.lockVersion !== lockVersion) {
+                this.running.delete(name);
+                return null;
+            }
+        } catch (error) {
+            this.running.delete(name);
+            throw error;
+        }
+
+        const data = { ...record.data };
+        const execution = this.execute(scheduled.job, data);
+        // A timed out run keeps the job to itself until it settles
+        execution.catch(() => {}).finally(() => this.running.delete(name));
+
+        let run: JobRun;
+        try {
+            const result = await withTimeout(execution, timeoutMs);
+            run = {
+                startedAt,
+                finishedAt: this.now(),
+                status: "success",
+                result,
+            };
+        } catch (error) {
+            elizaLogger.error(`Error in scheduled job ${name}:`, error);
+            run = {
+                startedAt,
+                finishedAt: this.now(),
+                status: "failed",
+                result: error instanceof Error ? error.message : String(error),
+            };
+        }
+
+        const failures = run.status === "failed" ? record.failures + 1 : 0;
+        let nextRunAt = this.nextScheduledRun(scheduled, run.finishedAt);
+        if (failures > 0) {
+            const backoffMs = Math.min(
+                this.config.backoffBaseMs * 2 ** (failures - 1),
+                this.config.backoffMaxMs
+            );
+            nextRunAt = Math.max(nextRunAt, run.finishedAt + backoffMs);
+        }
+
+        await this.save({
+            name,
+            nextRunAt,
+            lastRun: run,
+            history: [run, ...record.history].slice(0, this.config.historySize),
+            failures,
+            data,
+        });
+        return run;
+    }
+
+    private async execute(
+        job: Job,
+        data: Record<string, unknown>
+    ): Promise<string> {
+        const message: Memory = {
+            userId: this.runtime.agentId,
+            agentId: this.runtime.agentId,
+            roomId: stringToUuid(`auto-client-${this.runtime.agentId}`),
+            content: { text: `Scheduled run of ${job.name}`, source: "auto" },
+        };
+        const state = (await this.runtime.composeState(message)) as JobState;
+        state.get = <T>(key: string) => data[key] as T | undefined;
+        state.set = (key: string, value: unknown) => {
+            data[key] = value;
+        };
+
+        return job.run(this.runtime, message, state);
+    }
+
+    private nextScheduledRun(scheduled: ScheduledJob, after: number): number {
+        return scheduled.cron
+            ? nextCronRun(scheduled.cron, after)
+            : after + scheduled.job.intervalMs;
+    }
+
+    private key(name: string): string {
+        return `${SCHEDULER_CONFIG.CACHE_PREFIX}/${name}`;
+    }
+
+    // New interval jobs run on the first tick, cron jobs at their next match
+    private async load(scheduled: ScheduledJob): Promise<JobRecord> {
+        const { name } = scheduled.job;
+        const stored = await this.store.get<JobRecord>(this.key(name));
+        if (stored) return stored;
+
+        const record: JobRecord = {
+            name,
+            nextRunAt: scheduled.cron
+                ? nextCronRun(scheduled.cron, this.now())
+                : this.now(),
+            history: [],
+            failures: 0,
+            data: {},
+        };
+        await this.save(record);
+        return record;
+    }
+
+    private async save(record: JobRecord): Promise<void> {
+        await this.store.set(this.key(record.name), record);
+    }
+}
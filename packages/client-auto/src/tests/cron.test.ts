@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { nextCronRun, parseCron } from "../cron.ts";
+
+const at = (iso: string) => Date.parse(iso);
+const next = (expression: string, after: string) =>
+    new Date(nextCronRun(parseCron(expression), at(after))).toISOString();
+
+describe("parseCron", () => {
+    it("should parse ranges, steps and lists", () => {
+        const schedule = parseCron("*/15 9-17 1,15 1-12/3 *");
+
+        expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...schedule.hours]).toEqual([
+            9, 10, 11, 12, 13, 14, 15, 16, 17,
+        ]);
+        expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+        expect([...schedule.months]).toEqual([1, 4, 7, 10]);
+        expect(schedule.anyDayOfMonth).toBe(false);
+        expect(schedule.anyDayOfWeek).toBe(true);
+    });
+
+    it("should step from a start value to the end of the range", () => {
+        expect([...parseCron("5/20 * * * *").minutes]).toEqual([5, 25, 45]);
+    });
+
+    it("should read 7 as Sunday", () => {
+        expect([...parseCron("0 0 * * 5-7").daysOfWeek].sort()).toEqual([
+            0, 5, 6,
+        ]);
+    });
+
+    it("should expand macros", () => {
+        expect(parseCron("@weekly")).toEqual(parseCron("0 0 * * 0"));
+    });
+
+    it("should reject malformed expressions", () => {
+        expect(() => parseCron("* * * *")).toThrow("expected 5 fields");
+        expect(() => parseCron("60 * * * *")).toThrow(
+            'Invalid cron field "60"'
+        );
+        expect(() => parseCron("*/0 * * * *")).toThrow("Invalid cron field");
+        expect(() => parseCron("* 5-2 * * *")).toThrow("Invalid cron field");
+        expect(() => parseCron("* * 0 * *")).toThrow("Invalid cron field");
+    });
+});
+
+describe("nextCronRun", () => {
+    it("should return the next matching minute after the given time", () => {
+        expect(next("*/15 * * * *", "2024-03-10T10:07:30Z")).toBe(
+            "2024-03-10T10:15:00.000Z"
+        );
+        // Strictly after, even on a matching minute
+        expect(next("*/15 * * * *", "2024-03-10T10:15:00Z")).toBe(
+            "2024-03-10T10:30:00.000Z"
+        );
+    });
+
+    it("should roll over hours, days and months", () => {
+        expect(next("30 9-17 * * *", "2024-03-10T17:45:00Z")).toBe(
+            "2024-03-11T09:30:00.000Z"
+        );
+        expect(next("0 0 1 * *", "2024-12-15T00:00:00Z")).toBe(
+            "2025-01-01T00:00:00.000Z"
+        );
+        expect(next("0 12 29 2 *", "2023-03-01T00:00:00Z")).toBe(
+            "2024-02-29T12:00:00.000Z"
+        );
+    });
+
+    it("should run on the listed days of the week", () => {
+        // 2024-03-10 is a Sunday
+        expect(next("0 8 * * 1,3", "2024-03-10T12:00:00Z")).toBe(
+            "2024-03-11T08:00:00.000Z"
+        );
+        expect(next("0 8 * * 1,3", "2024-03-11T08:00:00Z")).toBe(
+            "2024-03-13T08:00:00.000Z"
+        );
+        expect(next("@weekly", "2024-03-10T00:00:00Z")).toBe(
+            "2024-03-17T00:00:00.000Z"
+        );
+    });
+
+    it("should match either day field when both are restricted", () => {
+        // The 15th, or any Friday
+        expect(next("0 0 15 * 5", "2024-03-10T00:00:00Z")).toBe(
+            "2024-03-15T00:00:00.000Z"
+        );
+        expect(next("0 0 15 * 5", "2024-03-15T00:00:00Z")).toBe(
+            "2024-03-22T00:00:00.000Z"
+        );
+        expect(next("0 0 20 * 1", "2024-03-10T00:00:00Z")).toBe(
+            "2024-03-11T00:00:00.000Z"
+        );
+    });
+
+    it("should give up on schedules that never match", () => {
+        expect(() =>
+            nextCronRun(parseCron("0 0 30 2 *"), at("2024-01-01T00:00:00Z"))
+        ).toThrow("Cron schedule never matches");
+    });
+});
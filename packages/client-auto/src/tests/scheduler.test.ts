@@ -0,0 +1,172 @@
+import { describe, expect, it, vi } from "vitest";
+import { IAgentRuntime, ICacheManager, Job } from "@ai16z/eliza";
+import { JobScheduler } from "../scheduler.ts";
+
+vi.mock("@ai16z/eliza", () => ({
+    elizaLogger: { error: vi.fn() },
+    stringToUuid: (value: string) => value,
+}));
+
+// Shared store whose reads and writes take a moment, like a database
+const sharedStore = (): ICacheManager => {
+    const store = new Map<string, string>();
+    const io = () => new Promise((resolve) => setTimeout(resolve, 1));
+    return {
+        get: async <T>(key: string) => {
+            await io();
+            const value = store.get(key);
+            return value === undefined ? undefined : (JSON.parse(value) as T);
+        },
+        set: async <T>(key: string, value: T) => {
+            await io();
+            store.set(key, JSON.stringify(value));
+        },
+        delete: async (key: string) => {
+            await io();
+            store.delete(key);
+        },
+    };
+};
+
+const runtime = {
+    agentId: "agent",
+    composeState: async () => ({}),
+} as unknown as IAgentRuntime;
+
+describe("JobScheduler", () => {
+    it("should run a due job once when two schedulers race for it", async () => {
+        const store = sharedStore();
+        const run = vi.fn(async () => "done");
+        const job: Job = { name: "rebalance", intervalMs: 60_000, run };
+        const schedulers = [1, 2].map((i) => {
+            const scheduler = new JobScheduler(runtime, store, {
+                claimSettleMs: 20,
+            });
+            scheduler.register(job);
+            return scheduler;
+        });
+
+        const runs = await Promise.all(
+            schedulers.map((scheduler) => scheduler.tick())
+        );
+
+        expect(run).toHaveBeenCalledTimes(1);
+        expect(runs.flat()).toHaveLength(1);
+        const [record] = await schedulers[0].getRecords();
+        expect(record.lastRun?.status).toBe("success");
+        expect(record.lockedBy).toBeUndefined();
+    });
+
+    it("should leave a job locked by another scheduler alone", async () => {
+        const store = sharedStore();
+        const slow = vi.fn(
+            () => new Promise<string>((resolve) => setTimeout(resolve, 50))
+        );
+        const job: Job = { name: "collect", intervalMs: 60_000, run: slow };
+        const [first, second] = [1, 2].map(() => {
+            const scheduler = new JobScheduler(runtime, store, {
+                claimSettleMs: 5,
+            });
+            scheduler.register(job);
+            return scheduler;
+        });
+
+        const running = first.tick();
+        // Let the first claim settle before the second scheduler looks
+        await new Promise((resolve) => setTimeout(resolve, 25));
+        expect(await second.tick()).toEqual([]);
+
+        await running;
+        expect(slow).toHaveBeenCalledTimes(1);
+    });
+
+    it("should back off after each failure and reset on success", async () => {
+        let now = 0;
+        const run = vi.fn(async (): Promise<string> => {
+            throw new Error("rpc down");
+        });
+        const job: Job = { name: "collect", intervalMs: 60_000, run };
+        const scheduler = new JobScheduler(
+            runtime,
+            sharedStore(),
+            {
+                claimSettleMs: 0,
+                backoffBaseMs: 10 * 60_000,
+                backoffMaxMs: 30 * 60_000,
+            },
+            () => now
+        );
+        scheduler.register(job);
+        const nextRunAt = async () =>
+            (await scheduler.getRecords())[0].nextRunAt;
+
+        await scheduler.tick();
+        expect(await nextRunAt()).toBe(10 * 60_000);
+
+        // Not due yet
+        now = 5 * 60_000;
+        expect(await scheduler.tick()).toEqual([]);
+
+        now = 10 * 60_000;
+        await scheduler.tick();
+        expect(await nextRunAt()).toBe(30 * 60_000);
+
+        // Capped at backoffMaxMs
+        now = 30 * 60_000;
+        await scheduler.tick();
+        expect(await nextRunAt()).toBe(60 * 60_000);
+        expect((await scheduler.getRecords())[0].failures).toBe(3);
+
+        run.mockResolvedValueOnce("recovered");
+        now = 60 * 60_000;
+        await scheduler.tick();
+        const [record] = await scheduler.getRecords();
+        expect(record.failures).toBe(0);
+        expect(record.nextRunAt).toBe(61 * 60_000);
+    });
+
+    it("should keep history and job data across a restart", async () => {
+        let now = 0;
+        const store = sharedStore();
+        const job: Job = {
+            name: "snapshot",
+            intervalMs: 60_000,
+            run: async (_runtime, _message, state) => {
+                const count = (state.get<number>("count") ?? 0) + 1;
+                state.set("count", count);
+                return `snapshot ${count}`;
+            },
+        };
+        const start = () => {
+            const scheduler = new JobScheduler(
+                runtime,
+                store,
+                { claimSettleMs: 0, historySize: 2 },
+                () => now
+            );
+            scheduler.register(job);
+            return scheduler;
+        };
+
+        const before = start();
+        await before.tick();
+        now = 60_000;
+        await before.tick();
+        before.stop();
+
+        const after = start();
+        // Not due again until a minute after the last run
+        now = 90_000;
+        expect(await after.tick()).toEqual([]);
+        now = 120_000;
+        await after.tick();
+
+        const [record] = await after.getRecords();
+        expect(record.data).toEqual({ count: 3 });
+        expect(record.history.map((run) => run.result)).toEqual([
+            "snapshot 3",
+            "snapshot 2",
+        ]);
+        expect(record.nextRunAt).toBe(180_000);
+    });
+});
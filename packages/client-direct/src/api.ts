@@ -1,11 +1,52 @@
 import express from "express";
 import bodyParser from "body-parser";
 import cors from "cors";
+import { createHash, timingSafeEqual } from "crypto";
 
-import { AgentRuntime } from "@ai16z/eliza";
+import { AgentRuntime, AuditKind, ModelProviderName, UUID } from "@ai16z/eliza";
 
 import { REST, Routes } from "discord.js";
 
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+/**
+ * Audit records hold prompts, trades and wallet activity, so their routes
+ * need "Authorization: Bearer <token>" matching the agent's AUDIT_API_TOKEN
+ * setting, and are closed while it is unset.
+ */
+function requireAuditToken(agents: Map<string, AgentRuntime>) {
+    return (
+        req: express.Request,
+        res: express.Response,
+        next: express.NextFunction
+    ) => {
+        const runtime = agents.get(req.params.agentId);
+        if (!runtime) {
+            res.status(404).json({ error: "Runtime not found" });
+            return;
+        }
+
+        const token = runtime.getSetting("AUDIT_API_TOKEN");
+        if (!token) {
+            res.status(403).json({ error: "Audit API is not enabled" });
+            return;
+        }
+
+        const [scheme, given] = (req.headers.authorization ?? "").split(" ");
+        // Hashed to equal lengths for the constant time comparison
+        if (
+            scheme !== "Bearer" ||
+            !given ||
+            !timingSafeEqual(digest(given), digest(token))
+        ) {
+            res.status(401).json({ error: "Unauthorized" });
+            return;
+        }
+
+        next();
+    };
+}
+
 export function createApiRouter(agents: Map<string, AgentRuntime>) {
     const router = express.Router();
 
@@ -66,5 +107,97 @@ export function createApiRouter(agents: Map<string, AgentRuntime>) {
         }
     });
 
+    router.use("/agents/:agentId/audit", requireAuditToken(agents));
+
+    router.get("/agents/:agentId/audit", async (req, res) => {
+        const runtime = agents.get(req.params.agentId);
+
+        if (!runtime) {
+            res.status(404).json({ error: "Runtime not found" });
+            return;
+        }
+
+        const kind = req.query.kind as AuditKind | undefined;
+        if (kind && !Object.values(AuditKind).includes(kind)) {
+            res.status(400).json({ error: `Unknown audit kind ${kind}` });
+            return;
+        }
+        const number = (value: unknown) =>
+            value === undefined ? undefined : Number(value);
+
+        try {
+            const records = await runtime.audit.query({
+                kind,
+                name: req.query.name as string | undefined,
+                traceId: req.query.traceId as UUID | undefined,
+                userId: req.query.userId as UUID | undefined,
+                roomId: req.query.roomId as UUID | undefined,
+                since: number(req.query.since),
+                until: number(req.query.until),
+                count: number(req.query.count),
+                offset: number(req.query.offset),
+            });
+            res.json({ records });
+        } catch (error) {
+            console.error("Error querying audit log:", error);
+            res.status(500).json({ error: "Failed to query audit log" });
+        }
+    });
+
+    router.get("/agents/:agentId/audit/:recordId", async (req, res) => {
+        const runtime = agents.get(req.params.agentId);
+
+        if (!runtime) {
+            res.status(404).json({ error: "Runtime not found" });
+            return;
+        }
+
+        const record = await runtime.audit.get(req.params.recordId as UUID);
+        if (!record) {
+            res.status(404).json({ error: "Audit record not found" });
+            return;
+        }
+
+        res.json(record);
+    });
+
+    // Replays a recorded model call with the agent's configured API key,
+    // body: { provider?, model? }
+    router.post("/agents/:agentId/audit/:recordId/replay", async (req, res) => {
+        const runtime = agents.get(req.params.agentId);
+
+        if (!runtime) {
+            res.status(404).json({ error: "Runtime not found" });
+            return;
+        }
+
+        const { provider, model } = req.body ?? {};
+        if (provider && !Object.values(ModelProviderName).includes(provider)) {
+            res.status(400).json({ error: `Unknown provider ${provider}` });
+            return;
+        }
+
+        const record = await runtime.audit.get(req.params.recordId as UUID);
+        if (!record) {
+            res.status(404).json({ error: "Audit record not found" });
+            return;
+        }
+        if (record.kind !== AuditKind.MODEL) {
+            res.status(400).json({
+                error: "Only model calls can be replayed",
+            });
+            return;
+        }
+
+        try {
+            res.json(
+                await runtime.audit.replay(record.id, { provider, model })
+            );
+        } catch (error) {
+            console.error("Error replaying model call:", error);
+            res.status(500).json({ error: error.message });
+        }
+    });
+
     return router;
 }
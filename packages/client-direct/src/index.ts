@@ -193,6 +193,21 @@ export class DirectClient {
 
                 await runtime.messageManager.createMemory(memory);
 
+                // Approval replies are answered here rather than by the model
+                const approvalReplies: Content[] = [];
+                if (
+                    await runtime.approvals.handleMessage(
+                        memory,
+                        async (reply) => {
+                            approvalReplies.push(reply);
+                            return [memory];
+                        }
+                    )
+                ) {
+                    res.json(approvalReplies);
+                    return;
+                }
+
                 const state = await runtime.composeState(userMessage, {
                     agentName: runtime.character.name,
                 });
@@ -301,6 +301,66 @@ export class MessageManager {
                 );
             }
 
+            const callback: HandlerCallback = async (
+                content: Content,
+                files: any[]
+            ) => {
+                try {
+                    if (message.id && !content.inReplyTo) {
+                        content.inReplyTo = stringToUuid(
+                            message.id + "-" + this.runtime.agentId
+                        );
+                    }
+                    const messages = await sendMessageInChunks(
+                        message.channel as TextChannel,
+                        content.text,
+                        message.id,
+                        files
+                    );
+
+                    const memories: Memory[] = [];
+                    for (const m of messages) {
+                        let action = content.action;
+                        // If there's only one message or it's the last message, keep the original action
+                        // For multiple messages, set all but the last to 'CONTINUE'
+                        if (
+                            messages.length > 1 &&
+                            m !== messages[messages.length - 1]
+                        ) {
+                            action = "CONTINUE";
+                        }
+
+                        const memory: Memory = {
+                            id: stringToUuid(m.id + "-" + this.runtime.agentId),
+                            userId: this.runtime.agentId,
+                            agentId: this.runtime.agentId,
+                            content: {
+                                ...content,
+                                action,
+                                inReplyTo: messageId,
+                                url: m.url,
+                            },
+                            roomId,
+                            embedding: getEmbeddingZeroVector(),
+                            createdAt: m.createdTimestamp,
+                        };
+                        memories.push(memory);
+                    }
+                    for (const m of memories) {
+                        await this.runtime.messageManager.createMemory(m);
+                    }
+                    return memories;
+                } catch (error) {
+                    console.error("Error sending message:", error);
+                    return [];
+                }
+            };
+
+            // Approval replies are answered here rather than by the model
+            if (await this.runtime.approvals.handleMessage(memory, callback)) {
+                return;
+            }
+
             if (!shouldIgnore) {
                 shouldIgnore = await this._shouldIgnore(message);
             }
@@ -358,63 +418,6 @@ export class MessageManager {
                     return;
                 }
 
-                const callback: HandlerCallback = async (
-                    content: Content,
-                    files: any[]
-                ) => {
-                    try {
-                        if (message.id && !content.inReplyTo) {
-                            content.inReplyTo = stringToUuid(
-                                message.id + "-" + this.runtime.agentId
-                            );
-                        }
-                        const messages = await sendMessageInChunks(
-                            message.channel as TextChannel,
-                            content.text,
-                            message.id,
-                            files
-                        );
-
-                        const memories: Memory[] = [];
-                        for (const m of messages) {
-                            let action = content.action;
-                            // If there's only one message or it's the last message, keep the original action
-                            // For multiple messages, set all but the last to 'CONTINUE'
-                            if (
-                                messages.length > 1 &&
-                                m !== messages[messages.length - 1]
-                            ) {
-                                action = "CONTINUE";
-                            }
-
-                            const memory: Memory = {
-                                id: stringToUuid(
-                                    m.id + "-" + this.runtime.agentId
-                                ),
-                                userId: this.runtime.agentId,
-                                agentId: this.runtime.agentId,
-                                content: {
-                                    ...content,
-                                    action,
-                                    inReplyTo: messageId,
-                                    url: m.url,
-                                },
-                                roomId,
-                                embedding: getEmbeddingZeroVector(),
-                                createdAt: m.createdTimestamp,
-                            };
-                            memories.push(memory);
-                        }
-                        for (const m of memories) {
-                            await this.runtime.messageManager.createMemory(m);
-                        }
-                        return memories;
-                    } catch (error) {
-                        console.error("Error sending message:", error);
-                        return [];
-                    }
-                };
-
                 const responseMessages = await callback(responseContent);
 
                 state = await this.runtime.updateRecentMessageState(state);
@@ -387,6 +387,8 @@ export class MessageManager {
             const content: Content = {
                 text: fullText,
                 source: "telegram",
+                // Raw chat ID, so plugins can message the chat later
+                chatId: ctx.chat?.id.toString(),
                 inReplyTo:
                     "reply_to_message" in message && message.reply_to_message
                         ? stringToUuid(
@@ -411,6 +413,57 @@ export class MessageManager {
             // Create memory
             await this.runtime.messageManager.createMemory(memory);
 
+            // Send response in chunks
+            const callback: HandlerCallback = async (content: Content) => {
+                const sentMessages = await this.sendMessageInChunks(
+                    ctx,
+                    content.text,
+                    message.message_id
+                );
+
+                const memories: Memory[] = [];
+
+                // Create memories for each sent message
+                for (let i = 0; i < sentMessages.length; i++) {
+                    const sentMessage = sentMessages[i];
+                    const isLastMessage = i === sentMessages.length - 1;
+
+                    const memory: Memory = {
+                        id: stringToUuid(
+                            sentMessage.message_id.toString() +
+                                "-" +
+                                this.runtime.agentId
+                        ),
+                        agentId,
+                        userId: agentId,
+                        roomId,
+                        content: {
+                            ...content,
+                            text: sentMessage.text,
+                            inReplyTo: messageId,
+                        },
+                        createdAt: sentMessage.date * 1000,
+                        embedding: getEmbeddingZeroVector(),
+                    };
+
+                    // Set action to CONTINUE for all messages except the last one
+                    // For the last message, use the original action from the response content
+                    memory.content.action = !isLastMessage
+                        ? "CONTINUE"
+                        : content.action;
+
+                    await this.runtime.messageManager.createMemory(memory);
+                    memories.push(memory);
+                }
+
+                return memories;
+            };
+
+            // Approval replies are answered here rather than by the model
+            if (await this.runtime.approvals.handleMessage(memory, callback)) {
+                return;
+            }
+
             // Update state with the new memory
             let state = await this.runtime.composeState(memory);
             state = await this.runtime.updateRecentMessageState(state);
@@ -438,52 +491,6 @@ export class MessageManager {
 
                 if (!responseContent || !responseContent.text) return;
 
-                // Send response in chunks
-                const callback: HandlerCallback = async (content: Content) => {
-                    const sentMessages = await this.sendMessageInChunks(
-                        ctx,
-                        content.text,
-                        message.message_id
-                    );
-
-                    const memories: Memory[] = [];
-
-                    // Create memories for each sent message
-                    for (let i = 0; i < sentMessages.length; i++) {
-                        const sentMessage = sentMessages[i];
-                        const isLastMessage = i === sentMessages.length - 1;
-
-                        const memory: Memory = {
-                            id: stringToUuid(
-                                sentMessage.message_id.toString() +
-                                    "-" +
-                                    this.runtime.agentId
-                            ),
-                            agentId,
-                            userId: agentId,
-                            roomId,
-                            content: {
-                                ...content,
-                                text: sentMessage.text,
-                                inReplyTo: messageId,
-                            },
-                            createdAt: sentMessage.date * 1000,
-                            embedding: getEmbeddingZeroVector(),
-                        };
-
-                        // Set action to CONTINUE for all messages except the last one
-                        // For the last message, use the original action from the response content
-                        memory.content.action = !isLastMessage
-                            ? "CONTINUE"
-                            : content.action;
-
-                        await this.runtime.messageManager.createMemory(memory);
-                        memories.push(memory);
-                    }
-
-                    return memories;
-                };
-
                 // Execute callback to send messages and log memories
                 const responseMessages = await callback(responseContent);
 
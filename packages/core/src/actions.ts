@@ -1,6 +1,32 @@
 import { names, uniqueNamesGenerator } from "unique-names-generator";
+import {
+    ZodArray,
+    ZodDefault,
+    ZodEffects,
+    ZodEnum,
+    ZodNullable,
+    ZodObject,
+    ZodOptional,
+    ZodTypeAny,
+} from "zod";
 import { Action, ActionExample } from "./types.ts";
 
+/**
+ * Thrown when an action name from a model response matches more than one
+ * registered action, so that none of them is run.
+ */
+export class AmbiguousActionError extends Error {
+    constructor(
+        public readonly requested: string,
+        public readonly matches: string[]
+    ) {
+        super(
+            `Action "${requested}" is ambiguous, it matches ${matches.join(", ")}`
+        );
+        this.name = "AmbiguousActionError";
+    }
+}
+
 /**
  * Composes a set of example conversations based on provided actions and a specified count.
  * It randomly selects examples from the provided actions and formats them with generated names.
@@ -59,7 +85,7 @@ export const composeActionExamples = (actionsData: Action[], count: number) => {
  * @returns A comma-separated string of action names.
  */
 export function formatActionNames(actions: Action[]) {
-    return actions
+    return [...actions]
         .sort(() => 0.5 - Math.random())
         .map((action: Action) => `${action.name}`)
         .join(", ");
@@ -71,8 +97,89 @@ export function formatActionNames(actions: Action[]) {
  * @returns A detailed string of actions, including names and descriptions.
  */
 export function formatActions(actions: Action[]) {
-    return actions
+    return [...actions]
         .sort(() => 0.5 - Math.random())
-        .map((action: Action) => `${action.name}: ${action.description}`)
+        .map((action: Action) =>
+            action.schema
+                ? `${action.name}: ${action.description} Parameters: ${describeSchema(action.schema)}`
+                : `${action.name}: ${action.description}`
+        )
         .join(",\n");
 }
+
+/**
+ * Describes a parameter schema for the model, e.g.
+ * `{ amount: number (in SOL), token?: string }`.
+ * @param schema - A zod schema, usually an object of parameters.
+ * @returns A compact type description.
+ */
+export function describeSchema(schema: ZodTypeAny): string {
+    if (
+        schema instanceof ZodOptional ||
+        schema instanceof ZodNullable ||
+        schema instanceof ZodDefault
+    ) {
+        return describeSchema(schema._def.innerType);
+    }
+    if (schema instanceof ZodEffects) {
+        return describeSchema(schema.innerType());
+    }
+    if (schema instanceof ZodEnum) {
+        return schema.options
+            .map((option: string) => JSON.stringify(option))
+            .join(" | ");
+    }
+    if (schema instanceof ZodArray) {
+        return `${describeSchema(schema.element)}[]`;
+    }
+    if (schema instanceof ZodObject) {
+        const fields = Object.entries(
+            schema.shape as Record<string, ZodTypeAny>
+        ).map(
+            ([key, field]) =>
+                `${key}${field.isOptional() ? "?" : ""}: ${describeSchema(field)}${field.description ? ` (${field.description})` : ""}`
+        );
+        return `{ ${fields.join(", ")} }`;
+    }
+    return schema._def.typeName.replace(/^Zod/, "").toLowerCase();
+}
+
+// Case, underscores and punctuation are not significant: "send_token",
+// "SEND-TOKEN" and "SendToken" name the same action
+const normalizeActionName = (name: string) =>
+    name.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Resolves an action name from a model response to a registered action. Only
+ * whole names match, so "SWAP" never resolves to EXECUTE_SWAP_DAO. An action's
+ * own name takes precedence over another action's simile.
+ * @param actions - The registered actions.
+ * @param name - The action name the model responded with.
+ * @returns The matching action, or null when there is none.
+ * @throws AmbiguousActionError when several actions match equally well.
+ */
+export function resolveAction(actions: Action[], name: string): Action | null {
+    const normalized = normalizeActionName(name);
+    if (!normalized) return null;
+
+    const byName = actions.filter(
+        (action) => normalizeActionName(action.name) === normalized
+    );
+    const bySimile = actions.filter((action) =>
+        (action.similes ?? []).some(
+            (simile) => normalizeActionName(simile) === normalized
+        )
+    );
+
+    for (const matches of [byName, bySimile]) {
+        const distinct = [...new Set(matches)];
+        if (distinct.length > 1) {
+            throw new AmbiguousActionError(
+                name,
+                distinct.map((action) => action.name)
+            );
+        }
+        if (distinct.length === 1) return distinct[0];
+    }
+    return null;
+}
@@ -0,0 +1,335 @@
+import { v4 as uuidv4 } from "uuid";
+import { getDatabaseCacheManager } from "./cache.ts";
+import { elizaLogger } from "./logger.ts";
+import {
+    Action,
+    ActionRisk,
+    AuditKind,
+    HandlerCallback,
+    IAgentRuntime,
+    IApprovalManager,
+    ICacheManager,
+    Memory,
+    PendingApproval,
+    UUID,
+} from "./types.ts";
+import { stringToUuid } from "./uuid.ts";
+
+export const APPROVAL_DEFAULTS = {
+    // Lowest risk level that needs approval, APPROVAL_MIN_RISK
+    minRisk: ActionRisk.HIGH,
+    // How long a request can be approved for, APPROVAL_TIMEOUT_MINUTES
+    timeoutMinutes: 15,
+};
+
+const APPROVAL_CONFIG = {
+    CACHE_PREFIX: "approvals",
+    // Expired requests are kept this long to tell late approvers they expired
+    RETENTION_MS: 24 * 60 * 60 * 1000,
+    // Ids of requests not yet answered or swept
+    INDEX_KEY: "approvals/pending",
+    SWEEP_INTERVAL_MS: 60 * 1000,
+};
+
+const RISK_ORDER = [ActionRisk.LOW, ActionRisk.MEDIUM, ActionRisk.HIGH];
+
+// The whole message must be the reply, so chat mentioning approval is not one
+const REPLY_PATTERN = /^(approve|reject)\s+([0-9a-f]{8})$/i;
+
+/**
+ * Human-in-the-loop approval for risky actions. Instead of running, an
+ * action at or above the configured risk level is stored as a pending
+ * approval and announced in its room. It runs once an approver, one of the
+ * APPROVAL_USERS platform user ids, replies "APPROVE <id>" in that room, and
+ * is dropped on "REJECT <id>" or when it expires. Expired requests are
+ * swept every minute and the room that asked is told they lapsed.
+ */
+export class ApprovalManager implements IApprovalManager {
+    // Requests being answered, so two quick approvals cannot run one twice
+    private answering = new Set<string>();
+    // Where each request was announced, to report its expiry there too
+    private callbacks = new Map<string, HandlerCallback>();
+    // Serializes updates of the pending index
+    private queue: Promise<unknown> = Promise.resolve();
+    private sweepTimer?: ReturnType<typeof setInterval>;
+    private store?: ICacheManager;
+
+    constructor(
+        private runtime: IAgentRuntime,
+        store?: ICacheManager,
+        private now: () => number = Date.now
+    ) {
+        this.store = store;
+    }
+
+    requiresApproval(action: Action): boolean {
+        if (!action.risk) return false;
+        return (
+            RISK_ORDER.indexOf(action.risk) >=
+            RISK_ORDER.indexOf(this.getMinRisk())
+        );
+    }
+
+    async request(
+        action: Action,
+        message: Memory,
+        options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<PendingApproval | null> {
+        if (this.getApprovers().size === 0) {
+            elizaLogger.warn(
+                `Not running ${action.name}: it needs approval and APPROVAL_USERS is not set`
+            );
+            await callback?.({
+                text: `${action.name} needs approval, but no approvers are configured.`,
+            });
+            return null;
+        }
+
+        const createdAt = this.now();
+        const timeoutMinutes = this.getTimeoutMinutes();
+        const pending: PendingApproval = {
+            id: uuidv4().slice(0, 8),
+            action: action.name,
+            risk: action.risk ?? ActionRisk.HIGH,
+            roomId: message.roomId,
+            requestedBy: message.userId,
+            // Embeddings are not needed to run the action later
+            message: { ...message, embedding: undefined },
+            options,
+            createdAt,
+            expiresAt: createdAt + timeoutMinutes * 60 * 1000,
+        };
+        await this.save(pending);
+        await this.updateIndex((ids) => [...ids, pending.id]);
+        if (callback) this.callbacks.set(pending.id, callback);
+
+        elizaLogger.info(
+            `Action ${action.name} is waiting for approval ${pending.id}`
+        );
+        await callback?.({
+            text: `⚠️ ${action.name} is a ${pending.risk} risk action and needs approval.\nAn approver can reply "APPROVE ${pending.id}" or "REJECT ${pending.id}" within ${timeoutMinutes} minutes.`,
+        });
+        return pending;
+    }
+
+    async handleMessage(
+        message: Memory,
+        callback?: HandlerCallback
+    ): Promise<boolean> {
+        const match = message.content?.text?.trim().match(REPLY_PATTERN);
+        if (!match) return false;
+
+        const approve = match[1].toLowerCase() === "approve";
+        const id = match[2].toLowerCase();
+        const reply = async (text: string) => {
+            await callback?.({ text });
+        };
+
+        if (this.answering.has(id)) return true;
+        this.answering.add(id);
+        try {
+            const pending = await this.getStore().get<PendingApproval>(
+                this.key(id)
+            );
+            if (!pending || pending.roomId !== message.roomId) {
+                await reply(`There is no pending approval ${id} here.`);
+                return true;
+            }
+            if (!this.getApprovers().has(message.userId)) {
+                elizaLogger.warn(
+                    `User ${message.userId} is not allowed to answer approval ${id}`
+                );
+                await reply(
+                    `You are not allowed to approve ${pending.action}.`
+                );
+                return true;
+            }
+
+            await this.getStore().delete(this.key(id));
+            this.callbacks.delete(id);
+            if (pending.expiresAt <= this.now()) {
+                await reply(
+                    `Approval ${id} for ${pending.action} has expired.`
+                );
+                return true;
+            }
+            if (!approve) {
+                elizaLogger.info(`Approval ${id} was rejected`);
+                await reply(`${pending.action} (${id}) was rejected.`);
+                return true;
+            }
+
+            elizaLogger.info(
+                `Approval ${id} was approved by ${message.userId}`
+            );
+            await this.run(pending, callback);
+            return true;
+        } finally {
+            this.answering.delete(id);
+        }
+    }
+
+    start(): void {
+        this.sweepTimer ??= setInterval(() => {
+            this.sweep().catch((error) =>
+                elizaLogger.error("Error sweeping expired approvals:", error)
+            );
+        }, APPROVAL_CONFIG.SWEEP_INTERVAL_MS);
+    }
+
+    stop(): void {
+        clearInterval(this.sweepTimer);
+        this.sweepTimer = undefined;
+    }
+
+    /**
+     * Drops expired requests from the pending index and tells the room that
+     * asked for each one. The requests stay stored until their retention
+     * ends, so late approvers still hear that they expired.
+     * @returns The requests that expired
+     */
+    async sweep(): Promise<PendingApproval[]> {
+        const expired: PendingApproval[] = [];
+        await this.updateIndex(async (ids) => {
+            const remaining: string[] = [];
+            for (const id of ids) {
+                const pending = await this.getStore().get<PendingApproval>(
+                    this.key(id)
+                );
+                // Answered requests are no longer stored
+                if (!pending) continue;
+                if (pending.expiresAt > this.now() || this.answering.has(id)) {
+                    remaining.push(id);
+                } else {
+                    expired.push(pending);
+                }
+            }
+            return remaining;
+        });
+
+        for (const pending of expired) {
+            elizaLogger.info(
+                `Approval ${pending.id} for ${pending.action} expired`
+            );
+            const callback = this.callbacks.get(pending.id);
+            this.callbacks.delete(pending.id);
+            if (!callback) continue;
+            try {
+                await callback({
+                    text: `Approval ${pending.id} for ${pending.action} expired without an answer, so it was not run.`,
+                });
+            } catch (error) {
+                elizaLogger.error(
+                    `Error reporting expired approval ${pending.id}:`,
+                    error
+                );
+            }
+        }
+        return expired;
+    }
+
+    private async run(
+        pending: PendingApproval,
+        callback?: HandlerCallback
+    ): Promise<void> {
+        const action = this.runtime.actions.find(
+            (a) => a.name === pending.action
+        );
+        if (!action?.handler) {
+            elizaLogger.error(
+                `Approved action ${pending.action} is not registered`
+            );
+            await callback?.({
+                text: `${pending.action} is no longer available.`,
+            });
+            return;
+        }
+
+        try {
+            elizaLogger.info(
+                `Executing handler for approved action: ${action.name}`
+            );
+            const state = await this.runtime.composeState(pending.message);
+            await this.runtime.audit.track(
+                {
+                    kind: AuditKind.ACTION,
+                    name: action.name,
+                    message: pending.message,
+                    input: {
+                        message: pending.message.content,
+                        approval: pending.id,
+                        options: pending.options,
+                    },
+                    callback,
+                },
+                (callback) =>
+                    action.handler(
+                        this.runtime,
+                        pending.message,
+                        state,
+                        pending.options,
+                        callback
+                    )
+            );
+        } catch (error) {
+            elizaLogger.error(error);
+        }
+    }
+
+    // Platform user ids become the UUIDs clients give users; UUIDs are kept
+    private getApprovers(): Set<UUID> {
+        const ids = (this.runtime.getSetting("APPROVAL_USERS") ?? "")
+            .split(",")
+            .map((id) => id.trim())
+            .filter(Boolean);
+        return new Set(ids.flatMap((id) => [id as UUID, stringToUuid(id)]));
+    }
+
+    private getMinRisk(): ActionRisk {
+        const value = this.runtime
+            .getSetting("APPROVAL_MIN_RISK")
+            ?.toLowerCase() as ActionRisk;
+        return RISK_ORDER.includes(value) ? value : APPROVAL_DEFAULTS.minRisk;
+    }
+
+    private getTimeoutMinutes(): number {
+        const value = parseFloat(
+            this.runtime.getSetting("APPROVAL_TIMEOUT_MINUTES") ?? ""
+        );
+        return value > 0 ? value : APPROVAL_DEFAULTS.timeoutMinutes;
+    }
+
+    private getStore(): ICacheManager {
+        // Kept in the database so requests survive restarts
+        this.store ??= getDatabaseCacheManager(this.runtime);
+        return this.store;
+    }
+
+    private key(id: string): string {
+        return `${APPROVAL_CONFIG.CACHE_PREFIX}/${id}`;
+    }
+
+    private async updateIndex(
+        change: (ids: string[]) => string[] | Promise<string[]>
+    ): Promise<void> {
+        const update = this.queue.then(async () => {
+            const ids =
+                (await this.getStore().get<string[]>(
+                    APPROVAL_CONFIG.INDEX_KEY
+                )) ?? [];
+            await this.getStore().set(
+                APPROVAL_CONFIG.INDEX_KEY,
+                await change(ids)
+            );
+        });
+        this.queue = update.catch(() => {});
+        await update;
+    }
+
+    private async save(pending: PendingApproval): Promise<void> {
+        await this.getStore().set(this.key(pending.id), pending, {
+            expires: pending.expiresAt + APPROVAL_CONFIG.RETENTION_MS,
+        });
+    }
+}
@@ -0,0 +1,283 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { v4 as uuidv4 } from "uuid";
+import { generateText } from "./generation.ts";
+import { elizaLogger } from "./logger.ts";
+import {
+    AuditKind,
+    AuditQuery,
+    AuditRecord,
+    AuditReplay,
+    Content,
+    HandlerCallback,
+    IAgentRuntime,
+    IAuditLog,
+    Log,
+    Memory,
+    ModelOverride,
+    UUID,
+} from "./types.ts";
+
+export const AUDIT_DEFAULTS = {
+    // Records a query returns when it sets no count
+    count: 50,
+};
+
+const AUDIT_CONFIG = {
+    LOG_TYPE_PREFIX: "audit_",
+};
+
+/**
+ * The message a step runs for, collecting the transactions sent during it
+ */
+interface AuditTrace {
+    traceId?: UUID;
+    userId: UUID;
+    roomId: UUID;
+    txSignatures: string[];
+    replayOf?: UUID;
+    replay?: AuditRecord;
+}
+
+const traces = new AsyncLocalStorage<AuditTrace>();
+
+const logType = (kind: AuditKind) => `${AUDIT_CONFIG.LOG_TYPE_PREFIX}${kind}`;
+
+const LOG_TYPES = Object.values(AuditKind).map(logType);
+
+const errorMessage = (error: unknown) =>
+    error instanceof Error ? error.message : String(error);
+
+/**
+ * Adds a transaction signature to the audit record of the action or
+ * evaluator running now. Outside of one it does nothing.
+ */
+export function recordTxSignature(signature: string): void {
+    traces.getStore()?.txSignatures.push(signature);
+}
+
+/**
+ * Structured trail of the agent's decisions, kept in the database logs:
+ * every action and evaluator run and every model call, with its inputs,
+ * prompt, model, raw and parsed output, latency and the transactions it
+ * sent. Steps caused by the same message share its id as their trace id.
+ * A recorded model call can be replayed against another model to see
+ * whether it would have decided differently.
+ */
+export class AuditLog implements IAuditLog {
+    // Settles once the agent's own account and room exist
+    private agentRows?: Promise<void>;
+
+    constructor(
+        private runtime: IAgentRuntime,
+        private now: () => number = Date.now
+    ) {}
+
+    async record(
+        entry: Omit<
+            AuditRecord,
+            | "id"
+            | "agentId"
+            | "userId"
+            | "roomId"
+            | "txSignatures"
+            | "createdAt"
+        >
+    ): Promise<AuditRecord> {
+        const trace = traces.getStore();
+        const record = await this.save({ ...entry, txSignatures: [] }, trace);
+        if (trace?.replayOf && entry.kind === AuditKind.MODEL) {
+            trace.replay ??= record;
+        }
+        return record;
+    }
+
+    trace<T>(message: Memory, fn: () => Promise<T>): Promise<T> {
+        return traces.run(this.createTrace(message), fn);
+    }
+
+    async track<T>(
+        step: {
+            kind: AuditKind;
+            name: string;
+            message: Memory;
+            input?: unknown;
+            callback?: HandlerCallback;
+        },
+        run: (callback?: HandlerCallback) => Promise<T>
+    ): Promise<T> {
+        const replies: Content[] = [];
+        const callback: HandlerCallback | undefined =
+            step.callback &&
+            (async (content, files) => {
+                replies.push(content);
+                return step.callback(content, files);
+            });
+
+        const trace = this.createTrace(step.message);
+        const startedAt = this.now();
+        let result: T | undefined;
+        let error: unknown;
+        try {
+            result = await traces.run(trace, () => run(callback));
+            return result;
+        } catch (e) {
+            error = e;
+            throw e;
+        } finally {
+            await this.save(
+                {
+                    kind: step.kind,
+                    name: step.name,
+                    input: step.input,
+                    output: replies,
+                    result,
+                    error:
+                        error === undefined ? undefined : errorMessage(error),
+                    latencyMs: this.now() - startedAt,
+                    txSignatures: trace.txSignatures,
+                },
+                trace
+            );
+        }
+    }
+
+    async query(query: AuditQuery = {}): Promise<AuditRecord[]> {
+        const logs = await this.runtime.databaseAdapter.getLogs({
+            types: query.kind ? [logType(query.kind)] : LOG_TYPES,
+            userId: query.userId,
+            roomId: query.roomId,
+            since: query.since,
+            until: query.until,
+            body: this.bodyFilter(query),
+            count: query.count ?? AUDIT_DEFAULTS.count,
+            offset: query.offset,
+        });
+        return logs.map((log) => this.toRecord(log));
+    }
+
+    async get(id: UUID): Promise<AuditRecord | null> {
+        const [log] = await this.runtime.databaseAdapter.getLogs({
+            id,
+            types: LOG_TYPES,
+            body: this.bodyFilter({}),
+        });
+        return log ? this.toRecord(log) : null;
+    }
+
+    async replay(id: UUID, override: ModelOverride): Promise<AuditReplay> {
+        const original = await this.get(id);
+        if (!original) {
+            throw new Error(`Audit record ${id} not found`);
+        }
+        if (original.kind !== AuditKind.MODEL || !original.context) {
+            throw new Error(`Audit record ${id} is not a model call`);
+        }
+
+        const trace: AuditTrace = {
+            traceId: original.traceId,
+            userId: original.userId,
+            roomId: original.roomId,
+            txSignatures: [],
+            replayOf: original.id,
+        };
+        const { stop } = (original.input ?? {}) as { stop?: string[] };
+        elizaLogger.info(
+            `Replaying model call ${id} against ${override.provider ?? original.provider} ${override.model ?? ""}`.trim()
+        );
+        await traces.run(trace, () =>
+            generateText({
+                runtime: this.runtime,
+                context: original.context,
+                modelClass: original.name,
+                stop,
+                override,
+            })
+        );
+
+        return { original, replay: trace.replay };
+    }
+
+    private createTrace(message: Memory): AuditTrace {
+        return {
+            traceId: message.id,
+            userId: message.userId,
+            roomId: message.roomId,
+            txSignatures: [],
+        };
+    }
+
+    private async save(
+        entry: Omit<
+            AuditRecord,
+            "id" | "agentId" | "userId" | "roomId" | "createdAt"
+        >,
+        trace?: AuditTrace
+    ): Promise<AuditRecord> {
+        // Steps outside of a message are filed under the agent itself
+        const record: AuditRecord = {
+            ...entry,
+            id: uuidv4() as UUID,
+            agentId: this.runtime.agentId,
+            traceId: entry.traceId ?? trace?.traceId,
+            userId: trace?.userId ?? this.runtime.agentId,
+            roomId: trace?.roomId ?? this.runtime.agentId,
+            replayOf: entry.replayOf ?? trace?.replayOf,
+            createdAt: this.now(),
+        };
+
+        const { id, userId, roomId, ...body } = record;
+        try {
+            if (!trace) await this.ensureAgentRows();
+            await this.runtime.databaseAdapter.log({
+                id,
+                body,
+                userId,
+                roomId,
+                type: logType(record.kind),
+            });
+        } catch (error) {
+            elizaLogger.error(
+                `Error saving audit record for ${record.kind} ${record.name}:`,
+                error
+            );
+        }
+        return record;
+    }
+
+    // Logs reference their account and room, so the agent's own are created
+    // before the first step is filed under them
+    private ensureAgentRows(): Promise<void> {
+        const { agentId, character } = this.runtime;
+        this.agentRows ??= (async () => {
+            await this.runtime.ensureUserExists(
+                agentId,
+                character?.name ?? "Agent",
+                character?.name ?? "Agent",
+                null
+            );
+            await this.runtime.ensureRoomExists(agentId);
+        })().catch((error) => {
+            this.agentRows = undefined;
+            throw error;
+        });
+        return this.agentRows;
+    }
+
+    // Logs are shared by agents, so records are matched on their agent too
+    private bodyFilter(query: AuditQuery): { [key: string]: string } {
+        return {
+            agentId: this.runtime.agentId,
+            ...(query.name && { name: query.name }),
+            ...(query.traceId && { traceId: query.traceId }),
+        };
+    }
+
+    private toRecord(log: Log): AuditRecord {
+        return {
+            ...(log.body as Omit<AuditRecord, "id" | "userId" | "roomId">),
+            id: log.id,
+            userId: log.userId,
+            roomId: log.roomId,
+        };
+    }
+}
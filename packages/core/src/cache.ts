@@ -2,6 +2,7 @@ import path from "path";
 import fs from "fs/promises";
 import type {
     CacheOptions,
+    IAgentRuntime,
     ICacheManager,
     IDatabaseCacheAdapter,
     UUID,
@@ -124,3 +125,17 @@ export class CacheManager<CacheAdapter extends ICacheAdapter = ICacheAdapter>
         return this.adapter.delete(key);
     }
 }
+
+/**
+ * A cache in the database adapter's cache table when it has one, so values
+ * survive restarts whichever cache the agent was configured with.
+ */
+export function getDatabaseCacheManager(runtime: IAgentRuntime): ICacheManager {
+    const db = runtime.databaseAdapter as Partial<IDatabaseCacheAdapter>;
+    if (typeof db?.getCache === "function") {
+        return new CacheManager(
+            new DbCacheAdapter(db as IDatabaseCacheAdapter, runtime.agentId)
+        );
+    }
+    return runtime.cacheManager;
+}
@@ -3,6 +3,7 @@ import {
     Actor,
     GoalStatus,
     type Goal,
+    type Log,
     type Memory,
     type Relationship,
     type UUID,
@@ -130,12 +131,30 @@ export abstract class DatabaseAdapter<DB = any> implements IDatabaseAdapter {
      * @returns A Promise that resolves when the log entry has been saved.
      */
     abstract log(params: {
+        id?: UUID;
         body: { [key: string]: unknown };
         userId: UUID;
         roomId: UUID;
         type: string;
     }): Promise<void>;
 
+    /**
+     * Retrieves log entries, newest first.
+     * @param params An object containing the id, types, user, room, time range and top-level body fields to filter by, and the maximum number of entries and how many to skip.
+     * @returns A Promise that resolves to an array of Log objects.
+     */
+    abstract getLogs(params: {
+        id?: UUID;
+        types?: string[];
+        userId?: UUID;
+        roomId?: UUID;
+        since?: number;
+        until?: number;
+        body?: { [key: string]: string };
+        count?: number;
+        offset?: number;
+    }): Promise<Log[]>;
+
     /**
      * Retrieves details of actors in a given room.
      * @param params An object containing the roomId to search for actors.
@@ -62,6 +62,24 @@ const PluginSchema = z.object({
     clients: z.array(z.any()).optional(),
 });
 
+const SpendLimitSchema = z.object({
+    dailyUsd: z.number().nonnegative().optional(),
+    weeklyUsd: z.number().nonnegative().optional(),
+});
+
+const WalletPolicySchema = z.object({
+    actions: z.record(SpendLimitSchema).optional(),
+    users: SpendLimitSchema.optional(),
+    tokens: z
+        .object({
+            allow: z.array(z.string()).optional(),
+            deny: z.array(z.string()).optional(),
+        })
+        .optional(),
+    destinations: z.array(z.string()).optional(),
+    maxSlippageBps: z.number().nonnegative().optional(),
+});
+
 // Main Character schema
 export const CharacterSchema = z.object({
     id: z.string().uuid().optional(),
@@ -93,6 +111,7 @@ export const CharacterSchema = z.object({
                 .optional(),
             model: z.string().optional(),
             embeddingModel: z.string().optional(),
+            walletPolicy: WalletPolicySchema.optional(),
         })
         .optional(),
     clientConfig: z
@@ -25,11 +25,13 @@ import {
 } from "./parsing.ts";
 import settings from "./settings.ts";
 import {
+    AuditKind,
     Content,
     IAgentRuntime,
     IImageDescriptionService,
     ITextGenerationService,
     ModelClass,
+    ModelOverride,
     ModelProviderName,
     ServiceType,
     SearchResponse,
@@ -47,35 +49,129 @@ import { fal } from "@fal-ai/client";
  * @param opts.presence_penalty The presence penalty to apply to the generateText.
  * @param opts.temperature The temperature to apply to the generateText.
  * @param opts.max_context_length The maximum length of the context to apply to the generateText.
+ * @param opts.override Provider and model to use instead of the character's.
  * @returns The completed message.
  */
 
-export async function generateText({
+export async function generateText(params: {
+    runtime: IAgentRuntime;
+    context: string;
+    modelClass: string;
+    stop?: string[];
+    override?: ModelOverride;
+}): Promise<string> {
+    const { text } = await generateAuditedText(params);
+    return text;
+}
+
+/**
+ * Generates text and records the call in the audit log
+ * @param params - The options for the generateText request.
+ * @param parse Parses the response, for the parsed result to be recorded too.
+ * @returns The response and its parsed result.
+ */
+async function generateAuditedText<T = unknown>(
+    params: {
+        runtime: IAgentRuntime;
+        context: string;
+        modelClass: string;
+        stop?: string[];
+        override?: ModelOverride;
+    },
+    parse?: (text: string) => T
+): Promise<{ text: string; result?: T }> {
+    const { runtime, modelClass, stop, override } = params;
+    if (!params.context) {
+        console.error("generateText context is empty");
+        return { text: "", result: parse?.("") };
+    }
+
+    const startedAt = Date.now();
+    let completion: Completion | undefined;
+    let result: T | undefined;
+    let error: unknown;
+    try {
+        completion = await completeText(params);
+        result = parse?.(completion.text);
+        return { text: completion.text, result };
+    } catch (e) {
+        error = e;
+        throw e;
+    } finally {
+        await runtime.audit?.record({
+            kind: AuditKind.MODEL,
+            name: modelClass,
+            input: stop ? { stop } : undefined,
+            context: completion?.context ?? params.context,
+            provider:
+                completion?.provider ??
+                override?.provider ??
+                runtime.modelProvider,
+            model: completion?.model ?? override?.model,
+            output: completion?.text,
+            result,
+            error:
+                error === undefined
+                    ? undefined
+                    : error instanceof Error
+                      ? error.message
+                      : String(error),
+            latencyMs: Date.now() - startedAt,
+        });
+    }
+}
+
+interface Completion {
+    text: string;
+    provider: ModelProviderName;
+    model: string;
+    // Context as sent, after trimming
+    context: string;
+}
+
+/**
+ * The runtime's API key for a provider. Other providers than the
+ * character's use their <PROVIDER>_API_KEY setting, so the character's key
+ * is never sent to them.
+ */
+function getProviderApiKey(
+    runtime: IAgentRuntime,
+    provider: ModelProviderName
+): string | undefined {
+    if (provider === runtime.modelProvider) return runtime.token;
+
+    const name = Object.keys(ModelProviderName).find(
+        (key) => ModelProviderName[key] === provider
+    );
+    return runtime.getSetting(`${name}_API_KEY`) ?? undefined;
+}
+
+async function completeText({
     runtime,
     context,
     modelClass,
     stop,
+    override,
 }: {
     runtime: IAgentRuntime;
     context: string;
     modelClass: string;
     stop?: string[];
-}): Promise<string> {
-    if (!context) {
-        console.error("generateText context is empty");
-        return "";
-    }
-
+    override?: ModelOverride;
+}): Promise<Completion> {
     elizaLogger.log("Generating text...");
 
     elizaLogger.info("Generating text with options:", {
-        modelProvider: runtime.modelProvider,
+        modelProvider: override?.provider ?? runtime.modelProvider,
         model: modelClass,
     });
 
-    const provider = runtime.modelProvider;
+    const provider = override?.provider ?? runtime.modelProvider;
+    // The character's endpoint only serves the character's provider
     const endpoint =
-        runtime.character.modelEndpointOverride || models[provider].endpoint;
+        (provider === runtime.modelProvider &&
+            runtime.character.modelEndpointOverride) ||
+        models[provider].endpoint;
     let model = models[provider].model[modelClass];
 
     // allow character.json settings => secrets to override models
@@ -144,6 +240,10 @@ export async function generateText({
             break;
     }
 
+    if (override?.model) {
+        model = override.model;
+    }
+
     elizaLogger.info("Selected model:", model);
 
     const temperature = models[provider].settings.temperature;
@@ -152,7 +252,7 @@ export async function generateText({
     const max_context_length = models[provider].settings.maxInputTokens;
     const max_response_length = models[provider].settings.maxOutputTokens;
 
-    const apiKey = runtime.token;
+    const apiKey = getProviderApiKey(runtime, provider);
 
     try {
         elizaLogger.debug(
@@ -563,7 +663,7 @@ export async function generateText({
             }
         }
 
-        return response;
+        return { text: response, provider, model, context };
     } catch (error) {
         elizaLogger.error("Error in generateText:", error);
         throw error;
@@ -639,14 +739,13 @@ export async function generateShouldRespond({
                 "Attempting to generate text with context:",
                 context
             );
-            const response = await generateText({
-                runtime,
-                context,
-                modelClass,
-            });
+            const { text: response, result: parsedResponse } =
+                await generateAuditedText(
+                    { runtime, context, modelClass },
+                    (text) => parseShouldRespondFromText(text.trim())
+                );
 
             elizaLogger.debug("Received response from generateText:", response);
-            const parsedResponse = parseShouldRespondFromText(response.trim());
             if (parsedResponse) {
                 elizaLogger.debug("Parsed response:", parsedResponse);
                 return parsedResponse;
@@ -726,14 +825,15 @@ export async function generateTrueOrFalse({
 
     while (true) {
         try {
-            const response = await generateText({
-                stop,
-                runtime,
-                context,
-                modelClass,
-            });
-
-            const parsedResponse = parseBooleanFromText(response.trim());
+            const { result: parsedResponse } = await generateAuditedText(
+                {
+                    stop,
+                    runtime,
+                    context,
+                    modelClass,
+                },
+                (text) => parseBooleanFromText(text.trim())
+            );
             if (parsedResponse !== null) {
                 return parsedResponse;
             }
@@ -778,13 +878,14 @@ export async function generateTextArray({
 
     while (true) {
         try {
-            const response = await generateText({
-                runtime,
-                context,
-                modelClass,
-            });
-
-            const parsedResponse = parseJsonArrayFromText(response);
+            const { result: parsedResponse } = await generateAuditedText(
+                {
+                    runtime,
+                    context,
+                    modelClass,
+                },
+                parseJsonArrayFromText
+            );
             if (parsedResponse) {
                 return parsedResponse;
             }
@@ -815,12 +916,14 @@ export async function generateObjectDEPRECATED({
     while (true) {
         try {
             // this is slightly different than generateObjectArray, in that we parse object, not object array
-            const response = await generateText({
-                runtime,
-                context,
-                modelClass,
-            });
-            const parsedResponse = parseJSONObjectFromText(response);
+            const { result: parsedResponse } = await generateAuditedText(
+                {
+                    runtime,
+                    context,
+                    modelClass,
+                },
+                parseJSONObjectFromText
+            );
             if (parsedResponse) {
                 return parsedResponse;
             }
@@ -850,13 +953,14 @@ export async function generateObjectArray({
 
     while (true) {
         try {
-            const response = await generateText({
-                runtime,
-                context,
-                modelClass,
-            });
-
-            const parsedResponse = parseJsonArrayFromText(response);
+            const { result: parsedResponse } = await generateAuditedText(
+                {
+                    runtime,
+                    context,
+                    modelClass,
+                },
+                parseJsonArrayFromText
+            );
             if (parsedResponse) {
                 return parsedResponse;
             }
@@ -898,14 +1002,15 @@ export async function generateMessageResponse({
         try {
             elizaLogger.log("Generating message response..");
 
-            const response = await generateText({
-                runtime,
-                context,
-                modelClass,
-            });
-
             // try parsing the response as JSON, if null then try again
-            const parsedContent = parseJSONObjectFromText(response) as Content;
+            const { result: parsedContent } = await generateAuditedText(
+                {
+                    runtime,
+                    context,
+                    modelClass,
+                },
+                (text) => parseJSONObjectFromText(text) as Content
+            );
             if (!parsedContent) {
                 elizaLogger.debug("parsedContent is null, retrying");
                 continue;
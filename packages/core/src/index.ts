@@ -1,6 +1,8 @@
 import "./config.ts"; // Add this line first
 
 export * from "./actions.ts";
+export * from "./approvals.ts";
+export * from "./audit.ts";
 export * from "./context.ts";
 export * from "./database.ts";
 export * from "./defaultCharacter.ts";
@@ -24,3 +26,6 @@ export * from "./environment.ts";
 export * from "./cache.ts";
 export { default as knowledge } from "./knowledge.ts";
 export * from "./utils.ts";
+export * from "./prices.ts";
+export * from "./txGuard.ts";
+export * from "./walletPolicy.ts";
@@ -0,0 +1,27 @@
+import { elizaLogger } from "./logger.ts";
+
+export type PriceSource = (mints: string[]) => Promise<Record<string, number>>;
+
+const PRICE_API_URL = "https://api.jup.ag/price/v2";
+
+/**
+ * USD prices from the Jupiter price API, keyed by mint. Mints without a
+ * price are left out, and failures return no prices.
+ */
+export const getJupiterPrices: PriceSource = async (mints) => {
+    if (mints.length === 0) return {};
+
+    try {
+        const response = await fetch(`${PRICE_API_URL}?ids=${mints.join(",")}`);
+        const data = await response.json();
+        const prices: Record<string, number> = {};
+        for (const mint of mints) {
+            const price = parseFloat(data?.data?.[mint]?.price);
+            if (Number.isFinite(price)) prices[mint] = price;
+        }
+        return prices;
+    } catch (error) {
+        elizaLogger.error("Error fetching token prices:", error);
+        return {};
+    }
+};
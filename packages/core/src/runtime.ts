@@ -4,7 +4,10 @@ import {
     composeActionExamples,
     formatActionNames,
     formatActions,
+    resolveAction,
 } from "./actions.ts";
+import { ApprovalManager } from "./approvals.ts";
+import { AuditLog } from "./audit.ts";
 import { addHeader, composeContext } from "./context.ts";
 import { defaultCharacter } from "./defaultCharacter.ts";
 import {
@@ -24,6 +27,7 @@ import { formatPosts } from "./posts.ts";
 import { getProviders } from "./providers.ts";
 import settings from "./settings.ts";
 import {
+    AuditKind,
     Character,
     Goal,
     HandlerCallback,
@@ -46,6 +50,7 @@ import {
     type Memory,
 } from "./types.ts";
 import { stringToUuid } from "./uuid.ts";
+import { WalletPolicy } from "./walletPolicy.ts";
 
 /**
  * Represents the runtime environment for an agent, handling message processing,
@@ -142,6 +147,22 @@ export class AgentRuntime implements IAgentRuntime {
     services: Map<ServiceType, Service> = new Map();
     memoryManagers: Map<string, IMemoryManager> = new Map();
     cacheManager: ICacheManager;
+
+    /**
+     * Approvals of risky actions, which wait for a human before running.
+     */
+    approvals: ApprovalManager;
+
+    /**
+     * Spending limits and rules for actions that move funds.
+     */
+    walletPolicy: WalletPolicy;
+
+    /**
+     * Record of every action, evaluator and model call, with replay.
+     */
+    audit: AuditLog;
+
     clients: Record<string, any>;
 
     registerMemoryManager(manager: IMemoryManager): void {
@@ -260,6 +281,9 @@ export class AgentRuntime implements IAgentRuntime {
         }
 
         this.cacheManager = opts.cacheManager;
+        this.approvals = new ApprovalManager(this);
+        this.walletPolicy = new WalletPolicy(this);
+        this.audit = new AuditLog(this);
 
         this.messageManager = new MemoryManager({
             runtime: this,
@@ -374,6 +398,8 @@ export class AgentRuntime implements IAgentRuntime {
     }
 
     async initialize() {
+        this.approvals.start();
+
         for (const [serviceType, service] of this.services.entries()) {
             try {
                 await service.initialize(this);
@@ -421,6 +447,7 @@ export class AgentRuntime implements IAgentRuntime {
         elizaLogger.log('runtime::stop - requesting', cStr, 'client stop for', this.character.name)
         c.stop()
       }
+      this.approvals.stop()
       // we don't need to unregister with directClient
       // don't need to worry about knowledge
     }
@@ -524,44 +551,13 @@ export class AgentRuntime implements IAgentRuntime {
                 continue;
             }
 
-            const normalizedAction = response.content.action
-                .toLowerCase()
-                .replace("_", "");
-
-            elizaLogger.success(`Normalized action: ${normalizedAction}`);
-
-            let action = this.actions.find(
-                (a: { name: string }) =>
-                    a.name
-                        .toLowerCase()
-                        .replace("_", "")
-                        .includes(normalizedAction) ||
-                    normalizedAction.includes(
-                        a.name.toLowerCase().replace("_", "")
-                    )
-            );
-
-            if (!action) {
-                elizaLogger.info("Attempting to find action in similes.");
-                for (const _action of this.actions) {
-                    const simileAction = _action.similes.find(
-                        (simile) =>
-                            simile
-                                .toLowerCase()
-                                .replace("_", "")
-                                .includes(normalizedAction) ||
-                            normalizedAction.includes(
-                                simile.toLowerCase().replace("_", "")
-                            )
-                    );
-                    if (simileAction) {
-                        action = _action;
-                        elizaLogger.success(
-                            `Action found in similes: ${action.name}`
-                        );
-                        break;
-                    }
-                }
+            let action: Action | null;
+            try {
+                action = resolveAction(this.actions, response.content.action);
+            } catch (error) {
+                // Running the wrong action is worse than running none
+                elizaLogger.error(error.message);
+                continue;
             }
 
             if (!action) {
@@ -572,16 +568,55 @@ export class AgentRuntime implements IAgentRuntime {
                 continue;
             }
 
+            let options: { [key: string]: unknown } = {};
+            if (action.schema) {
+                const parsed = action.schema.safeParse(
+                    response.content.params ?? {}
+                );
+                if (!parsed.success) {
+                    elizaLogger.error(
+                        `Invalid parameters for action ${action.name}:`,
+                        parsed.error.message
+                    );
+                    continue;
+                }
+                options = parsed.data;
+            }
+
             if (!action.handler) {
                 elizaLogger.error(`Action ${action.name} has no handler.`);
                 continue;
             }
 
+            if (this.approvals.requiresApproval(action)) {
+                await this.approvals.request(
+                    action,
+                    message,
+                    options,
+                    callback
+                );
+                continue;
+            }
+
             try {
                 elizaLogger.info(
                     `Executing handler for action: ${action.name}`
                 );
-                await action.handler(this, message, state, {}, callback);
+                await this.audit.track(
+                    {
+                        kind: AuditKind.ACTION,
+                        name: action.name,
+                        message,
+                        input: {
+                            message: message.content,
+                            response: response.content,
+                            options,
+                        },
+                        callback,
+                    },
+                    (callback) =>
+                        action.handler(this, message, state, options, callback)
+                );
             } catch (error) {
                 elizaLogger.error(error);
             }
@@ -638,11 +673,13 @@ export class AgentRuntime implements IAgentRuntime {
                 evaluationTemplate,
         });
 
-        const result = await generateText({
-            runtime: this,
-            context,
-            modelClass: ModelClass.SMALL,
-        });
+        const result = await this.audit.trace(message, () =>
+            generateText({
+                runtime: this,
+                context,
+                modelClass: ModelClass.SMALL,
+            })
+        );
 
         const evaluators = parseJsonArrayFromText(
             result
@@ -652,7 +689,17 @@ export class AgentRuntime implements IAgentRuntime {
             if (!evaluators.includes(evaluator.name)) continue;
 
             if (evaluator.handler)
-                await evaluator.handler(this, message, state, {}, callback);
+                await this.audit.track(
+                    {
+                        kind: AuditKind.EVALUATOR,
+                        name: evaluator.name,
+                        message,
+                        input: { message: message.content },
+                        callback,
+                    },
+                    (callback) =>
+                        evaluator.handler(this, message, state, {}, callback)
+                );
         }
 
         return evaluators;
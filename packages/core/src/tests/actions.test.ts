@@ -1,8 +1,12 @@
 import { describe, expect, it } from "vitest";
+import { z } from "zod";
 import {
+    AmbiguousActionError,
     composeActionExamples,
+    describeSchema,
     formatActionNames,
     formatActions,
+    resolveAction,
 } from "../actions";
 import {
     Action,
@@ -118,5 +122,85 @@ describe("Actions", () => {
             const result = formatActions([]);
             expect(result).toBe("");
         });
+
+        it("should leave the given actions in order", () => {
+            const actions = [...mockActions];
+            formatActions(actions);
+            formatActionNames(actions);
+            expect(actions).toEqual(mockActions);
+        });
+    });
+
+    describe("resolveAction", () => {
+        const action = (name: string, similes: string[] = []): Action => ({
+            ...mockActions[0],
+            name,
+            similes,
+        });
+        const swap = action("SWAP", ["EXCHANGE"]);
+        const daoSwap = action("EXECUTE_SWAP_DAO", ["DAO_SWAP"]);
+        const transfer = action("SEND_TOKEN", ["TRANSFER", "SEND_SOL"]);
+        const actions = [swap, daoSwap, transfer];
+
+        it("should match whole names regardless of case and underscores", () => {
+            expect(resolveAction(actions, "swap")).toBe(swap);
+            expect(resolveAction(actions, "SEND_TOKEN")).toBe(transfer);
+            expect(resolveAction(actions, "send-token")).toBe(transfer);
+            expect(resolveAction(actions, "executeSwapDao")).toBe(daoSwap);
+        });
+
+        it("should not match parts of names", () => {
+            expect(resolveAction([daoSwap], "SWAP")).toBeNull();
+            expect(resolveAction(actions, "SWAP_TOKENS")).toBeNull();
+            expect(resolveAction(actions, "")).toBeNull();
+        });
+
+        it("should fall back to similes", () => {
+            expect(resolveAction(actions, "EXCHANGE")).toBe(swap);
+            expect(resolveAction(actions, "send_sol")).toBe(transfer);
+        });
+
+        it("should prefer a name over another action's simile", () => {
+            const exchange = action("EXCHANGE");
+            expect(resolveAction([swap, exchange], "EXCHANGE")).toBe(exchange);
+        });
+
+        it("should refuse names matching several actions", () => {
+            const otherSwap = action("OTHER_SWAP", ["EXCHANGE"]);
+            expect(() => resolveAction([swap, otherSwap], "EXCHANGE")).toThrow(
+                AmbiguousActionError
+            );
+            expect(() =>
+                resolveAction([swap, action("S_W_A_P")], "swap")
+            ).toThrow('Action "swap" is ambiguous, it matches SWAP, S_W_A_P');
+            // The same action registered twice is not ambiguous
+            expect(resolveAction([swap, swap], "SWAP")).toBe(swap);
+        });
+    });
+
+    describe("describeSchema", () => {
+        it("should describe parameter objects", () => {
+            const schema = z.object({
+                amount: z.number().positive().describe("in SOL"),
+                side: z.enum(["buy", "sell"]),
+                mints: z.array(z.string()).optional(),
+            });
+            expect(describeSchema(schema)).toBe(
+                '{ amount: number (in SOL), side: "buy" | "sell", mints?: string[] }'
+            );
+        });
+
+        it("should list parameters with the action", () => {
+            const greet = mockActions.find((action) => action.name === "greet");
+            const result = formatActions([
+                {
+                    ...greet,
+                    schema: z.object({ name: z.string() }),
+                },
+            ]);
+            expect(result).toBe(
+                "greet: Greet someone Parameters: { name: string }"
+            );
+        });
     });
 });
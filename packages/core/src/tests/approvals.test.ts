@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ApprovalManager } from "../approvals.ts";
+import { CacheManager, MemoryCacheAdapter } from "../cache.ts";
+import {
+    Action,
+    ActionRisk,
+    IAgentRuntime,
+    Memory,
+    PendingApproval,
+    UUID,
+} from "../types.ts";
+import { stringToUuid } from "../uuid.ts";
+
+const roomId = stringToUuid("room") as UUID;
+const approver = stringToUuid("12345") as UUID;
+const requester = stringToUuid("67890") as UUID;
+
+const message = (userId: UUID, text: string): Memory => ({
+    userId,
+    agentId: stringToUuid("agent"),
+    roomId,
+    content: { text },
+});
+
+describe("ApprovalManager", () => {
+    let handler: ReturnType<typeof vi.fn>;
+    let action: Action;
+    let settings: Record<string, string>;
+    let now: number;
+    let cache: CacheManager<MemoryCacheAdapter>;
+    let approvals: ApprovalManager;
+
+    beforeEach(() => {
+        handler = vi.fn().mockResolvedValue(true);
+        action = {
+            name: "SEND_TOKEN",
+            similes: [],
+            description: "Send tokens",
+            examples: [],
+            risk: ActionRisk.HIGH,
+            handler,
+            validate: async () => true,
+        };
+        settings = { APPROVAL_USERS: "12345" };
+        now = Date.now();
+        cache = new CacheManager(new MemoryCacheAdapter());
+
+        const runtime = {
+            actions: [action],
+            getSetting: (key: string) => settings[key] ?? null,
+            composeState: vi.fn().mockResolvedValue({}),
+            audit: { track: (step, run) => run(step.callback) },
+        } as unknown as IAgentRuntime;
+        approvals = new ApprovalManager(runtime, cache, () => now);
+    });
+
+    const request = async () => {
+        const callback = vi.fn().mockResolvedValue([]);
+        const pending = await approvals.request(
+            action,
+            message(requester, "send 1 SOL to alice"),
+            { amount: 1 },
+            callback
+        );
+        return { pending, callback };
+    };
+
+    it("should require approval at or above the configured risk", () => {
+        expect(approvals.requiresApproval(action)).toBe(true);
+        expect(
+            approvals.requiresApproval({ ...action, risk: ActionRisk.MEDIUM })
+        ).toBe(false);
+        expect(approvals.requiresApproval({ ...action, risk: undefined })).toBe(
+            false
+        );
+
+        settings.APPROVAL_MIN_RISK = "medium";
+        expect(
+            approvals.requiresApproval({ ...action, risk: ActionRisk.MEDIUM })
+        ).toBe(true);
+    });
+
+    it("should park the action and notify the room", async () => {
+        const { pending, callback } = await request();
+
+        expect(pending.id).toMatch(/^[0-9a-f]{8}$/);
+        expect(pending.expiresAt - pending.createdAt).toBe(15 * 60 * 1000);
+        expect(
+            await cache.get<PendingApproval>(`approvals/${pending.id}`)
+        ).toEqual(pending);
+        expect(callback.mock.calls[0][0].text).toContain(
+            `APPROVE ${pending.id}`
+        );
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should run the action once an approver approves it", async () => {
+        const { pending } = await request();
+        const callback = vi.fn().mockResolvedValue([]);
+
+        const handled = await approvals.handleMessage(
+            message(approver, `approve ${pending.id.toUpperCase()}`),
+            callback
+        );
+
+        expect(handled).toBe(true);
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler.mock.calls[0][1]).toEqual(pending.message);
+        expect(handler.mock.calls[0][3]).toEqual({ amount: 1 });
+
+        // A request runs at most once
+        await approvals.handleMessage(
+            message(approver, `APPROVE ${pending.id}`),
+            callback
+        );
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not run rejected, expired or unauthorized requests", async () => {
+        const callback = vi.fn().mockResolvedValue([]);
+
+        const unauthorized = await request();
+        await approvals.handleMessage(
+            message(requester, `APPROVE ${unauthorized.pending.id}`),
+            callback
+        );
+        expect(callback).toHaveBeenLastCalledWith({
+            text: "You are not allowed to approve SEND_TOKEN.",
+        });
+
+        const rejected = await request();
+        await approvals.handleMessage(
+            message(approver, `REJECT ${rejected.pending.id}`),
+            callback
+        );
+        await approvals.handleMessage(
+            message(approver, `APPROVE ${rejected.pending.id}`),
+            callback
+        );
+
+        const expired = await request();
+        now += 16 * 60 * 1000;
+        await approvals.handleMessage(
+            message(approver, `APPROVE ${expired.pending.id}`),
+            callback
+        );
+        expect(callback).toHaveBeenLastCalledWith({
+            text: `Approval ${expired.pending.id} for SEND_TOKEN has expired.`,
+        });
+
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should tell the requester when a request expires unanswered", async () => {
+        const expiring = await request();
+        const answered = await request();
+        await approvals.handleMessage(
+            message(approver, `REJECT ${answered.pending.id}`)
+        );
+        now += 10 * 60 * 1000;
+        const waiting = await request();
+
+        expect(await approvals.sweep()).toEqual([]);
+        now += 6 * 60 * 1000;
+        const expired = await approvals.sweep();
+
+        expect(expired).toEqual([expiring.pending]);
+        expect(expiring.callback).toHaveBeenLastCalledWith({
+            text: `Approval ${expiring.pending.id} for SEND_TOKEN expired without an answer, so it was not run.`,
+        });
+        expect(waiting.callback).toHaveBeenCalledTimes(1);
+        expect(await cache.get("approvals/pending")).toEqual([
+            waiting.pending.id,
+        ]);
+
+        // Reported once, and late approvers still hear it expired
+        expect(await approvals.sweep()).toEqual([]);
+        const callback = vi.fn().mockResolvedValue([]);
+        await approvals.handleMessage(
+            message(approver, `APPROVE ${expiring.pending.id}`),
+            callback
+        );
+        expect(callback).toHaveBeenLastCalledWith({
+            text: `Approval ${expiring.pending.id} for SEND_TOKEN has expired.`,
+        });
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should ignore other messages", async () => {
+        const { pending } = await request();
+
+        expect(
+            await approvals.handleMessage(
+                message(approver, `I approve ${pending.id}, go ahead`)
+            )
+        ).toBe(false);
+        expect(handler).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to park actions nobody can approve", async () => {
+        settings = {};
+        const { pending, callback } = await request();
+
+        expect(pending).toBeNull();
+        expect(callback).toHaveBeenCalledWith({
+            text: "SEND_TOKEN needs approval, but no approvers are configured.",
+        });
+    });
+});
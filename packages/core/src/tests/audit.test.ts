@@ -0,0 +1,292 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AuditLog, recordTxSignature } from "../audit.ts";
+import {
+    AuditKind,
+    IAgentRuntime,
+    Log,
+    Memory,
+    ModelProviderName,
+    UUID,
+} from "../types.ts";
+import { stringToUuid } from "../uuid.ts";
+
+// Replays record their model call the way generateText does
+vi.mock("../generation.ts", () => ({
+    generateText: vi.fn(async ({ runtime, context, modelClass, override }) => {
+        await runtime.audit.record({
+            kind: AuditKind.MODEL,
+            name: modelClass,
+            context,
+            provider: override.provider,
+            model: override.model,
+            output: "IGNORE",
+            latencyMs: 5,
+        });
+        return "IGNORE";
+    }),
+}));
+
+const agentId = stringToUuid("agent") as UUID;
+const userId = stringToUuid("user") as UUID;
+const roomId = stringToUuid("room") as UUID;
+
+const message: Memory = {
+    id: stringToUuid("message"),
+    userId,
+    agentId,
+    roomId,
+    content: { text: "swap 1 SOL for BONK" },
+};
+
+describe("AuditLog", () => {
+    let logs: Log[];
+    let now: number;
+    let runtime: IAgentRuntime;
+    let audit: AuditLog;
+
+    beforeEach(() => {
+        logs = [];
+        now = Date.now();
+
+        const databaseAdapter = {
+            log: async ({ id, body, userId, roomId, type }) => {
+                logs.unshift({
+                    id,
+                    // Stored as JSON, like the adapters do
+                    body: JSON.parse(JSON.stringify(body)),
+                    userId,
+                    roomId,
+                    type,
+                    createdAt: now,
+                });
+            },
+            getLogs: async (params: {
+                id?: UUID;
+                types?: string[];
+                roomId?: UUID;
+                body?: { [key: string]: string };
+                count?: number;
+                offset?: number;
+            }) => {
+                const offset = params.offset ?? 0;
+                return logs
+                    .filter(
+                        (log) =>
+                            (!params.id || log.id === params.id) &&
+                            (!params.types ||
+                                params.types.includes(log.type)) &&
+                            (!params.roomId || log.roomId === params.roomId) &&
+                            Object.entries(params.body ?? {}).every(
+                                ([key, value]) => log.body[key] === value
+                            )
+                    )
+                    .slice(
+                        offset,
+                        params.count ? offset + params.count : undefined
+                    );
+            },
+        };
+        runtime = {
+            agentId,
+            databaseAdapter,
+            ensureUserExists: vi.fn(),
+            ensureRoomExists: vi.fn(),
+        } as unknown as IAgentRuntime;
+        audit = new AuditLog(runtime, () => now);
+        runtime.audit = audit;
+    });
+
+    it("should record an action with its input, replies and transactions", async () => {
+        const callback = vi.fn().mockResolvedValue([]);
+
+        const result = await audit.track(
+            {
+                kind: AuditKind.ACTION,
+                name: "EXECUTE_SWAP",
+                message,
+                input: { options: { amount: 1 } },
+                callback,
+            },
+            async (callback) => {
+                now += 250;
+                recordTxSignature("5xSignature");
+                await callback({ text: "Swap completed" });
+                return true;
+            }
+        );
+
+        expect(result).toBe(true);
+        expect(callback).toHaveBeenCalledWith(
+            { text: "Swap completed" },
+            undefined
+        );
+        expect(logs[0].type).toBe("audit_action");
+        expect(await audit.get(logs[0].id)).toMatchObject({
+            kind: AuditKind.ACTION,
+            name: "EXECUTE_SWAP",
+            agentId,
+            traceId: message.id,
+            userId,
+            roomId,
+            input: { options: { amount: 1 } },
+            output: [{ text: "Swap completed" }],
+            result: true,
+            latencyMs: 250,
+            txSignatures: ["5xSignature"],
+        });
+    });
+
+    it("should record failures and rethrow them", async () => {
+        await expect(
+            audit.track(
+                { kind: AuditKind.EVALUATOR, name: "FACT_EVALUATOR", message },
+                async () => {
+                    throw new Error("model timed out");
+                }
+            )
+        ).rejects.toThrow("model timed out");
+
+        const [record] = await audit.query();
+        expect(record).toMatchObject({
+            kind: AuditKind.EVALUATOR,
+            error: "model timed out",
+        });
+    });
+
+    it("should tie model calls to the message being handled", async () => {
+        await audit.trace(message, () =>
+            audit.record({
+                kind: AuditKind.MODEL,
+                name: "small",
+                context: "Should you respond?",
+                output: "RESPOND",
+                latencyMs: 10,
+            })
+        );
+        await audit.record({
+            kind: AuditKind.MODEL,
+            name: "small",
+            context: "Summarize the day",
+            output: "Quiet day",
+            latencyMs: 10,
+        });
+
+        const [outside, inside] = await audit.query();
+        expect(inside).toMatchObject({ traceId: message.id, roomId });
+        expect(outside.traceId).toBeUndefined();
+        expect(outside.roomId).toBe(agentId);
+        expect(await audit.query({ traceId: message.id })).toEqual([inside]);
+    });
+
+    it("should create the agent's account and room for steps outside a message", async () => {
+        await audit.track(
+            { kind: AuditKind.ACTION, name: "SEND_TOKEN", message },
+            async () => true
+        );
+        expect(runtime.ensureRoomExists).not.toHaveBeenCalled();
+
+        for (const name of ["small", "large"]) {
+            await audit.record({ kind: AuditKind.MODEL, name, latencyMs: 1 });
+        }
+
+        expect(runtime.ensureUserExists).toHaveBeenCalledTimes(1);
+        expect(vi.mocked(runtime.ensureUserExists).mock.calls[0][0]).toBe(
+            agentId
+        );
+        expect(runtime.ensureRoomExists).toHaveBeenCalledTimes(1);
+        expect(runtime.ensureRoomExists).toHaveBeenCalledWith(agentId);
+        expect(await audit.query()).toHaveLength(3);
+    });
+
+    it("should filter records by kind, name and agent", async () => {
+        const run = (name: string) =>
+            audit.track(
+                { kind: AuditKind.ACTION, name, message },
+                async () => true
+            );
+        await run("SEND_TOKEN");
+        await run("EXECUTE_SWAP");
+        await run("EXECUTE_SWAP");
+        await audit.record({
+            kind: AuditKind.MODEL,
+            name: "large",
+            latencyMs: 1,
+        });
+        // Another agent sharing the database
+        const other = new AuditLog(
+            { ...runtime, agentId: stringToUuid("other") } as IAgentRuntime,
+            () => now
+        );
+        await other.track(
+            { kind: AuditKind.ACTION, name: "EXECUTE_SWAP", message },
+            async () => true
+        );
+
+        expect(
+            await audit.query({ kind: AuditKind.ACTION, name: "EXECUTE_SWAP" })
+        ).toHaveLength(2);
+        expect(await audit.query({ kind: AuditKind.MODEL })).toHaveLength(1);
+        expect(await audit.query({ count: 3 })).toHaveLength(3);
+        expect(await other.query()).toHaveLength(1);
+        expect(await other.get(logs[1].id)).toBeNull();
+    });
+
+    it("should page through records", async () => {
+        for (const name of ["FIRST", "SECOND", "THIRD"]) {
+            await audit.track(
+                { kind: AuditKind.ACTION, name, message },
+                async () => true
+            );
+        }
+
+        const pages = [
+            await audit.query({ count: 2 }),
+            await audit.query({ count: 2, offset: 2 }),
+        ];
+        expect(pages.map((page) => page.map((record) => record.name))).toEqual([
+            ["THIRD", "SECOND"],
+            ["FIRST"],
+        ]);
+    });
+
+    it("should replay a model call against another model", async () => {
+        const original = await audit.trace(message, () =>
+            audit.record({
+                kind: AuditKind.MODEL,
+                name: "large",
+                context: "Should the agent buy BONK?",
+                provider: ModelProviderName.OPENAI,
+                model: "gpt-4o",
+                output: "BUY",
+                latencyMs: 900,
+            })
+        );
+
+        const { replay } = await audit.replay(original.id, {
+            provider: ModelProviderName.ANTHROPIC,
+            model: "claude-3-5-sonnet-20241022",
+        });
+
+        expect(replay).toMatchObject({
+            replayOf: original.id,
+            traceId: message.id,
+            context: "Should the agent buy BONK?",
+            provider: ModelProviderName.ANTHROPIC,
+            output: "IGNORE",
+        });
+    });
+
+    it("should only replay model calls", async () => {
+        await audit.track(
+            { kind: AuditKind.ACTION, name: "SEND_TOKEN", message },
+            async () => true
+        );
+
+        await expect(audit.replay(logs[0].id, {})).rejects.toThrow(
+            "is not a model call"
+        );
+        await expect(audit.replay(stringToUuid("missing"), {})).rejects.toThrow(
+            "not found"
+        );
+    });
+});
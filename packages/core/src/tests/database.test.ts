@@ -6,6 +6,7 @@ import {
     Account,
     Goal,
     GoalStatus,
+    Log,
     Participant,
     Relationship,
     UUID,
@@ -16,6 +17,7 @@ class MockDatabaseAdapter extends DatabaseAdapter {
         throw new Error("Method not implemented.");
     }
     log(_params: {
+        id?: UUID;
         body: { [key: string]: unknown };
         userId: UUID;
         roomId: UUID;
@@ -23,6 +25,19 @@ class MockDatabaseAdapter extends DatabaseAdapter {
     }): Promise<void> {
         throw new Error("Method not implemented.");
     }
+    getLogs(_params: {
+        id?: UUID;
+        types?: string[];
+        userId?: UUID;
+        roomId?: UUID;
+        since?: number;
+        until?: number;
+        body?: { [key: string]: string };
+        count?: number;
+        offset?: number;
+    }): Promise<Log[]> {
+        throw new Error("Method not implemented.");
+    }
     getActorDetails(_params: { roomId: UUID }): Promise<Actor[]> {
         throw new Error("Method not implemented.");
     }
@@ -0,0 +1,252 @@
+import { describe, expect, test, vi } from "vitest";
+import {
+    Keypair,
+    PublicKey,
+    SystemProgram,
+    Transaction,
+    TransactionInstruction,
+} from "@solana/web3.js";
+import {
+    formatTxPreview,
+    TxGuard,
+    TxGuardError,
+    TxGuardPolicy,
+} from "../txGuard.ts";
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qJ1xzybapC8G4wEGGkZwyTDt1v";
+const JUPITER = "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4";
+const TOKEN_PROGRAM = new PublicKey(
+    "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+);
+
+const wallet = Keypair.generate().publicKey;
+const usdcAccount = Keypair.generate().publicKey;
+
+const tokenAccountData = (mint: string, owner: PublicKey, amount: bigint) => {
+    const data = Buffer.alloc(165);
+    new PublicKey(mint).toBuffer().copy(data, 0);
+    owner.toBuffer().copy(data, 32);
+    data.writeBigUInt64LE(amount, 64);
+    return data;
+};
+
+const mintData = (decimals: number) => {
+    const data = Buffer.alloc(82);
+    data[44] = decimals;
+    return data;
+};
+
+const account = (
+    lamports: number,
+    owner: PublicKey,
+    data = Buffer.alloc(0)
+) => ({
+    lamports,
+    owner,
+    data,
+    executable: false,
+});
+
+/**
+ * Connection answering from account state before the transaction and the
+ * simulated state after it.
+ */
+const mockConnection = (
+    after: { lamports: number; usdc: bigint } | null,
+    logs: string[] = []
+) => {
+    const before = new Map([
+        [wallet.toBase58(), account(2e9, SystemProgram.programId)],
+        [
+            usdcAccount.toBase58(),
+            account(
+                2039280,
+                TOKEN_PROGRAM,
+                tokenAccountData(USDC, wallet, 10_000_000n)
+            ),
+        ],
+        [USDC, account(1e6, TOKEN_PROGRAM, mintData(6))],
+    ]);
+
+    return {
+        getMultipleAccountsInfo: vi.fn(async (keys: PublicKey[]) =>
+            keys.map((key) => before.get(key.toBase58()) ?? null)
+        ),
+        simulateTransaction: vi.fn(async () => ({
+            context: { slot: 1 },
+            value: after
+                ? {
+                      err: null,
+                      logs,
+                      unitsConsumed: 42000,
+                      accounts: [
+                          {
+                              executable: false,
+                              owner: SystemProgram.programId.toBase58(),
+                              lamports: after.lamports,
+                              data: ["", "base64"],
+                          },
+                          {
+                              executable: false,
+                              owner: TOKEN_PROGRAM.toBase58(),
+                              lamports: 2039280,
+                              data: [
+                                  tokenAccountData(
+                                      USDC,
+                                      wallet,
+                                      after.usdc
+                                  ).toString("base64"),
+                                  "base64",
+                              ],
+                          },
+                      ],
+                  }
+                : {
+                      err: { InstructionError: [0, { Custom: 6001 }] },
+                      logs,
+                      accounts: null,
+                  },
+        })),
+    };
+};
+
+const transaction = (programId = JUPITER) =>
+    new Transaction().add(
+        new TransactionInstruction({
+            programId: new PublicKey(programId),
+            keys: [
+                { pubkey: wallet, isSigner: true, isWritable: true },
+                { pubkey: usdcAccount, isSigner: false, isWritable: true },
+            ],
+        })
+    );
+
+const prices = async () => ({ [SOL]: 150, [USDC]: 1 });
+
+const guard = (
+    connection: ReturnType<typeof mockConnection>,
+    policy: Partial<TxGuardPolicy> = {}
+) => new TxGuard(connection as any, policy, prices);
+
+describe("TxGuard", () => {
+    test("previews the wallet's balance changes from the simulation", async () => {
+        // Sells 1 SOL for 149 USDC, paying a 5000 lamport fee
+        const connection = mockConnection({
+            lamports: 1e9 - 5000,
+            usdc: 159_000_000n,
+        });
+
+        const preview = await guard(connection).preview(transaction(), wallet, {
+            description: "Swap 1 SOL for USDC",
+            receive: { [USDC]: 150_000_000n },
+        });
+
+        expect(preview.deltas).toEqual([
+            {
+                mint: SOL,
+                amount: -1_000_005_000n,
+                decimals: 9,
+                uiAmount: -1.000005,
+                valueUsd: expect.closeTo(-150.00075, 6),
+            },
+            {
+                mint: USDC,
+                amount: 149_000_000n,
+                decimals: 6,
+                uiAmount: 149,
+                valueUsd: 149,
+            },
+        ]);
+        expect(preview.lossUsd).toBeCloseTo(1.00075, 6);
+        expect(preview.programs).toEqual([JUPITER]);
+        expect(preview.approved).toBe(true);
+        expect(formatTxPreview(preview)).toContain("✅ Within policy");
+
+        // The simulation sees the wallet and its writable accounts
+        expect(connection.simulateTransaction).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.objectContaining({
+                sigVerify: false,
+                replaceRecentBlockhash: true,
+                accounts: {
+                    encoding: "base64",
+                    addresses: [wallet.toBase58(), usdcAccount.toBase58()],
+                },
+            })
+        );
+    });
+
+    test("rejects slippage, losses and programs beyond the policy", async () => {
+        const connection = mockConnection({
+            lamports: 1e9 - 5000,
+            usdc: 159_000_000n,
+        });
+
+        const preview = await guard(connection, {
+            maxLossUsd: 1,
+            maxSlippageBps: 50,
+            allowedPrograms: [],
+        }).preview(transaction(), wallet, {
+            description: "Swap 1 SOL for USDC",
+            receive: { [USDC]: 150_000_000n },
+        });
+
+        expect(preview.approved).toBe(false);
+        expect(preview.violations).toEqual([
+            `calls programs off the allowlist: ${JUPITER}`,
+            "loses $1.00, above the $1 limit",
+            `receives 66 bps less ${USDC} than quoted, above the 50 bps limit`,
+        ]);
+        await expect(
+            guard(connection, { allowedPrograms: [] }).check(
+                transaction(),
+                wallet,
+                { description: "Swap" }
+            )
+        ).rejects.toBeInstanceOf(TxGuardError);
+    });
+
+    test("does not count declared spends as loss", async () => {
+        // Deposits all 10 USDC
+        const connection = mockConnection({ lamports: 2e9 - 5000, usdc: 0n });
+        const tx = transaction();
+
+        const undeclared = await guard(connection, { maxLossUsd: 5 }).preview(
+            tx,
+            wallet,
+            { description: "Deposit 10 USDC" }
+        );
+        const declared = await guard(connection, { maxLossUsd: 5 }).preview(
+            tx,
+            wallet,
+            {
+                description: "Deposit 10 USDC",
+                spend: { [USDC]: 10_000_000n },
+            }
+        );
+
+        expect(undeclared.lossUsd).toBeCloseTo(10.00075, 6);
+        expect(undeclared.approved).toBe(false);
+        expect(declared.lossUsd).toBeCloseTo(0.00075, 6);
+        expect(declared.approved).toBe(true);
+        // The caller's transaction is simulated from a copy
+        expect(tx.recentBlockhash).toBeUndefined();
+    });
+
+    test("rejects failed simulations with their last logs", async () => {
+        const logs = Array.from({ length: 8 }, (_, i) => `log ${i}`);
+        const preview = await guard(mockConnection(null, logs)).preview(
+            transaction(),
+            wallet,
+            { description: "Open position" }
+        );
+
+        expect(preview.deltas).toEqual([]);
+        expect(preview.violations).toEqual([
+            'simulation failed: {"InstructionError":[0,{"Custom":6001}]}',
+        ]);
+        expect(preview.logs).toEqual(logs.slice(-5));
+        expect(formatTxPreview(preview)).toContain("❌ Rejected");
+    });
+});
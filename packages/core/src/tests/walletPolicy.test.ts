@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { CacheManager, MemoryCacheAdapter } from "../cache.ts";
+import {
+    IAgentRuntime,
+    UUID,
+    WalletActionRequest,
+    WalletPolicyConfig,
+} from "../types.ts";
+import { stringToUuid } from "../uuid.ts";
+import { WalletPolicy } from "../walletPolicy.ts";
+
+const USDC = "EPjFWdd5AufqSSqeM2qJ1xzybapC8G4wEGGkZwyTDt1v";
+const BONK = "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263";
+const alice = stringToUuid("alice") as UUID;
+const bob = stringToUuid("bob") as UUID;
+const HOUR = 60 * 60 * 1000;
+
+const transfer = (
+    overrides: Partial<WalletActionRequest> = {}
+): WalletActionRequest => ({
+    action: "SEND_TOKEN",
+    userId: alice,
+    roomId: stringToUuid("room"),
+    valueUsd: 40,
+    tokens: [USDC],
+    destination: "treasury",
+    ...overrides,
+});
+
+describe("WalletPolicy", () => {
+    let config: WalletPolicyConfig | undefined;
+    let now: number;
+    let log: ReturnType<typeof vi.fn>;
+    let policy: WalletPolicy;
+
+    beforeEach(() => {
+        config = undefined;
+        now = Date.now();
+        log = vi.fn().mockResolvedValue(undefined);
+
+        const runtime = {
+            character: {
+                get settings() {
+                    return { walletPolicy: config };
+                },
+            },
+            databaseAdapter: { log },
+        } as unknown as IAgentRuntime;
+        policy = new WalletPolicy(
+            runtime,
+            new CacheManager(new MemoryCacheAdapter()),
+            () => now
+        );
+    });
+
+    it("should allow everything without a policy", async () => {
+        const decision = await policy.authorize(transfer({ valueUsd: null }));
+
+        expect(decision.allowed).toBe(true);
+        expect(decision.reason).toBe("no wallet policy set");
+    });
+
+    it("should enforce token lists, destinations and slippage", async () => {
+        config = {
+            tokens: { allow: [USDC, BONK], deny: [BONK] },
+            destinations: ["treasury"],
+            maxSlippageBps: 100,
+        };
+
+        expect(await policy.authorize(transfer())).toMatchObject({
+            allowed: true,
+            reason: "within policy",
+        });
+        expect(
+            (await policy.authorize(transfer({ tokens: [USDC, BONK] }))).reason
+        ).toBe(`token ${BONK} is on the deny list`);
+        expect(
+            (await policy.authorize(transfer({ tokens: ["other"] }))).reason
+        ).toBe("token other is not on the allow list");
+        expect(
+            (await policy.authorize(transfer({ destination: "attacker" })))
+                .reason
+        ).toBe("destination attacker is not on the allowlist");
+        expect(
+            (
+                await policy.authorize(
+                    transfer({ destination: undefined, slippageBps: 2000 })
+                )
+            ).reason
+        ).toBe("slippage of 2000 bps is above the 100 bps limit");
+    });
+
+    it("should cap spending per action over rolling windows", async () => {
+        config = { actions: { SEND_TOKEN: { dailyUsd: 100, weeklyUsd: 150 } } };
+
+        expect((await policy.authorize(transfer())).allowed).toBe(true);
+        expect(
+            (await policy.authorize(transfer({ userId: bob }))).allowed
+        ).toBe(true);
+        expect((await policy.authorize(transfer())).reason).toBe(
+            "SEND_TOKEN would spend $120.00, above its daily limit of $100.00"
+        );
+        // Other actions have their own limits
+        expect(
+            (await policy.authorize(transfer({ action: "EXECUTE_SWAP" })))
+                .allowed
+        ).toBe(true);
+
+        now += 25 * HOUR;
+        expect((await policy.authorize(transfer())).allowed).toBe(true);
+        expect((await policy.authorize(transfer())).reason).toBe(
+            "SEND_TOKEN would spend $160.00, above its weekly limit of $150.00"
+        );
+    });
+
+    it("should cap spending per user", async () => {
+        config = { users: { dailyUsd: 50 } };
+
+        expect((await policy.authorize(transfer())).allowed).toBe(true);
+        expect(
+            (await policy.authorize(transfer({ action: "EXECUTE_SWAP" })))
+                .reason
+        ).toBe(
+            `user ${alice} would spend $80.00, above its daily limit of $50.00`
+        );
+        expect(
+            (await policy.authorize(transfer({ userId: bob }))).allowed
+        ).toBe(true);
+    });
+
+    it("should deny unpriced actions under a limit", async () => {
+        config = { users: { dailyUsd: 50 } };
+
+        const decision = await policy.authorize(transfer({ valueUsd: null }));
+
+        expect(decision.allowed).toBe(false);
+        expect(decision.reason).toBe("its USD value could not be determined");
+    });
+
+    it("should stop counting released spends", async () => {
+        config = { actions: { SEND_TOKEN: { dailyUsd: 50 } } };
+
+        const first = await policy.authorize(transfer());
+        expect((await policy.authorize(transfer())).allowed).toBe(false);
+
+        await policy.release(first);
+        expect((await policy.authorize(transfer())).allowed).toBe(true);
+    });
+
+    it("should not let concurrent actions overspend", async () => {
+        config = { actions: { SEND_TOKEN: { dailyUsd: 50 } } };
+
+        const decisions = await Promise.all([
+            policy.authorize(transfer()),
+            policy.authorize(transfer()),
+        ]);
+
+        expect(decisions.map((decision) => decision.allowed)).toEqual([
+            true,
+            false,
+        ]);
+    });
+
+    it("should log every decision with its reason", async () => {
+        config = { tokens: { deny: [BONK] } };
+
+        await policy.authorize(transfer({ tokens: [BONK] }));
+
+        expect(log).toHaveBeenCalledWith({
+            body: expect.objectContaining({
+                action: "SEND_TOKEN",
+                allowed: false,
+                reason: `token ${BONK} is on the deny list`,
+            }),
+            userId: alice,
+            roomId: stringToUuid("room"),
+            type: "wallet_policy",
+        });
+    });
+});
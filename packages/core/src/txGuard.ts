@@ -0,0 +1,402 @@
+import {
+    AccountInfo,
+    Connection,
+    PublicKey,
+    Transaction,
+    VersionedTransaction,
+} from "@solana/web3.js";
+import { getJupiterPrices, PriceSource } from "./prices.ts";
+
+export interface TxGuardPolicy {
+    // Largest drop in wallet value, beyond declared spends, that may be signed
+    maxLossUsd: number;
+    // Largest shortfall against the amounts a transaction expects to receive
+    maxSlippageBps: number;
+    // Programs the transaction's top-level instructions may call
+    allowedPrograms: string[];
+}
+
+/**
+ * What a transaction is meant to do. Amounts are raw token units keyed by
+ * mint; native SOL is keyed by the wrapped SOL mint.
+ */
+export interface TxIntent {
+    description: string;
+    // Outflows the transaction exists for, such as a deposit, which do not
+    // count as loss up to these amounts
+    spend?: Record<string, bigint>;
+    // Quoted inflows checked against maxSlippageBps
+    receive?: Record<string, bigint>;
+}
+
+export interface TokenDelta {
+    mint: string;
+    // Raw change of the wallet's balance
+    amount: bigint;
+    decimals: number;
+    uiAmount: number;
+    // Null when the token has no price
+    valueUsd: number | null;
+}
+
+export interface TxPreview {
+    description: string;
+    deltas: TokenDelta[];
+    // Value change over all priced deltas
+    netUsd: number;
+    // Value lost beyond the intent's declared spends
+    lossUsd: number;
+    programs: string[];
+    computeUnits?: number;
+    logs: string[];
+    violations: string[];
+    approved: boolean;
+}
+
+export type GuardConnection = Pick<
+    Connection,
+    "simulateTransaction" | "getMultipleAccountsInfo"
+>;
+
+const WSOL_MINT = "So11111111111111111111111111111111111111112";
+
+const TOKEN_PROGRAMS = [
+    "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+    "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb",
+];
+
+export const TX_GUARD_DEFAULTS: TxGuardPolicy = {
+    maxLossUsd: 100,
+    maxSlippageBps: 100,
+    allowedPrograms: [
+        "11111111111111111111111111111111", // System
+        "ComputeBudget111111111111111111111111111111",
+        ...TOKEN_PROGRAMS,
+        "ATokenGPvbdGVxr1b2hDZbdNVMs8xz3qpHgaR4QEEv", // Associated token
+        "MemoSq4gqABAXKb96qnH8TysNYcJ7QkpLmvcJzNpBCmU",
+        "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s", // Token metadata
+        "Stake11111111111111111111111111111111111111",
+        "JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4", // Jupiter v6
+        "whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc", // Orca Whirlpools
+        "CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK", // Raydium CLMM
+        "LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo", // Meteora DLMM
+        "FL3X2pRsQ9zHENpZSKDRREtccwJuei8yg9fwDu9UN69Q", // LuLo
+        "KLend2g3cP87fffoy8q1mQqGKjrxjC8boSyAYavgmjD", // Kamino Lend
+        "MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD", // Marinade
+        "SPoo1Ku8WFXoNDMHPsrGSTSG1Y47rzgn41SLUNakuHy", // SPL stake pool
+    ],
+};
+
+const TX_GUARD_CONFIG = {
+    // Byte offsets into SPL token account and mint data
+    TOKEN_ACCOUNT_SIZE: 165,
+    MINT_DECIMALS_OFFSET: 44,
+    // Log lines kept from a failed simulation
+    LOG_TAIL: 5,
+};
+
+/**
+ * Thrown by TxGuard.check when a transaction breaks the policy.
+ */
+export class TxGuardError extends Error {
+    constructor(public preview: TxPreview) {
+        super(`Transaction rejected: ${preview.violations.join("; ")}`);
+        this.name = "TxGuardError";
+    }
+}
+
+interface TokenBalance {
+    mint: string;
+    amount: bigint;
+}
+
+function decodeTokenBalance(
+    owner: string,
+    data: Buffer,
+    wallet: PublicKey
+): TokenBalance | null {
+    if (
+        !TOKEN_PROGRAMS.includes(owner) ||
+        data.length < TX_GUARD_CONFIG.TOKEN_ACCOUNT_SIZE ||
+        !new PublicKey(data.subarray(32, 64)).equals(wallet)
+    ) {
+        return null;
+    }
+    return {
+        mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+        amount: data.readBigUInt64LE(64),
+    };
+}
+
+function toVersioned(
+    transaction: Transaction | VersionedTransaction,
+    feePayer: PublicKey
+): VersionedTransaction {
+    if (transaction instanceof VersionedTransaction) return transaction;
+
+    // Copied so the caller's transaction keeps its own blockhash and payer;
+    // the blockhash is replaced by the simulation
+    const copy = new Transaction({
+        feePayer: transaction.feePayer ?? feePayer,
+        recentBlockhash:
+            transaction.recentBlockhash ?? PublicKey.default.toBase58(),
+    }).add(...transaction.instructions);
+    return new VersionedTransaction(copy.compileMessage());
+}
+
+const formatAmount = (delta: TokenDelta) =>
+    `${delta.uiAmount > 0 ? "+" : ""}${delta.uiAmount.toLocaleString(undefined, { maximumFractionDigits: delta.decimals })}`;
+
+/**
+ * Human-readable summary of a preview for the agent to show before a
+ * transaction is sent.
+ */
+export function formatTxPreview(preview: TxPreview): string {
+    const deltas = preview.deltas.length
+        ? preview.deltas
+              .map(
+                  (delta) =>
+                      `  ${formatAmount(delta)} ${delta.mint}${
+                          delta.valueUsd === null
+                              ? " (unpriced)"
+                              : ` ($${delta.valueUsd.toFixed(2)})`
+                      }`
+              )
+              .join("\n")
+        : "  No balance changes";
+
+    return [
+        `🔍 ${preview.description}`,
+        deltas,
+        `Net $${preview.netUsd.toFixed(2)}, loss $${preview.lossUsd.toFixed(2)}${
+            preview.computeUnits !== undefined
+                ? `, ${preview.computeUnits.toLocaleString()} CU`
+                : ""
+        }`,
+        `Programs: ${preview.programs.join(", ")}`,
+        preview.approved
+            ? "✅ Within policy"
+            : `❌ Rejected: ${preview.violations.join("; ")}`,
+    ].join("\n");
+}
+
+/**
+ * Preflight for transactions the agent signs. Simulates the transaction,
+ * decodes the wallet's SOL and token balance changes and rejects it when it
+ * calls a program off the allowlist, loses more than maxLossUsd beyond its
+ * declared spends or receives less than quoted by more than maxSlippageBps.
+ *
+ * Only the wallet's accounts among the transaction's static keys are
+ * watched. Routers such as Jupiter keep the signer's token accounts out of
+ * their shared lookup tables, so these are the ones that move.
+ */
+export class TxGuard {
+    private policy: TxGuardPolicy;
+
+    constructor(
+        private connection: GuardConnection,
+        policy: Partial<TxGuardPolicy> = {},
+        private getPrices: PriceSource = getJupiterPrices
+    ) {
+        this.policy = { ...TX_GUARD_DEFAULTS, ...policy };
+    }
+
+    async preview(
+        transaction: Transaction | VersionedTransaction,
+        wallet: PublicKey,
+        intent: TxIntent
+    ): Promise<TxPreview> {
+        const versioned = toVersioned(transaction, wallet);
+        const { message } = versioned;
+        const keys = message.staticAccountKeys;
+
+        const programs = [
+            ...new Set(
+                message.compiledInstructions.map((ix) =>
+                    keys[ix.programIdIndex].toBase58()
+                )
+            ),
+        ];
+        const watched = [
+            wallet,
+            ...keys.filter(
+                (key, i) => message.isAccountWritable(i) && !key.equals(wallet)
+            ),
+        ];
+
+        const [before, simulation] = await Promise.all([
+            this.connection.getMultipleAccountsInfo(watched),
+            this.connection.simulateTransaction(versioned, {
+                sigVerify: false,
+                replaceRecentBlockhash: true,
+                accounts: {
+                    encoding: "base64",
+                    addresses: watched.map((key) => key.toBase58()),
+                },
+            }),
+        ]);
+        const { err, logs, accounts, unitsConsumed } = simulation.value;
+
+        const violations: string[] = [];
+        if (err) {
+            violations.push(`simulation failed: ${JSON.stringify(err)}`);
+        }
+        const disallowed = programs.filter(
+            (program) => !this.policy.allowedPrograms.includes(program)
+        );
+        if (disallowed.length) {
+            violations.push(
+                `calls programs off the allowlist: ${disallowed.join(", ")}`
+            );
+        }
+
+        const deltas = err
+            ? []
+            : await this.getDeltas(
+                  wallet,
+                  before,
+                  (accounts ?? []).map((account) =>
+                      account
+                          ? {
+                                owner: account.owner,
+                                lamports: account.lamports,
+                                data: Buffer.from(account.data[0], "base64"),
+                            }
+                          : null
+                  )
+              );
+
+        // Gains offset losses, as in a swap, but outflows the intent meant to
+        // spend are not losses
+        let netUsd = 0;
+        let keptUsd = 0;
+        for (const delta of deltas) {
+            if (delta.valueUsd !== null) netUsd += delta.valueUsd;
+
+            const spent = intent.spend?.[delta.mint] ?? 0n;
+            const counted =
+                delta.amount >= 0n
+                    ? delta.amount
+                    : delta.amount + spent < 0n
+                      ? delta.amount + spent
+                      : 0n;
+            if (counted === 0n) continue;
+            if (delta.valueUsd === null) {
+                if (counted < 0n) {
+                    violations.push(`cannot price outflow of ${delta.mint}`);
+                }
+                continue;
+            }
+            keptUsd +=
+                (delta.valueUsd * Number(counted)) / Number(delta.amount);
+        }
+        const lossUsd = Math.max(0, -keptUsd);
+
+        if (!err && lossUsd > this.policy.maxLossUsd) {
+            violations.push(
+                `loses $${lossUsd.toFixed(2)}, above the $${this.policy.maxLossUsd} limit`
+            );
+        }
+
+        for (const [mint, quoted] of Object.entries(intent.receive ?? {})) {
+            if (err || quoted <= 0n) continue;
+            const received =
+                deltas.find((delta) => delta.mint === mint)?.amount ?? 0n;
+            const shortfallBps =
+                received >= quoted
+                    ? 0
+                    : Number(((quoted - received) * 10000n) / quoted);
+            if (shortfallBps > this.policy.maxSlippageBps) {
+                violations.push(
+                    `receives ${shortfallBps} bps less ${mint} than quoted, above the ${this.policy.maxSlippageBps} bps limit`
+                );
+            }
+        }
+
+        return {
+            description: intent.description,
+            deltas,
+            netUsd,
+            lossUsd,
+            programs,
+            computeUnits: unitsConsumed,
+            logs: err ? (logs ?? []).slice(-TX_GUARD_CONFIG.LOG_TAIL) : [],
+            violations,
+            approved: violations.length === 0,
+        };
+    }
+
+    /**
+     * Previews a transaction and throws a TxGuardError when it breaks the
+     * policy.
+     */
+    async check(
+        transaction: Transaction | VersionedTransaction,
+        wallet: PublicKey,
+        intent: TxIntent
+    ): Promise<TxPreview> {
+        const preview = await this.preview(transaction, wallet, intent);
+        if (!preview.approved) throw new TxGuardError(preview);
+        return preview;
+    }
+
+    private async getDeltas(
+        wallet: PublicKey,
+        before: (AccountInfo<Buffer> | null)[],
+        after: ({ owner: string; lamports: number; data: Buffer } | null)[]
+    ): Promise<TokenDelta[]> {
+        const raw = new Map<string, bigint>();
+        const add = (mint: string, amount: bigint) =>
+            raw.set(mint, (raw.get(mint) ?? 0n) + amount);
+
+        // The wallet itself is watched first; its lamports are native SOL
+        add(
+            WSOL_MINT,
+            BigInt(after[0]?.lamports ?? 0) - BigInt(before[0]?.lamports ?? 0)
+        );
+        before.forEach((account) => {
+            const balance =
+                account &&
+                decodeTokenBalance(
+                    account.owner.toBase58(),
+                    account.data,
+                    wallet
+                );
+            if (balance) add(balance.mint, -balance.amount);
+        });
+        after.forEach((account) => {
+            const balance =
+                account &&
+                decodeTokenBalance(account.owner, account.data, wallet);
+            if (balance) add(balance.mint, balance.amount);
+        });
+
+        const mints = [...raw.keys()].filter((mint) => raw.get(mint) !== 0n);
+        const [mintAccounts, prices] = await Promise.all([
+            this.connection.getMultipleAccountsInfo(
+                mints.map((mint) => new PublicKey(mint))
+            ),
+            this.getPrices(mints),
+        ]);
+
+        return mints.map((mint, i) => {
+            const amount = raw.get(mint)!;
+            const decimals =
+                mint === WSOL_MINT
+                    ? 9
+                    : (mintAccounts[i]?.data[
+                          TX_GUARD_CONFIG.MINT_DECIMALS_OFFSET
+                      ] ?? 0);
+            const uiAmount = Number(amount) / 10 ** decimals;
+            const price = prices[mint];
+
+            return {
+                mint,
+                amount,
+                decimals,
+                uiAmount,
+                valueUsd: price === undefined ? null : uiAmount * price,
+            };
+        });
+    }
+}
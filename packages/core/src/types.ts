@@ -1,4 +1,5 @@
 import { Readable } from "stream";
+import { ZodTypeAny } from "zod";
 
 /**
  * Represents a UUID string in the format "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx"
@@ -15,6 +16,9 @@ export interface Content {
     /** Optional action associated with the message */
     action?: string;
 
+    /** Optional parameters for the action, checked against its schema */
+    params?: { [key: string]: unknown };
+
     /** Optional source/origin of the content */
     source?: string;
 
@@ -415,6 +419,89 @@ export interface Action {
 
     /** Validation function */
     validate: Validator;
+
+    /**
+     * Optional object schema for the action's parameters. The parameters the
+     * model responds with are parsed against it and passed to the handler as
+     * its options; the action is not run when they do not parse.
+     */
+    schema?: ZodTypeAny;
+
+    /** Optional risk level; risky actions wait for a human to approve them */
+    risk?: ActionRisk;
+}
+
+/**
+ * How much harm an action can do when run by mistake
+ */
+export enum ActionRisk {
+    LOW = "low",
+    MEDIUM = "medium",
+    HIGH = "high",
+}
+
+/**
+ * An action parked until an approver replies to it
+ */
+export interface PendingApproval {
+    /** Short id approvers reply with */
+    id: string;
+
+    /** Name of the action to run */
+    action: string;
+
+    /** Risk level of the action */
+    risk: ActionRisk;
+
+    /** Room the request was made in and must be answered in */
+    roomId: UUID;
+
+    /** User whose message triggered the action */
+    requestedBy: UUID;
+
+    /** Message the action was triggered by */
+    message: Memory;
+
+    /** Validated parameters for the handler */
+    options: { [key: string]: unknown };
+
+    /** Creation timestamp */
+    createdAt: number;
+
+    /** Timestamp after which the request can no longer be approved */
+    expiresAt: number;
+}
+
+export interface IApprovalManager {
+    /** Whether the action has to be approved before it runs */
+    requiresApproval(action: Action): boolean;
+
+    /**
+     * Parks the action and asks the room for approval.
+     * @returns The pending approval, or null when nobody may approve it
+     */
+    request(
+        action: Action,
+        message: Memory,
+        options: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ): Promise<PendingApproval | null>;
+
+    /**
+     * Answers an "APPROVE <id>" or "REJECT <id>" message, running the
+     * action once it is approved.
+     * @returns Whether the message was an approval reply
+     */
+    handleMessage(
+        message: Memory,
+        callback?: HandlerCallback
+    ): Promise<boolean>;
+
+    /**
+     * Drops expired requests and reports them where they were asked for.
+     * @returns The requests that expired
+     */
+    sweep(): Promise<PendingApproval[]>;
 }
 
 /**
@@ -574,6 +661,45 @@ export type Client = {
     stop: (runtime: IAgentRuntime) => Promise<unknown>;
 };
 
+/**
+ * State passed to scheduled jobs. Values set during a run are persisted
+ * and returned by get on later runs, across restarts.
+ */
+export interface JobState extends State {
+    /** Get a value stored by an earlier run */
+    get<T = unknown>(key: string): T | undefined;
+
+    /** Store a value for later runs */
+    set(key: string, value: unknown): void;
+}
+
+/**
+ * Recurring work run by the auto client
+ */
+export type Job = {
+    /** Unique job name */
+    name: string;
+
+    /** Optional job description */
+    description?: string;
+
+    /** Cron expression (minute hour day-of-month month day-of-week) in UTC */
+    cron?: string;
+
+    /** Milliseconds between runs, used when no cron expression is set */
+    intervalMs?: number;
+
+    /** Milliseconds after which a run is treated as failed */
+    timeoutMs?: number;
+
+    /** Run the job, returning a summary kept as its last result */
+    run: (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state: JobState
+    ) => Promise<string>;
+};
+
 /**
  * Plugin for extending agent functionality
  */
@@ -598,6 +724,9 @@ export type Plugin = {
 
     /** Optional clients */
     clients?: Client[];
+
+    /** Optional scheduled jobs */
+    jobs?: Job[];
 };
 
 /**
@@ -710,6 +839,7 @@ export type Character = {
             solana?: any[];
             [key: string]: any[];
         };
+        walletPolicy?: WalletPolicyConfig;
     };
 
     /** Optional client-specific config */
@@ -746,6 +876,238 @@ export type Character = {
     };
 };
 
+/**
+ * USD spending caps over rolling windows
+ */
+export interface SpendLimit {
+    /** Most that can be spent in any 24 hours */
+    dailyUsd?: number;
+
+    /** Most that can be spent in any 7 days */
+    weeklyUsd?: number;
+}
+
+/**
+ * Rules for actions that move funds from the agent's wallet, set in
+ * character.settings.walletPolicy
+ */
+export interface WalletPolicyConfig {
+    /** Limits per action name, e.g. SEND_TOKEN */
+    actions?: { [action: string]: SpendLimit };
+
+    /** Limits applying to each user separately */
+    users?: SpendLimit;
+
+    /** Token mints that may or may not be touched */
+    tokens?: {
+        allow?: string[];
+        deny?: string[];
+    };
+
+    /** Only these addresses may receive funds, when set */
+    destinations?: string[];
+
+    /** Highest slippage a swap may allow, in basis points */
+    maxSlippageBps?: number;
+}
+
+/**
+ * A wallet action about to be signed
+ */
+export interface WalletActionRequest {
+    /** Action name */
+    action: string;
+
+    /** User the action runs for */
+    userId: UUID;
+
+    /** Room the action was requested in */
+    roomId: UUID;
+
+    /** USD value leaving the wallet, null when it could not be priced */
+    valueUsd: number | null;
+
+    /** Token mints the action spends or receives */
+    tokens: string[];
+
+    /** Address receiving the funds, for transfers */
+    destination?: string;
+
+    /** Slippage the transaction allows, in basis points */
+    slippageBps?: number;
+}
+
+/**
+ * Outcome of checking a wallet action against the policy
+ */
+export interface PolicyDecision {
+    /** Decision id, used to release the spend of a failed action */
+    id: string;
+
+    /** Whether the action may be signed */
+    allowed: boolean;
+
+    /** Why it was allowed or denied */
+    reason: string;
+}
+
+export interface IWalletPolicy {
+    /**
+     * Checks a wallet action before signing. Allowed actions count towards
+     * the spending limits straight away.
+     */
+    authorize(request: WalletActionRequest): Promise<PolicyDecision>;
+
+    /** Stops counting an allowed action whose transaction was never sent */
+    release(decision: PolicyDecision): Promise<void>;
+}
+
+/**
+ * A row of the logs table
+ */
+export interface Log {
+    id: UUID;
+    userId: UUID;
+    roomId: UUID;
+    type: string;
+    body: { [key: string]: unknown };
+
+    /** Creation time in milliseconds */
+    createdAt: number;
+}
+
+/**
+ * What an audit record describes
+ */
+export enum AuditKind {
+    ACTION = "action",
+    EVALUATOR = "evaluator",
+    MODEL = "model",
+}
+
+/**
+ * One step of the agent's decision making: an action or evaluator run, or a
+ * model call
+ */
+export interface AuditRecord {
+    id: UUID;
+    kind: AuditKind;
+
+    /** Action or evaluator name, or the model class of a model call */
+    name: string;
+
+    agentId: UUID;
+
+    /** Message being handled, shared by every step it caused */
+    traceId?: UUID;
+
+    userId: UUID;
+    roomId: UUID;
+
+    /** What the step was given: the message, chosen action and its params */
+    input?: unknown;
+
+    /** Exact prompt sent to the model */
+    context?: string;
+
+    provider?: ModelProviderName;
+    model?: string;
+
+    /** Raw model text, or the content an action or evaluator replied with */
+    output?: unknown;
+
+    /** Parsed model output, or what the handler returned */
+    result?: unknown;
+
+    /** Message of the error the step failed with */
+    error?: string;
+
+    latencyMs: number;
+
+    /** Transactions sent during the step */
+    txSignatures: string[];
+
+    /** Record this model call replayed */
+    replayOf?: UUID;
+
+    createdAt: number;
+}
+
+/**
+ * Filters for audit records, newest first
+ */
+export interface AuditQuery {
+    kind?: AuditKind;
+    name?: string;
+    traceId?: UUID;
+    userId?: UUID;
+    roomId?: UUID;
+
+    /** Earliest and latest creation time in milliseconds */
+    since?: number;
+    until?: number;
+
+    /** Page size, and how many newer records to skip */
+    count?: number;
+    offset?: number;
+}
+
+/**
+ * Model to use instead of the character's one
+ */
+export interface ModelOverride {
+    provider?: ModelProviderName;
+    model?: string;
+}
+
+/**
+ * A recorded model call run again, next to the original
+ */
+export interface AuditReplay {
+    original: AuditRecord;
+    replay: AuditRecord;
+}
+
+export interface IAuditLog {
+    /** Saves a record, stamping it with an id, time and trace */
+    record(
+        entry: Omit<
+            AuditRecord,
+            | "id"
+            | "agentId"
+            | "userId"
+            | "roomId"
+            | "txSignatures"
+            | "createdAt"
+        >
+    ): Promise<AuditRecord>;
+
+    /**
+     * Runs fn for message, so model calls and transactions inside it are
+     * tied to the message
+     */
+    trace<T>(message: Memory, fn: () => Promise<T>): Promise<T>;
+
+    /** Runs and records an action or evaluator handler */
+    track<T>(
+        step: {
+            kind: AuditKind;
+            name: string;
+            message: Memory;
+            input?: unknown;
+            callback?: HandlerCallback;
+        },
+        run: (callback?: HandlerCallback) => Promise<T>
+    ): Promise<T>;
+
+    query(query?: AuditQuery): Promise<AuditRecord[]>;
+
+    get(id: UUID): Promise<AuditRecord | null>;
+
+    /** Sends the prompt of a recorded model call to another model */
+    replay(id: UUID, override: ModelOverride): Promise<AuditReplay>;
+}
+
 /**
  * Interface for database operations
  */
@@ -794,12 +1156,25 @@ export interface IDatabaseAdapter {
     }): Promise<{ embedding: number[]; levenshtein_score: number }[]>;
 
     log(params: {
+        id?: UUID;
         body: { [key: string]: unknown };
         userId: UUID;
         roomId: UUID;
         type: string;
     }): Promise<void>;
 
+    getLogs(params: {
+        id?: UUID;
+        types?: string[];
+        userId?: UUID;
+        roomId?: UUID;
+        since?: number;
+        until?: number;
+        body?: { [key: string]: string };
+        count?: number;
+        offset?: number;
+    }): Promise<Log[]>;
+
     getActorDetails(params: { roomId: UUID }): Promise<Actor[]>;
 
     searchMemories(params: {
@@ -1011,6 +1386,12 @@ export interface IAgentRuntime {
 
     cacheManager: ICacheManager;
 
+    approvals: IApprovalManager;
+
+    walletPolicy: IWalletPolicy;
+
+    audit: IAuditLog;
+
     services: Map<ServiceType, Service>;
     // any could be EventEmitter
     // but I think the real solution is forthcoming as a base client interface
@@ -0,0 +1,238 @@
+import { v4 as uuidv4 } from "uuid";
+import { getDatabaseCacheManager } from "./cache.ts";
+import { elizaLogger } from "./logger.ts";
+import {
+    IAgentRuntime,
+    ICacheManager,
+    IWalletPolicy,
+    PolicyDecision,
+    SpendLimit,
+    UUID,
+    WalletActionRequest,
+    WalletPolicyConfig,
+} from "./types.ts";
+
+/**
+ * A spend counted towards the limits
+ */
+export interface SpendRecord {
+    id: string;
+    action: string;
+    userId: UUID;
+    valueUsd: number;
+    at: number;
+}
+
+const WALLET_POLICY_CONFIG = {
+    SPEND_KEY: "wallet-policy/spends",
+    LOG_TYPE: "wallet_policy",
+};
+
+const WINDOWS: { key: keyof SpendLimit; label: string; ms: number }[] = [
+    { key: "dailyUsd", label: "daily", ms: 24 * 60 * 60 * 1000 },
+    { key: "weeklyUsd", label: "weekly", ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+// Spends older than the longest window no longer count
+const RETENTION_MS = Math.max(...WINDOWS.map((window) => window.ms));
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+const hasLimit = (limit?: SpendLimit) =>
+    WINDOWS.some((window) => limit?.[window.key] !== undefined);
+
+/**
+ * Checks actions that move funds from the agent's wallet against
+ * character.settings.walletPolicy before they are signed: token allow and
+ * deny lists, a destination allowlist, a slippage cap, and daily and weekly
+ * USD limits per action and per user. Every decision is logged with its
+ * reason.
+ */
+export class WalletPolicy implements IWalletPolicy {
+    // Authorizations run one at a time, so concurrent actions cannot both
+    // fit under a limit only one of them fits under
+    private queue: Promise<unknown> = Promise.resolve();
+    private store?: ICacheManager;
+
+    constructor(
+        private runtime: IAgentRuntime,
+        store?: ICacheManager,
+        private now: () => number = Date.now
+    ) {
+        this.store = store;
+    }
+
+    async authorize(request: WalletActionRequest): Promise<PolicyDecision> {
+        const decision = this.queue.then(() => this.decide(request));
+        this.queue = decision.catch(() => {});
+        return decision;
+    }
+
+    async release(decision: PolicyDecision): Promise<void> {
+        if (!decision.allowed) return;
+
+        const release = this.queue.then(async () => {
+            const spends = await this.getSpends();
+            await this.saveSpends(
+                spends.filter((spend) => spend.id !== decision.id)
+            );
+        });
+        this.queue = release.catch(() => {});
+        await release;
+    }
+
+    private async decide(
+        request: WalletActionRequest
+    ): Promise<PolicyDecision> {
+        const config = this.getConfig();
+        const spends = await this.getSpends();
+        const id = uuidv4();
+
+        const reason = config
+            ? this.findViolation(config, request, spends)
+            : null;
+        const decision: PolicyDecision = {
+            id,
+            allowed: reason === null,
+            reason:
+                reason ?? (config ? "within policy" : "no wallet policy set"),
+        };
+
+        if (decision.allowed && request.valueUsd) {
+            await this.saveSpends([
+                ...spends,
+                {
+                    id,
+                    action: request.action,
+                    userId: request.userId,
+                    valueUsd: request.valueUsd,
+                    at: this.now(),
+                },
+            ]);
+        }
+
+        await this.log(request, decision);
+        return decision;
+    }
+
+    /**
+     * @returns Why the request breaks the policy, or null when it does not
+     */
+    private findViolation(
+        config: WalletPolicyConfig,
+        request: WalletActionRequest,
+        spends: SpendRecord[]
+    ): string | null {
+        const denied = request.tokens.find((token) =>
+            config.tokens?.deny?.includes(token)
+        );
+        if (denied) {
+            return `token ${denied} is on the deny list`;
+        }
+        const allow = config.tokens?.allow;
+        const unlisted = allow?.length
+            ? request.tokens.find((token) => !allow.includes(token))
+            : undefined;
+        if (unlisted) {
+            return `token ${unlisted} is not on the allow list`;
+        }
+
+        if (
+            config.destinations?.length &&
+            request.destination !== undefined &&
+            !config.destinations.includes(request.destination)
+        ) {
+            return `destination ${request.destination} is not on the allowlist`;
+        }
+
+        if (
+            config.maxSlippageBps !== undefined &&
+            request.slippageBps !== undefined &&
+            request.slippageBps > config.maxSlippageBps
+        ) {
+            return `slippage of ${request.slippageBps} bps is above the ${config.maxSlippageBps} bps limit`;
+        }
+
+        const limits = [
+            {
+                name: request.action,
+                limit: config.actions?.[request.action],
+                counts: (spend: SpendRecord) => spend.action === request.action,
+            },
+            {
+                name: `user ${request.userId}`,
+                limit: config.users,
+                counts: (spend: SpendRecord) => spend.userId === request.userId,
+            },
+        ].filter(({ limit }) => hasLimit(limit));
+
+        if (limits.length === 0) return null;
+        if (request.valueUsd === null) {
+            return "its USD value could not be determined";
+        }
+
+        for (const { name, limit, counts } of limits) {
+            for (const window of WINDOWS) {
+                const max = limit[window.key];
+                if (max === undefined) continue;
+
+                const spent = spends
+                    .filter(
+                        (spend) =>
+                            counts(spend) && spend.at > this.now() - window.ms
+                    )
+                    .reduce((sum, spend) => sum + spend.valueUsd, 0);
+                if (spent + request.valueUsd > max) {
+                    return `${name} would spend ${formatUsd(spent + request.valueUsd)}, above its ${window.label} limit of ${formatUsd(max)}`;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    private async log(
+        request: WalletActionRequest,
+        decision: PolicyDecision
+    ): Promise<void> {
+        const summary = `Wallet policy ${decision.allowed ? "allowed" : "denied"} ${request.action}${request.valueUsd !== null ? ` of ${formatUsd(request.valueUsd)}` : ""}: ${decision.reason}`;
+        if (decision.allowed) {
+            elizaLogger.info(summary);
+        } else {
+            elizaLogger.warn(summary);
+        }
+
+        try {
+            await this.runtime.databaseAdapter.log({
+                body: { ...request, ...decision },
+                userId: request.userId,
+                roomId: request.roomId,
+                type: WALLET_POLICY_CONFIG.LOG_TYPE,
+            });
+        } catch (error) {
+            elizaLogger.error("Error logging wallet policy decision:", error);
+        }
+    }
+
+    private getConfig(): WalletPolicyConfig | undefined {
+        return this.runtime.character?.settings?.walletPolicy;
+    }
+
+    private async getSpends(): Promise<SpendRecord[]> {
+        const spends =
+            (await this.getStore().get<SpendRecord[]>(
+                WALLET_POLICY_CONFIG.SPEND_KEY
+            )) ?? [];
+        return spends.filter((spend) => spend.at > this.now() - RETENTION_MS);
+    }
+
+    private async saveSpends(spends: SpendRecord[]): Promise<void> {
+        await this.getStore().set(WALLET_POLICY_CONFIG.SPEND_KEY, spends);
+    }
+
+    private getStore(): ICacheManager {
+        // Kept in the database so limits hold across restarts
+        this.store ??= getDatabaseCacheManager(this.runtime);
+        return this.store;
+    }
+}
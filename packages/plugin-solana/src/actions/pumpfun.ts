@@ -16,6 +16,9 @@ import {
     State,
     generateObjectDEPRECATED,
     composeContext,
+    ActionRisk,
+    recordTxSignature,
+    getJupiterPrices,
     type Action,
 } from "@ai16z/eliza";
 
@@ -88,6 +91,9 @@ export const createAndBuyToken = async ({
         priorityFee,
         commitment
     );
+    if (createResults.signature) {
+        recordTxSignature(createResults.signature);
+    }
 
     console.log("Create Results: ", createResults);
 
@@ -119,6 +125,7 @@ export const createAndBuyToken = async ({
             success: true,
             ca: mint.publicKey.toBase58(),
             creator: deployer.publicKey.toBase58(),
+            signature: createResults.signature,
         };
     } else {
         console.log("Create and Buy failed");
@@ -126,6 +133,7 @@ export const createAndBuyToken = async ({
             success: false,
             ca: mint.publicKey.toBase58(),
             error: createResults.error || "Transaction failed",
+            signature: createResults.signature,
         };
     }
 };
@@ -226,17 +234,6 @@ export const sellToken = async ({
     }
 };
 
-// previous logic:
-// if (typeof window !== "undefined" && typeof window.confirm === "function") {
-//     return window.confirm(
-//         "Confirm the creation and purchase of the token?"
-//     );
-// }
-// return true;
-const promptConfirmation = async (): Promise<boolean> => {
-    return true;
-};
-
 // Save the base64 data to a file
 import * as fs from "fs";
 import * as path from "path";
@@ -271,6 +268,8 @@ Respond with a JSON markdown block containing only the extracted values.`;
 export default {
     name: "CREATE_AND_BUY_TOKEN",
     similes: ["CREATE_AND_PURCHASE_TOKEN", "DEPLOY_AND_BUY_TOKEN"],
+    // Spends SOL from the deployer wallet, so it waits for approval
+    risk: ActionRisk.HIGH,
     validate: async (_runtime: IAgentRuntime, _message: Memory) => {
         return true; //return isCreateAndBuyContent(runtime, message.content);
     },
@@ -412,27 +411,50 @@ export default {
             const sdk = new PumpFunSDK(provider);
             // const slippage = runtime.getSetting("SLIPPAGE");
 
-            const createAndBuyConfirmation = await promptConfirmation();
-            if (!createAndBuyConfirmation) {
-                console.log("Create and buy token canceled by user");
-                return false;
-            }
-
             // Convert SOL to lamports (1 SOL = 1_000_000_000 lamports)
             const lamports = Math.floor(Number(buyAmountSol) * 1_000_000_000);
 
-            console.log("Executing create and buy transaction...");
-            const result = await createAndBuyToken({
-                deployer: deployerKeypair,
-                mint: mintKeypair,
-                tokenMetadata: fullTokenMetadata,
-                buyAmountSol: BigInt(lamports),
-                priorityFee,
-                allowOffCurve: false,
-                sdk,
-                connection,
-                slippage,
+            const mint = mintKeypair.publicKey.toBase58();
+            const prices = await getJupiterPrices([settings.SOL_ADDRESS]);
+            const solPrice = prices[settings.SOL_ADDRESS];
+            const decision = await runtime.walletPolicy.authorize({
+                action: "CREATE_AND_BUY_TOKEN",
+                userId: message.userId,
+                roomId: message.roomId,
+                valueUsd:
+                    solPrice === undefined
+                        ? null
+                        : Number(buyAmountSol) * solPrice,
+                tokens: [settings.SOL_ADDRESS, mint],
+                slippageBps: Number(slippage),
             });
+            if (!decision.allowed) {
+                callback?.({
+                    text: `Token creation blocked by the wallet policy: ${decision.reason}`,
+                });
+                return false;
+            }
+
+            console.log("Executing create and buy transaction...");
+            let result: Awaited<ReturnType<typeof createAndBuyToken>>;
+            try {
+                result = await createAndBuyToken({
+                    deployer: deployerKeypair,
+                    mint: mintKeypair,
+                    tokenMetadata: fullTokenMetadata,
+                    buyAmountSol: BigInt(lamports),
+                    priorityFee,
+                    allowOffCurve: false,
+                    sdk,
+                    connection,
+                    slippage,
+                });
+            } finally {
+                // Without a signature the transaction was never sent
+                if (!result?.signature) {
+                    await runtime.walletPolicy.release(decision);
+                }
+            }
 
             if (callback) {
                 if (result.success) {
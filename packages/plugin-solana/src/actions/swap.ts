@@ -16,7 +16,10 @@ import {
     type Action,
     composeContext,
     generateObjectDEPRECATED,
+    getJupiterPrices,
+    recordTxSignature,
     settings,
+    TxGuard,
 } from "@ai16z/eliza";
 import { TokenProvider } from "../providers/token.ts";
 import { TrustScoreManager } from "../providers/trustScoreProvider.ts";
@@ -24,12 +27,15 @@ import { walletProvider, WalletProvider } from "../providers/wallet.ts";
 import { getTokenDecimals } from "./swapUtils.ts";
 import { getWalletKey } from "../keypairUtils.ts";
 
+const SWAP_SLIPPAGE_BPS = 50;
+
 async function swapToken(
     connection: Connection,
     walletPublicKey: PublicKey,
     inputTokenCA: string,
     outputTokenCA: string,
-    amount: number
+    amount: number,
+    guard?: TxGuard
 ): Promise<any> {
     try {
         // Get the decimals for the input token
@@ -55,7 +61,7 @@ async function swapToken(
         });
 
         const quoteResponse = await fetch(
-            `https://quote-api.jup.ag/v6/quote?inputMint=${inputTokenCA}&outputMint=${outputTokenCA}&amount=${adjustedAmount}&slippageBps=50`
+            `https://quote-api.jup.ag/v6/quote?inputMint=${inputTokenCA}&outputMint=${outputTokenCA}&amount=${adjustedAmount}&slippageBps=${SWAP_SLIPPAGE_BPS}`
         );
         const quoteData = await quoteResponse.json();
 
@@ -96,6 +102,19 @@ async function swapToken(
         }
 
         console.log("Swap transaction received");
+
+        // Simulated against the guard's policy before the wallet signs it
+        await guard?.check(
+            VersionedTransaction.deserialize(
+                Buffer.from(swapData.swapTransaction, "base64")
+            ),
+            walletPublicKey,
+            {
+                description: `Swap ${amount} ${inputTokenCA} for ${outputTokenCA}`,
+                receive: { [outputTokenCA]: BigInt(quoteData.outAmount) },
+            }
+        );
+
         return swapData;
     } catch (error) {
         console.error("Error in swapToken:", error);
@@ -286,6 +305,26 @@ export const executeSwap: Action = {
             callback?.(responseMsg);
             return true;
         }
+
+        const prices = await getJupiterPrices([response.inputTokenCA]);
+        const price = prices[response.inputTokenCA];
+        const decision = await runtime.walletPolicy.authorize({
+            action: "EXECUTE_SWAP",
+            userId: message.userId,
+            roomId: message.roomId,
+            valueUsd:
+                price === undefined ? null : Number(response.amount) * price,
+            tokens: [response.inputTokenCA, response.outputTokenCA],
+            slippageBps: SWAP_SLIPPAGE_BPS,
+        });
+        if (!decision.allowed) {
+            callback?.({
+                text: `Swap blocked by the wallet policy: ${decision.reason}`,
+            });
+            return false;
+        }
+
+        let sent = false;
         try {
             const connection = new Connection(
                 "https://api.mainnet-beta.solana.com"
@@ -307,7 +346,8 @@ export const executeSwap: Action = {
                 walletPublicKey,
                 response.inputTokenCA as string,
                 response.outputTokenCA as string,
-                response.amount as number
+                response.amount as number,
+                new TxGuard(connection)
             );
 
             console.log("Deserializing transaction...");
@@ -333,6 +373,8 @@ export const executeSwap: Action = {
             transaction.sign([keypair]);
 
             console.log("Sending transaction...");
+            // One that throws may still land, so its spend stays counted
+            sent = true;
 
             const latestBlockhash = await connection.getLatestBlockhash();
 
@@ -341,6 +383,7 @@ export const executeSwap: Action = {
                 maxRetries: 3,
                 preflightCommitment: "confirmed",
             });
+            recordTxSignature(txid);
 
             console.log("Transaction sent:", txid);
 
@@ -453,6 +496,9 @@ export const executeSwap: Action = {
             return true;
         } catch (error) {
             console.error("Error during token swap:", error);
+            if (!sent) {
+                await runtime.walletPolicy.release(decision);
+            }
             return false;
         }
     },
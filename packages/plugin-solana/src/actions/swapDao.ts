@@ -1,13 +1,21 @@
 import {
     ActionExample,
+    ActionRisk,
+    getJupiterPrices,
+    HandlerCallback,
     IAgentRuntime,
     Memory,
+    recordTxSignature,
+    State,
     type Action,
 } from "@ai16z/eliza";
 import { Connection, Keypair, PublicKey, Transaction } from "@solana/web3.js";
 import { getQuote } from "./swapUtils.ts";
 import { getWalletKey } from "../keypairUtils.ts";
 
+// The slippage getQuote asks Jupiter for
+const SWAP_DAO_SLIPPAGE_BPS = 50;
+
 async function invokeSwapDao(
     connection: Connection,
     authority: Keypair,
@@ -39,19 +47,16 @@ async function invokeSwapDao(
     const signature = await connection.sendTransaction(transaction, [
         authority,
     ]);
+    recordTxSignature(signature);
     await connection.confirmTransaction(signature);
     return signature;
 }
 
-async function promptConfirmation(): Promise<boolean> {
-    // confirmation logic here
-    const confirmSwap = window.confirm("Confirm the token swap?");
-    return confirmSwap;
-}
-
 export const executeSwapForDAO: Action = {
     name: "EXECUTE_SWAP_DAO",
     similes: ["SWAP_TOKENS_DAO", "TOKEN_SWAP_DAO"],
+    // Swaps DAO funds, so it waits for approval
+    risk: ActionRisk.HIGH,
     validate: async (runtime: IAgentRuntime, message: Memory) => {
         console.log("Message:", message);
         return true;
@@ -59,10 +64,31 @@ export const executeSwapForDAO: Action = {
     description: "Perform a DAO token swap using execute_invoke.",
     handler: async (
         runtime: IAgentRuntime,
-        message: Memory
+        message: Memory,
+        _state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
     ): Promise<boolean> => {
         const { inputToken, outputToken, amount } = message.content;
 
+        const prices = await getJupiterPrices([inputToken as string]);
+        const price = prices[inputToken as string];
+        const decision = await runtime.walletPolicy.authorize({
+            action: "EXECUTE_SWAP_DAO",
+            userId: message.userId,
+            roomId: message.roomId,
+            valueUsd: price === undefined ? null : Number(amount) * price,
+            tokens: [inputToken as string, outputToken as string],
+            slippageBps: SWAP_DAO_SLIPPAGE_BPS,
+        });
+        if (!decision.allowed) {
+            callback?.({
+                text: `DAO swap blocked by the wallet policy: ${decision.reason}`,
+            });
+            return false;
+        }
+
+        let sent = false;
         try {
             const connection = new Connection(
                 runtime.getSetting("RPC_URL") as string
@@ -90,12 +116,6 @@ export const executeSwapForDAO: Action = {
             );
             console.log("Swap Quote:", quoteData);
 
-            const confirmSwap = await promptConfirmation();
-            if (!confirmSwap) {
-                console.log("Swap canceled by user");
-                return false;
-            }
-
             // Prepare instruction data for swap
             const instructionData = Buffer.from(
                 JSON.stringify({
@@ -105,6 +125,8 @@ export const executeSwapForDAO: Action = {
                 })
             );
 
+            // One that throws may still land, so its spend stays counted
+            sent = true;
             const txid = await invokeSwapDao(
                 connection,
                 authority,
@@ -119,6 +141,9 @@ export const executeSwapForDAO: Action = {
             return true;
         } catch (error) {
             console.error("Error during DAO token swap:", error);
+            if (!sent) {
+                await runtime.walletPolicy.release(decision);
+            }
             return false;
         }
     },
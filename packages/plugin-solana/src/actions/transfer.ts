@@ -2,7 +2,12 @@ import {
     getAssociatedTokenAddressSync,
     createTransferInstruction,
 } from "@solana/spl-token";
-import { elizaLogger, settings } from "@ai16z/eliza";
+import {
+    elizaLogger,
+    getJupiterPrices,
+    recordTxSignature,
+    settings,
+} from "@ai16z/eliza";
 
 import {
     Connection,
@@ -136,6 +141,26 @@ export default {
             return false;
         }
 
+        const prices = await getJupiterPrices([content.tokenAddress]);
+        const price = prices[content.tokenAddress];
+        const decision = await runtime.walletPolicy.authorize({
+            action: "SEND_TOKEN",
+            userId: message.userId,
+            roomId: message.roomId,
+            valueUsd:
+                price === undefined ? null : Number(content.amount) * price,
+            tokens: [content.tokenAddress],
+            destination: content.recipient,
+        });
+        if (!decision.allowed) {
+            callback?.({
+                text: `Transfer blocked by the wallet policy: ${decision.reason}`,
+                content: { error: decision.reason },
+            });
+            return false;
+        }
+
+        let sent = false;
         try {
             const { keypair: senderKeypair } = await getWalletKey(
                 runtime,
@@ -207,8 +232,11 @@ export default {
             const transaction = new VersionedTransaction(messageV0);
             transaction.sign([senderKeypair]);
 
-            // Send transaction
+            // Send transaction; one that throws may still land, so its
+            // spend stays counted
+            sent = true;
             const signature = await connection.sendTransaction(transaction);
+            recordTxSignature(signature);
 
             console.log("Transfer successful:", signature);
 
@@ -227,6 +255,9 @@ export default {
             return true;
         } catch (error) {
             console.error("Error during token transfer:", error);
+            if (!sent) {
+                await runtime.walletPolicy.release(decision);
+            }
             if (callback) {
                 callback({
                     text: `Error transferring tokens: ${error.message}`,
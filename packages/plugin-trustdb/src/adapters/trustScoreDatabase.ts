@@ -94,6 +94,86 @@ export interface TradePerformance {
     rapidDump: boolean;
 }
 
+export interface YieldSnapshot {
+    poolAddress: string;
+    protocol: string;
+    type: string;
+    apy: number;
+    tvl: number;
+    risk: number;
+    timestamp: Date;
+}
+
+export interface FundingSnapshot {
+    marketCode: string;
+    // Funding per settlement period as a fraction, positive when longs pay
+    fundingRate: number;
+    markPrice: number;
+    indexPrice: number;
+    openInterest: number;
+    timestamp: Date;
+}
+
+export interface LedgerPosition {
+    id: string; // UUID
+    protocol: string;
+    kind: "LP" | "STAKING" | "LENDING" | "PERP";
+    poolAddress: string;
+    positionMint?: string;
+    // Range bounds in the venue's own unit (ticks, bins or prices)
+    rangeLower?: number;
+    rangeUpper?: number;
+    rangeUnit?: "tick" | "bin" | "price";
+    lowerPrice?: number;
+    upperPrice?: number;
+    depositedAmounts: Record<string, number>;
+    entryPrice: number;
+    notionalUsd: number;
+    // Direction of perp positions
+    side?: "LONG" | "SHORT";
+    txSignatures: string[];
+    // "pending" opens and "closing" closes wait for their transactions
+    status: "pending" | "open" | "closing" | "closed";
+    openedAt: Date;
+    closedAt?: Date;
+}
+
+export interface WatchlistThresholds {
+    priceChangePercent: number;
+    volumeChangePercent: number;
+    liquidityChangePercent: number;
+}
+
+// Market state of a watched token, changes are measured against it
+export interface WatchlistSnapshot {
+    price: number;
+    volume24h: number;
+    liquidity: number;
+    timestamp: Date;
+}
+
+export interface WatchlistEntry {
+    tokenAddress: string;
+    symbol?: string;
+    // Room the token was watched from, alerts are delivered there
+    roomId?: string;
+    addedAt: Date;
+    lastChecked: Date;
+    alertThresholds: WatchlistThresholds;
+    baseline: WatchlistSnapshot;
+    isActive: boolean;
+}
+
+export interface WatchlistAlert {
+    id?: number;
+    tokenAddress: string;
+    timestamp: Date;
+    alertType: "PRICE" | "VOLUME" | "LIQUIDITY" | "SECURITY";
+    message: string;
+    severity: "LOW" | "MEDIUM" | "HIGH";
+    metrics: Record<string, number>;
+}
+
 interface RecommenderMetricsRow {
     recommender_id: string;
     trust_score: number;
@@ -139,17 +219,64 @@ interface Transaction {
     timestamp: string;
 }
 
+interface YieldHistoryRow {
+    pool_address: string;
+    protocol: string;
+    type: string;
+    apy: number;
+    tvl: number;
+    risk: number;
+    timestamp: string;
+}
+
+interface FundingHistoryRow {
+    market_code: string;
+    funding_rate: number;
+    mark_price: number;
+    index_price: number;
+    open_interest: number;
+    timestamp: string;
+}
+
+interface PositionRow {
+    id: string;
+    protocol: string;
+    kind: string;
+    pool_address: string;
+    position_mint: string | null;
+    range_lower: number | null;
+    range_upper: number | null;
+    range_unit: string | null;
+    lower_price: number | null;
+    upper_price: number | null;
+    deposited_json: string;
+    entry_price: number;
+    notional_usd: number;
+    side: string | null;
+    tx_signatures_json: string;
+    status: string;
+    opened_at: string;
+    closed_at: string | null;
+}
+
 interface WatchlistRow {
     token_address: string;
+    symbol: string | null;
+    room_id: string | null;
     added_at: string;
     last_checked: string;
     price_change_threshold: number;
     volume_change_threshold: number;
     liquidity_change_threshold: number;
+    baseline_price: number;
+    baseline_volume_24h: number;
+    baseline_liquidity: number;
+    baseline_at: string;
     is_active: number;
 }
 
 interface WatchlistAlertRow {
+    id: number;
     token_address: string;
     timestamp: string;
     alert_type: string;
@@ -167,10 +294,10 @@ export class TrustScoreDatabase {
         // check if the tables exist, if not create them
         const tables = this.db
             .prepare(
-                "SELECT name FROM sqlite_master WHERE type='table' AND name IN ('recommenders', 'recommender_metrics', 'token_performance', 'token_recommendations', 'recommender_metrics_history');"
+                "SELECT name FROM sqlite_master WHERE type='table' AND name IN ('recommenders', 'recommender_metrics', 'token_performance', 'token_recommendations', 'recommender_metrics_history', 'yield_history', 'funding_history', 'positions', 'watchlist', 'watchlist_alerts');"
             )
             .all();
-        if (tables.length !== 5) {
+        if (tables.length !== 10) {
             this.initializeSchema();
         }
     }
@@ -341,6 +468,90 @@ export class TrustScoreDatabase {
             FOREIGN KEY (token_address) REFERENCES token_performance(token_address) ON DELETE CASCADE
         );
     `);
+
+        // create yield history table
+        this.db.exec(`
+        CREATE TABLE IF NOT EXISTS yield_history (
+            pool_address TEXT NOT NULL,
+            protocol TEXT NOT NULL,
+            type TEXT NOT NULL,
+            apy REAL NOT NULL,
+            tvl REAL NOT NULL,
+            risk REAL,
+            timestamp TEXT NOT NULL,
+            PRIMARY KEY (pool_address, timestamp)
+        );
+        CREATE INDEX IF NOT EXISTS idx_yield_history_timestamp ON yield_history(timestamp);
+    `);
+
+        // create funding history table
+        this.db.exec(`
+        CREATE TABLE IF NOT EXISTS funding_history (
+            market_code TEXT NOT NULL,
+            funding_rate REAL NOT NULL,
+            mark_price REAL NOT NULL,
+            index_price REAL NOT NULL,
+            open_interest REAL NOT NULL,
+            timestamp TEXT NOT NULL,
+            PRIMARY KEY (market_code, timestamp)
+        );
+        CREATE INDEX IF NOT EXISTS idx_funding_history_timestamp ON funding_history(timestamp);
+    `);
+
+        // create positions table
+        this.db.exec(`
+        CREATE TABLE IF NOT EXISTS positions (
+            id TEXT PRIMARY KEY,
+            protocol TEXT NOT NULL,
+            kind TEXT NOT NULL,
+            pool_address TEXT NOT NULL,
+            position_mint TEXT,
+            range_lower REAL,
+            range_upper REAL,
+            range_unit TEXT,
+            lower_price REAL,
+            upper_price REAL,
+            deposited_json TEXT NOT NULL,
+            entry_price REAL NOT NULL,
+            notional_usd REAL NOT NULL,
+            side TEXT,
+            tx_signatures_json TEXT NOT NULL,
+            status TEXT NOT NULL,
+            opened_at TEXT NOT NULL,
+            closed_at TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_positions_status ON positions(status);
+    `);
+
+        // create watchlist tables
+        this.db.exec(`
+        CREATE TABLE IF NOT EXISTS watchlist (
+            token_address TEXT PRIMARY KEY,
+            symbol TEXT,
+            room_id TEXT,
+            added_at TEXT NOT NULL,
+            last_checked TEXT NOT NULL,
+            price_change_threshold REAL NOT NULL,
+            volume_change_threshold REAL NOT NULL,
+            liquidity_change_threshold REAL NOT NULL,
+            baseline_price REAL NOT NULL,
+            baseline_volume_24h REAL NOT NULL,
+            baseline_liquidity REAL NOT NULL,
+            baseline_at TEXT NOT NULL,
+            is_active INTEGER DEFAULT 1
+        );
+        CREATE TABLE IF NOT EXISTS watchlist_alerts (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            token_address TEXT NOT NULL,
+            timestamp TEXT NOT NULL,
+            alert_type TEXT NOT NULL,
+            message TEXT NOT NULL,
+            severity TEXT NOT NULL,
+            metrics_json TEXT NOT NULL,
+            FOREIGN KEY (token_address) REFERENCES watchlist(token_address)
+        );
+        CREATE INDEX IF NOT EXISTS idx_watchlist_alerts_timestamp ON watchlist_alerts(timestamp);
+    `);
     }
 
     /**
@@ -1435,115 +1646,555 @@ export class TrustScoreDatabase {
         });
     }
 
+    // ----- Yield History Methods -----
     /**
-     * Close the database connection gracefully.
+     * Records a batch of yield snapshots in a single transaction.
+     * @param snapshots YieldSnapshot objects, usually one per pool
+     * @returns boolean indicating success
      */
-    closeConnection(): void {
-        this.db.close();
+    addYieldSnapshots(snapshots: YieldSnapshot[]): boolean {
+        const sql = `
+        INSERT OR REPLACE INTO yield_history (
+            pool_address,
+            protocol,
+            type,
+            apy,
+            tvl,
+            risk,
+            timestamp
+        ) VALUES (?, ?, ?, ?, ?, ?, ?);
+    `;
+        try {
+            const insert = this.db.prepare(sql);
+            this.db.transaction((rows: YieldSnapshot[]) => {
+                for (const snapshot of rows) {
+                    insert.run(
+                        snapshot.poolAddress,
+                        snapshot.protocol,
+                        snapshot.type,
+                        snapshot.apy,
+                        snapshot.tvl,
+                        snapshot.risk,
+                        snapshot.timestamp.toISOString()
+                    );
+                }
+            })(snapshots);
+            return true;
+        } catch (error) {
+            console.error("Error adding yield snapshots:", error);
+            return false;
+        }
     }
 
-    async createWatchlistTables(): Promise<void> {
-        await this.db.exec(`
-          CREATE TABLE IF NOT EXISTS watchlist (
-            token_address TEXT PRIMARY KEY,
-            added_at TEXT NOT NULL,
-            last_checked TEXT NOT NULL,
-            price_change_threshold REAL NOT NULL,
-            volume_change_threshold REAL NOT NULL,
-            liquidity_change_threshold REAL NOT NULL,
-            is_active INTEGER DEFAULT 1
-          );
+    /**
+     * Retrieves the yield history of a pool, oldest first.
+     * @param poolAddress Pool's address
+     * @param since Only return snapshots taken at or after this date
+     * @returns Array of YieldSnapshot objects
+     */
+    getYieldHistory(poolAddress: string, since?: Date): YieldSnapshot[] {
+        const sql = `SELECT * FROM yield_history WHERE pool_address = ? AND timestamp >= ? ORDER BY timestamp ASC;`;
+        const rows = this.db
+            .prepare(sql)
+            .all(
+                poolAddress,
+                (since ?? new Date(0)).toISOString()
+            ) as YieldHistoryRow[];
 
-          CREATE TABLE IF NOT EXISTS watchlist_alerts (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            token_address TEXT NOT NULL,
-            timestamp TEXT NOT NULL,
-            alert_type TEXT NOT NULL,
-            message TEXT NOT NULL,
-            severity TEXT NOT NULL,
-            metrics_json TEXT NOT NULL,
-            FOREIGN KEY (token_address) REFERENCES watchlist(token_address)
-          );
-        `);
+        return rows.map((row) => ({
+            poolAddress: row.pool_address,
+            protocol: row.protocol,
+            type: row.type,
+            apy: row.apy,
+            tvl: row.tvl,
+            risk: row.risk,
+            timestamp: new Date(row.timestamp),
+        }));
+    }
+
+    /**
+     * Returns when the most recent yield snapshot of each pool was taken.
+     * @returns Map of pool address to snapshot time
+     */
+    getLatestYieldSnapshotTimes(): Map<string, Date> {
+        const sql = `SELECT pool_address, MAX(timestamp) AS latest FROM yield_history GROUP BY pool_address;`;
+        const rows = this.db.prepare(sql).all() as {
+            pool_address: string;
+            latest: string;
+        }[];
+        return new Map(
+            rows.map((row) => [row.pool_address, new Date(row.latest)])
+        );
+    }
+
+    /**
+     * Deletes snapshots older than the given date.
+     * @param before Cutoff date
+     * @returns Number of rows removed
+     */
+    pruneYieldHistory(before: Date): number {
+        const sql = `DELETE FROM yield_history WHERE timestamp < ?;`;
+        try {
+            return this.db.prepare(sql).run(before.toISOString()).changes;
+        } catch (error) {
+            console.error("Error pruning yield history:", error);
+            return 0;
+        }
+    }
+
+    // ----- Funding History Methods -----
+    /**
+     * Records a batch of perp funding snapshots in a single transaction.
+     * @param snapshots FundingSnapshot objects, usually one per market
+     * @returns boolean indicating success
+     */
+    addFundingSnapshots(snapshots: FundingSnapshot[]): boolean {
+        const sql = `
+        INSERT OR REPLACE INTO funding_history (
+            market_code,
+            funding_rate,
+            mark_price,
+            index_price,
+            open_interest,
+            timestamp
+        ) VALUES (?, ?, ?, ?, ?, ?);
+    `;
+        try {
+            const insert = this.db.prepare(sql);
+            this.db.transaction((rows: FundingSnapshot[]) => {
+                for (const snapshot of rows) {
+                    insert.run(
+                        snapshot.marketCode,
+                        snapshot.fundingRate,
+                        snapshot.markPrice,
+                        snapshot.indexPrice,
+                        snapshot.openInterest,
+                        snapshot.timestamp.toISOString()
+                    );
+                }
+            })(snapshots);
+            return true;
+        } catch (error) {
+            console.error("Error adding funding snapshots:", error);
+            return false;
+        }
     }
 
-    async addToWatchlist(entry: WatchlistRow): Promise<void> {
-        await this.db.run(
-            `
-          INSERT OR REPLACE INTO watchlist (
+    /**
+     * Retrieves the funding history of a perp market, oldest first.
+     * @param marketCode Market code, e.g. SOL-USD-SWAP-LIN
+     * @param since Only return snapshots taken at or after this date
+     * @returns Array of FundingSnapshot objects
+     */
+    getFundingHistory(marketCode: string, since?: Date): FundingSnapshot[] {
+        const sql = `SELECT * FROM funding_history WHERE market_code = ? AND timestamp >= ? ORDER BY timestamp ASC;`;
+        const rows = this.db
+            .prepare(sql)
+            .all(
+                marketCode,
+                (since ?? new Date(0)).toISOString()
+            ) as FundingHistoryRow[];
+
+        return rows.map((row) => ({
+            marketCode: row.market_code,
+            fundingRate: row.funding_rate,
+            markPrice: row.mark_price,
+            indexPrice: row.index_price,
+            openInterest: row.open_interest,
+            timestamp: new Date(row.timestamp),
+        }));
+    }
+
+    /**
+     * Returns when the most recent funding snapshot was taken, if any.
+     */
+    getLatestFundingSnapshotTime(): Date | null {
+        const sql = `SELECT MAX(timestamp) AS latest FROM funding_history;`;
+        const row = this.db.prepare(sql).get() as { latest: string | null };
+        return row?.latest ? new Date(row.latest) : null;
+    }
+
+    /**
+     * Deletes funding snapshots older than the given date.
+     * @param before Cutoff date
+     * @returns Number of rows removed
+     */
+    pruneFundingHistory(before: Date): number {
+        const sql = `DELETE FROM funding_history WHERE timestamp < ?;`;
+        try {
+            return this.db.prepare(sql).run(before.toISOString()).changes;
+        } catch (error) {
+            console.error("Error pruning funding history:", error);
+            return 0;
+        }
+    }
+
+    // ----- Position Ledger Methods -----
+    /**
+     * Inserts or replaces a position in the ledger.
+     * @param position LedgerPosition object
+     * @returns boolean indicating success
+     */
+    upsertPosition(position: LedgerPosition): boolean {
+        const sql = `
+        INSERT OR REPLACE INTO positions (
+            id,
+            protocol,
+            kind,
+            pool_address,
+            position_mint,
+            range_lower,
+            range_upper,
+            range_unit,
+            lower_price,
+            upper_price,
+            deposited_json,
+            entry_price,
+            notional_usd,
+            side,
+            tx_signatures_json,
+            status,
+            opened_at,
+            closed_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);
+    `;
+        try {
+            this.db
+                .prepare(sql)
+                .run(
+                    position.id,
+                    position.protocol,
+                    position.kind,
+                    position.poolAddress,
+                    position.positionMint ?? null,
+                    position.rangeLower ?? null,
+                    position.rangeUpper ?? null,
+                    position.rangeUnit ?? null,
+                    position.lowerPrice ?? null,
+                    position.upperPrice ?? null,
+                    JSON.stringify(position.depositedAmounts),
+                    position.entryPrice,
+                    position.notionalUsd,
+                    position.side ?? null,
+                    JSON.stringify(position.txSignatures),
+                    position.status,
+                    position.openedAt.toISOString(),
+                    position.closedAt?.toISOString() ?? null
+                );
+            return true;
+        } catch (error) {
+            console.error("Error upserting position:", error);
+            return false;
+        }
+    }
+
+    /**
+     * Retrieves a position by its ID.
+     * @param id Position UUID
+     * @returns LedgerPosition object or null
+     */
+    getPosition(id: string): LedgerPosition | null {
+        const sql = `SELECT * FROM positions WHERE id = ?;`;
+        const row = this.db.prepare(sql).get(id) as PositionRow | undefined;
+        return row ? this.mapPositionRow(row) : null;
+    }
+
+    /**
+     * Retrieves positions, newest first.
+     * @param status Only return positions with this status
+     * @returns Array of LedgerPosition objects
+     */
+    getPositions(status?: LedgerPosition["status"]): LedgerPosition[] {
+        const rows = (
+            status
+                ? this.db
+                      .prepare(
+                          `SELECT * FROM positions WHERE status = ? ORDER BY opened_at DESC;`
+                      )
+                      .all(status)
+                : this.db
+                      .prepare(
+                          `SELECT * FROM positions ORDER BY opened_at DESC;`
+                      )
+                      .all()
+        ) as PositionRow[];
+
+        return rows.map((row) => this.mapPositionRow(row));
+    }
+
+    private mapPositionRow(row: PositionRow): LedgerPosition {
+        return {
+            id: row.id,
+            protocol: row.protocol,
+            kind: row.kind as LedgerPosition["kind"],
+            poolAddress: row.pool_address,
+            positionMint: row.position_mint ?? undefined,
+            rangeLower: row.range_lower ?? undefined,
+            rangeUpper: row.range_upper ?? undefined,
+            rangeUnit: (row.range_unit ??
+                undefined) as LedgerPosition["rangeUnit"],
+            lowerPrice: row.lower_price ?? undefined,
+            upperPrice: row.upper_price ?? undefined,
+            depositedAmounts: JSON.parse(row.deposited_json),
+            entryPrice: row.entry_price,
+            notionalUsd: row.notional_usd,
+            side: (row.side ?? undefined) as LedgerPosition["side"],
+            txSignatures: JSON.parse(row.tx_signatures_json),
+            status: row.status as LedgerPosition["status"],
+            openedAt: new Date(row.opened_at),
+            closedAt: row.closed_at ? new Date(row.closed_at) : undefined,
+        };
+    }
+
+    // ----- Watchlist Methods -----
+    /**
+     * Adds a token to the watchlist, or re-activates it with a fresh baseline
+     * and thresholds when it was already watched.
+     * @param entry WatchlistEntry object
+     * @returns boolean indicating success
+     */
+    addToWatchlist(entry: WatchlistEntry): boolean {
+        const sql = `
+        INSERT INTO watchlist (
             token_address,
+            symbol,
+            room_id,
             added_at,
             last_checked,
             price_change_threshold,
             volume_change_threshold,
             liquidity_change_threshold,
+            baseline_price,
+            baseline_volume_24h,
+            baseline_liquidity,
+            baseline_at,
             is_active
-          ) VALUES (?, ?, ?, ?, ?, ?, ?)
-        `,
-            [
-                entry.token_address,
-                entry.added_at,
-                entry.last_checked,
-                entry.price_change_threshold,
-                entry.volume_change_threshold,
-                entry.liquidity_change_threshold,
-                entry.is_active,
-            ]
-        );
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(token_address) DO UPDATE SET
+            symbol = excluded.symbol,
+            room_id = excluded.room_id,
+            added_at = excluded.added_at,
+            last_checked = excluded.last_checked,
+            price_change_threshold = excluded.price_change_threshold,
+            volume_change_threshold = excluded.volume_change_threshold,
+            liquidity_change_threshold = excluded.liquidity_change_threshold,
+            baseline_price = excluded.baseline_price,
+            baseline_volume_24h = excluded.baseline_volume_24h,
+            baseline_liquidity = excluded.baseline_liquidity,
+            baseline_at = excluded.baseline_at,
+            is_active = excluded.is_active;
+    `;
+        try {
+            this.db
+                .prepare(sql)
+                .run(
+                    entry.tokenAddress,
+                    entry.symbol ?? null,
+                    entry.roomId ?? null,
+                    entry.addedAt.toISOString(),
+                    entry.lastChecked.toISOString(),
+                    entry.alertThresholds.priceChangePercent,
+                    entry.alertThresholds.volumeChangePercent,
+                    entry.alertThresholds.liquidityChangePercent,
+                    entry.baseline.price,
+                    entry.baseline.volume24h,
+                    entry.baseline.liquidity,
+                    entry.baseline.timestamp.toISOString(),
+                    entry.isActive ? 1 : 0
+                );
+            return true;
+        } catch (error) {
+            console.error("Error adding token to watchlist:", error);
+            return false;
+        }
     }
 
-    async removeFromWatchlist(tokenAddress: string): Promise<void> {
-        await this.db.run("DELETE FROM watchlist WHERE token_address = ?", [
-            tokenAddress,
-        ]);
+    /**
+     * Deactivates a watched token. The row is kept so its alert history stays
+     * queryable.
+     * @param tokenAddress Token mint address
+     * @returns boolean indicating whether an active entry was removed
+     */
+    removeFromWatchlist(tokenAddress: string): boolean {
+        const sql = `UPDATE watchlist SET is_active = 0 WHERE token_address = ? AND is_active = 1;`;
+        try {
+            return this.db.prepare(sql).run(tokenAddress).changes > 0;
+        } catch (error) {
+            console.error("Error removing token from watchlist:", error);
+            return false;
+        }
     }
 
-    async getWatchlist(): Promise<WatchlistRow[]> {
-        return await this.db.all("SELECT * FROM watchlist WHERE is_active = 1");
+    /**
+     * Retrieves the active watchlist, optionally limited to one room.
+     * @param roomId Room the tokens were watched from
+     * @returns Array of WatchlistEntry objects
+     */
+    getWatchlist(roomId?: string): WatchlistEntry[] {
+        const sql = roomId
+            ? `SELECT * FROM watchlist WHERE is_active = 1 AND room_id = ? ORDER BY added_at ASC;`
+            : `SELECT * FROM watchlist WHERE is_active = 1 ORDER BY added_at ASC;`;
+        const rows = (
+            roomId
+                ? this.db.prepare(sql).all(roomId)
+                : this.db.prepare(sql).all()
+        ) as WatchlistRow[];
+
+        return rows.map((row) => this.mapWatchlistRow(row));
     }
 
-    async addWatchlistAlert(alert: WatchlistAlertRow): Promise<void> {
-        await this.db.run(
-            `
-          INSERT INTO watchlist_alerts (
+    /**
+     * Retrieves a single watchlist entry, active or not.
+     * @param tokenAddress Token mint address
+     * @returns WatchlistEntry object or null
+     */
+    getWatchlistEntry(tokenAddress: string): WatchlistEntry | null {
+        const sql = `SELECT * FROM watchlist WHERE token_address = ?;`;
+        const row = this.db.prepare(sql).get(tokenAddress) as
+            | WatchlistRow
+            | undefined;
+        return row ? this.mapWatchlistRow(row) : null;
+    }
+
+    /**
+     * Replaces the snapshot a watched token's changes are measured against.
+     * @param tokenAddress Token mint address
+     * @param baseline New baseline snapshot
+     * @returns boolean indicating success
+     */
+    updateWatchlistBaseline(
+        tokenAddress: string,
+        baseline: WatchlistSnapshot
+    ): boolean {
+        const sql = `
+        UPDATE watchlist
+        SET baseline_price = ?, baseline_volume_24h = ?, baseline_liquidity = ?, baseline_at = ?
+        WHERE token_address = ?;
+    `;
+        try {
+            this.db
+                .prepare(sql)
+                .run(
+                    baseline.price,
+                    baseline.volume24h,
+                    baseline.liquidity,
+                    baseline.timestamp.toISOString(),
+                    tokenAddress
+                );
+            return true;
+        } catch (error) {
+            console.error("Error updating watchlist baseline:", error);
+            return false;
+        }
+    }
+
+    /**
+     * Marks a watched token as checked.
+     * @param tokenAddress Token mint address
+     * @param checkedAt Time of the check
+     * @returns boolean indicating success
+     */
+    updateWatchlistLastChecked(
+        tokenAddress: string,
+        checkedAt: Date = new Date()
+    ): boolean {
+        const sql = `UPDATE watchlist SET last_checked = ? WHERE token_address = ?;`;
+        try {
+            this.db.prepare(sql).run(checkedAt.toISOString(), tokenAddress);
+            return true;
+        } catch (error) {
+            console.error("Error updating watchlist last checked:", error);
+            return false;
+        }
+    }
+
+    /**
+     * Records an alert raised for a watched token.
+     * @param alert WatchlistAlert object
+     * @returns ID of the stored alert or null on failure
+     */
+    addWatchlistAlert(alert: WatchlistAlert): number | null {
+        const sql = `
+        INSERT INTO watchlist_alerts (
             token_address,
             timestamp,
             alert_type,
             message,
             severity,
             metrics_json
-          ) VALUES (?, ?, ?, ?, ?, ?)
-        `,
-            [
-                alert.token_address,
-                alert.timestamp,
-                alert.alert_type,
-                alert.message,
-                alert.severity,
-                alert.metrics_json,
-            ]
-        );
+        ) VALUES (?, ?, ?, ?, ?, ?);
+    `;
+        try {
+            const result = this.db
+                .prepare(sql)
+                .run(
+                    alert.tokenAddress,
+                    alert.timestamp.toISOString(),
+                    alert.alertType,
+                    alert.message,
+                    alert.severity,
+                    JSON.stringify(alert.metrics)
+                );
+            return Number(result.lastInsertRowid);
+        } catch (error) {
+            console.error("Error adding watchlist alert:", error);
+            return null;
+        }
     }
 
-    async getWatchlistAlerts(
-        tokenAddress?: string
-    ): Promise<WatchlistAlertRow[]> {
-        const query = tokenAddress
-            ? "SELECT * FROM watchlist_alerts WHERE token_address = ? ORDER BY timestamp DESC"
-            : "SELECT * FROM watchlist_alerts ORDER BY timestamp DESC";
+    /**
+     * Retrieves watchlist alerts, newest first.
+     * @param tokenAddress Only return alerts for this token
+     * @param since Only return alerts raised at or after this date
+     * @returns Array of WatchlistAlert objects
+     */
+    getWatchlistAlerts(tokenAddress?: string, since?: Date): WatchlistAlert[] {
+        const params: string[] = [(since ?? new Date(0)).toISOString()];
+        let sql = `SELECT * FROM watchlist_alerts WHERE timestamp >= ?`;
+        if (tokenAddress) {
+            sql += ` AND token_address = ?`;
+            params.push(tokenAddress);
+        }
+        sql += ` ORDER BY timestamp DESC, id DESC;`;
+
+        const rows = this.db.prepare(sql).all(...params) as WatchlistAlertRow[];
+        return rows.map((row) => ({
+            id: row.id,
+            tokenAddress: row.token_address,
+            timestamp: new Date(row.timestamp),
+            alertType: row.alert_type as WatchlistAlert["alertType"],
+            message: row.message,
+            severity: row.severity as WatchlistAlert["severity"],
+            metrics: JSON.parse(row.metrics_json),
+        }));
+    }
 
-        const params = tokenAddress ? [tokenAddress] : [];
-        return await this.db.all(query, params);
+    private mapWatchlistRow(row: WatchlistRow): WatchlistEntry {
+        return {
+            tokenAddress: row.token_address,
+            symbol: row.symbol ?? undefined,
+            roomId: row.room_id ?? undefined,
+            addedAt: new Date(row.added_at),
+            lastChecked: new Date(row.last_checked),
+            alertThresholds: {
+                priceChangePercent: row.price_change_threshold,
+                volumeChangePercent: row.volume_change_threshold,
+                liquidityChangePercent: row.liquidity_change_threshold,
+            },
+            baseline: {
+                price: row.baseline_price,
+                volume24h: row.baseline_volume_24h,
+                liquidity: row.baseline_liquidity,
+                timestamp: new Date(row.baseline_at),
+            },
+            isActive: row.is_active === 1,
+        };
     }
 
-    async updateWatchlistLastChecked(tokenAddress: string): Promise<void> {
-        await this.db.run(
-            `
-          UPDATE watchlist
-          SET last_checked = ?
-          WHERE token_address = ?
-        `,
-            [new Date().toISOString(), tokenAddress]
-        );
+    /**
+     * Close the database connection gracefully.
+     */
+    closeConnection(): void {
+        this.db.close();
     }
 }
@@ -0,0 +1,222 @@
+import { describe, expect, test, vi } from "vitest";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import {
+    AlertDispatcher,
+    AlertSink,
+    AlertSubscription,
+    getAlertSinks,
+    getSubscriptionTarget,
+    YieldsAlert,
+} from "../utils/alertDispatcher";
+import { getPositionHealthAlerts, RebalancePlan } from "../utils/rebalancer";
+import { memoryCache } from "./helpers/memoryCache";
+
+vi.mock("@ai16z/plugin-trustdb", () => ({ TrustScoreDatabase: vi.fn() }));
+
+const MINUTE_MS = 60 * 1000;
+const now = new Date("2024-12-31T00:00:00Z");
+
+const sink = (channel: AlertSink["channel"]) => ({
+    channel,
+    send: vi.fn(async () => {}),
+});
+
+const alert = (overrides: Partial<YieldsAlert> = {}): YieldsAlert => ({
+    source: "watchlist",
+    key: "watchlist:bonk:PRICE",
+    severity: "MEDIUM",
+    message: "BONK price up 12.00%",
+    roomId: "room-1",
+    timestamp: now,
+    ...overrides,
+});
+
+const subscription = (
+    overrides: Partial<AlertSubscription> = {}
+): AlertSubscription => ({
+    roomId: "room-1",
+    channel: "discord",
+    target: "123",
+    minSeverity: "LOW",
+    createdAt: 0,
+    ...overrides,
+});
+
+describe("AlertDispatcher", () => {
+    test("routes alerts to the room's subscriptions by severity", async () => {
+        const discord = sink("discord");
+        const telegram = sink("telegram");
+        const dispatcher = new AlertDispatcher(memoryCache(), [
+            discord,
+            telegram,
+        ]);
+        await dispatcher.subscribe(subscription());
+        await dispatcher.subscribe(
+            subscription({
+                channel: "telegram",
+                target: "-100",
+                minSeverity: "HIGH",
+            })
+        );
+        await dispatcher.subscribe(subscription({ roomId: "room-2" }));
+
+        const [delivery] = await dispatcher.dispatch([alert()]);
+
+        expect(delivery).toMatchObject({ delivered: 1, failed: 0 });
+        expect(discord.send).toHaveBeenCalledWith(
+            "123",
+            "⚠️ [MEDIUM] BONK price up 12.00%",
+            alert()
+        );
+        expect(telegram.send).not.toHaveBeenCalled();
+
+        // Alerts without a room go to every subscriber that takes them
+        await dispatcher.dispatch([
+            alert({ key: "pool", severity: "HIGH", roomId: undefined }),
+        ]);
+        expect(discord.send).toHaveBeenCalledTimes(3);
+        expect(telegram.send).toHaveBeenCalledTimes(1);
+    });
+
+    test("holds repeats back for the cooldown unless severity rises", async () => {
+        const discord = sink("discord");
+        const dispatcher = new AlertDispatcher(memoryCache(), [discord]);
+        await dispatcher.subscribe(subscription());
+
+        await dispatcher.dispatch([alert()]);
+        const [repeat] = await dispatcher.dispatch([
+            alert({ timestamp: new Date(now.getTime() + 30 * MINUTE_MS) }),
+        ]);
+        const [escalation] = await dispatcher.dispatch([
+            alert({
+                severity: "HIGH",
+                timestamp: new Date(now.getTime() + 31 * MINUTE_MS),
+            }),
+        ]);
+        const [afterCooldown] = await dispatcher.dispatch([
+            alert({
+                severity: "HIGH",
+                timestamp: new Date(now.getTime() + 47 * MINUTE_MS),
+            }),
+        ]);
+
+        expect(repeat.suppressed).toBe(true);
+        expect(escalation.suppressed).toBe(false);
+        expect(afterCooldown.suppressed).toBe(false);
+        expect(discord.send).toHaveBeenCalledTimes(3);
+    });
+
+    test("counts failed deliveries and unsubscribes rooms", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        const discord = sink("discord");
+        discord.send.mockRejectedValue(new Error("Missing Access"));
+        const dispatcher = new AlertDispatcher(memoryCache(), [discord]);
+        await dispatcher.subscribe(subscription());
+        // No Telegram client is running
+        await dispatcher.subscribe(subscription({ channel: "telegram" }));
+
+        const [delivery] = await dispatcher.dispatch([alert()]);
+        expect(delivery).toMatchObject({ delivered: 0, failed: 2 });
+
+        expect(await dispatcher.unsubscribe("room-1")).toHaveLength(2);
+        expect(await dispatcher.getSubscriptions()).toEqual([]);
+        vi.restoreAllMocks();
+    });
+});
+
+describe("subscription targets", () => {
+    const message = (content: Record<string, unknown>) =>
+        ({
+            roomId: "room-1",
+            content: { text: "alert me", ...content },
+        }) as any;
+
+    test("come from the chat the request was made in", () => {
+        expect(
+            getSubscriptionTarget(
+                message({
+                    source: "discord",
+                    url: "https://discord.com/channels/111/222/333",
+                })
+            )
+        ).toEqual({ channel: "discord", target: "222" });
+        expect(
+            getSubscriptionTarget(
+                message({ source: "telegram", chatId: "-100123" })
+            )
+        ).toEqual({ channel: "telegram", target: "-100123" });
+        expect(
+            getSubscriptionTarget(
+                message({ source: "direct" }),
+                "https://example.com/hook"
+            )
+        ).toEqual({ channel: "webhook", target: "https://example.com/hook" });
+        expect(getSubscriptionTarget(message({}), "not a url")).toBeNull();
+    });
+
+    test("use the clients the agent started", () => {
+        const runtime = (clients: Record<string, unknown>) =>
+            ({ clients }) as any;
+
+        expect(getAlertSinks(runtime({})).map((sink) => sink.channel)).toEqual([
+            "webhook",
+        ]);
+        expect(
+            getAlertSinks(
+                runtime({
+                    discord: { client: {} },
+                    telegram: { bot: {} },
+                })
+            ).map((sink) => sink.channel)
+        ).toEqual(["webhook", "discord", "telegram"]);
+    });
+});
+
+describe("getPositionHealthAlerts", () => {
+    const position = { id: "pos-1", protocol: "Orca", poolAddress: "pool" };
+    const plan = (overrides: Partial<RebalancePlan>): RebalancePlan => ({
+        position: position as LedgerPosition,
+        action: "skip",
+        reason: "in range",
+        expectedFeesUsd: 0,
+        estimatedCostUsd: 0,
+        ...overrides,
+    });
+    const newRange = { lowerPrice: 90, upperPrice: 110 };
+
+    test("grades out-of-range positions by what happened to them", () => {
+        expect(getPositionHealthAlerts([plan({})], [], now)).toEqual([]);
+
+        const [stuck] = getPositionHealthAlerts(
+            [
+                plan({
+                    newRange,
+                    reason: "expected fees do not cover gas and swap costs",
+                }),
+            ],
+            [],
+            now
+        );
+        expect(stuck).toMatchObject({
+            key: "position-health:pos-1:out-of-range",
+            severity: "MEDIUM",
+        });
+
+        const [failed] = getPositionHealthAlerts(
+            [plan({ newRange, action: "rebalance", reason: "price 120" })],
+            [
+                {
+                    positionId: "pos-1",
+                    success: false,
+                    message: "slippage exceeded",
+                    signatures: [],
+                },
+            ],
+            now
+        );
+        expect(failed.severity).toBe("HIGH");
+        expect(failed.message).toBe(
+            "Orca pool is out of range and its rebalance failed: slippage exceeded"
+        );
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "vitest";
+import { join } from "path";
+import {
+    Backtester,
+    dlmmStrategy,
+    fixedWidthStrategy,
+    loadOHLCVFixture,
+    volatilityScaledStrategy,
+} from "../utils/backtester";
+
+const candles = loadOHLCVFixture(join(__dirname, "fixtures/sol-usdc-1h.json"));
+
+const config = {
+    depositValue: 1000,
+    feeRate: 0.003,
+    poolLiquidity: 50000,
+    gasCostPerTx: 0.01,
+};
+
+describe("Backtester", () => {
+    test("loads fixture candles in time order", () => {
+        expect(candles).toHaveLength(72);
+        expect(candles[0].timestamp).toBeLessThan(candles[1].timestamp);
+    });
+
+    test("reports fees, IL, rebalances and drawdown", () => {
+        const result = new Backtester(config).run(
+            fixedWidthStrategy(0.03),
+            candles
+        );
+
+        expect(result.candles).toBe(72);
+        expect(result.feeIncome).toBeGreaterThan(0);
+        expect(result.impermanentLoss).toBeLessThan(0);
+        expect(result.rebalances).toBeGreaterThan(0);
+        expect(result.gasCost).toBeCloseTo(0.01 * (1 + 2 * result.rebalances));
+        expect(result.maxDrawdown).toBeGreaterThan(0);
+        expect(result.maxDrawdown).toBeLessThan(1);
+        expect(result.totalReturn).toBeCloseTo((result.endValue - 1000) / 1000);
+    });
+
+    test("a range wider than the price path never rebalances", () => {
+        const result = new Backtester(config).run(
+            fixedWidthStrategy(0.5),
+            candles
+        );
+
+        expect(result.rebalances).toBe(0);
+        expect(result.timeInRange).toBe(1);
+    });
+
+    test("rebalanceThreshold delays rebalancing", () => {
+        const eager = new Backtester(config).run(
+            fixedWidthStrategy(0.03),
+            candles
+        );
+        const patient = new Backtester({
+            ...config,
+            rebalanceThreshold: 0.05,
+        }).run(fixedWidthStrategy(0.03), candles);
+
+        expect(patient.rebalances).toBeLessThan(eager.rebalances);
+    });
+
+    test("matches HODL when the price does not move", () => {
+        const flat = candles.map((candle) => ({ ...candle, close: 100 }));
+        const result = new Backtester({
+            depositValue: 1000,
+            feeRate: 0.003,
+        }).run(dlmmStrategy("Curve", 0.1), flat);
+
+        expect(result.endValue).toBeCloseTo(1000);
+        expect(result.hodlValue).toBeCloseTo(1000);
+        expect(result.impermanentLoss).toBeCloseTo(0);
+    });
+
+    test("compares strategies by total return", () => {
+        const results = new Backtester(config).compare(
+            [
+                fixedWidthStrategy(0.05),
+                volatilityScaledStrategy(),
+                dlmmStrategy("SpotBalanced", 0.05),
+                dlmmStrategy("Curve", 0.05),
+                dlmmStrategy("BidAsk", 0.05),
+            ],
+            candles
+        );
+
+        expect(results).toHaveLength(5);
+        for (let i = 1; i < results.length; i++) {
+            expect(results[i - 1].totalReturn).toBeGreaterThanOrEqual(
+                results[i].totalReturn
+            );
+        }
+    });
+});
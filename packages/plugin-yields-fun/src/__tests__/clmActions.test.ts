@@ -0,0 +1,383 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { generateObjectV2 } from "@ai16z/eliza";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import {
+    ClmActionRunner,
+    ClmRequest,
+    confirmClmActionAction,
+    openClmPositionAction,
+} from "../actions/clmActions";
+import { PaperLedger } from "../utils/paperTrading";
+import { RebalanceVenue } from "../utils/rebalancer";
+import { memoryCache } from "./helpers/memoryCache";
+
+vi.mock("@ai16z/plugin-trustdb", () => ({ TrustScoreDatabase: vi.fn() }));
+vi.mock("@ai16z/eliza", () => ({
+    composeContext: vi.fn(() => "context"),
+    generateObjectV2: vi.fn(),
+    ModelClass: { SMALL: "small" },
+    TxGuard: vi.fn(),
+}));
+vi.mock("../providers/yieldAggregator", () => ({
+    getOpportunityApy: vi.fn(async () => 30),
+}));
+
+const venue: RebalanceVenue = {
+    protocol: "Orca",
+    getQuote: vi.fn(async () => ({
+        price: 200,
+        mintA: "SOL",
+        mintB: "USDC",
+        decimalsA: 9,
+        decimalsB: 6,
+    })),
+    open: vi.fn(async () => ["open-sig"]),
+    close: vi.fn(async () => ["close-sig"]),
+};
+
+vi.mock("../utils/rebalanceVenues", () => ({
+    createClmVenues: () => [venue],
+    getAgentWallet: vi.fn(),
+}));
+
+const request = (overrides: Partial<ClmRequest> = {}): ClmRequest => ({
+    protocol: "orca",
+    poolAddress: "pool",
+    positionId: null,
+    amountUsd: 1000,
+    lowerPrice: null,
+    upperPrice: null,
+    rangePercent: null,
+    percentage: null,
+    ...overrides,
+});
+
+const position = (overrides: Partial<LedgerPosition> = {}): LedgerPosition => ({
+    id: "pos-1",
+    protocol: "Orca",
+    kind: "LP",
+    poolAddress: "pool",
+    positionMint: "mint-1",
+    lowerPrice: 180,
+    upperPrice: 220,
+    depositedAmounts: {},
+    entryPrice: 200,
+    notionalUsd: 1000,
+    txSignatures: [],
+    status: "open",
+    openedAt: new Date(0),
+    ...overrides,
+});
+
+const liveRunner = (positions: LedgerPosition[] = []) => {
+    const ledger = {
+        get: (id: string) => positions.find((p) => p.id === id) || null,
+        findByMint: (mint: string) =>
+            positions.find((p) => p.positionMint === mint) || null,
+        findActive: (protocol: string, pool: string) =>
+            positions.filter(
+                (p) => p.protocol === protocol && p.poolAddress === pool
+            ),
+    };
+    return new ClmActionRunner(
+        [venue],
+        ledger as any,
+        memoryCache(),
+        "live",
+        async () => 30
+    );
+};
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe("ClmActionRunner", () => {
+    test("signs nothing until the proposal is confirmed", async () => {
+        const runner = liveRunner();
+
+        const prompt = await runner.propose(
+            "room",
+            "user",
+            "open",
+            request({ lowerPrice: 180, upperPrice: 220 })
+        );
+
+        expect(prompt).toContain("Open Orca position in pool");
+        expect(prompt).toContain("Range: 180 - 220");
+        expect(prompt).toContain('Reply "confirm"');
+        expect(venue.open).not.toHaveBeenCalled();
+
+        const result = await runner.confirm("room", "user", {} as any);
+
+        expect(result).toContain("Deposited $1,000 into Orca pool");
+        expect(result).toContain("open-sig");
+        const [pool, range, amounts] = vi.mocked(venue.open).mock.calls[0];
+        expect(pool).toBe("pool");
+        expect(range).toEqual({ lowerPrice: 180, upperPrice: 220 });
+        // Deposit split at the range's ratio, valued in token B
+        expect(amounts.tokenA * 200 + amounts.tokenB).toBeCloseTo(1000);
+        expect(amounts.tokenA).toBeGreaterThan(0);
+        expect(amounts.tokenB).toBeGreaterThan(0);
+
+        // The proposal is used up
+        expect(await runner.getPending("room", "user")).toBeNull();
+        expect(await runner.confirm("room", "user", {} as any)).toBe(
+            "There is no pending liquidity action to confirm"
+        );
+        expect(venue.open).toHaveBeenCalledTimes(1);
+    });
+
+    test("discards cancelled and expired proposals", async () => {
+        const runner = liveRunner();
+
+        await runner.propose("room", "user", "open", request());
+        expect((await runner.cancel("room", "user")).operation).toBe("open");
+        expect(await runner.getPending("room", "user")).toBeNull();
+
+        vi.useFakeTimers();
+        await runner.propose("room", "user", "open", request());
+        vi.advanceTimersByTime(11 * 60 * 1000);
+        expect(await runner.getPending("room", "user")).toBeNull();
+        vi.useRealTimers();
+    });
+
+    test("rejects incomplete or unsupported requests", async () => {
+        const runner = liveRunner([position()]);
+
+        await expect(
+            runner.propose(
+                "room",
+                "user",
+                "open",
+                request({ poolAddress: null })
+            )
+        ).rejects.toThrow("Specify the protocol and pool address");
+        await expect(
+            runner.propose("room", "user", "open", request({ amountUsd: null }))
+        ).rejects.toThrow("Specify a positive amount");
+        await expect(
+            runner.propose(
+                "room",
+                "user",
+                "open",
+                request({ lowerPrice: 220, upperPrice: 180 })
+            )
+        ).rejects.toThrow("Lower price must be below upper price");
+        await expect(
+            runner.propose(
+                "room",
+                "user",
+                "remove",
+                request({ percentage: 50 })
+            )
+        ).rejects.toThrow("Partial removal is only supported in paper mode");
+        // The Orca venue above has no separate harvest
+        await expect(
+            runner.propose("room", "user", "harvest", request())
+        ).rejects.toThrow("can only be collected by removing liquidity");
+        await expect(
+            runner.propose(
+                "room",
+                "user",
+                "remove",
+                request({ poolAddress: "other" })
+            )
+        ).rejects.toThrow("No open liquidity position found");
+
+        expect(await runner.getPending("room", "user")).toBeNull();
+    });
+
+    test("closes the named live position", async () => {
+        const runner = liveRunner([position(), position({ id: "pos-2" })]);
+
+        await runner.propose(
+            "room",
+            "user",
+            "remove",
+            request({ protocol: null, positionId: "mint-1" })
+        );
+        const result = await runner.confirm("room", "user", {} as any);
+
+        expect(result).toContain("Removed liquidity from 1 Orca position(s)");
+        expect(venue.close).toHaveBeenCalledTimes(1);
+        expect(vi.mocked(venue.close).mock.calls[0][0].id).toBe("pos-1");
+    });
+
+    test("adds to a position at its recorded range", async () => {
+        const runner = liveRunner([position()]);
+
+        const prompt = await runner.propose(
+            "room",
+            "user",
+            "add",
+            request({ protocol: null, positionId: "pos-1", amountUsd: 200 })
+        );
+        await runner.confirm("room", "user", {} as any);
+
+        expect(prompt).toContain("Range: 180 - 220");
+        expect(vi.mocked(venue.open).mock.calls[0][1]).toEqual({
+            lowerPrice: 180,
+            upperPrice: 220,
+        });
+    });
+
+    test("records paper positions instead of signing", async () => {
+        const cache = memoryCache();
+        const runner = new ClmActionRunner(
+            [venue],
+            null,
+            cache,
+            "paper",
+            async () => 30
+        );
+
+        await runner.propose(
+            "room",
+            "user",
+            "open",
+            request({ rangePercent: 5 })
+        );
+        expect(await runner.confirm("room", "user", {} as any)).toContain(
+            "Recorded paper Orca position"
+        );
+
+        const [opened] = await new PaperLedger(cache).list("open");
+        expect(opened).toMatchObject({
+            protocol: "Orca",
+            pool: "pool",
+            tokens: ["SOL", "USDC"],
+            notionalUsd: 1000,
+            apr: 30,
+            lowerPrice: 190,
+            upperPrice: 210,
+        });
+
+        await runner.propose(
+            "room",
+            "user",
+            "remove",
+            request({ percentage: 25 })
+        );
+        expect(await runner.confirm("room", "user", {} as any)).toContain(
+            "Closed 25% of 1 paper position(s)"
+        );
+        const [remaining] = await new PaperLedger(cache).list("open");
+        expect(remaining.notionalUsd).toBe(750);
+        expect(venue.open).not.toHaveBeenCalled();
+        expect(venue.close).not.toHaveBeenCalled();
+    });
+});
+
+describe("CLM chat actions", () => {
+    test("extract the request and wait for confirmation", async () => {
+        const cache = memoryCache();
+        const runtime = {
+            getSetting: (key: string) =>
+                key === "YIELDS_FUN_EXECUTION_MODE" ? "paper" : undefined,
+            cacheManager: cache,
+            composeState: vi.fn(async () => ({})),
+            updateRecentMessageState: vi.fn(async (state) => state),
+        };
+        vi.mocked(generateObjectV2).mockResolvedValue({
+            object: request({ lowerPrice: 180, upperPrice: 220 }),
+        } as any);
+        const callback = vi.fn();
+        const message = (text: string) =>
+            ({ roomId: "room", userId: "user", content: { text } }) as any;
+
+        const open = message("Open an Orca position with $1000 in pool");
+        expect(await openClmPositionAction.validate(runtime as any, open)).toBe(
+            true
+        );
+        await openClmPositionAction.handler(
+            runtime as any,
+            open,
+            undefined,
+            {},
+            callback
+        );
+
+        expect(callback.mock.calls[0][0].text).toContain('Reply "confirm"');
+        expect(await new PaperLedger(cache).list()).toHaveLength(0);
+
+        expect(
+            await confirmClmActionAction.validate(
+                runtime as any,
+                message("looks good")
+            )
+        ).toBe(false);
+        const confirm = message("confirm");
+        expect(
+            await confirmClmActionAction.validate(runtime as any, confirm)
+        ).toBe(true);
+        await confirmClmActionAction.handler(
+            runtime as any,
+            confirm,
+            undefined,
+            {},
+            callback
+        );
+
+        expect(callback.mock.calls[1][0].text).toContain(
+            "Recorded paper Orca position"
+        );
+        expect(await new PaperLedger(cache).list("open")).toHaveLength(1);
+    });
+
+    test("sign live actions only for the user who asked", async () => {
+        const runtime = {
+            getSetting: () => undefined,
+            cacheManager: memoryCache(),
+            composeState: vi.fn(async () => ({})),
+            updateRecentMessageState: vi.fn(async (state) => state),
+        };
+        vi.mocked(generateObjectV2).mockResolvedValue({
+            object: request({ lowerPrice: 180, upperPrice: 220 }),
+        } as any);
+        const callback = vi.fn();
+        const message = (userId: string, text: string) =>
+            ({ roomId: "room", userId, content: { text } }) as any;
+
+        await openClmPositionAction.handler(
+            runtime as any,
+            message("alice", "Open an Orca position with $1000 in pool"),
+            undefined,
+            {},
+            callback
+        );
+
+        const intruder = message("mallory", "confirm");
+        expect(
+            await confirmClmActionAction.validate(runtime as any, intruder)
+        ).toBe(false);
+        await confirmClmActionAction.handler(
+            runtime as any,
+            intruder,
+            undefined,
+            {},
+            callback
+        );
+        expect(callback.mock.calls[1][0].text).toBe(
+            "There is no pending liquidity action to confirm"
+        );
+        expect(venue.open).not.toHaveBeenCalled();
+
+        const confirm = message("alice", "confirm");
+        expect(
+            await confirmClmActionAction.validate(runtime as any, confirm)
+        ).toBe(true);
+        await confirmClmActionAction.handler(
+            runtime as any,
+            confirm,
+            undefined,
+            {},
+            callback
+        );
+
+        expect(callback.mock.calls[2][0].text).toContain(
+            "Deposited $1,000 into Orca pool"
+        );
+        expect(venue.open).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, test, vi } from "vitest";
+import {
+    ClmPnlCalculator,
+    ClmPositionInput,
+    getAmountsForLiquidity,
+} from "../utils/clmPnlCalculator";
+
+vi.mock("../providers/birdeyeProvider", () => ({
+    BirdeyeProvider: vi.fn(),
+}));
+
+const HOUR = 60 * 60;
+
+const position = (
+    overrides: Partial<ClmPositionInput> = {}
+): ClmPositionInput => ({
+    venue: "orca",
+    lower: -443636,
+    upper: 443636,
+    entryPrice: 1,
+    depositValue: 1000,
+    feeRate: 0.003,
+    ...overrides,
+});
+
+describe("ClmPnlCalculator", () => {
+    const calculator = new ClmPnlCalculator();
+
+    test("converts ticks and bins to prices", () => {
+        expect(calculator.indexToPrice({ venue: "raydium" }, 6932)).toBeCloseTo(
+            2,
+            3
+        );
+        expect(
+            calculator.indexToPrice(
+                { venue: "orca", decimalsA: 9, decimalsB: 6 },
+                0
+            )
+        ).toBe(1000);
+        expect(
+            calculator.indexToPrice({ venue: "meteora", binStep: 100 }, 2)
+        ).toBeCloseTo(1.0201);
+
+        const range = calculator.getPriceRange(
+            position({ venue: "meteora", binStep: 100, lower: 0, upper: 0 })
+        );
+        expect(range.lowerPrice).toBe(1);
+        expect(range.upperPrice).toBeCloseTo(1.01);
+    });
+
+    test("matches the constant product IL formula over a full range", () => {
+        const result = calculator.calculate(position(), [
+            { timestamp: 0, price: 1 },
+            { timestamp: HOUR, price: 4 },
+        ]);
+        const ratio = 4;
+
+        expect(result.entryValue).toBeCloseTo(1000);
+        expect(result.valueVsHodl).toBeCloseTo(
+            (2 * Math.sqrt(ratio)) / (1 + ratio) - 1,
+            4
+        );
+        expect(result.impermanentLoss).toBeLessThan(0);
+    });
+
+    test("concentrated ranges lose more to IL than full range", () => {
+        const prices = [
+            { timestamp: 0, price: 1 },
+            { timestamp: HOUR, price: 1.05 },
+        ];
+        const full = calculator.calculate(position(), prices);
+        const narrow = calculator.calculate(
+            position({ lower: -1000, upper: 1000 }),
+            prices
+        );
+
+        expect(narrow.valueVsHodl).toBeLessThan(full.valueVsHodl);
+    });
+
+    test("measures time in range and exits to a single token", () => {
+        const result = calculator.calculate(
+            position({ lower: -1000, upper: 1000 }),
+            [
+                { timestamp: 0, price: 1 },
+                { timestamp: HOUR, price: 1 },
+                { timestamp: 2 * HOUR, price: 1.5 },
+                { timestamp: 3 * HOUR, price: 1.5 },
+            ]
+        );
+
+        // The middle interval's midpoint (1.25) is above 1.0001^1000
+        expect(result.timeInRange).toBeCloseTo(1 / 3);
+        expect(result.amounts.tokenA).toBeCloseTo(0);
+        expect(result.amounts.tokenB).toBeGreaterThan(0);
+    });
+
+    test("estimates fees from volume share or fee APR", () => {
+        const prices = [
+            { timestamp: 0, price: 1, volume: 0 },
+            { timestamp: HOUR, price: 1, volume: 10000 },
+        ];
+        const liquidity = calculator.getLiquidity(position());
+
+        const byVolume = calculator.calculate(
+            position({ poolLiquidity: liquidity }),
+            prices
+        );
+        expect(byVolume.feeIncome).toBeCloseTo(10000 * 0.003 * 0.5);
+
+        const byApr = calculator.calculate(
+            position({ feeApr: 0.365 }),
+            prices.map(({ timestamp, price }) => ({ timestamp, price }))
+        );
+        expect(byApr.feeIncome).toBeCloseTo(1000 * 0.365 * (1 / 8760));
+        expect(byApr.netPnl).toBeCloseTo(byApr.feeIncome);
+    });
+
+    test("adapts Birdeye responses into price points", () => {
+        expect(
+            ClmPnlCalculator.fromHistoricalPrices({
+                data: [{ unixTime: 10, value: 2 }],
+                address: "mint",
+                timeType: "24h",
+            } as any)
+        ).toEqual([{ timestamp: 10, price: 2 }]);
+
+        expect(
+            ClmPnlCalculator.fromOHLCV([
+                {
+                    timestamp: 10,
+                    open: 1,
+                    high: 3,
+                    low: 1,
+                    close: 2,
+                    volume: 5,
+                },
+            ])
+        ).toEqual([{ timestamp: 10, price: 2, volume: 10 }]);
+    });
+});
+
+describe("getAmountsForLiquidity", () => {
+    test("holds only token B above the range and token A below it", () => {
+        expect(getAmountsForLiquidity(1, 10, 1, 4).tokenA).toBeCloseTo(0);
+        expect(getAmountsForLiquidity(1, 0.5, 1, 4).tokenB).toBeCloseTo(0);
+    });
+});
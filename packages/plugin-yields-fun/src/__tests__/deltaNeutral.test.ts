@@ -0,0 +1,271 @@
+import { describe, expect, test, vi } from "vitest";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import {
+    DeltaNeutralStrategy,
+    formatHedgePlans,
+    getDeltaProfile,
+} from "../utils/deltaNeutral";
+import { annualizeFunding } from "../utils/fundingHistory";
+import { estimatePositionAmounts, RebalanceVenue } from "../utils/rebalancer";
+
+vi.mock("@ai16z/plugin-trustdb", () => ({ TrustScoreDatabase: vi.fn() }));
+vi.mock("../providers/yieldAggregator", () => ({
+    getOpportunityApy: vi.fn(),
+}));
+vi.mock("../utils/rebalanceVenues", () => ({
+    createClmVenues: vi.fn(),
+    getAgentWallet: vi.fn(),
+}));
+
+const SOL = "So11111111111111111111111111111111111111112";
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const MARKET = "SOL-USD-SWAP-LIN";
+
+const position = (overrides: Partial<LedgerPosition> = {}): LedgerPosition => ({
+    id: "pos-1",
+    protocol: "Orca",
+    kind: "LP",
+    poolAddress: "pool",
+    positionMint: "mint-1",
+    lowerPrice: 90,
+    upperPrice: 110,
+    depositedAmounts: {},
+    entryPrice: 100,
+    notionalUsd: 1000,
+    txSignatures: [],
+    status: "open",
+    openedAt: new Date(0),
+    ...overrides,
+});
+
+const setup = ({
+    positions = [position()],
+    short = 0,
+    mintA = SOL,
+    mintB = USDC,
+    allowed = true,
+}: {
+    positions?: LedgerPosition[];
+    short?: number;
+    mintA?: string;
+    mintB?: string;
+    allowed?: boolean;
+} = {}) => {
+    const venue: RebalanceVenue = {
+        protocol: "Orca",
+        getQuote: vi.fn(async () => ({
+            price: 100,
+            mintA,
+            mintB,
+            decimalsA: 9,
+            decimalsB: 6,
+        })),
+        close: vi.fn(),
+        open: vi.fn(),
+    };
+    const ox = {
+        // 0.001% an hour, 8.76% a year
+        getFundingRates: vi.fn(async () => ({
+            data: [
+                { marketCode: MARKET, fundingRate: "0.000012" },
+                { marketCode: MARKET, fundingRate: "0.000008" },
+            ],
+        })),
+        getPositions: vi.fn(async () => ({
+            data: [
+                {
+                    positions: short
+                        ? [{ marketCode: MARKET, position: String(-short) }]
+                        : [],
+                },
+            ],
+        })),
+    };
+    const oxActions = {
+        openPosition: vi.fn(async () => ({})),
+        modifyPosition: vi.fn(async () => ({})),
+    };
+    const walletPolicy = {
+        authorize: vi.fn(async () => ({
+            id: "decision",
+            allowed,
+            reason: allowed ? "within limits" : "daily limit reached",
+        })),
+        release: vi.fn(async () => {}),
+    };
+    const strategy = new DeltaNeutralStrategy(
+        [venue],
+        { list: () => positions } as any,
+        ox as any,
+        oxActions as any,
+        { agentId: "agent", walletPolicy } as any,
+        async () => 30
+    );
+    return { strategy, ox, oxActions, walletPolicy };
+};
+
+// Token A held by the default position at a price of 100
+const lpDelta = estimatePositionAmounts(position(), 100).tokenA;
+
+describe("delta", () => {
+    test("falls from all token A to none across the range", () => {
+        const profile = getDeltaProfile([position()], 100);
+
+        expect(profile.map((point) => point.price)).toEqual([
+            90, 95, 100, 105, 110,
+        ]);
+        expect(profile[0].delta).toBeGreaterThan(profile[2].delta);
+        expect(profile[2].delta).toBeCloseTo(lpDelta);
+        expect(profile[4].delta).toBeCloseTo(0);
+    });
+
+    test("annualizes hourly funding", () => {
+        expect(annualizeFunding([0.00001])).toBeCloseTo(8.76);
+        expect(annualizeFunding([NaN])).toBe(0);
+    });
+});
+
+describe("DeltaNeutralStrategy", () => {
+    test("opens a short sized to the LP delta and reports net APY", async () => {
+        const { strategy, oxActions } = setup();
+
+        const { plans, results } = await strategy.run();
+
+        expect(plans).toHaveLength(1);
+        const [plan] = plans;
+        expect(plan).toMatchObject({
+            marketCode: MARKET,
+            action: "open",
+            currentShort: 0,
+        });
+        expect(plan.targetShort).toBeCloseTo(lpDelta);
+        expect(plan.lpApy).toBeCloseTo(30);
+        expect(plan.fundingApy).toBeCloseTo(8.76);
+
+        // LP yield plus funding on the short, over LP value plus 1/3 margin
+        const hedgeUsd = lpDelta * 100;
+        expect(plan.netApy).toBeCloseTo(
+            (plan.lpValueUsd * 30 + hedgeUsd * 8.76) /
+                (plan.lpValueUsd + hedgeUsd / 3)
+        );
+
+        expect(oxActions.openPosition).toHaveBeenCalledWith({
+            marketCode: MARKET,
+            side: "SELL",
+            quantity: lpDelta.toFixed(4),
+            leverage: 3,
+        });
+        expect(results).toEqual([
+            expect.objectContaining({ marketCode: MARKET, success: true }),
+        ]);
+    });
+
+    test("re-hedges only once delta drifts past the threshold", async () => {
+        const drifted = setup({ short: lpDelta * 0.85 });
+        const [resize] = await drifted.strategy.preview();
+        expect(resize.action).toBe("resize");
+        expect(resize.drift).toBeCloseTo(0.15);
+
+        await drifted.strategy.execute([resize]);
+        expect(drifted.oxActions.modifyPosition).toHaveBeenCalledWith(
+            MARKET,
+            (-lpDelta).toFixed(4)
+        );
+
+        const close = setup({ short: lpDelta * 0.95 });
+        const { plans, results } = await close.strategy.run();
+        expect(plans[0].action).toBe("hold");
+        expect(plans[0].netDelta).toBeCloseTo(lpDelta * 0.05);
+        expect(results).toEqual([]);
+    });
+
+    test("flips a net long perp position to the target short", async () => {
+        const { strategy, oxActions } = setup({ short: -0.5 });
+
+        const { plans } = await strategy.run();
+
+        expect(plans[0]).toMatchObject({
+            action: "resize",
+            reason: "perp position is net long",
+            currentShort: -0.5,
+        });
+        expect(oxActions.openPosition).not.toHaveBeenCalled();
+        expect(oxActions.modifyPosition).toHaveBeenCalledWith(
+            MARKET,
+            (-lpDelta).toFixed(4)
+        );
+    });
+
+    test("places no order the wallet policy denies", async () => {
+        const blocked = setup({ allowed: false });
+
+        const { results } = await blocked.strategy.run();
+
+        expect(blocked.walletPolicy.authorize).toHaveBeenCalledWith({
+            action: "yields-fun/delta-neutral",
+            userId: "agent",
+            roomId: "agent",
+            // Margin for the new short at 3x
+            valueUsd: expect.closeTo((lpDelta * 100) / 3),
+            tokens: [SOL],
+        });
+        expect(blocked.oxActions.openPosition).not.toHaveBeenCalled();
+        expect(results).toEqual([
+            {
+                marketCode: MARKET,
+                success: false,
+                message: "Blocked by the wallet policy: daily limit reached",
+            },
+        ]);
+
+        const failing = setup();
+        failing.oxActions.openPosition.mockRejectedValueOnce(
+            new Error("insufficient margin")
+        );
+        const [result] = (await failing.strategy.run()).results;
+        expect(result.success).toBe(false);
+        expect(failing.walletPolicy.release).toHaveBeenCalledWith(
+            expect.objectContaining({ id: "decision" })
+        );
+    });
+
+    test("shares one short across LPs on the same token", async () => {
+        const { strategy } = setup({
+            positions: [position(), position({ id: "pos-2" })],
+        });
+
+        const [plan] = await strategy.preview();
+
+        expect(plan.positions).toHaveLength(2);
+        expect(plan.targetShort).toBeCloseTo(lpDelta * 2);
+    });
+
+    test("skips pools it cannot hedge", async () => {
+        const noMarket = setup({ mintA: "unknown" });
+        const volatileQuote = setup({ mintB: SOL });
+
+        const [missing] = await noMarket.strategy.preview();
+        const [unstable] = await volatileQuote.strategy.preview();
+
+        expect(missing).toMatchObject({
+            action: "skip",
+            reason: "no OX market for token A",
+        });
+        expect(unstable.reason).toBe("token B is not a stablecoin");
+        expect(formatHedgePlans([missing])).toContain(
+            "Orca mint-1: skip (no OX market for token A)"
+        );
+    });
+
+    test("previews without placing orders on a dry run", async () => {
+        const { strategy, oxActions } = setup();
+
+        const { plans, results } = await strategy.run(true);
+
+        expect(results).toEqual([]);
+        expect(oxActions.openPosition).not.toHaveBeenCalled();
+        expect(formatHedgePlans(plans, results)).toContain(
+            "Delta-Neutral Hedge Preview"
+        );
+    });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, test, vi } from "vitest";
+import { FundingSnapshot, TrustScoreDatabase } from "@ai16z/plugin-trustdb";
+import {
+    detectSignFlips,
+    formatFundingStats,
+    FundingCollector,
+    FundingHistoryStore,
+    summarizeFundingHistory,
+} from "../utils/fundingHistory";
+import { fakeTrustDb } from "./helpers/trustDb";
+
+vi.mock("@ai16z/plugin-trustdb", () => ({ TrustScoreDatabase: vi.fn() }));
+
+const HOUR_MS = 60 * 60 * 1000;
+const MARKET = "SOL-USD-SWAP-LIN";
+const now = new Date("2024-12-31T00:00:00Z");
+
+const snapshot = (
+    hoursAgo: number,
+    fundingRate: number,
+    overrides: Partial<FundingSnapshot> = {}
+): FundingSnapshot => ({
+    marketCode: MARKET,
+    fundingRate,
+    markPrice: 100.1,
+    indexPrice: 100,
+    openInterest: 1000,
+    timestamp: new Date(now.getTime() - hoursAgo * HOUR_MS),
+    ...overrides,
+});
+
+// Keeps the stored snapshots on the fake for tests to inspect
+type MemoryFundingDb = TrustScoreDatabase & { rows: FundingSnapshot[] };
+
+const memoryDb = (): MemoryFundingDb => {
+    const rows: FundingSnapshot[] = [];
+    const db = fakeTrustDb({
+        addFundingSnapshots: (snapshots: FundingSnapshot[]) => {
+            rows.push(...snapshots);
+            return true;
+        },
+        getFundingHistory: (marketCode: string, since: Date) =>
+            rows
+                .filter((r) => r.marketCode === marketCode)
+                .filter((r) => r.timestamp >= since)
+                .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime()),
+        getLatestFundingSnapshotTime: () =>
+            rows.length
+                ? new Date(Math.max(...rows.map((r) => r.timestamp.getTime())))
+                : null,
+        pruneFundingHistory: vi.fn(() => 0),
+    });
+    return Object.assign(db, { rows });
+};
+
+describe("summarizeFundingHistory", () => {
+    test("annualizes carry and measures basis and open interest", () => {
+        const stats = summarizeFundingHistory(
+            [
+                snapshot(3, 0.00001, { openInterest: 800 }),
+                snapshot(2, 0.00001),
+                snapshot(1, 0.00001),
+                snapshot(0, 0.00005, {
+                    markPrice: 99.8,
+                    openInterest: 1200,
+                }),
+            ],
+            7,
+            now
+        );
+
+        expect(stats.samples).toBe(4);
+        expect(stats.currentCarryApy).toBeCloseTo(43.8);
+        expect(stats.averageCarryApy).toBeCloseTo(17.52);
+        expect(stats.fundingZScore).toBeCloseTo(Math.sqrt(3));
+        expect(stats.currentBasisBps).toBeCloseTo(-20);
+        expect(stats.averageBasisBps).toBeCloseTo(2.5);
+        expect(stats.openInterestTrend).toBeCloseTo(50);
+        expect(formatFundingStats(stats)).toContain(
+            "carry 43.80% now vs 17.52% 7d avg"
+        );
+    });
+
+    test("measures how fast funding reverts to its mean", () => {
+        const decaying = [0.0008, 0.0004, 0.0002, 0.0001, 0.00005, 0.00003];
+        const reverting = summarizeFundingHistory(
+            decaying.map((rate, i) => snapshot(decaying.length - i, rate)),
+            7,
+            now
+        );
+        expect(reverting.halfLifeHours).toBeGreaterThan(0);
+        expect(reverting.halfLifeHours).toBeLessThan(2);
+
+        // Funding flipping every hour has no AR(1) reversion to fit
+        const alternating = summarizeFundingHistory(
+            [1, -1, 1, -1, 1].map((sign, i) => snapshot(5 - i, sign * 1e-5)),
+            7,
+            now
+        );
+        expect(alternating.halfLifeHours).toBeNull();
+        expect(formatFundingStats(alternating)).toContain("no reversion");
+    });
+
+    test("returns null without data in the window", () => {
+        expect(
+            summarizeFundingHistory([snapshot(24 * 10, 0.0001)], 7, now)
+        ).toBeNull();
+    });
+});
+
+describe("detectSignFlips", () => {
+    test("alerts when funding or basis changes sign", () => {
+        const alerts = detectSignFlips(
+            snapshot(1, 0.00002),
+            snapshot(0, -0.00001, { markPrice: 99.9 })
+        );
+
+        expect(alerts.map((alert) => alert.field)).toEqual([
+            "funding",
+            "basis",
+        ]);
+        expect(alerts[0].message).toBe(
+            `${MARKET} funding flipped negative, shorts pay longs`
+        );
+        expect(alerts[1].message).toContain("basis flipped to discount");
+        expect(detectSignFlips(snapshot(1, 0), snapshot(0, 0.0001))).toEqual(
+            []
+        );
+    });
+});
+
+describe("FundingCollector", () => {
+    const ox = (fundingRate: string) => ({
+        getFundingRates: vi.fn(async () => ({
+            data: [
+                { marketCode: MARKET, fundingRate: "0.9", createdAt: "1" },
+                { marketCode: MARKET, fundingRate, createdAt: "2" },
+            ],
+        })),
+        getMarketInfo: vi.fn(async (marketCode: string) =>
+            marketCode === MARKET
+                ? { data: [{ markPrice: "100.2", indexPrice: "100" }] }
+                : { data: [] }
+        ),
+        getTicker: vi.fn(async () => ({ data: [{ openInterest: "5000" }] })),
+    });
+
+    test("stores snapshots once per interval and alerts on flips", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        const db = memoryDb();
+        const store = new FundingHistoryStore(db);
+
+        const first = await new FundingCollector(store, ox("0.00002"), [
+            MARKET,
+            "UNKNOWN-USD-SWAP-LIN",
+        ]).collect(now);
+
+        // The market without prices is skipped
+        expect(first.snapshots).toEqual([
+            {
+                marketCode: MARKET,
+                fundingRate: 0.00002,
+                markPrice: 100.2,
+                indexPrice: 100,
+                openInterest: 5000,
+                timestamp: now,
+            },
+        ]);
+        expect(first.alerts).toEqual([]);
+
+        const collector = new FundingCollector(store, ox("-0.00001"), [MARKET]);
+        const early = await collector.collect(
+            new Date(now.getTime() + HOUR_MS / 2)
+        );
+        expect(early.snapshots).toEqual([]);
+
+        const next = await collector.collect(new Date(now.getTime() + HOUR_MS));
+        expect(next.alerts).toHaveLength(1);
+        expect(next.alerts[0]).toMatchObject({
+            field: "funding",
+            previous: 0.00002,
+            current: -0.00001,
+        });
+        expect(db.rows).toHaveLength(2);
+        expect(db.pruneFundingHistory).toHaveBeenCalled();
+        vi.restoreAllMocks();
+    });
+});
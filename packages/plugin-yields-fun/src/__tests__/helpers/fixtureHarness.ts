@@ -0,0 +1,342 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+// Record/replay of provider network traffic. Tests route axios, fetch and
+// Connection RPC through the active FixtureServer, which answers from
+// checked-in JSON under fixtures/providers:
+//
+//   vi.mock("axios", async (importOriginal) =>
+//       (await import("./helpers/fixtureHarness")).mockAxios(
+//           await importOriginal()
+//       )
+//   );
+//   vi.mock("@solana/web3.js", async (importOriginal) =>
+//       (await import("./helpers/fixtureHarness")).mockWeb3(
+//           await importOriginal()
+//       )
+//   );
+//   beforeEach(() => useFixtures("meteora"));
+//   afterEach(() => resetFixtures());
+//
+// Requests without a fixture fail the test. With YIELDS_FUN_RECORD_FIXTURES=1
+// they go to the network instead and the responses are written back to the
+// fixture file by resetFixtures.
+
+export interface HttpFixture {
+    method?: string;
+    // URL without query string
+    url: string;
+    // Must all match the request's query params, extra ones are ignored
+    params?: Record<string, string>;
+    status?: number;
+    body: unknown;
+}
+
+export interface RpcFixture {
+    method: string;
+    // Must equal the request params when present
+    params?: unknown[];
+    result?: unknown;
+    error?: { code: number; message: string };
+}
+
+export interface FixtureFile {
+    http?: HttpFixture[];
+    rpc?: RpcFixture[];
+}
+
+export interface RecordedRequest {
+    method: string;
+    url: string;
+    params: Record<string, string>;
+    rpcMethod?: string;
+}
+
+export interface FixtureResponse {
+    status: number;
+    body: unknown;
+}
+
+type Fetch = typeof fetch;
+
+const FIXTURE_DIR = join(
+    dirname(fileURLToPath(import.meta.url)),
+    "..",
+    "fixtures",
+    "providers"
+);
+
+export const FIXTURE_RPC_URL = "https://fixtures.rpc.local";
+
+const isRecording = () => process.env.YIELDS_FUN_RECORD_FIXTURES === "1";
+
+const stringifyParams = (
+    params: Record<string, unknown> = {}
+): Record<string, string> =>
+    Object.fromEntries(
+        Object.entries(params)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => [key, String(value)])
+    );
+
+const splitUrl = (
+    url: string,
+    params: Record<string, unknown> = {}
+): { url: string; params: Record<string, string> } => {
+    const parsed = new URL(url);
+    const query = Object.fromEntries(parsed.searchParams.entries());
+    parsed.search = "";
+    return {
+        url: parsed.toString(),
+        params: { ...query, ...stringifyParams(params) },
+    };
+};
+
+const sameJson = (a: unknown, b: unknown) =>
+    JSON.stringify(a) === JSON.stringify(b);
+
+export class FixtureServer {
+    readonly requests: RecordedRequest[] = [];
+    private recorded: FixtureFile = { http: [], rpc: [] };
+
+    constructor(
+        private fixture: FixtureFile,
+        private file?: string,
+        private networkFetch?: Fetch
+    ) {}
+
+    async http(
+        method: string,
+        rawUrl: string,
+        rawParams?: Record<string, unknown>,
+        record?: () => Promise<FixtureResponse>
+    ): Promise<FixtureResponse> {
+        const { url, params } = splitUrl(rawUrl, rawParams);
+        this.requests.push({ method, url, params });
+
+        const match = (this.fixture.http || []).find(
+            (entry) =>
+                (entry.method || "GET") === method &&
+                entry.url === url &&
+                Object.entries(entry.params || {}).every(
+                    ([key, value]) => params[key] === String(value)
+                )
+        );
+        if (match) return { status: match.status ?? 200, body: match.body };
+
+        if (isRecording() && record) {
+            const response = await record();
+            this.recorded.http.push({
+                method,
+                url,
+                params: Object.keys(params).length ? params : undefined,
+                status: response.status,
+                body: response.body,
+            });
+            return response;
+        }
+
+        throw new Error(`No fixture for ${method} ${rawUrl}`);
+    }
+
+    async rpc(request: any, endpoint: string): Promise<any> {
+        // Connection batches some calls
+        if (Array.isArray(request)) {
+            return Promise.all(request.map((r) => this.rpc(r, endpoint)));
+        }
+
+        this.requests.push({
+            method: "POST",
+            url: endpoint,
+            params: {},
+            rpcMethod: request.method,
+        });
+
+        const match = (this.fixture.rpc || []).find(
+            (entry) =>
+                entry.method === request.method &&
+                (!entry.params || sameJson(entry.params, request.params))
+        );
+        if (match) {
+            return match.error
+                ? { jsonrpc: "2.0", id: request.id, error: match.error }
+                : { jsonrpc: "2.0", id: request.id, result: match.result };
+        }
+
+        if (isRecording() && this.networkFetch) {
+            const response = await this.networkFetch(endpoint, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(request),
+            });
+            const body = await response.json();
+            this.recorded.rpc.push({
+                method: request.method,
+                params: request.params,
+                result: body.result,
+                error: body.error,
+            });
+            return body;
+        }
+
+        throw new Error(`No RPC fixture for ${request.method}`);
+    }
+
+    /**
+     * fetch() replacement. JSON-RPC POSTs are answered from the rpc
+     * fixtures, everything else from the http ones.
+     */
+    fetch = async (input: any, init: any = {}): Promise<Response> => {
+        const url = typeof input === "string" ? input : input.url;
+        const method = (init.method || "GET").toUpperCase();
+        const body = typeof init.body === "string" ? init.body : undefined;
+
+        if (method === "POST" && body?.includes('"jsonrpc"')) {
+            const result = await this.rpc(JSON.parse(body), url);
+            return new Response(JSON.stringify(result), {
+                status: 200,
+                headers: { "Content-Type": "application/json" },
+            });
+        }
+
+        const response = await this.http(method, url, undefined, async () => {
+            const real = await this.networkFetch(input, init);
+            return { status: real.status, body: await real.json() };
+        });
+        return new Response(JSON.stringify(response.body), {
+            status: response.status,
+            headers: { "Content-Type": "application/json" },
+        });
+    };
+
+    /**
+     * Appends recorded traffic to the fixture file.
+     */
+    save(): void {
+        if (!this.file) return;
+        if (!this.recorded.http.length && !this.recorded.rpc.length) return;
+
+        const fixture: FixtureFile = {
+            http: [...(this.fixture.http || []), ...this.recorded.http],
+            rpc: [...(this.fixture.rpc || []), ...this.recorded.rpc],
+        };
+        mkdirSync(dirname(this.file), { recursive: true });
+        writeFileSync(this.file, JSON.stringify(fixture, null, 4) + "\n");
+        this.fixture = fixture;
+        this.recorded = { http: [], rpc: [] };
+    }
+}
+
+let active: FixtureServer | null = null;
+let originalFetch: Fetch | null = null;
+
+const activeServer = (): FixtureServer => {
+    if (!active) {
+        throw new Error("Network access in a test without useFixtures()");
+    }
+    return active;
+};
+
+export function loadFixture(name: string): FixtureFile {
+    const file = join(FIXTURE_DIR, `${name}.json`);
+    if (!existsSync(file)) {
+        if (isRecording()) return {};
+        throw new Error(`Missing fixture ${file}`);
+    }
+    return JSON.parse(readFileSync(file, "utf8"));
+}
+
+/**
+ * Serves provider traffic from fixtures/providers/<name>.json until
+ * resetFixtures(). Pass a FixtureFile to use inline fixtures instead.
+ */
+export function useFixtures(fixture: string | FixtureFile): FixtureServer {
+    resetFixtures();
+
+    originalFetch = globalThis.fetch;
+    active =
+        typeof fixture === "string"
+            ? new FixtureServer(
+                  loadFixture(fixture),
+                  join(FIXTURE_DIR, `${fixture}.json`),
+                  originalFetch
+              )
+            : new FixtureServer(fixture, undefined, originalFetch);
+    globalThis.fetch = active.fetch as Fetch;
+
+    return active;
+}
+
+export function resetFixtures(): void {
+    if (active && isRecording()) active.save();
+    if (originalFetch) globalThis.fetch = originalFetch;
+    active = null;
+    originalFetch = null;
+}
+
+const axiosError = (status: number, body: unknown, url: string) =>
+    Object.assign(new Error(`Request failed with status code ${status}`), {
+        isAxiosError: true,
+        config: { url },
+        response: { status, data: body },
+    });
+
+/**
+ * vi.mock("axios") factory. `actual` is only used while recording.
+ */
+export function mockAxios(actual: any) {
+    const real = actual.default || actual;
+    const request =
+        (method: string) =>
+        async (url: string, dataOrConfig?: any, maybeConfig?: any) => {
+            const config = method === "GET" ? dataOrConfig : maybeConfig;
+            const response = await activeServer().http(
+                method,
+                url,
+                config?.params,
+                async () => {
+                    const result = await real
+                        .request({
+                            ...config,
+                            url,
+                            method,
+                            data: method === "GET" ? undefined : dataOrConfig,
+                            validateStatus: () => true,
+                        })
+                        .catch((error: any) => error.response);
+                    return { status: result.status, body: result.data };
+                }
+            );
+
+            if (response.status >= 400) {
+                throw axiosError(response.status, response.body, url);
+            }
+            return { status: response.status, data: response.body };
+        };
+
+    const instance = { get: request("GET"), post: request("POST") };
+    return {
+        ...actual,
+        default: { ...real, ...instance, create: () => instance },
+    };
+}
+
+/**
+ * vi.mock("@solana/web3.js") factory. Connections send their RPC calls to
+ * the active FixtureServer whatever endpoint they were created with.
+ */
+export function mockWeb3(actual: any) {
+    class FixtureConnection extends actual.Connection {
+        constructor(endpoint: string, config?: any) {
+            const options =
+                typeof config === "string" ? { commitment: config } : config;
+            super(endpoint || FIXTURE_RPC_URL, {
+                ...options,
+                fetch: (url: string, init: any) =>
+                    activeServer().fetch(url, init),
+            });
+        }
+    }
+    return { ...actual, Connection: FixtureConnection };
+}
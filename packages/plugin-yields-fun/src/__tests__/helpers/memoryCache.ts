@@ -0,0 +1,15 @@
+import type { ICacheManager } from "@ai16z/eliza";
+
+// In-memory stand-in for the runtime cache manager
+export const memoryCache = (): ICacheManager => {
+    const store = new Map<string, unknown>();
+    return {
+        get: async <T>(key: string) => store.get(key) as T | undefined,
+        set: async <T>(key: string, value: T) => {
+            store.set(key, value);
+        },
+        delete: async (key: string) => {
+            store.delete(key);
+        },
+    };
+};
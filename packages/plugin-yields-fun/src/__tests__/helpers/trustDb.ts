@@ -0,0 +1,7 @@
+import type { TrustScoreDatabase } from "@ai16z/plugin-trustdb";
+
+// Types an in-memory stand-in for the few trust database methods a test
+// exercises, keeping any extra fields the test inspects
+export const fakeTrustDb = <T extends Partial<TrustScoreDatabase>>(
+    methods: T
+): T & TrustScoreDatabase => methods as T & TrustScoreDatabase;
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { Connection } from "@solana/web3.js";
+import { LuloProvider } from "../providers/luloProvider";
+import {
+    formatLendingReserves,
+    getLendingReserves,
+} from "../providers/lendingMarketProvider";
+import { LendingReserve, RateCurve } from "../types/lending";
+import {
+    borrowApyAt,
+    getKink,
+    maxDepositForApy,
+    projectDepositApy,
+    supplyApyAt,
+} from "../utils/rateCurve";
+import { resetFixtures, useFixtures } from "./helpers/fixtureHarness";
+
+const USDC = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+const curve: RateCurve = {
+    points: [
+        { utilization: 0, borrowApy: 0 },
+        { utilization: 0.8, borrowApy: 10 },
+        { utilization: 1, borrowApy: 100 },
+    ],
+    reserveFactor: 0.1,
+};
+
+// $1M supplied, $800k borrowed: sitting on the kink
+const reserve = (overrides: Partial<LendingReserve> = {}): LendingReserve => ({
+    protocol: "Test",
+    address: "usdc-reserve",
+    mint: USDC,
+    token: "USDC",
+    apy: 7.2,
+    borrowApy: 10,
+    tvl: 1_000_000,
+    totalBorrowed: 800_000,
+    utilization: 0.8,
+    availableLiquidity: 200_000,
+    curve,
+    ...overrides,
+});
+
+afterEach(() => resetFixtures());
+
+describe("rate curve", () => {
+    test("interpolates borrow APY and finds the kink", () => {
+        expect(borrowApyAt(curve, 0.4)).toBeCloseTo(5);
+        expect(borrowApyAt(curve, 0.9)).toBeCloseTo(55);
+        expect(borrowApyAt(curve, 1.5)).toBe(100);
+        expect(supplyApyAt(curve, 0.8)).toBeCloseTo(7.2);
+        expect(getKink(curve)).toEqual({ utilization: 0.8, borrowApy: 10 });
+        expect(
+            getKink({
+                points: [curve.points[0], curve.points[2]],
+                reserveFactor: 0,
+            })
+        ).toBeNull();
+    });
+
+    test("projects the APY dilution from a deposit", () => {
+        const projection = projectDepositApy(reserve(), 600_000);
+
+        // Utilization falls to 50%, borrow APY to 6.25%
+        expect(projection.utilization).toBeCloseTo(0.5);
+        expect(projection.borrowApy).toBeCloseTo(6.25);
+        expect(projection.apy).toBeCloseTo(2.8125);
+        expect(projection.apyChange).toBeCloseTo(-4.3875);
+
+        // Rewards on top of the curve are scaled down with it
+        expect(
+            projectDepositApy(reserve({ apy: 14.4 }), 600_000).apy
+        ).toBeCloseTo(5.625);
+    });
+
+    test("sizes the largest deposit that keeps a target APY", () => {
+        // 11.25u² = 4.5 at u = 0.632, so $1.265M supplied in total
+        expect(maxDepositForApy(reserve(), 4.5)).toBeCloseTo(264_911, -1);
+        expect(maxDepositForApy(reserve(), 8)).toBe(0);
+    });
+});
+
+describe("LuloProvider as a lending market", () => {
+    test("reports reserves with implied borrow rate and utilization", async () => {
+        const server = useFixtures({
+            http: [
+                {
+                    url: "https://api.flexlend.fi/pools",
+                    body: {
+                        data: [
+                            {
+                                mint: USDC,
+                                symbol: "USDC",
+                                totalLiquidity: 20_000_000,
+                                availableLiquidity: 4_000_000,
+                                apy: 9,
+                            },
+                        ],
+                    },
+                },
+            ],
+        });
+        const lulo = new LuloProvider(
+            new Connection("https://api.mainnet-beta.solana.com"),
+            undefined,
+            "test-key"
+        );
+
+        const reserves = await getLendingReserves([lulo]);
+
+        expect(reserves).toHaveLength(1);
+        expect(reserves[0]).toMatchObject({
+            protocol: "LuLo",
+            token: "USDC",
+            tvl: 20_000_000,
+            totalBorrowed: 16_000_000,
+            availableLiquidity: 4_000_000,
+            utilization: 0.8,
+        });
+        expect(reserves[0].borrowApy).toBeCloseTo(12.5);
+
+        const report = formatLendingReserves(reserves, 1_000_000);
+        expect(report).toContain("USDC on LuLo");
+        expect(report).toContain("Utilization: 80.0% (kink at 85.0%)");
+        expect(report).toContain("Withdrawable: $4,000,000");
+        expect(report).toMatch(/After a \$1,000,000 deposit: 8\.\d\d% APY/);
+
+        // Cached for the next call
+        await lulo.getReserves();
+        expect(server.requests).toHaveLength(1);
+    });
+});
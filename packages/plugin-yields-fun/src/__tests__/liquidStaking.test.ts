@@ -0,0 +1,235 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { Connection, Keypair } from "@solana/web3.js";
+import {
+    LiquidStakingProvider,
+    LST_REGISTRY,
+} from "../providers/liquidStakingProvider";
+import { LstMetrics } from "../types/staking";
+import { JupiterSwapClient } from "../utils/jupiterSwap";
+import { LstStaker, StakeRouter } from "../utils/stakeRouter";
+import { resetFixtures, useFixtures } from "./helpers/fixtureHarness";
+
+vi.mock("axios", async (importOriginal) =>
+    (await import("./helpers/fixtureHarness")).mockAxios(await importOriginal())
+);
+vi.mock("@solana/web3.js", async (importOriginal) =>
+    (await import("./helpers/fixtureHarness")).mockWeb3(await importOriginal())
+);
+
+const SOL = "So11111111111111111111111111111111111111112";
+const MSOL = "mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So";
+const JITOSOL = "J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn";
+const QUOTE_URL = "https://quote-api.jup.ag/v6/quote";
+
+const quote = (inputMint: string, outputMint: string, out: string) => ({
+    url: QUOTE_URL,
+    params: { inputMint, outputMint },
+    body: {
+        inputMint,
+        outputMint,
+        inAmount: inputMint === SOL ? "1000000000" : "10000000000",
+        outAmount: out,
+        priceImpactPct: "0",
+    },
+});
+
+afterEach(() => resetFixtures());
+
+describe("LiquidStakingProvider", () => {
+    const setup = () => {
+        useFixtures({
+            http: [
+                {
+                    url: "https://extra-api.sanctum.so/v1/apy/latest",
+                    body: { apys: { [MSOL]: 0.08, [JITOSOL]: 0.075 } },
+                },
+                {
+                    url: "https://extra-api.sanctum.so/v1/sol-value/current",
+                    body: {
+                        solValues: {
+                            [MSOL]: "1250000000",
+                            [JITOSOL]: "1180000000",
+                        },
+                    },
+                },
+                {
+                    url: "https://extra-api.sanctum.so/v1/tvl/current",
+                    body: {
+                        tvls: {
+                            [MSOL]: "4000000000000000",
+                            [JITOSOL]: "4000000000000000",
+                        },
+                    },
+                },
+                // 10 mSOL sells for 12.4 SOL against a 12.5 SOL pool value
+                quote(MSOL, SOL, "12400000000"),
+                quote(JITOSOL, SOL, "11800000000"),
+                quote(
+                    SOL,
+                    "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+                    "150000000"
+                ),
+            ],
+            rpc: [
+                {
+                    method: "getEpochInfo",
+                    result: {
+                        epoch: 700,
+                        slotIndex: 400000,
+                        slotsInEpoch: 432000,
+                        absoluteSlot: 302800000,
+                        blockHeight: 280000000,
+                    },
+                },
+            ],
+        });
+
+        const connection = new Connection(
+            "https://api.mainnet-beta.solana.com"
+        );
+        return new LiquidStakingProvider(
+            connection,
+            new JupiterSwapClient(connection),
+            undefined,
+            LST_REGISTRY.filter((lst) => [MSOL, JITOSOL].includes(lst.mint))
+        );
+    };
+
+    test("reports rate, depeg, delay and TVL per LST", async () => {
+        const metrics = await setup().getLstMetrics();
+
+        const msol = metrics.find((m) => m.symbol === "mSOL");
+        expect(msol).toMatchObject({
+            apy: 8,
+            exchangeRate: 1.25,
+            marketRate: 1.24,
+            tvlSol: 4_000_000,
+            // 32,000 slots left in the epoch
+            unstakeDelaySeconds: 12_800,
+        });
+        expect(msol.depegBps).toBeCloseTo(-80);
+        expect(
+            metrics.find((m) => m.symbol === "jitoSOL").depegBps
+        ).toBeCloseTo(0);
+    });
+
+    test("scores a discounted LST as riskier", async () => {
+        const opportunities = await setup().getStakingOpportunities();
+
+        const [msol, jito] = ["Marinade", "Jito"].map((protocol) =>
+            opportunities.find((o) => o.protocol === protocol)
+        );
+        expect(msol).toMatchObject({
+            type: "STAKING",
+            tokens: ["SOL", "mSOL"],
+            address: MSOL,
+            tvl: 600_000_000,
+        });
+        expect(msol.description).toContain("-0.80%");
+        expect(msol.risk).toBeGreaterThan(jito.risk);
+    });
+});
+
+describe("StakeRouter", () => {
+    const lst = (overrides: Partial<LstMetrics> = {}): LstMetrics => ({
+        ...LST_REGISTRY[1],
+        apy: 7.5,
+        exchangeRate: 1.2,
+        marketRate: 1.2,
+        depegBps: 0,
+        unstakeDelaySeconds: 86_400,
+        tvlSol: 1_000_000,
+        ...overrides,
+    });
+
+    const setup = (metrics: LstMetrics[], outAmount: string) => {
+        const swapClient = {
+            quote: vi.fn(async (inputMint: string, outputMint: string) => ({
+                inputMint,
+                outputMint,
+                inAmount: "0",
+                outAmount,
+                priceImpactPct: "0",
+            })),
+            swapQuote: vi.fn(async () => "swap-sig"),
+        };
+        const staker: LstStaker = {
+            program: "spl-stake-pool",
+            stake: vi.fn(async () => ["stake-sig"]),
+            unstake: vi.fn(async () => ["unstake-sig"]),
+        };
+        const router = new StakeRouter(
+            { getLstMetrics: async () => metrics },
+            swapClient,
+            [staker]
+        );
+        return { router, swapClient, staker };
+    };
+
+    test("stakes directly unless the DEX gives more LST", async () => {
+        // 12 SOL mints 10 jitoSOL, the DEX gives 9.9
+        const direct = setup([lst()], "9900000000");
+        const route = await direct.router.quoteStake(12, "jitoSOL");
+
+        expect(route.method).toBe("direct");
+        expect(route.expectedLst).toBeCloseTo(10);
+        await direct.router.stake(route, Keypair.generate());
+        expect(direct.staker.stake).toHaveBeenCalledWith(
+            route.lst,
+            12_000_000_000n,
+            expect.anything()
+        );
+
+        // Trading at a discount, the DEX gives 10.1
+        const dex = setup([lst()], "10100000000");
+        const discounted = await dex.router.quoteStake(12, "jitoSOL");
+
+        expect(discounted.method).toBe("dex");
+        expect(discounted.discountBps).toBeCloseTo(100);
+        await dex.router.stake(discounted, Keypair.generate());
+        expect(dex.swapClient.swapQuote).toHaveBeenCalled();
+        expect(dex.staker.stake).not.toHaveBeenCalled();
+    });
+
+    test("picks the best APY among LSTs holding their peg", async () => {
+        const { router } = setup(
+            [
+                lst(),
+                lst({ symbol: "mSOL", apy: 9, depegBps: -250 }),
+                lst({ symbol: "bSOL", apy: 8, depegBps: -20 }),
+            ],
+            "0"
+        );
+
+        expect((await router.quoteStake(1)).lst.symbol).toBe("bSOL");
+        await expect(router.quoteStake(1, "stSOL")).rejects.toThrow(
+            "Unsupported liquid staking token stSOL"
+        );
+    });
+
+    test("sells on the DEX only when the discount is small", async () => {
+        // 10 jitoSOL is worth 12 SOL through the pool
+        const cheap = setup([lst()], "11990000000");
+        const instant = await cheap.router.quoteUnstake(10, "jitoSOL");
+        expect(instant).toMatchObject({ method: "dex", delaySeconds: 0 });
+        expect(instant.expectedSol).toBeCloseTo(11.99);
+
+        const costly = setup([lst()], "11800000000");
+        const delayed = await costly.router.quoteUnstake(10, "jitoSOL");
+        expect(delayed).toMatchObject({
+            method: "delayed",
+            delaySeconds: 86_400,
+        });
+        expect(delayed.expectedSol).toBeCloseTo(12);
+        await costly.router.unstake(delayed, Keypair.generate());
+        expect(costly.staker.unstake).toHaveBeenCalledWith(
+            delayed.lst,
+            10_000_000_000n,
+            expect.anything()
+        );
+
+        const forced = await costly.router.quoteUnstake(10, "jitoSOL", true);
+        expect(forced.method).toBe("dex");
+        expect(forced.discountBps).toBeCloseTo(166.7, 0);
+    });
+});
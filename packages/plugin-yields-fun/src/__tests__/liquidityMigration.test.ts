@@ -0,0 +1,185 @@
+import { describe, expect, test, vi } from "vitest";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import {
+    formatMigration,
+    LiquidityMigrator,
+} from "../utils/liquidityMigration";
+import { RebalanceVenue, RebalanceWallet } from "../utils/rebalancer";
+import { memoryCache } from "./helpers/memoryCache";
+
+vi.mock("@ai16z/plugin-trustdb", () => ({ TrustScoreDatabase: vi.fn() }));
+
+const setup = () => {
+    const positions = new Map<string, LedgerPosition>([
+        [
+            "raydium-1",
+            {
+                id: "raydium-1",
+                protocol: "Raydium",
+                kind: "LP",
+                poolAddress: "raydium-pool",
+                lowerPrice: 90,
+                upperPrice: 110,
+                depositedAmounts: {},
+                entryPrice: 100,
+                notionalUsd: 1000,
+                txSignatures: [],
+                status: "open",
+                openedAt: new Date(0),
+            },
+        ],
+    ]);
+    const ledger = {
+        list: () => [...positions.values()],
+        get: (id: string) => positions.get(id) || null,
+        findActive: (protocol: string, pool: string) =>
+            [...positions.values()].filter(
+                (p) =>
+                    p.protocol === protocol &&
+                    p.poolAddress === pool &&
+                    p.status !== "closed"
+            ),
+    };
+
+    // Wallet starts with unrelated funds that must never be migrated
+    let balances = [3, 50];
+    const quote = {
+        price: 100,
+        mintA: "SOL",
+        mintB: "USDC",
+        decimalsA: 9,
+        decimalsB: 6,
+    };
+    const venue = (protocol: string): RebalanceVenue => ({
+        protocol,
+        getQuote: vi.fn(async () => quote),
+        harvest: vi.fn(async () => ["harvest-sig"]),
+        close: vi.fn(async (position) => {
+            positions.set(position.id, { ...position, status: "closed" });
+            balances = [balances[0] + 10, balances[1]];
+            return ["close-sig"];
+        }),
+        open: vi.fn(async (poolAddress, _range, amounts) => {
+            positions.set("orca-1", {
+                ...positions.get("raydium-1"),
+                id: "orca-1",
+                protocol,
+                poolAddress,
+                status: "open",
+                openedAt: new Date(),
+            });
+            balances = [
+                balances[0] - amounts.tokenA,
+                balances[1] - amounts.tokenB,
+            ];
+            return ["open-sig"];
+        }),
+    });
+    const raydium = venue("Raydium");
+    const orca = venue("Orca");
+    const wallet: RebalanceWallet = {
+        getBalances: vi.fn(async () => [...balances]),
+        swap: vi.fn(async (_in, _out, amount) => {
+            balances = [balances[0] - amount, balances[1] + amount * 100];
+            return "swap-sig";
+        }),
+    };
+
+    const migrator = new LiquidityMigrator(
+        [raydium, orca],
+        ledger as any,
+        memoryCache(),
+        wallet,
+        async () => "orca-pool"
+    );
+
+    return { migrator, raydium, orca, wallet, getBalances: () => balances };
+};
+
+const request = {
+    baseAddress: "SOL",
+    quoteAddress: "USDC",
+    fromAmm: "raydium",
+    toAmm: "orca",
+};
+
+describe("LiquidityMigrator", () => {
+    test("claims, withdraws, swaps and deposits on the new AMM", async () => {
+        const { migrator, raydium, orca, wallet, getBalances } = setup();
+
+        const migration = await migrator.migrate(request, {} as any);
+
+        expect(migration.status).toBe("completed");
+        expect(migration.targetPool).toBe("orca-pool");
+        expect(migration.positionIds).toEqual(["raydium-1"]);
+        expect(migration.signatures).toEqual([
+            "harvest-sig",
+            "close-sig",
+            "swap-sig",
+            "open-sig",
+        ]);
+        expect(raydium.harvest).toHaveBeenCalledTimes(1);
+        expect(wallet.swap).toHaveBeenCalledWith(
+            "SOL",
+            "USDC",
+            expect.closeTo(5, 1),
+            9,
+            {}
+        );
+
+        const [pool, range, amounts] = vi.mocked(orca.open).mock.calls[0];
+        expect(pool).toBe("orca-pool");
+        expect(range.upperPrice / range.lowerPrice).toBeCloseTo(110 / 90);
+        expect(amounts.tokenA * 100 + amounts.tokenB).toBeCloseTo(1000);
+
+        // Funds that were in the wallet before the migration stay put
+        expect(getBalances()[0]).toBeCloseTo(3);
+        expect(getBalances()[1]).toBeCloseTo(50);
+        expect(formatMigration(migration)).toContain("✅ deposit");
+    });
+
+    test("resumes an interrupted migration from the failed step", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        const { migrator, raydium, orca, wallet } = setup();
+        vi.mocked(wallet.swap).mockRejectedValueOnce(new Error("timeout"));
+
+        const interrupted = await migrator.migrate(request, {} as any);
+
+        expect(interrupted.status).toBe("in_progress");
+        expect(interrupted.step).toBe("swap");
+        expect(interrupted.lastError).toBe("timeout");
+        expect(orca.open).not.toHaveBeenCalled();
+        expect(formatMigration(interrupted)).toContain("⏳ swap");
+
+        const [resumed] = await migrator.resumeAll({} as any);
+
+        expect(resumed.id).toBe(interrupted.id);
+        expect(resumed.status).toBe("completed");
+        expect(resumed.lastError).toBeUndefined();
+        expect(raydium.close).toHaveBeenCalledTimes(1);
+        expect(orca.open).toHaveBeenCalledTimes(1);
+    });
+
+    test("does not deposit twice when the deposit already landed", async () => {
+        const { migrator, orca } = setup();
+        await migrator.migrate(request, {} as any);
+
+        const [migration] = await migrator.list();
+        await (migrator as any).save({
+            ...migration,
+            status: "in_progress",
+            step: "deposit",
+        });
+        await migrator.resume(migration.id, {} as any);
+
+        expect(orca.open).toHaveBeenCalledTimes(1);
+    });
+
+    test("rejects AMMs without a venue", async () => {
+        const { migrator } = setup();
+
+        await expect(
+            migrator.plan({ ...request, toAmm: "lifinity" })
+        ).rejects.toThrow("Unsupported AMM lifinity");
+    });
+});
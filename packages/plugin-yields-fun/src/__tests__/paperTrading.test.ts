@@ -0,0 +1,120 @@
+import { describe, expect, test } from "vitest";
+import {
+    PaperLedger,
+    PaperPosition,
+    valuePaperPosition,
+} from "../utils/paperTrading";
+import { memoryCache } from "./helpers/memoryCache";
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+const position = (overrides: Partial<PaperPosition>): PaperPosition => ({
+    id: "paper-1",
+    protocol: "Orca",
+    kind: "LP",
+    pool: "pool",
+    tokens: ["SOL", "USDC"],
+    entryPrice: 100,
+    notionalUsd: 1000,
+    apr: 0,
+    status: "open",
+    openedAt: 0,
+    ...overrides,
+});
+
+describe("valuePaperPosition", () => {
+    test("full range LP matches the constant product IL formula", () => {
+        const valuation = valuePaperPosition(position({}), 400, 0);
+
+        // 2 * sqrt(4) / (1 + 4) - 1 = -20% versus holding
+        const holdValue = 500 * 4 + 500;
+        expect(valuation.impermanentLossUsd / holdValue).toBeCloseTo(-0.2);
+        expect(valuation.pnlUsd).toBeCloseTo(1000);
+    });
+
+    test("concentrated range is fully in quote above the upper bound", () => {
+        const valuation = valuePaperPosition(
+            position({ lowerPrice: 90, upperPrice: 110 }),
+            150,
+            0
+        );
+
+        expect(valuation.inRange).toBe(false);
+        // Narrow ranges lose more to IL than full range for the same move
+        const fullRange = valuePaperPosition(position({}), 150, 0);
+        expect(valuation.impermanentLossUsd).toBeLessThan(
+            fullRange.impermanentLossUsd
+        );
+    });
+
+    test("accrues fees and interest linearly at the recorded APR", () => {
+        const lp = valuePaperPosition(position({ apr: 20 }), 100, YEAR_MS / 2);
+        expect(lp.feesUsd).toBeCloseTo(100);
+        expect(lp.impermanentLossUsd).toBeCloseTo(0);
+
+        const lending = valuePaperPosition(
+            position({ kind: "LENDING", apr: 8 }),
+            1,
+            YEAR_MS
+        );
+        expect(lending.pnlUsd).toBeCloseTo(80);
+    });
+
+    test("short perps profit when the price falls", () => {
+        const valuation = valuePaperPosition(
+            position({ kind: "PERP", side: "SHORT" }),
+            90,
+            0
+        );
+        expect(valuation.pnlUsd).toBeCloseTo(100);
+    });
+});
+
+describe("PaperLedger", () => {
+    test("opens, lists and partially closes positions", async () => {
+        const ledger = new PaperLedger(memoryCache());
+        const opened = await ledger.open({
+            protocol: "Raydium",
+            kind: "LP",
+            pool: "pool",
+            tokens: ["SOL", "USDC"],
+            entryPrice: 100,
+            notionalUsd: 1000,
+            apr: 10,
+        });
+
+        const closed = await ledger.closePool("Raydium", "pool", 100, 0.25);
+        expect(closed).toHaveLength(1);
+        expect(closed[0].notionalUsd).toBe(250);
+        expect(closed[0].status).toBe("closed");
+
+        const open = await ledger.list("open");
+        expect(open).toHaveLength(1);
+        expect(open[0].id).toBe(opened.id);
+        expect(open[0].notionalUsd).toBe(750);
+
+        await ledger.close(opened.id, 100);
+        expect(await ledger.list("open")).toHaveLength(0);
+        await expect(ledger.close(opened.id, 100)).rejects.toThrow(
+            "already closed"
+        );
+    });
+
+    test("keeps every position when actions write at once", async () => {
+        const cache = memoryCache();
+        const open = (pool: string) =>
+            new PaperLedger(cache).open({
+                protocol: "LuLo",
+                kind: "LENDING",
+                pool,
+                tokens: [pool],
+                entryPrice: 1,
+                notionalUsd: 100,
+                apr: 5,
+            });
+
+        await Promise.all(["USDC", "USDT", "PYUSD"].map(open));
+
+        expect(await new PaperLedger(cache).list("open")).toHaveLength(3);
+    });
+});
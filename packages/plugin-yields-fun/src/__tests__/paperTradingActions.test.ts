@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { IAgentRuntime, Memory } from "@ai16z/eliza";
+import {
+    closePaperPositionAction,
+    paperPositionsAction,
+} from "../actions/paperTradingActions";
+import { PaperLedger, PaperPosition } from "../utils/paperTrading";
+import { memoryCache } from "./helpers/memoryCache";
+
+vi.mock("../providers/markPrice", () => ({
+    getMarkPrice: vi.fn(async () => 100),
+}));
+
+const message: Memory = {
+    userId: "00000000-0000-0000-0000-000000000001",
+    agentId: "00000000-0000-0000-0000-000000000002",
+    roomId: "00000000-0000-0000-0000-000000000003",
+    content: { text: "close half of my paper position" },
+};
+
+describe("paper trading actions", () => {
+    let runtime: IAgentRuntime;
+    let ledger: PaperLedger;
+    let opened: PaperPosition;
+
+    beforeEach(async () => {
+        const cacheManager = memoryCache();
+        runtime = { cacheManager } as unknown as IAgentRuntime;
+        ledger = new PaperLedger(cacheManager);
+        opened = await ledger.open({
+            protocol: "LuLo",
+            kind: "LENDING",
+            pool: "USDC",
+            tokens: ["USDC"],
+            entryPrice: 1,
+            notionalUsd: 1000,
+            apr: 0,
+        });
+    });
+
+    test("closes part of a paper position at the mark price", async () => {
+        const callback = vi.fn();
+
+        const result = await closePaperPositionAction.handler(
+            runtime,
+            message,
+            undefined,
+            { positionId: opened.id, percentage: 50 },
+            callback
+        );
+
+        expect(result).toBe(true);
+        expect(callback.mock.calls[0][0].text).toBe(
+            `Closed 50% of paper position ${opened.id} at 100 for a realized PnL of +$0.00`
+        );
+        const [open] = await ledger.list("open");
+        expect(open.notionalUsd).toBe(500);
+        const [closed] = await ledger.list("closed");
+        expect(closed).toMatchObject({ notionalUsd: 500, exitPrice: 100 });
+    });
+
+    test("lists open and closed paper positions", async () => {
+        await ledger.close(opened.id, 1);
+        const callback = vi.fn();
+
+        await paperPositionsAction.handler(
+            runtime,
+            message,
+            undefined,
+            { status: "closed" },
+            callback
+        );
+
+        const { text } = callback.mock.calls[0][0];
+        expect(text).toContain("📒 Closed Paper Positions");
+        expect(text).toContain(`LuLo LENDING USDC [closed] (${opened.id})`);
+        expect(text).toContain("Closed: $1000.00 at 1");
+    });
+
+    test("refuses unknown paper positions", async () => {
+        const callback = vi.fn();
+
+        expect(
+            await closePaperPositionAction.handler(
+                runtime,
+                message,
+                undefined,
+                { positionId: "missing" },
+                callback
+            )
+        ).toBe(false);
+        expect(callback).toHaveBeenCalledWith({
+            text: "Paper position missing not found",
+        });
+        expect(await ledger.list("open")).toHaveLength(1);
+    });
+});
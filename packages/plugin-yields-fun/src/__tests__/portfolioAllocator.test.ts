@@ -0,0 +1,160 @@
+import { describe, expect, test, vi } from "vitest";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import { YieldOpportunity } from "../types/yield";
+import {
+    formatAllocationPlan,
+    PortfolioAllocator,
+} from "../utils/portfolioAllocator";
+
+vi.mock("@ai16z/plugin-trustdb", () => ({ TrustScoreDatabase: vi.fn() }));
+
+const opportunity = (
+    overrides: Partial<YieldOpportunity> = {}
+): YieldOpportunity => ({
+    protocol: "Orca",
+    type: "LP",
+    apy: 40,
+    tvl: 100_000_000,
+    risk: 6,
+    tokens: ["SOL", "USDC"],
+    address: "orca-sol-usdc",
+    description: "",
+    ...overrides,
+});
+
+const position = (overrides: Partial<LedgerPosition> = {}): LedgerPosition => ({
+    id: "pos-1",
+    protocol: "Orca",
+    kind: "LP",
+    poolAddress: "orca-sol-usdc",
+    depositedAmounts: {},
+    entryPrice: 100,
+    notionalUsd: 1000,
+    txSignatures: [],
+    status: "open",
+    openedAt: new Date(0),
+    ...overrides,
+});
+
+const ranked = [
+    opportunity(),
+    opportunity({
+        protocol: "Raydium",
+        address: "ray-sol-bonk",
+        tokens: ["SOL", "BONK"],
+        apy: 120,
+        risk: 9,
+    }),
+    opportunity({
+        protocol: "LuLo",
+        type: "LENDING",
+        address: "lulo-usdc",
+        tokens: ["USDC"],
+        apy: 9,
+        risk: 2,
+    }),
+];
+
+describe("PortfolioAllocator", () => {
+    test("respects protocol, token, stable and risk limits", () => {
+        const allocator = new PortfolioAllocator({
+            maxProtocolShare: 0.3,
+            maxTokenShare: 0.4,
+            minStableShare: 0.25,
+            riskBudget: 4,
+        });
+
+        const plan = allocator.plan(10_000, ranked);
+
+        for (const share of Object.values(plan.protocolShares)) {
+            expect(share).toBeLessThanOrEqual(0.3 + 1e-9);
+        }
+        for (const share of Object.values(plan.tokenShares)) {
+            expect(share).toBeLessThanOrEqual(0.4 + 1e-9);
+        }
+        expect(plan.stableShare).toBeGreaterThanOrEqual(0.25);
+        expect(plan.weightedRisk).toBeLessThanOrEqual(4 + 1e-9);
+
+        // The stable lending pool is filled first, ahead of its rank
+        const lulo = plan.allocations.find(
+            (a) => a.opportunity.protocol === "LuLo"
+        );
+        expect(lulo.targetUsd).toBeGreaterThanOrEqual(2500);
+        expect(plan.unallocatedUsd).toBeGreaterThanOrEqual(10_000 * 0.02);
+    });
+
+    test("caps a pool at its share of TVL", () => {
+        const plan = new PortfolioAllocator().plan(1_000_000, [
+            opportunity({ tvl: 2_000_000 }),
+        ]);
+
+        expect(plan.allocations[0].targetUsd).toBe(20_000);
+    });
+
+    test("stops adding risk once the budget is spent", () => {
+        const plan = new PortfolioAllocator({
+            riskBudget: 3,
+            minStableShare: 0,
+            maxProtocolShare: 1,
+            maxTokenShare: 1,
+            maxPositionShare: 1,
+        }).plan(10_000, [opportunity({ risk: 6 })]);
+
+        // Half the book at risk 6 averages to 3 across the whole book
+        expect(plan.allocations[0].targetUsd).toBeCloseTo(5000);
+        expect(plan.weightedRisk).toBeCloseTo(3);
+    });
+
+    test("counts open positions in the book and trims them", () => {
+        const plan = new PortfolioAllocator({ maxPositionShare: 0.2 }).plan(
+            6000,
+            ranked,
+            [
+                position({ notionalUsd: 3000 }),
+                position({
+                    id: "pos-2",
+                    protocol: "Meteora",
+                    poolAddress: "meteora-old",
+                    notionalUsd: 1000,
+                }),
+                position({ id: "pos-3", status: "closed", notionalUsd: 5000 }),
+            ]
+        );
+
+        expect(plan.bookValueUsd).toBe(10_000);
+
+        const orca = plan.allocations.find(
+            (a) => a.opportunity.protocol === "Orca"
+        );
+        expect(orca.targetUsd).toBe(2000);
+        expect(orca.currentUsd).toBe(3000);
+        expect(orca.deltaUsd).toBe(-1000);
+
+        expect(
+            plan.trims.map((t) => [t.position.id, t.trimUsd, t.reason])
+        ).toEqual([
+            ["pos-1", 1000, "above target allocation"],
+            ["pos-2", 1000, "not in allocation plan"],
+        ]);
+        expect(formatAllocationPlan(plan)).toContain("Trim:");
+    });
+
+    test("sizes the book from the wallet portfolio", async () => {
+        const wallet = {
+            fetchPortfolioValue: vi.fn(async () => ({
+                totalUsd: "5000",
+                items: [],
+            })),
+        };
+
+        const plan = await new PortfolioAllocator().allocate(
+            {} as any,
+            wallet,
+            ranked
+        );
+
+        expect(wallet.fetchPortfolioValue).toHaveBeenCalled();
+        expect(plan.bookValueUsd).toBe(5000);
+        expect(plan.allocations.length).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, test, vi } from "vitest";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import { PositionLedger, recordPosition } from "../utils/positionLedger";
+import { fakeTrustDb } from "./helpers/trustDb";
+
+vi.mock("@ai16z/plugin-trustdb", () => ({ TrustScoreDatabase: vi.fn() }));
+
+// In-memory stand-in for the positions table
+const memoryDb = () => {
+    const rows = new Map<string, LedgerPosition>();
+    return fakeTrustDb({
+        upsertPosition: (position: LedgerPosition) => {
+            rows.set(position.id, position);
+            return true;
+        },
+        getPosition: (id: string) => rows.get(id) || null,
+        getPositions: (status?: LedgerPosition["status"]) =>
+            [...rows.values()].filter(
+                (position) => !status || position.status === status
+            ),
+    });
+};
+
+const lp = {
+    protocol: "Meteora",
+    kind: "LP" as const,
+    poolAddress: "pool",
+    positionMint: "mint-1",
+    rangeLower: 100,
+    rangeUpper: 120,
+    rangeUnit: "bin" as const,
+    depositedAmounts: { SOL: 1, USDC: 100 },
+    entryPrice: 100,
+    notionalUsd: 200,
+};
+
+describe("PositionLedger", () => {
+    test("tracks a position from open to close", () => {
+        const ledger = new PositionLedger(memoryDb());
+        const opened = ledger.open({ ...lp, txSignatures: ["open-sig"] });
+
+        expect(opened.status).toBe("open");
+        expect(ledger.findByMint("mint-1")?.id).toBe(opened.id);
+
+        ledger.addTransaction(opened.id, "add-sig");
+        const closed = ledger.close(opened.id, ["close-sig"]);
+
+        expect(closed.status).toBe("closed");
+        expect(closed.txSignatures).toEqual([
+            "open-sig",
+            "add-sig",
+            "close-sig",
+        ]);
+        expect(ledger.findByMint("mint-1")).toBeNull();
+        expect(ledger.list("open")).toHaveLength(0);
+    });
+
+    test("closes every active position in a pool", () => {
+        const ledger = new PositionLedger(memoryDb());
+        ledger.open(lp);
+        ledger.open({ ...lp, positionMint: "mint-2", status: "pending" });
+        ledger.open({ ...lp, poolAddress: "other" });
+
+        const closed = ledger.closePool("Meteora", "pool");
+
+        expect(closed).toHaveLength(2);
+        expect(ledger.findActive("Meteora", "other")).toHaveLength(1);
+    });
+
+    test("confirms pending positions once sent", () => {
+        const ledger = new PositionLedger(memoryDb());
+        const pending = ledger.open({ ...lp, status: "pending" });
+
+        const confirmed = ledger.confirm(pending.id, ["open-sig"]);
+
+        expect(confirmed.status).toBe("open");
+        expect(confirmed.txSignatures).toEqual(["open-sig"]);
+        expect(ledger.confirm(pending.id, ["again"]).txSignatures).toEqual([
+            "open-sig",
+        ]);
+    });
+
+    test("keeps a closing position active until its close is sent", () => {
+        const ledger = new PositionLedger(memoryDb());
+        const opened = ledger.open(lp);
+
+        const closing = ledger.beginClose(opened.id);
+
+        expect(closing.status).toBe("closing");
+        expect(ledger.findByMint("mint-1")?.id).toBe(opened.id);
+        expect(ledger.findActive("Meteora", "pool")).toHaveLength(1);
+
+        const closed = ledger.close(opened.id, ["close-sig"]);
+        expect(closed.status).toBe("closed");
+        expect(closed.txSignatures).toEqual(["close-sig"]);
+        expect(ledger.beginClose(opened.id).status).toBe("closed");
+    });
+
+    test("ledger failures never escape recordPosition", () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        const ledger = new PositionLedger(
+            fakeTrustDb({ ...memoryDb(), upsertPosition: () => false })
+        );
+
+        expect(recordPosition(ledger, (l) => l.open(lp))).toBeNull();
+        expect(recordPosition(null, (l) => l.open(lp))).toBeNull();
+    });
+});
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { IAgentRuntime, TxGuard } from "@ai16z/eliza";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import {
+    Connection,
+    Keypair,
+    PublicKey,
+    sendAndConfirmTransaction,
+    Transaction,
+    TransactionInstruction,
+} from "@solana/web3.js";
+import { OrcaActions } from "../actions/orcaActions";
+import { getWalletKey } from "../keypairUtils";
+import { PositionLedger } from "../utils/positionLedger";
+import { getAgentWallet, OrcaRebalanceVenue } from "../utils/rebalanceVenues";
+
+vi.mock("@solana/web3.js", async (importOriginal) => ({
+    ...(await importOriginal<typeof import("@solana/web3.js")>()),
+    sendAndConfirmTransaction: vi.fn(async () => "open-sig"),
+}));
+vi.mock("@ai16z/plugin-trustdb", () => ({ TrustScoreDatabase: vi.fn() }));
+vi.mock("../keypairUtils", () => ({ getWalletKey: vi.fn() }));
+vi.mock("../actions/orcaActions", () => ({ OrcaActions: vi.fn() }));
+vi.mock("../actions/raydiumClmActions", () => ({
+    RaydiumClmActions: vi.fn(),
+}));
+vi.mock("../actions/meteoraDlmmActions", () => ({
+    MeteoraDlmmActions: vi.fn(),
+    StrategyType: {},
+}));
+vi.mock("../providers/orcaProvider", () => ({ OrcaProvider: vi.fn() }));
+vi.mock("../providers/yieldAggregator", () => ({
+    getOpportunityApy: vi.fn(),
+}));
+
+const wallet = Keypair.generate();
+const positionMint = Keypair.generate().publicKey;
+const pool = Keypair.generate().publicKey.toBase58();
+
+const quote = {
+    price: 200,
+    mintA: "So11111111111111111111111111111111111111112",
+    mintB: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    decimalsA: 9,
+    decimalsB: 6,
+};
+
+const setup = () => {
+    const instruction = new TransactionInstruction({
+        programId: new PublicKey("whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc"),
+        keys: [],
+        data: Buffer.from([1]),
+    });
+    const actions = {
+        openPosition: vi.fn(async () => ({
+            instructions: [instruction],
+            positionMint,
+        })),
+    };
+    const opened = { id: "pos-1" } as LedgerPosition;
+    const ledger = {
+        findByMint: vi.fn(() => opened),
+        confirm: vi.fn(),
+    };
+    const guard = { check: vi.fn(async () => {}) };
+    const venue = new OrcaRebalanceVenue(
+        {} as Connection,
+        actions as unknown as OrcaActions,
+        ledger as unknown as PositionLedger,
+        async () => wallet,
+        guard as unknown as TxGuard
+    );
+    return { venue, actions, ledger, guard, instruction };
+};
+
+beforeEach(() => {
+    vi.clearAllMocks();
+});
+
+describe("Orca rebalance venue", () => {
+    test("builds, checks and signs the open transaction with the agent wallet", async () => {
+        const { venue, actions, ledger, guard, instruction } = setup();
+
+        const signatures = await venue.open(
+            pool,
+            { lowerPrice: 180, upperPrice: 220 },
+            { tokenA: 1, tokenB: 200 },
+            quote
+        );
+
+        expect(signatures).toEqual(["open-sig"]);
+        expect(actions.openPosition).toHaveBeenCalledWith(
+            new PublicKey(pool),
+            expect.anything(),
+            { lowerPrice: 180, upperPrice: 220 },
+            100,
+            wallet
+        );
+
+        const [, transaction, signers] = vi.mocked(sendAndConfirmTransaction)
+            .mock.calls[0];
+        expect(transaction).toBeInstanceOf(Transaction);
+        expect((transaction as Transaction).instructions).toEqual([
+            instruction,
+        ]);
+        expect(signers).toEqual([wallet]);
+        expect(guard.check).toHaveBeenCalledWith(
+            transaction,
+            wallet.publicKey,
+            expect.objectContaining({
+                description: expect.stringContaining(pool),
+            })
+        );
+        expect(ledger.confirm).toHaveBeenCalledWith("pos-1", ["open-sig"]);
+    });
+
+    test("sends nothing the guard rejects", async () => {
+        const { venue, guard } = setup();
+        guard.check.mockRejectedValueOnce(new Error("over the daily limit"));
+
+        await expect(
+            venue.open(
+                pool,
+                { lowerPrice: 180, upperPrice: 220 },
+                { tokenA: 1, tokenB: 200 },
+                quote
+            )
+        ).rejects.toThrow("over the daily limit");
+        expect(sendAndConfirmTransaction).not.toHaveBeenCalled();
+    });
+});
+
+describe("getAgentWallet", () => {
+    test("loads the signing keypair from the runtime settings", async () => {
+        const runtime = {} as IAgentRuntime;
+        vi.mocked(getWalletKey).mockResolvedValue({ keypair: wallet });
+
+        expect(await getAgentWallet(runtime)()).toBe(wallet);
+        expect(getWalletKey).toHaveBeenCalledWith(runtime, true);
+
+        vi.mocked(getWalletKey).mockResolvedValue({});
+        await expect(getAgentWallet(runtime)()).rejects.toThrow(
+            "Agent wallet keypair not configured"
+        );
+    });
+});
@@ -0,0 +1,178 @@
+import { describe, expect, test, vi } from "vitest";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import {
+    formatRebalancePlans,
+    isOutOfRange,
+    planSwapToRatio,
+    RebalanceConfig,
+    Rebalancer,
+    RebalanceVenue,
+    RebalanceWallet,
+    recenterRange,
+} from "../utils/rebalancer";
+import { memoryCache } from "./helpers/memoryCache";
+
+vi.mock("@ai16z/plugin-trustdb", () => ({ TrustScoreDatabase: vi.fn() }));
+
+const position = (overrides: Partial<LedgerPosition> = {}): LedgerPosition => ({
+    id: "pos-1",
+    protocol: "Orca",
+    kind: "LP",
+    poolAddress: "pool",
+    positionMint: "mint-1",
+    lowerPrice: 90,
+    upperPrice: 110,
+    depositedAmounts: {},
+    entryPrice: 100,
+    notionalUsd: 1000,
+    txSignatures: [],
+    status: "open",
+    openedAt: new Date(0),
+    ...overrides,
+});
+
+const setup = (
+    price: number,
+    positions: LedgerPosition[],
+    config: Partial<RebalanceConfig> = {}
+) => {
+    // Closing returns 10 token A, the whole deposit after price fell below range
+    let balances = [0, 0];
+    const venue: RebalanceVenue = {
+        protocol: "Orca",
+        getQuote: vi.fn(async () => ({
+            price,
+            mintA: "A",
+            mintB: "B",
+            decimalsA: 9,
+            decimalsB: 6,
+        })),
+        close: vi.fn(async () => {
+            balances = [balances[0] + 10, balances[1]];
+            return ["close-sig"];
+        }),
+        open: vi.fn(async () => ["open-sig"]),
+    };
+    const wallet: RebalanceWallet = {
+        getBalances: vi.fn(async () => [...balances]),
+        swap: vi.fn(async (_in, _out, amount) => {
+            balances = [balances[0] - amount, balances[1] + amount * price];
+            return "swap-sig";
+        }),
+    };
+    const ledger = { list: () => positions };
+    const rebalancer = new Rebalancer(
+        [venue],
+        ledger as any,
+        memoryCache(),
+        wallet,
+        async () => 100,
+        config
+    );
+
+    return { rebalancer, venue, wallet };
+};
+
+describe("rebalancer helpers", () => {
+    test("detects out of range prices with a threshold", () => {
+        const range = { lowerPrice: 90, upperPrice: 110 };
+
+        expect(isOutOfRange(100, range)).toBe(false);
+        expect(isOutOfRange(89, range)).toBe(true);
+        expect(isOutOfRange(89, range, 0.05)).toBe(false);
+    });
+
+    test("recentres a range keeping its width", () => {
+        const range = recenterRange({ lowerPrice: 50, upperPrice: 200 }, 200);
+
+        expect(range.lowerPrice).toBeCloseTo(100);
+        expect(range.upperPrice).toBeCloseTo(400);
+    });
+
+    test("plans the swap to a balanced range", () => {
+        const range = { lowerPrice: 50, upperPrice: 200 };
+
+        // All token A at the centre of a symmetric range: sell half the value
+        const swap = planSwapToRatio({ tokenA: 10, tokenB: 0 }, 100, range);
+        expect(swap.sell).toBe("A");
+        expect(swap.amount).toBeCloseTo(5);
+
+        expect(
+            planSwapToRatio({ tokenA: 5, tokenB: 500 }, 100, range)
+        ).toBeNull();
+        expect(
+            planSwapToRatio({ tokenA: 0, tokenB: 1000 }, 100, range).sell
+        ).toBe("B");
+    });
+});
+
+describe("Rebalancer", () => {
+    test("previews without touching the venue or wallet", async () => {
+        const { rebalancer, venue, wallet } = setup(80, [
+            position(),
+            position({ id: "pos-2", lowerPrice: 70, upperPrice: 90 }),
+        ]);
+
+        const { plans, results } = await rebalancer.run({} as any, true);
+
+        expect(plans.map((plan) => plan.action)).toEqual(["rebalance", "skip"]);
+        expect(plans[0].newRange.lowerPrice).toBeLessThan(80);
+        expect(plans[0].newRange.upperPrice).toBeGreaterThan(80);
+        expect(plans[1].reason).toBe("in range");
+        expect(results).toEqual([]);
+        expect(venue.close).not.toHaveBeenCalled();
+        expect(wallet.swap).not.toHaveBeenCalled();
+        expect(formatRebalancePlans(plans)).toContain("Rebalance Preview");
+    });
+
+    test("skips when expected fees do not cover costs", async () => {
+        const { rebalancer } = setup(80, [position()], { gasCostUsd: 100 });
+
+        const [plan] = await rebalancer.preview();
+
+        expect(plan.action).toBe("skip");
+        expect(plan.reason).toContain("do not cover");
+    });
+
+    test("harvests, swaps to ratio and reopens, then cools down", async () => {
+        const { rebalancer, venue, wallet } = setup(80, [position()]);
+
+        const { results } = await rebalancer.run({} as any);
+
+        expect(results).toHaveLength(1);
+        expect(results[0].success).toBe(true);
+        expect(results[0].signatures).toEqual([
+            "close-sig",
+            "swap-sig",
+            "open-sig",
+        ]);
+        expect(wallet.swap).toHaveBeenCalledWith(
+            "A",
+            "B",
+            expect.any(Number),
+            9,
+            {}
+        );
+
+        const [, , amounts] = vi.mocked(venue.open).mock.calls[0];
+        expect(amounts.tokenA).toBeGreaterThan(0);
+        expect(amounts.tokenB).toBeGreaterThan(0);
+
+        const [plan] = await rebalancer.preview();
+        expect(plan.reason).toContain("cooling down");
+    });
+
+    test("reports venue failures per position", async () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        const { rebalancer, venue } = setup(80, [position()]);
+        vi.mocked(venue.close).mockRejectedValueOnce(new Error("rpc down"));
+
+        const { results } = await rebalancer.run({} as any);
+
+        expect(results[0]).toMatchObject({
+            success: false,
+            message: "rpc down",
+        });
+        expect(venue.open).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, test } from "vitest";
+import { WeightedRiskModel } from "../utils/riskModel";
+
+describe("WeightedRiskModel", () => {
+    const model = new WeightedRiskModel();
+
+    test("deeper pools score as less risky", () => {
+        const shallow = model.calculate({
+            type: "LP",
+            tvl: 50000,
+            volume24h: 10000,
+            protocolRisk: 3,
+        });
+        const deep = model.calculate({
+            type: "LP",
+            tvl: 20000000,
+            volume24h: 10000,
+            protocolRisk: 3,
+        });
+
+        expect(deep.liquidityDepth).toBe(10);
+        expect(deep.score).toBeLessThan(shallow.score);
+    });
+
+    test("only LP positions carry impermanent loss", () => {
+        const inputs = { tvl: 1000000, volatility: 90, protocolRisk: 3 };
+
+        expect(model.calculate({ ...inputs, type: "LP" }).impermanentLoss).toBe(
+            6
+        );
+        expect(
+            model.calculate({ ...inputs, type: "LENDING" }).impermanentLoss
+        ).toBe(0);
+    });
+
+    test("weights shift the score toward the emphasised component", () => {
+        const inputs = {
+            type: "STAKING" as const,
+            tvl: 10000000,
+            protocolRisk: 2,
+            counterpartyRisk: 8,
+        };
+        const balanced = model.calculate(inputs);
+        const counterpartyHeavy = new WeightedRiskModel({
+            weights: {
+                volatility: 0,
+                impermanentLoss: 0,
+                liquidityDepth: 0,
+                counterpartyRisk: 1,
+                protocolRisk: 0,
+            },
+        }).calculate(inputs);
+
+        expect(counterpartyHeavy.score).toBe(8);
+        expect(counterpartyHeavy.score).toBeGreaterThan(balanced.score);
+    });
+
+    test("risk-adjusted APY is excess return per unit of risk", () => {
+        const withRate = new WeightedRiskModel({ riskFreeRate: 5 });
+
+        expect(withRate.riskAdjustedApy(25, 4)).toBe(5);
+        // Near-zero risk is floored so the ratio cannot explode
+        expect(withRate.riskAdjustedApy(25, 0.1)).toBe(20);
+    });
+});
@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import {
+    GuardConnection,
+    IAgentRuntime,
+    Memory,
+    TokenDelta,
+    TxPreview,
+} from "@ai16z/eliza";
+import { PublicKey, SendTransactionError, Transaction } from "@solana/web3.js";
+import { getTxGuard, sendGuarded } from "../utils/txGuard";
+
+let deltas: TokenDelta[];
+
+vi.mock("@ai16z/eliza", () => ({
+    recordTxSignature: vi.fn(),
+    TX_GUARD_DEFAULTS: { allowedPrograms: [] },
+    TxGuard: class {
+        async check(): Promise<Partial<TxPreview>> {
+            return { deltas, approved: true };
+        }
+    },
+}));
+
+const delta = (
+    mint: string,
+    amount: bigint,
+    valueUsd: number | null
+): TokenDelta => ({
+    mint,
+    amount,
+    decimals: 9,
+    uiAmount: Number(amount) / 1e9,
+    valueUsd,
+});
+
+const message: Memory = {
+    userId: "00000000-0000-0000-0000-000000000001",
+    agentId: "00000000-0000-0000-0000-000000000002",
+    roomId: "00000000-0000-0000-0000-000000000003",
+    content: { text: "stake 2 SOL" },
+};
+
+describe("PolicyTxGuard", () => {
+    const wallet = PublicKey.default;
+    // The guard's simulation is mocked out above
+    const connection = {} as GuardConnection;
+    const authorize = vi.fn();
+    const release = vi.fn();
+    const runtime = {
+        agentId: "agent",
+        getSetting: () => null,
+        walletPolicy: { authorize, release },
+    } as unknown as IAgentRuntime;
+
+    beforeEach(() => {
+        authorize.mockReset();
+        authorize.mockResolvedValue({ id: "1", allowed: true, reason: "" });
+        release.mockReset();
+    });
+
+    test("authorizes the USD value a transaction spends", async () => {
+        deltas = [
+            delta("SOL", -2_000_000_000n, -400),
+            delta("USDC", 50_000_000n, 50),
+            delta("BONK", -1_000n, -0.5),
+        ];
+        const guard = getTxGuard(runtime, connection, {
+            action: "STAKE_SOL",
+            message,
+        });
+
+        await guard.check(new Transaction(), wallet, { description: "" });
+
+        expect(authorize).toHaveBeenCalledWith({
+            action: "STAKE_SOL",
+            userId: message.userId,
+            roomId: message.roomId,
+            valueUsd: 400.5,
+            tokens: ["SOL", "USDC", "BONK"],
+        });
+    });
+
+    test("counts job spends against the agent and unpriced outflows as unknown", async () => {
+        deltas = [delta("SOL", -1_000n, -0.2), delta("NEW", -5n, null)];
+        const guard = getTxGuard(runtime, connection, {
+            action: "yields-fun/rebalance",
+        });
+
+        await guard.check(new Transaction(), wallet, { description: "" });
+
+        expect(authorize).toHaveBeenCalledWith(
+            expect.objectContaining({
+                userId: "agent",
+                roomId: "agent",
+                valueUsd: null,
+            })
+        );
+    });
+
+    test("refuses to sign what the wallet policy denies", async () => {
+        deltas = [delta("SOL", -1_000n, -0.2)];
+        authorize.mockResolvedValue({
+            id: "1",
+            allowed: false,
+            reason: "token SOL is on the deny list",
+        });
+        const guard = getTxGuard(runtime, connection, {
+            action: "meteora-dlmm",
+        });
+
+        await expect(
+            guard.check(new Transaction(), wallet, { description: "" })
+        ).rejects.toThrow(
+            "Blocked by the wallet policy: token SOL is on the deny list"
+        );
+    });
+
+    test("keeps the spend of a sent transaction counted", async () => {
+        deltas = [delta("SOL", -1_000n, -0.2)];
+        const guard = getTxGuard(runtime, connection, {
+            action: "orca-clm",
+        });
+
+        const signature = await sendGuarded(
+            guard,
+            new Transaction(),
+            wallet,
+            { description: "" },
+            async () => "sig"
+        );
+
+        expect(signature).toBe("sig");
+        expect(release).not.toHaveBeenCalled();
+
+        // Confirming failed, but the transaction may still land
+        await expect(
+            sendGuarded(
+                guard,
+                new Transaction(),
+                wallet,
+                { description: "" },
+                async () => {
+                    throw new Error("block height exceeded");
+                }
+            )
+        ).rejects.toThrow("block height exceeded");
+        expect(release).not.toHaveBeenCalled();
+    });
+
+    test("releases the spend of a transaction the RPC node rejects", async () => {
+        deltas = [delta("SOL", -1_000n, -0.2)];
+        const guard = getTxGuard(runtime, connection, {
+            action: "orca-clm",
+        });
+        const rejected = new SendTransactionError({
+            action: "send",
+            signature: "",
+            transactionMessage: "insufficient funds",
+        });
+
+        await expect(
+            sendGuarded(
+                guard,
+                new Transaction(),
+                wallet,
+                { description: "" },
+                async () => {
+                    throw rejected;
+                }
+            )
+        ).rejects.toBe(rejected);
+        expect(release).toHaveBeenCalledWith({
+            id: "1",
+            allowed: true,
+            reason: "",
+        });
+    });
+});
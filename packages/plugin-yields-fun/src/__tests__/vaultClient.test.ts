@@ -0,0 +1,155 @@
+import { createHash } from "crypto";
+import { describe, expect, test, vi } from "vitest";
+import { Keypair, PublicKey } from "@solana/web3.js";
+import { decodeVaultState, VaultClient } from "../programs/vaultClient";
+import {
+    calculateAmount,
+    calculateManagementFee,
+    calculatePerformanceFee,
+    calculateShares,
+    sharePrice,
+    simulateHarvest,
+} from "../programs/vaultMath";
+
+vi.mock("@solana/spl-token", async () => {
+    const { PublicKey } = await import("@solana/web3.js");
+    return {
+        TOKEN_PROGRAM_ID: new PublicKey(
+            "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA"
+        ),
+        getAssociatedTokenAddressSync: vi.fn(() => PublicKey.default),
+    };
+});
+
+const YEAR = BigInt(365 * 24 * 60 * 60);
+
+const vaultState = (totalAssets: bigint, totalShares: bigint) => ({
+    totalAssets,
+    totalShares,
+    performanceFee: 20,
+    managementFee: 2,
+    lastHarvestTime: 0n,
+});
+
+describe("vault math", () => {
+    test("mints shares 1:1 into an empty vault", () => {
+        expect(calculateShares(1_000n, 0n, 0n)).toBe(1_000n);
+        expect(sharePrice(0n, 0n)).toBe(1);
+    });
+
+    test("mints and redeems at the share price, rounding down", () => {
+        // 1.5 assets per share
+        expect(calculateShares(100n, 1_500n, 1_000n)).toBe(66n);
+        expect(calculateAmount(66n, 1_500n, 1_000n)).toBe(99n);
+        expect(sharePrice(1_500n, 1_000n)).toBe(1.5);
+        expect(calculateAmount(10n, 0n, 0n)).toBe(0n);
+    });
+
+    test("accrues the management fee per second", () => {
+        expect(calculateManagementFee(1_000_000n, 2, YEAR)).toBe(20_000n);
+        expect(calculateManagementFee(1_000_000n, 2, YEAR / 2n)).toBe(10_000n);
+        expect(calculateManagementFee(1_000_000n, 2, 0n)).toBe(0n);
+    });
+
+    test("takes the performance fee on gains only", () => {
+        expect(calculatePerformanceFee(1_000n, 1_500n, 20)).toBe(100n);
+        expect(calculatePerformanceFee(1_500n, 1_000n, 20)).toBe(0n);
+    });
+
+    test("simulates a harvest like the program", () => {
+        const state = {
+            ...vaultState(1_000_000n, 1_000_000n),
+            lastHarvestTime: 1_000n,
+        };
+
+        const result = simulateHarvest(state, 1_100_000n, 1_000n + YEAR);
+
+        expect(result.managementFee).toBe(20_000n);
+        expect(result.performanceFee).toBe(20_000n);
+        expect(result.totalFees).toBe(40_000n);
+        expect(result.totalAssets).toBe(1_060_000n);
+        expect(result.sharePrice).toBeCloseTo(1.06);
+    });
+});
+
+describe("VaultClient", () => {
+    const programId = Keypair.generate().publicKey;
+    const owner = Keypair.generate().publicKey;
+    const client = new VaultClient({} as any, programId);
+
+    test("derives the state, auth and vault PDAs", () => {
+        const { state, auth, vault } = client.getAddresses(owner);
+
+        const [expectedState] = PublicKey.findProgramAddressSync(
+            [Buffer.from("state"), owner.toBuffer()],
+            programId
+        );
+        expect(state.equals(expectedState)).toBe(true);
+        expect(
+            auth.equals(
+                PublicKey.findProgramAddressSync(
+                    [Buffer.from("auth"), state.toBuffer()],
+                    programId
+                )[0]
+            )
+        ).toBe(true);
+        expect(
+            vault.equals(
+                PublicKey.findProgramAddressSync(
+                    [Buffer.from("vault"), auth.toBuffer()],
+                    programId
+                )[0]
+            )
+        ).toBe(true);
+    });
+
+    test("encodes the deposit instruction", () => {
+        const user = Keypair.generate().publicKey;
+        const ix = client.depositInstruction({
+            vaultOwner: owner,
+            user,
+            mint: Keypair.generate().publicKey,
+            userPosition: Keypair.generate().publicKey,
+            amount: 1_000n,
+        });
+
+        const discriminator = createHash("sha256")
+            .update("global:deposit")
+            .digest()
+            .subarray(0, 8);
+        expect(ix.data.subarray(0, 8).equals(discriminator)).toBe(true);
+        expect(ix.data.readBigUInt64LE(8)).toBe(1_000n);
+        expect(ix.keys).toHaveLength(7);
+        expect(ix.keys[0]).toMatchObject({ isSigner: true, isWritable: true });
+        expect(ix.keys[0].pubkey.equals(user)).toBe(true);
+        expect(ix.keys[1].pubkey.equals(client.getAddresses(owner).state)).toBe(
+            true
+        );
+    });
+
+    test("decodes the vault state account", () => {
+        const data = Buffer.alloc(69);
+        createHash("sha256")
+            .update("account:VaultState")
+            .digest()
+            .copy(data, 0, 0, 8);
+        owner.toBuffer().copy(data, 8);
+        data.writeBigUInt64LE(900n, 40);
+        data.writeBigUInt64LE(1_000n, 48);
+        data.writeUInt8(20, 56);
+        data.writeUInt8(2, 57);
+        data.writeBigUInt64LE(42n, 58);
+
+        const state = decodeVaultState(data);
+
+        expect(state.owner.equals(owner)).toBe(true);
+        expect(state.totalShares).toBe(900n);
+        expect(state.totalAssets).toBe(1_000n);
+        expect(state.performanceFee).toBe(20);
+        expect(state.managementFee).toBe(2);
+        expect(state.lastHarvestTime).toBe(42n);
+        expect(() => decodeVaultState(Buffer.alloc(69))).toThrow(
+            "not a VaultState"
+        );
+    });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, test, vi } from "vitest";
+import { WatchlistAlert, WatchlistEntry } from "@ai16z/plugin-trustdb";
+import {
+    formatWatchlistAlerts,
+    getAlertSeverity,
+    getTokenSnapshot,
+    getWatchlistChanges,
+    WatchlistProvider,
+} from "../providers/watchlistProvider";
+import { fakeTrustDb } from "./helpers/trustDb";
+
+vi.mock("@ai16z/plugin-trustdb", () => ({ TrustScoreDatabase: vi.fn() }));
+
+const BONK = "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263";
+const now = new Date("2024-12-31T00:00:00Z");
+const later = new Date("2024-12-31T01:00:00Z");
+
+const pair = (
+    priceUsd: string,
+    liquidityUsd: number,
+    volume24h: number,
+    base = BONK
+) => ({
+    chainId: "solana",
+    baseToken: { address: base, symbol: base === BONK ? "BONK" : "SOL" },
+    quoteToken: { address: "other", symbol: "USDC" },
+    priceUsd,
+    liquidity: { usd: liquidityUsd },
+    volume: { h24: volume24h },
+});
+
+const dexScreener = (...pairs: ReturnType<typeof pair>[]) => ({
+    getPairsByTokenAddress: vi.fn(async () => pairs as any),
+});
+
+const memoryDb = () => {
+    const entries = new Map<string, WatchlistEntry>();
+    const alerts: WatchlistAlert[] = [];
+    return fakeTrustDb({
+        entries,
+        alerts,
+        addToWatchlist: (entry: WatchlistEntry) => {
+            entries.set(entry.tokenAddress, { ...entry });
+            return true;
+        },
+        removeFromWatchlist: (tokenAddress: string) => {
+            const entry = entries.get(tokenAddress);
+            if (!entry?.isActive) return false;
+            entry.isActive = false;
+            return true;
+        },
+        getWatchlist: (roomId?: string) =>
+            [...entries.values()].filter(
+                (entry) =>
+                    entry.isActive && (!roomId || entry.roomId === roomId)
+            ),
+        updateWatchlistBaseline: (tokenAddress: string, baseline) => {
+            entries.get(tokenAddress).baseline = baseline;
+            return true;
+        },
+        updateWatchlistLastChecked: vi.fn(() => true),
+        addWatchlistAlert: (alert: WatchlistAlert) => {
+            alerts.push(alert);
+            return alerts.length;
+        },
+        getWatchlistAlerts: () => [...alerts].reverse(),
+    });
+};
+
+describe("getTokenSnapshot", () => {
+    test("prices from the deepest pair and sums volume and liquidity", async () => {
+        const snapshot = await getTokenSnapshot(
+            dexScreener(
+                pair("0.000021", 1_000_000, 500_000),
+                pair("0.000020", 3_000_000, 1_500_000),
+                // Token is the quote here, so the pair's price is SOL's
+                pair("190", 2_000_000, 1_000_000, "sol")
+            ),
+            BONK,
+            now
+        );
+
+        expect(snapshot).toEqual({
+            symbol: "BONK",
+            price: 0.00002,
+            volume24h: 3_000_000,
+            liquidity: 6_000_000,
+            timestamp: now,
+        });
+        expect(await getTokenSnapshot(dexScreener(), BONK, now)).toBeNull();
+    });
+});
+
+describe("watchlist changes", () => {
+    test("are percent moves against the baseline", () => {
+        const changes = getWatchlistChanges(
+            { price: 2, volume24h: 100, liquidity: 0, timestamp: now },
+            { price: 2.5, volume24h: 60, liquidity: 50, timestamp: later }
+        );
+
+        expect(changes).toEqual({
+            priceChangePercent: 25,
+            volumeChangePercent: -40,
+            liquidityChangePercent: null,
+        });
+    });
+
+    test("grade severity by how far past the threshold they are", () => {
+        expect(getAlertSeverity(6, 5)).toBe("LOW");
+        expect(getAlertSeverity(-10, 5)).toBe("MEDIUM");
+        expect(getAlertSeverity(15, 5)).toBe("HIGH");
+    });
+});
+
+describe("WatchlistProvider", () => {
+    test("stores a baseline and alerts on true percent changes", async () => {
+        const db = memoryDb();
+        const market = dexScreener(pair("1", 1_000_000, 200_000));
+        const watchlist = new WatchlistProvider(db, market);
+
+        const entry = await watchlist.addToWatchlist(
+            BONK,
+            { priceChangePercent: 10 },
+            "room-1",
+            now
+        );
+        expect(entry).toMatchObject({
+            symbol: "BONK",
+            roomId: "room-1",
+            alertThresholds: {
+                priceChangePercent: 10,
+                volumeChangePercent: 20,
+                liquidityChangePercent: 10,
+            },
+            baseline: { price: 1, volume24h: 200_000, liquidity: 1_000_000 },
+        });
+
+        // Price +35%, volume +10% and liquidity -12%
+        market.getPairsByTokenAddress.mockResolvedValue([
+            pair("1.35", 880_000, 220_000),
+        ] as any);
+        const alerts = await watchlist.checkWatchlistAlerts(later);
+
+        expect(
+            alerts.map(({ alertType, severity }) => [alertType, severity])
+        ).toEqual([
+            ["PRICE", "HIGH"],
+            ["LIQUIDITY", "LOW"],
+        ]);
+        expect(alerts[0].message).toBe(
+            "BONK price up 35.00% since 2024-12-31T00:00:00.000Z (threshold 10%)"
+        );
+        expect(alerts[1].metrics.liquidityChangePercent).toBeCloseTo(-12);
+        expect(alerts.map((alert) => alert.id)).toEqual([1, 2]);
+        expect(db.alerts).toHaveLength(2);
+        expect(db.updateWatchlistLastChecked).toHaveBeenCalledWith(BONK, later);
+        expect(formatWatchlistAlerts(alerts)).toContain("🚨 [HIGH] BONK price");
+
+        // The alerting snapshot is the new baseline, so no repeat alert
+        expect(db.entries.get(BONK).baseline.price).toBe(1.35);
+        expect(await watchlist.checkWatchlistAlerts(later)).toEqual([]);
+    });
+
+    test("rejects tokens without a market and stops watching on removal", async () => {
+        const db = memoryDb();
+        const watchlist = new WatchlistProvider(db, dexScreener());
+
+        await expect(watchlist.addToWatchlist(BONK)).rejects.toThrow(
+            "No Solana market found"
+        );
+
+        db.addToWatchlist({
+            tokenAddress: BONK,
+            addedAt: now,
+            lastChecked: now,
+            alertThresholds: {
+                priceChangePercent: 5,
+                volumeChangePercent: 20,
+                liquidityChangePercent: 10,
+            },
+            baseline: { price: 1, volume24h: 1, liquidity: 1, timestamp: now },
+            isActive: true,
+        });
+        expect(watchlist.removeFromWatchlist(BONK)).toBe(true);
+        expect(watchlist.removeFromWatchlist(BONK)).toBe(false);
+        expect(watchlist.getWatchlist()).toEqual([]);
+    });
+});
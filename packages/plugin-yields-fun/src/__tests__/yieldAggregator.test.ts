@@ -0,0 +1,215 @@
+import { describe, expect, test, vi } from "vitest";
+import {
+    parseYieldQuery,
+    YieldAggregator,
+    YieldSource,
+} from "../providers/yieldAggregator";
+import { YieldOpportunity } from "../types/yield";
+
+// The aggregator is exercised with in-memory sources only
+vi.mock("../providers/meteoraProvider", () => ({ MeteoraProvider: vi.fn() }));
+vi.mock("../providers/liquidStakingProvider", () => ({
+    LiquidStakingProvider: vi.fn(),
+    LST_REGISTRY: [],
+}));
+vi.mock("../providers/luloProvider", () => ({ LuloProvider: vi.fn() }));
+vi.mock("../providers/raydiumProvider", () => ({ RaydiumProvider: vi.fn() }));
+vi.mock("../providers/orcaProvider", () => ({ OrcaProvider: vi.fn() }));
+vi.mock("@ai16z/plugin-trustdb", () => ({ TrustScoreDatabase: vi.fn() }));
+
+const opportunity = (
+    overrides: Partial<YieldOpportunity>
+): YieldOpportunity => ({
+    protocol: "Test",
+    type: "LP",
+    apy: 10,
+    tvl: 1000000,
+    risk: 5,
+    tokens: ["SOL", "USDC"],
+    address: "pool",
+    description: "test pool",
+    ...overrides,
+});
+
+const source = (
+    protocol: string,
+    opportunities: YieldOpportunity[]
+): YieldSource => ({
+    protocol,
+    getYieldOpportunities: async () => opportunities,
+});
+
+describe("YieldAggregator", () => {
+    const sources = [
+        source("Meteora", [
+            opportunity({
+                protocol: "Meteora",
+                address: "meteora-sol-usdc",
+                apy: 45,
+                risk: 6,
+            }),
+        ]),
+        source("Marinade", [
+            opportunity({
+                protocol: "Marinade",
+                type: "STAKING",
+                address: "marinade-state",
+                apy: 7,
+                risk: 3,
+                tokens: ["SOL", "mSOL"],
+            }),
+        ]),
+        source("LuLo", [
+            opportunity({
+                protocol: "LuLo",
+                type: "LENDING",
+                address: "lulo-usdc",
+                apy: 9,
+                risk: 3,
+                tokens: ["USDC"],
+            }),
+        ]),
+        source("Orca", [
+            opportunity({
+                protocol: "Orca",
+                address: "orca-sol-usdc",
+                apy: 30,
+                risk: 3.5,
+                tvl: 5000000,
+            }),
+        ]),
+    ];
+
+    test("ranks opportunities from every source by APY", async () => {
+        const aggregator = new YieldAggregator(sources);
+        const result = await aggregator.getOpportunities();
+
+        expect(result.map((opp) => opp.address)).toEqual([
+            "meteora-sol-usdc",
+            "orca-sol-usdc",
+            "lulo-usdc",
+            "marinade-state",
+        ]);
+    });
+
+    test("answers best USDC yield under a risk ceiling", async () => {
+        const aggregator = new YieldAggregator(sources);
+        const best = await aggregator.getBestOpportunity({
+            token: "usdc",
+            maxRisk: 4,
+        });
+
+        expect(best?.address).toBe("orca-sol-usdc");
+    });
+
+    test("filters by type and minimum TVL", async () => {
+        const aggregator = new YieldAggregator(sources);
+
+        const lending = await aggregator.getOpportunities({
+            type: "LENDING",
+        });
+        expect(lending).toHaveLength(1);
+        expect(lending[0].protocol).toBe("LuLo");
+
+        const deep = await aggregator.getOpportunities({ minTvl: 2000000 });
+        expect(deep.map((opp) => opp.address)).toEqual(["orca-sol-usdc"]);
+    });
+
+    test("dedupes by pool address keeping the deepest entry", async () => {
+        const aggregator = new YieldAggregator([
+            source("A", [opportunity({ address: "dup", tvl: 100, apy: 50 })]),
+            source("B", [opportunity({ address: "dup", tvl: 900, apy: 20 })]),
+        ]);
+
+        const result = await aggregator.getOpportunities();
+        expect(result).toHaveLength(1);
+        expect(result[0].tvl).toBe(900);
+    });
+
+    test("ranks by risk-adjusted APY when requested", async () => {
+        const aggregator = new YieldAggregator(sources);
+        const result = await aggregator.getOpportunities({
+            sortBy: "riskAdjustedApy",
+        });
+
+        // Orca: 30 / 3.5 beats Meteora: 45 / 6
+        expect(result.map((opp) => opp.address)).toEqual([
+            "orca-sol-usdc",
+            "meteora-sol-usdc",
+            "lulo-usdc",
+            "marinade-state",
+        ]);
+    });
+
+    test("normalizes malformed values and skips failing sources", async () => {
+        const aggregator = new YieldAggregator([
+            {
+                protocol: "Broken",
+                getYieldOpportunities: () =>
+                    Promise.reject(new Error("API down")),
+            },
+            source("Raydium", [
+                opportunity({
+                    protocol: "",
+                    address: "raydium-pool",
+                    apy: NaN,
+                    risk: 42,
+                }),
+            ]),
+        ]);
+        vi.spyOn(console, "error").mockImplementation(() => {});
+
+        const [result] = await aggregator.getOpportunities();
+        expect(result.protocol).toBe("Raydium");
+        expect(result.apy).toBe(0);
+        expect(result.risk).toBe(10);
+    });
+});
+
+describe("parseYieldQuery", () => {
+    const known = ["SOL", "USDC", "JitoSOL", "mSOL"];
+
+    test("reads token and risk ceiling from the question", () => {
+        expect(parseYieldQuery("best USDC yield under risk 4", known)).toEqual({
+            token: "USDC",
+            maxRisk: 4,
+        });
+    });
+
+    test("reads type and APY floor", () => {
+        expect(parseYieldQuery("any staking above 7.5% APY?")).toEqual({
+            type: "STAKING",
+            minApy: 7.5,
+        });
+        expect(
+            parseYieldQuery(
+                "lending yields for JitoSOL, apy over 6, risk <= 3",
+                known
+            )
+        ).toEqual({
+            token: "JITOSOL",
+            type: "LENDING",
+            minApy: 6,
+            maxRisk: 3,
+        });
+    });
+
+    test("leaves the query open when nothing is constrained", () => {
+        expect(parseYieldQuery("what are the best yields?", known)).toEqual({});
+        expect(parseYieldQuery(undefined)).toEqual({});
+    });
+
+    test("only reads known tokens", () => {
+        for (const text of [
+            "low risk yields",
+            "stable yields please",
+            "show me high yields",
+        ]) {
+            expect(parseYieldQuery(text, known).token).toBeUndefined();
+        }
+        expect(parseYieldQuery("best USDC yield")).toEqual({});
+        expect(parseYieldQuery("low risk yields for msol", known)).toEqual({
+            token: "MSOL",
+        });
+    });
+});
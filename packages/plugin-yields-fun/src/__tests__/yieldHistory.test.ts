@@ -0,0 +1,128 @@
+import { describe, expect, test, vi } from "vitest";
+import { YieldSnapshot } from "@ai16z/plugin-trustdb";
+import {
+    formatApyTrend,
+    getApyTrendLines,
+    summarizeYieldHistory,
+    YieldHistoryStore,
+} from "../utils/yieldHistory";
+import { YieldOpportunity } from "../types/yield";
+import { fakeTrustDb } from "./helpers/trustDb";
+
+vi.mock("@ai16z/plugin-trustdb", () => ({ TrustScoreDatabase: vi.fn() }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2024-12-31T00:00:00Z");
+
+const snapshot = (
+    daysAgo: number,
+    apy: number,
+    tvl = 1000000
+): YieldSnapshot => ({
+    poolAddress: "pool",
+    protocol: "Orca",
+    type: "LP",
+    apy,
+    tvl,
+    risk: 4,
+    timestamp: new Date(now.getTime() - daysAgo * DAY_MS),
+});
+
+describe("summarizeYieldHistory", () => {
+    const history = [
+        snapshot(20, 10, 500000),
+        snapshot(6, 10, 1000000),
+        snapshot(3, 20, 1100000),
+        snapshot(0, 300, 1200000),
+    ];
+
+    test("separates a one-day spike from the 7d average", () => {
+        const stats = summarizeYieldHistory(history, 7, now);
+
+        expect(stats.samples).toBe(3);
+        expect(stats.currentApy).toBe(300);
+        expect(stats.averageApy).toBeCloseTo(110);
+        expect(stats.apyVolatility).toBeGreaterThan(100);
+        expect(stats.tvlTrend).toBeCloseTo(20);
+        expect(formatApyTrend(stats)).toContain(
+            "7d avg: 110.00% vs now 300.00%"
+        );
+    });
+
+    test("30d window includes older snapshots", () => {
+        const stats = summarizeYieldHistory(history, 30, now);
+
+        expect(stats.samples).toBe(4);
+        expect(stats.tvlTrend).toBeCloseTo(140);
+    });
+
+    test("returns null without data in the window", () => {
+        expect(summarizeYieldHistory([snapshot(40, 5)], 7, now)).toBeNull();
+    });
+});
+
+describe("YieldHistoryStore", () => {
+    const opportunity = (address: string): YieldOpportunity => ({
+        protocol: "Orca",
+        type: "LP",
+        apy: 12,
+        tvl: 1000000,
+        risk: 4,
+        tokens: ["SOL", "USDC"],
+        address,
+        description: "SOL/USDC",
+    });
+
+    test("throttles snapshots to one per interval for each pool", () => {
+        const db = fakeTrustDb({
+            getLatestYieldSnapshotTimes: vi.fn(
+                () =>
+                    new Map([
+                        ["fresh", new Date(now.getTime() - 10 * 60 * 1000)],
+                        ["stale", new Date(now.getTime() - 2 * 60 * 60 * 1000)],
+                    ])
+            ),
+            addYieldSnapshots: vi.fn((_snapshots: YieldSnapshot[]) => true),
+            pruneYieldHistory: vi.fn(() => 0),
+        });
+        const store = new YieldHistoryStore(db);
+
+        expect(store.record([opportunity("fresh")], now)).toBe(false);
+        expect(db.addYieldSnapshots).not.toHaveBeenCalled();
+
+        // A pool fetched late still gets its snapshot this hour
+        expect(
+            store.record(
+                [
+                    opportunity("fresh"),
+                    opportunity("stale"),
+                    opportunity("new"),
+                ],
+                now
+            )
+        ).toBe(true);
+        expect(
+            db.addYieldSnapshots.mock.calls[0][0].map(
+                (snapshot) => snapshot.poolAddress
+            )
+        ).toEqual(["stale", "new"]);
+        expect(db.pruneYieldHistory).toHaveBeenCalled();
+    });
+
+    test("lists the 7d and 30d trend of a pool", () => {
+        const history = [snapshot(20, 10), snapshot(3, 20), snapshot(0, 30)];
+        const db = fakeTrustDb({
+            getYieldHistory: (_pool: string, since: Date) =>
+                history.filter((s) => s.timestamp >= since),
+        });
+        const store = new YieldHistoryStore(db);
+        vi.useFakeTimers({ now });
+
+        expect(getApyTrendLines(store, "pool")).toEqual([
+            expect.stringContaining("APY 7d avg: 25.00%"),
+            expect.stringContaining("APY 30d avg: 20.00%"),
+        ]);
+        expect(getApyTrendLines(null, "pool")).toEqual([]);
+        vi.useRealTimers();
+    });
+});
@@ -0,0 +1,197 @@
+import {
+    Action,
+    composeContext,
+    generateObjectV2,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    ModelClass,
+    State,
+} from "@ai16z/eliza";
+import { z } from "zod";
+import {
+    getAlertDispatcher,
+    getSubscriptionTarget,
+} from "../utils/alertDispatcher";
+
+export const AlertSubscriptionRequestSchema = z.object({
+    // Lowest severity to deliver, null delivers everything
+    minSeverity: z.enum(["LOW", "MEDIUM", "HIGH"]).nullable(),
+    // Where to post alerts when chatting through the direct client
+    webhookUrl: z.string().nullable(),
+});
+
+export type AlertSubscriptionRequest = z.infer<
+    typeof AlertSubscriptionRequestSchema
+>;
+
+const alertSubscriptionTemplate = `Respond with a JSON markdown block containing only the extracted values. Use null for any values that cannot be determined.
+
+Example response:
+\`\`\`json
+{
+    "minSeverity": "MEDIUM",
+    "webhookUrl": null
+}
+\`\`\`
+
+{{recentMessages}}
+
+Extract the following information about the requested alert subscription:
+- Lowest alert severity the user wants (LOW, MEDIUM or HIGH), null if not specified
+- Webhook URL to post alerts to, null if not specified
+
+Respond with a JSON markdown block containing only the extracted values.`;
+
+const extractSubscriptionRequest = async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined
+): Promise<AlertSubscriptionRequest> => {
+    if (!state) {
+        state = (await runtime.composeState(message)) as State;
+    } else {
+        state = await runtime.updateRecentMessageState(state);
+    }
+
+    const context = composeContext({
+        state,
+        template: alertSubscriptionTemplate,
+    });
+
+    const content = await generateObjectV2({
+        runtime,
+        context,
+        modelClass: ModelClass.SMALL,
+        schema: AlertSubscriptionRequestSchema,
+    });
+
+    return AlertSubscriptionRequestSchema.parse(content.object);
+};
+
+export const subscribeAlertsAction: Action = {
+    name: "SUBSCRIBE_ALERTS",
+    similes: ["NOTIFY_ME", "ENABLE_ALERTS", "SEND_ALERTS_HERE"],
+    description:
+        "Deliver watchlist, pool and position alerts to this Discord channel, Telegram chat or a webhook",
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "Send high severity alerts to this channel" },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Subscribed this discord channel to HIGH alerts",
+                    action: "SUBSCRIBE_ALERTS",
+                },
+            },
+        ],
+    ],
+    validate: async (_runtime: IAgentRuntime, message: Memory) => {
+        const text = message.content?.text || "";
+        return (
+            /\b(alert|notif)/i.test(text) &&
+            !/\b(unsubscribe|stop|disable|mute)/i.test(text)
+        );
+    },
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const request = await extractSubscriptionRequest(
+                runtime,
+                message,
+                state
+            );
+            const target = getSubscriptionTarget(message, request.webhookUrl);
+            if (!target) {
+                callback?.({
+                    text: "I can't post to this chat. Give me a webhook URL to send alerts to.",
+                });
+                return false;
+            }
+
+            const minSeverity = request.minSeverity ?? "LOW";
+            await getAlertDispatcher(runtime).subscribe({
+                roomId: message.roomId,
+                ...target,
+                minSeverity,
+                createdAt: Date.now(),
+            });
+
+            const where =
+                target.channel === "webhook"
+                    ? target.target
+                    : `this ${target.channel} ${target.channel === "discord" ? "channel" : "chat"}`;
+            callback?.({
+                text: `Subscribed ${where} to ${minSeverity} alerts`,
+                content: request,
+            });
+            return true;
+        } catch (error) {
+            console.error("Error in SUBSCRIBE_ALERTS action:", error);
+            callback?.({
+                text: `Failed to subscribe to alerts: ${error.message}`,
+            });
+            return false;
+        }
+    },
+};
+
+export const unsubscribeAlertsAction: Action = {
+    name: "UNSUBSCRIBE_ALERTS",
+    similes: ["STOP_ALERTS", "DISABLE_ALERTS", "MUTE_ALERTS"],
+    description: "Stop delivering alerts to this room",
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "Stop sending alerts here" },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Removed 1 alert subscription from this room",
+                    action: "UNSUBSCRIBE_ALERTS",
+                },
+            },
+        ],
+    ],
+    validate: async (_runtime: IAgentRuntime, message: Memory) =>
+        /\b(unsubscribe|stop|disable|mute)\b.*\b(alert|notif)/i.test(
+            message.content?.text || ""
+        ),
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const removed = await getAlertDispatcher(runtime).unsubscribe(
+                message.roomId
+            );
+            callback?.({
+                text: removed.length
+                    ? `Removed ${removed.length} alert subscription${removed.length === 1 ? "" : "s"} from this room`
+                    : "This room has no alert subscriptions",
+            });
+            return removed.length > 0;
+        } catch (error) {
+            console.error("Error in UNSUBSCRIBE_ALERTS action:", error);
+            callback?.({
+                text: `Failed to unsubscribe from alerts: ${error.message}`,
+            });
+            return false;
+        }
+    },
+};
+
+export const alertActions = [subscribeAlertsAction, unsubscribeAlertsAction];
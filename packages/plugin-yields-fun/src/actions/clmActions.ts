@@ -0,0 +1,867 @@
+import {
+    Action,
+    composeContext,
+    generateObjectV2,
+    HandlerCallback,
+    IAgentRuntime,
+    ICacheManager,
+    Memory,
+    ModelClass,
+    State,
+} from "@ai16z/eliza";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import { Connection } from "@solana/web3.js";
+import { z } from "zod";
+import { getOpportunityApy } from "../providers/yieldAggregator";
+import { PriceRange } from "../utils/backtester";
+import { getAmountsForLiquidity } from "../utils/clmPnlCalculator";
+import {
+    ExecutionMode,
+    getExecutionMode,
+    PaperLedger,
+    PaperPosition,
+    valuePaperPosition,
+} from "../utils/paperTrading";
+import { getPositionLedger, PositionLedger } from "../utils/positionLedger";
+import { createClmVenues, getAgentWallet } from "../utils/rebalanceVenues";
+import { PoolQuote, RebalanceVenue, TokenAmounts } from "../utils/rebalancer";
+import { getTxGuard } from "../utils/txGuard";
+
+export const ClmRequestSchema = z.object({
+    protocol: z.enum(["orca", "raydium", "meteora"]).nullable(),
+    poolAddress: z.string().nullable(),
+    // Ledger id, position mint or paper position id
+    positionId: z.string().nullable(),
+    // Value to deposit, in the pool's quote token
+    amountUsd: z.number().nullable(),
+    lowerPrice: z.number().nullable(),
+    upperPrice: z.number().nullable(),
+    // Width of the range either side of the current price, in percent
+    rangePercent: z.number().nullable(),
+    // Share of the position to remove, in percent
+    percentage: z.number().nullable(),
+});
+
+export type ClmRequest = z.infer<typeof ClmRequestSchema>;
+
+export type ClmOperation = "open" | "add" | "remove" | "harvest";
+
+export interface PendingClmAction {
+    // Only the user who asked may confirm
+    userId: string;
+    operation: ClmOperation;
+    request: ClmRequest;
+    summary: string;
+    expiresAt: number;
+}
+
+// A live or paper position the request applies to
+interface ClmTarget {
+    id: string;
+    protocol: string;
+    pool: string;
+    notionalUsd: number;
+    lowerPrice?: number;
+    upperPrice?: number;
+    live?: LedgerPosition;
+    paper?: PaperPosition;
+}
+
+const CLM_ACTION_CONFIG = {
+    CACHE_KEY: "yields-fun/pending-actions",
+    CONFIRMATION_TTL_MS: 10 * 60 * 1000,
+    DEFAULT_RANGE_PERCENT: 10,
+};
+
+const PROTOCOL_NAMES: Record<NonNullable<ClmRequest["protocol"]>, string> = {
+    orca: "Orca",
+    raydium: "Raydium",
+    meteora: "Meteora",
+};
+
+const CLM_KEYWORDS =
+    /\b(orca|whirlpool|raydium|clmm?|meteora|dlmm|liquidity|lp|position|fees?)\b/i;
+const CONFIRM_PATTERN = /^\s*(confirm|confirmed|yes|y|sign( it)?|go ahead)\b/i;
+const CANCEL_PATTERN = /\b(cancel|abort|discard|never ?mind)\b/i;
+
+const formatUsd = (value: number) =>
+    `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const formatPrice = (value: number) =>
+    value.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+
+/**
+ * Turns requests extracted from chat into CLM operations on Orca, Raydium
+ * and Meteora. Nothing is signed until the request has been proposed,
+ * summarised back to the user and confirmed by them; proposals are kept per
+ * room and user in the runtime cache and expire after CONFIRMATION_TTL_MS.
+ */
+export class ClmActionRunner {
+    private paperLedger: PaperLedger;
+
+    constructor(
+        private venues: RebalanceVenue[],
+        private ledger: PositionLedger | null,
+        private cacheManager: ICacheManager,
+        private mode: ExecutionMode,
+        private getApy: (protocol: string, pool: string) => Promise<number>
+    ) {
+        this.paperLedger = new PaperLedger(cacheManager);
+    }
+
+    /**
+     * Validates a request against current pool state and stores it for
+     * confirmation. Returns the summary to show the user.
+     */
+    async propose(
+        roomId: string,
+        userId: string,
+        operation: ClmOperation,
+        request: ClmRequest
+    ): Promise<string> {
+        const summary = await this.summarize(operation, request);
+        const pending: PendingClmAction = {
+            userId,
+            operation,
+            request,
+            summary,
+            expiresAt: Date.now() + CLM_ACTION_CONFIG.CONFIRMATION_TTL_MS,
+        };
+        await this.cacheManager.set(this.cacheKey(roomId, userId), pending, {
+            expires: pending.expiresAt,
+        });
+
+        return `${summary}\n\nReply "confirm" to sign or "cancel" to discard.`;
+    }
+
+    async getPending(
+        roomId: string,
+        userId: string
+    ): Promise<PendingClmAction | null> {
+        const key = this.cacheKey(roomId, userId);
+        const pending = await this.cacheManager.get<PendingClmAction>(key);
+        if (!pending || pending.userId !== userId) return null;
+
+        if (pending.expiresAt < Date.now()) {
+            await this.cacheManager.delete(key);
+            return null;
+        }
+        return pending;
+    }
+
+    async cancel(
+        roomId: string,
+        userId: string
+    ): Promise<PendingClmAction | null> {
+        const pending = await this.getPending(roomId, userId);
+        await this.cacheManager.delete(this.cacheKey(roomId, userId));
+        return pending;
+    }
+
+    /**
+     * Executes the user's pending request in the room. It is removed before
+     * execution so a failed or repeated confirmation never signs twice.
+     */
+    async confirm(
+        roomId: string,
+        userId: string,
+        state: State
+    ): Promise<string> {
+        const pending = await this.cancel(roomId, userId);
+        if (!pending) return "There is no pending liquidity action to confirm";
+
+        const { operation, request } = pending;
+        switch (operation) {
+            case "open":
+                return this.open(request, state);
+            case "add":
+                return this.add(request, state);
+            case "remove":
+                return this.remove(request, state);
+            case "harvest":
+                return this.harvest(request, state);
+        }
+    }
+
+    private async summarize(
+        operation: ClmOperation,
+        request: ClmRequest
+    ): Promise<string> {
+        const mode = this.mode === "paper" ? " (paper)" : "";
+
+        if (operation === "open") {
+            const { venue, poolAddress } = this.requirePool(request);
+            const quote = await venue.getQuote(poolAddress);
+            const amountUsd = this.requireAmount(request);
+            const range = this.resolveRange(request, quote.price);
+            const amounts = this.splitAmount(amountUsd, quote.price, range);
+
+            return (
+                `Open ${venue.protocol} position${mode} in ${poolAddress}\n` +
+                `Deposit: ${formatUsd(amountUsd)} (${formatPrice(amounts.tokenA)} token A + ${formatPrice(amounts.tokenB)} token B)\n` +
+                `Range: ${formatPrice(range.lowerPrice)} - ${formatPrice(range.upperPrice)} (current ${formatPrice(quote.price)})`
+            );
+        }
+
+        const targets = await this.findTargets(request);
+        const [target] = targets;
+        const total = targets.reduce((sum, t) => sum + t.notionalUsd, 0);
+        const where = `${target.protocol} ${target.pool}`;
+
+        switch (operation) {
+            case "add": {
+                const amountUsd = this.requireAmount(request);
+                const range = this.targetRange(target, request);
+                return (
+                    `Add ${formatUsd(amountUsd)} of liquidity${mode} to ${where}\n` +
+                    `Range: ${formatPrice(range.lowerPrice)} - ${formatPrice(range.upperPrice)}`
+                );
+            }
+
+            case "remove": {
+                const percentage = this.removalPercentage(request);
+                return `Remove ${percentage}% of liquidity${mode} from ${targets.length} position(s) in ${where} (${formatUsd(total)} deposited)`;
+            }
+
+            case "harvest": {
+                if (this.mode === "live") {
+                    const venue = this.getVenue(target.protocol);
+                    if (!venue.harvest) {
+                        throw new Error(
+                            `${venue.protocol} fees can only be collected by removing liquidity`
+                        );
+                    }
+                }
+                return `Harvest fees${mode} from ${targets.length} position(s) in ${where}`;
+            }
+        }
+    }
+
+    private async open(request: ClmRequest, state: State): Promise<string> {
+        const { venue, poolAddress } = this.requirePool(request);
+        const quote = await venue.getQuote(poolAddress);
+        const range = this.resolveRange(request, quote.price);
+
+        return this.deposit(
+            venue,
+            poolAddress,
+            request.amountUsd,
+            range,
+            quote,
+            state
+        );
+    }
+
+    private async add(request: ClmRequest, state: State): Promise<string> {
+        const [target] = await this.findTargets(request);
+        const venue = this.getVenue(target.protocol);
+        const quote = await venue.getQuote(target.pool);
+
+        return this.deposit(
+            venue,
+            target.pool,
+            request.amountUsd,
+            this.targetRange(target, request),
+            quote,
+            state
+        );
+    }
+
+    private async deposit(
+        venue: RebalanceVenue,
+        poolAddress: string,
+        amountUsd: number,
+        range: PriceRange,
+        quote: PoolQuote,
+        state: State
+    ): Promise<string> {
+        if (this.mode === "paper") {
+            const position = await this.paperLedger.open({
+                protocol: venue.protocol,
+                kind: "LP",
+                pool: poolAddress,
+                tokens: [quote.mintA, quote.mintB],
+                entryPrice: quote.price,
+                lowerPrice: range.lowerPrice,
+                upperPrice: range.upperPrice,
+                notionalUsd: amountUsd,
+                apr: await this.getApy(venue.protocol, poolAddress),
+            });
+            return `Recorded paper ${venue.protocol} position ${position.id} with ${formatUsd(amountUsd)} at ${position.apr.toFixed(2)}% APR`;
+        }
+
+        const signatures = await venue.open(
+            poolAddress,
+            range,
+            this.splitAmount(amountUsd, quote.price, range),
+            quote,
+            state
+        );
+        return `Deposited ${formatUsd(amountUsd)} into ${venue.protocol} ${poolAddress}${this.formatSignatures(signatures)}`;
+    }
+
+    private async remove(request: ClmRequest, state: State): Promise<string> {
+        const targets = await this.findTargets(request);
+        const fraction = this.removalPercentage(request) / 100;
+        const venue = this.getVenue(targets[0].protocol);
+
+        if (this.mode === "paper") {
+            const { price } = await venue.getQuote(targets[0].pool);
+            let pnl = 0;
+            for (const target of targets) {
+                const closed = await this.paperLedger.close(
+                    target.id,
+                    price,
+                    fraction
+                );
+                pnl += closed.realizedPnlUsd;
+            }
+            return `Closed ${fraction * 100}% of ${targets.length} paper position(s), realized ${formatUsd(pnl)}`;
+        }
+
+        // Venues record the closes in the ledger themselves
+        const signatures: string[] = [];
+        for (const target of targets) {
+            signatures.push(...(await venue.close(target.live, state)));
+        }
+        return `Removed liquidity from ${targets.length} ${venue.protocol} position(s)${this.formatSignatures(signatures)}`;
+    }
+
+    private async harvest(request: ClmRequest, state: State): Promise<string> {
+        const targets = await this.findTargets(request);
+        const venue = this.getVenue(targets[0].protocol);
+
+        if (this.mode === "paper") {
+            const { price } = await venue.getQuote(targets[0].pool);
+            const fees = targets.reduce(
+                (sum, target) =>
+                    sum + valuePaperPosition(target.paper, price).feesUsd,
+                0
+            );
+            return `Paper positions have accrued ${formatUsd(fees)} in fees`;
+        }
+
+        const signatures: string[] = [];
+        for (const target of targets) {
+            signatures.push(...(await venue.harvest(target.live, state)));
+        }
+        return `Harvested fees from ${targets.length} ${venue.protocol} position(s)${this.formatSignatures(signatures)}`;
+    }
+
+    /**
+     * Positions named by id, or every open position in the requested pool.
+     */
+    private async findTargets(request: ClmRequest): Promise<ClmTarget[]> {
+        let targets: ClmTarget[];
+
+        if (this.mode === "paper") {
+            const positions = request.positionId
+                ? [await this.paperLedger.get(request.positionId)]
+                : request.protocol && request.poolAddress
+                  ? await this.paperLedger.findOpen(
+                        PROTOCOL_NAMES[request.protocol],
+                        request.poolAddress
+                    )
+                  : [];
+            targets = positions
+                .filter((p) => p?.status === "open" && p.kind === "LP")
+                .map((p) => ({
+                    id: p.id,
+                    protocol: p.protocol,
+                    pool: p.pool,
+                    notionalUsd: p.notionalUsd,
+                    lowerPrice: p.lowerPrice,
+                    upperPrice: p.upperPrice,
+                    paper: p,
+                }));
+        } else {
+            if (!this.ledger) {
+                throw new Error("No position ledger configured");
+            }
+            const positions = request.positionId
+                ? [
+                      this.ledger.get(request.positionId) ||
+                          this.ledger.findByMint(request.positionId),
+                  ]
+                : request.protocol && request.poolAddress
+                  ? this.ledger.findActive(
+                        PROTOCOL_NAMES[request.protocol],
+                        request.poolAddress
+                    )
+                  : [];
+            targets = positions
+                .filter((p) => p?.status === "open" && p.kind === "LP")
+                .map((p) => ({
+                    id: p.id,
+                    protocol: p.protocol,
+                    pool: p.poolAddress,
+                    notionalUsd: p.notionalUsd,
+                    lowerPrice: p.lowerPrice,
+                    upperPrice: p.upperPrice,
+                    live: p,
+                }));
+        }
+
+        if (!request.positionId && !(request.protocol && request.poolAddress)) {
+            throw new Error("Specify a position id, or a protocol and pool");
+        }
+        if (!targets.length) {
+            throw new Error("No open liquidity position found");
+        }
+        return targets;
+    }
+
+    private requirePool(request: ClmRequest) {
+        if (!request.protocol || !request.poolAddress) {
+            throw new Error("Specify the protocol and pool address");
+        }
+        return {
+            venue: this.getVenue(PROTOCOL_NAMES[request.protocol]),
+            poolAddress: request.poolAddress,
+        };
+    }
+
+    private requireAmount(request: ClmRequest): number {
+        if (!(request.amountUsd > 0)) {
+            throw new Error("Specify a positive amount to deposit");
+        }
+        return request.amountUsd;
+    }
+
+    private removalPercentage(request: ClmRequest): number {
+        const percentage = request.percentage ?? 100;
+        if (!(percentage > 0 && percentage <= 100)) {
+            throw new Error("Percentage must be between 0 and 100");
+        }
+        // Venues close whole positions
+        if (this.mode === "live" && percentage < 100) {
+            throw new Error(
+                "Partial removal is only supported in paper mode; remove 100% instead"
+            );
+        }
+        return percentage;
+    }
+
+    private getVenue(protocol: string): RebalanceVenue {
+        const venue = this.venues.find(
+            (v) => v.protocol.toLowerCase() === protocol.toLowerCase()
+        );
+        if (!venue) throw new Error(`Unsupported protocol ${protocol}`);
+        return venue;
+    }
+
+    private resolveRange(request: ClmRequest, price: number): PriceRange {
+        if (request.lowerPrice != null || request.upperPrice != null) {
+            if (!(request.lowerPrice > 0 && request.upperPrice > 0)) {
+                throw new Error("Specify both the lower and upper price");
+            }
+            if (request.lowerPrice >= request.upperPrice) {
+                throw new Error("Lower price must be below upper price");
+            }
+            return {
+                lowerPrice: request.lowerPrice,
+                upperPrice: request.upperPrice,
+            };
+        }
+
+        const width =
+            (request.rangePercent ?? CLM_ACTION_CONFIG.DEFAULT_RANGE_PERCENT) /
+            100;
+        if (!(width > 0 && width < 1)) {
+            throw new Error("Range percent must be between 0 and 100");
+        }
+        return {
+            lowerPrice: price * (1 - width),
+            upperPrice: price * (1 + width),
+        };
+    }
+
+    // Adds reuse the position's range unless the request gives a new one
+    private targetRange(target: ClmTarget, request: ClmRequest): PriceRange {
+        if (
+            request.lowerPrice == null &&
+            request.upperPrice == null &&
+            target.lowerPrice > 0 &&
+            target.upperPrice > 0
+        ) {
+            return {
+                lowerPrice: target.lowerPrice,
+                upperPrice: target.upperPrice,
+            };
+        }
+        if (request.lowerPrice == null && request.upperPrice == null) {
+            throw new Error("The position has no recorded range; specify one");
+        }
+        return this.resolveRange(request, 0);
+    }
+
+    /**
+     * Splits a deposit valued in token B into the token amounts the range
+     * needs at the current price.
+     */
+    private splitAmount(
+        amountUsd: number,
+        price: number,
+        range: PriceRange
+    ): TokenAmounts {
+        const unit = getAmountsForLiquidity(
+            1,
+            price,
+            range.lowerPrice,
+            range.upperPrice
+        );
+        const scale = amountUsd / (unit.tokenA * price + unit.tokenB);
+
+        return { tokenA: unit.tokenA * scale, tokenB: unit.tokenB * scale };
+    }
+
+    private formatSignatures(signatures: string[]): string {
+        return signatures.length
+            ? `\nTransactions: ${signatures.join(", ")}`
+            : "";
+    }
+
+    private cacheKey(roomId: string, userId: string): string {
+        return `${CLM_ACTION_CONFIG.CACHE_KEY}/${roomId}/${userId}`;
+    }
+}
+
+export function getClmActionRunner(
+    runtime: IAgentRuntime,
+    message?: Memory
+): ClmActionRunner {
+    const ledger = getPositionLedger(runtime);
+    const connection = new Connection(
+        runtime.getSetting("RPC_URL") || "https://api.mainnet-beta.solana.com"
+    );
+
+    return new ClmActionRunner(
+        createClmVenues(
+            connection,
+            ledger,
+            getAgentWallet(runtime),
+            getTxGuard(runtime, connection, {
+                action: "CONFIRM_LIQUIDITY_ACTION",
+                message,
+            })
+        ),
+        ledger,
+        runtime.cacheManager,
+        getExecutionMode(runtime),
+        (protocol, pool) => getOpportunityApy(runtime, protocol, pool)
+    );
+}
+
+const clmRequestTemplate = `Respond with a JSON markdown block containing only the extracted values. Use null for any values that cannot be determined.
+
+Example response:
+\`\`\`json
+{
+    "protocol": "orca",
+    "poolAddress": "HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ",
+    "positionId": null,
+    "amountUsd": 500,
+    "lowerPrice": 180,
+    "upperPrice": 220,
+    "rangePercent": null,
+    "percentage": null
+}
+\`\`\`
+
+{{recentMessages}}
+
+Extract the following information about the requested {{operation}}:
+- Protocol: "orca" (Whirlpools), "raydium" (CLMM) or "meteora" (DLMM)
+- Pool address
+- Position id or position mint, when an existing position is named
+- Amount to deposit in USD
+- Lower and upper price of the range, if given as prices
+- Range width as a percent either side of the current price, if given that way
+- Percentage of the position to remove
+
+Respond with a JSON markdown block containing only the extracted values.`;
+
+const extractRequest = async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    operation: string
+): Promise<ClmRequest> => {
+    if (!state) {
+        state = (await runtime.composeState(message)) as State;
+    } else {
+        state = await runtime.updateRecentMessageState(state);
+    }
+
+    const context = composeContext({
+        state: { ...state, operation },
+        template: clmRequestTemplate,
+    });
+
+    const content = await generateObjectV2({
+        runtime,
+        context,
+        modelClass: ModelClass.SMALL,
+        schema: ClmRequestSchema,
+    });
+
+    return ClmRequestSchema.parse(content.object);
+};
+
+const createRequestAction = (
+    operation: ClmOperation,
+    description: string,
+    action: Pick<Action, "name" | "similes" | "examples">
+): Action => ({
+    ...action,
+    description,
+    validate: async (_runtime: IAgentRuntime, message: Memory) =>
+        CLM_KEYWORDS.test(message.content?.text || ""),
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const request = await extractRequest(
+                runtime,
+                message,
+                state,
+                description.toLowerCase()
+            );
+            const text = await getClmActionRunner(runtime).propose(
+                message.roomId,
+                message.userId,
+                operation,
+                request
+            );
+            callback?.({ text, content: { operation, ...request } });
+            return true;
+        } catch (error) {
+            console.error(`Error preparing ${action.name}:`, error);
+            callback?.({
+                text: `Could not prepare the request: ${error.message}`,
+            });
+            return false;
+        }
+    },
+});
+
+export const openClmPositionAction = createRequestAction(
+    "open",
+    "Open a concentrated liquidity position on Orca, Raydium CLMM or Meteora DLMM",
+    {
+        name: "OPEN_CLM_POSITION",
+        similes: [
+            "OPEN_LP_POSITION",
+            "CREATE_CLM_POSITION",
+            "PROVIDE_LIQUIDITY",
+            "OPEN_WHIRLPOOL_POSITION",
+            "CREATE_DLMM_POSITION",
+        ],
+        examples: [
+            [
+                {
+                    user: "{{user1}}",
+                    content: {
+                        text: "Open an Orca position with $500 in pool HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ between 180 and 220",
+                    },
+                },
+                {
+                    user: "{{user2}}",
+                    content: {
+                        text: 'Open Orca position in HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ\nDeposit: $500\nRange: 180 - 220\n\nReply "confirm" to sign or "cancel" to discard.',
+                        action: "OPEN_CLM_POSITION",
+                    },
+                },
+            ],
+        ],
+    }
+);
+
+export const addLiquidityAction = createRequestAction(
+    "add",
+    "Add liquidity to an existing concentrated liquidity position",
+    {
+        name: "ADD_LIQUIDITY",
+        similes: ["INCREASE_LIQUIDITY", "ADD_TO_POSITION", "TOP_UP_LP"],
+        examples: [
+            [
+                {
+                    user: "{{user1}}",
+                    content: {
+                        text: "Add another $200 to my Meteora DLMM position in 5rCf1DM8LjKTw4YqhnoLcngyZYeNnQqztScTogYHAS6",
+                    },
+                },
+                {
+                    user: "{{user2}}",
+                    content: {
+                        text: 'Add $200 of liquidity to Meteora 5rCf1DM8LjKTw4YqhnoLcngyZYeNnQqztScTogYHAS6\n\nReply "confirm" to sign or "cancel" to discard.',
+                        action: "ADD_LIQUIDITY",
+                    },
+                },
+            ],
+        ],
+    }
+);
+
+export const removeLiquidityAction = createRequestAction(
+    "remove",
+    "Remove liquidity from a concentrated liquidity position",
+    {
+        name: "REMOVE_LIQUIDITY",
+        similes: [
+            "WITHDRAW_LIQUIDITY",
+            "CLOSE_LP_POSITION",
+            "CLOSE_CLM_POSITION",
+            "EXIT_POSITION",
+        ],
+        examples: [
+            [
+                {
+                    user: "{{user1}}",
+                    content: {
+                        text: "Pull all my liquidity out of the Raydium CLMM pool 2QdhepnKRTLjjSqPL1PtKNwqrUkoLee5Gqs8bvZhRdMv",
+                    },
+                },
+                {
+                    user: "{{user2}}",
+                    content: {
+                        text: 'Remove 100% of liquidity from 1 position(s) in Raydium 2QdhepnKRTLjjSqPL1PtKNwqrUkoLee5Gqs8bvZhRdMv\n\nReply "confirm" to sign or "cancel" to discard.',
+                        action: "REMOVE_LIQUIDITY",
+                    },
+                },
+            ],
+        ],
+    }
+);
+
+export const harvestFeesAction = createRequestAction(
+    "harvest",
+    "Harvest fees and rewards from a concentrated liquidity position",
+    {
+        name: "HARVEST_FEES",
+        similes: ["CLAIM_FEES", "COLLECT_FEES", "CLAIM_REWARDS"],
+        examples: [
+            [
+                {
+                    user: "{{user1}}",
+                    content: {
+                        text: "Claim the fees on my Orca whirlpool position",
+                    },
+                },
+                {
+                    user: "{{user2}}",
+                    content: {
+                        text: 'Harvest fees from 1 position(s) in Orca HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ\n\nReply "confirm" to sign or "cancel" to discard.',
+                        action: "HARVEST_FEES",
+                    },
+                },
+            ],
+        ],
+    }
+);
+
+export const confirmClmActionAction: Action = {
+    name: "CONFIRM_LIQUIDITY_ACTION",
+    similes: ["CONFIRM_CLM_ACTION", "SIGN_LIQUIDITY_ACTION"],
+    description:
+        "Sign and send the liquidity action the user was asked to confirm",
+    examples: [
+        [
+            { user: "{{user1}}", content: { text: "confirm" } },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Deposited $500 into Orca HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ",
+                    action: "CONFIRM_LIQUIDITY_ACTION",
+                },
+            },
+        ],
+    ],
+    validate: async (runtime: IAgentRuntime, message: Memory) =>
+        CONFIRM_PATTERN.test(message.content?.text || "") &&
+        !!(await getClmActionRunner(runtime).getPending(
+            message.roomId,
+            message.userId
+        )),
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        try {
+            if (!state) {
+                state = (await runtime.composeState(message)) as State;
+            }
+            const text = await getClmActionRunner(runtime, message).confirm(
+                message.roomId,
+                message.userId,
+                state
+            );
+            callback?.({ text });
+            return true;
+        } catch (error) {
+            console.error("Error executing liquidity action:", error);
+            callback?.({
+                text: `Liquidity action failed: ${error.message}`,
+            });
+            return false;
+        }
+    },
+};
+
+export const cancelClmActionAction: Action = {
+    name: "CANCEL_LIQUIDITY_ACTION",
+    similes: ["CANCEL_CLM_ACTION", "DISCARD_LIQUIDITY_ACTION"],
+    description: "Discard the liquidity action awaiting confirmation",
+    examples: [
+        [
+            { user: "{{user1}}", content: { text: "cancel that" } },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Discarded: Harvest fees from 1 position(s) in Orca HJPjoWUrhoZzkNfRpHuieeFk9WcZWjwy6PBjZ81ngndJ",
+                    action: "CANCEL_LIQUIDITY_ACTION",
+                },
+            },
+        ],
+    ],
+    validate: async (runtime: IAgentRuntime, message: Memory) =>
+        CANCEL_PATTERN.test(message.content?.text || "") &&
+        !!(await getClmActionRunner(runtime).getPending(
+            message.roomId,
+            message.userId
+        )),
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        const pending = await getClmActionRunner(runtime).cancel(
+            message.roomId,
+            message.userId
+        );
+        callback?.({
+            text: pending
+                ? `Discarded: ${pending.summary.split("\n")[0]}`
+                : "There is no pending liquidity action",
+        });
+        return true;
+    },
+};
+
+export const clmActions: Action[] = [
+    openClmPositionAction,
+    addLiquidityAction,
+    removeLiquidityAction,
+    harvestFeesAction,
+    confirmClmActionAction,
+    cancelClmActionAction,
+];
@@ -0,0 +1,564 @@
+import {
+    Action,
+    ActionRisk,
+    composeContext,
+    generateObjectV2,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    ModelClass,
+    State,
+    TxGuard,
+    TxIntent,
+} from "@ai16z/eliza";
+import { BN } from "@coral-xyz/anchor";
+import { Marinade, MarinadeConfig } from "@marinade.finance/marinade-ts-sdk";
+import { depositSol, withdrawStake } from "@solana/spl-stake-pool";
+import {
+    Connection,
+    Keypair,
+    PublicKey,
+    sendAndConfirmTransaction,
+    Signer,
+    StakeProgram,
+    Transaction,
+} from "@solana/web3.js";
+import { z } from "zod";
+import { getWalletKey } from "../keypairUtils";
+import {
+    getLiquidStakingProvider,
+    LiquidStakingProvider,
+    WSOL_MINT,
+} from "../providers/liquidStakingProvider";
+import { LstInfo } from "../types/staking";
+import { JupiterSwapClient } from "../utils/jupiterSwap";
+import { getExecutionMode, PaperLedger } from "../utils/paperTrading";
+import { getPositionLedger, recordPosition } from "../utils/positionLedger";
+import {
+    formatStakeRoute,
+    formatUnstakeRoute,
+    LstStaker,
+    StakeRouter,
+    StakeRouterConfig,
+} from "../utils/stakeRouter";
+import { getTxGuard, sendGuarded, TxSpender } from "../utils/txGuard";
+
+export const StakeRequestSchema = z.object({
+    // SOL to stake, or LST to unstake; null unstakes everything
+    amount: z.number().nullable(),
+    // LST symbol such as mSOL or jitoSOL
+    lst: z.string().nullable(),
+    // Unstake now on a DEX whatever the discount
+    instant: z.boolean().nullable(),
+});
+
+export type StakeRequest = z.infer<typeof StakeRequestSchema>;
+
+// The first signer is the agent wallet
+const sendChecked = async (
+    connection: Connection,
+    guard: TxGuard | null,
+    transaction: Transaction,
+    signers: Signer[],
+    intent: TxIntent
+) =>
+    sendGuarded(guard, transaction, signers[0].publicKey, intent, () =>
+        sendAndConfirmTransaction(connection, transaction, signers)
+    );
+
+/**
+ * Stakes through SPL stake pools (Jito, BlazeStake, JPool). Delayed unstakes
+ * withdraw stake accounts from the pool and deactivate them.
+ */
+export class SplStakePoolActions implements LstStaker {
+    program = "spl-stake-pool" as const;
+
+    constructor(
+        private connection: Connection,
+        private guard: TxGuard | null = null
+    ) {}
+
+    async stake(
+        lst: LstInfo,
+        lamports: bigint,
+        wallet: Keypair
+    ): Promise<string[]> {
+        const { instructions, signers } = await depositSol(
+            this.connection,
+            new PublicKey(lst.poolAddress),
+            wallet.publicKey,
+            Number(lamports)
+        );
+        return [
+            await sendChecked(
+                this.connection,
+                this.guard,
+                new Transaction().add(...instructions),
+                [wallet, ...signers],
+                {
+                    description: `Stake ${lamports} lamports into ${lst.symbol}`,
+                    spend: { [WSOL_MINT]: lamports },
+                }
+            ),
+        ];
+    }
+
+    async unstake(
+        lst: LstInfo,
+        amount: bigint,
+        wallet: Keypair
+    ): Promise<string[]> {
+        // withdrawStake takes pool tokens in UI units
+        const { instructions, signers } = await withdrawStake(
+            this.connection,
+            new PublicKey(lst.poolAddress),
+            wallet.publicKey,
+            Number(amount) / 1e9
+        );
+        const withdrawal = await sendChecked(
+            this.connection,
+            this.guard,
+            new Transaction().add(...instructions),
+            [wallet, ...signers],
+            {
+                description: `Withdraw stake for ${amount} ${lst.symbol}`,
+                spend: { [lst.mint]: amount },
+            }
+        );
+
+        // The new stake accounts are among the generated signers, next to
+        // the transfer authority which has no account
+        const stakeAccounts: PublicKey[] = [];
+        for (const signer of signers) {
+            const info = await this.connection.getAccountInfo(signer.publicKey);
+            if (info?.owner.equals(StakeProgram.programId)) {
+                stakeAccounts.push(signer.publicKey);
+            }
+        }
+
+        const deactivation = new Transaction();
+        for (const stakePubkey of stakeAccounts) {
+            deactivation.add(
+                StakeProgram.deactivate({
+                    stakePubkey,
+                    authorizedPubkey: wallet.publicKey,
+                })
+            );
+        }
+
+        return [
+            withdrawal,
+            await sendChecked(
+                this.connection,
+                this.guard,
+                deactivation,
+                [wallet],
+                {
+                    description: `Deactivate ${stakeAccounts.length} stake account(s)`,
+                }
+            ),
+        ];
+    }
+}
+
+/**
+ * Stakes through Marinade. Delayed unstakes open a ticket that can be
+ * claimed once the epoch has ended.
+ */
+export class MarinadeStakeActions implements LstStaker {
+    program = "marinade" as const;
+
+    constructor(
+        private connection: Connection,
+        private guard: TxGuard | null = null
+    ) {}
+
+    async stake(
+        lst: LstInfo,
+        lamports: bigint,
+        wallet: Keypair
+    ): Promise<string[]> {
+        const { transaction } = await this.marinade(wallet).deposit(
+            new BN(lamports.toString())
+        );
+        return [
+            await sendChecked(
+                this.connection,
+                this.guard,
+                transaction,
+                [wallet],
+                {
+                    description: `Stake ${lamports} lamports into ${lst.symbol}`,
+                    spend: { [WSOL_MINT]: lamports },
+                }
+            ),
+        ];
+    }
+
+    async unstake(
+        lst: LstInfo,
+        amount: bigint,
+        wallet: Keypair
+    ): Promise<string[]> {
+        const { transaction, ticketAccountKeypair } = await this.marinade(
+            wallet
+        ).orderUnstake(new BN(amount.toString()));
+        return [
+            await sendChecked(
+                this.connection,
+                this.guard,
+                transaction,
+                [wallet, ticketAccountKeypair],
+                {
+                    description: `Order delayed unstake of ${amount} ${lst.symbol}`,
+                    spend: { [lst.mint]: amount },
+                }
+            ),
+        ];
+    }
+
+    private marinade(wallet: Keypair): Marinade {
+        return new Marinade(
+            new MarinadeConfig({
+                connection: this.connection,
+                publicKey: wallet.publicKey,
+            })
+        );
+    }
+}
+
+function getStakeRouterConfig(
+    runtime: IAgentRuntime
+): Partial<StakeRouterConfig> {
+    const setting = (key: string) => {
+        const value = parseFloat(runtime.getSetting(key));
+        return Number.isFinite(value) ? value : undefined;
+    };
+
+    const config: Partial<StakeRouterConfig> = {
+        maxUnstakeDiscountBps: setting("YIELDS_FUN_MAX_UNSTAKE_DISCOUNT_BPS"),
+        maxDepegBps: setting("YIELDS_FUN_MAX_LST_DEPEG_BPS"),
+    };
+
+    // Unset values fall back to STAKE_ROUTER_DEFAULTS
+    return Object.fromEntries(
+        Object.entries(config).filter(([, value]) => value !== undefined)
+    );
+}
+
+export function getStakeRouter(
+    runtime: IAgentRuntime,
+    spender: TxSpender,
+    provider: LiquidStakingProvider = getLiquidStakingProvider(runtime)
+): StakeRouter {
+    const connection = new Connection(
+        runtime.getSetting("RPC_URL") || "https://api.mainnet-beta.solana.com"
+    );
+
+    const guard = getTxGuard(runtime, connection, spender);
+
+    return new StakeRouter(
+        provider,
+        new JupiterSwapClient(connection, guard),
+        [
+            new MarinadeStakeActions(connection, guard),
+            new SplStakePoolActions(connection, guard),
+        ],
+        getStakeRouterConfig(runtime)
+    );
+}
+
+const stakeRequestTemplate = `Respond with a JSON markdown block containing only the extracted values. Use null for any values that cannot be determined.
+
+Example response:
+\`\`\`json
+{
+    "amount": 2.5,
+    "lst": "jitoSOL",
+    "instant": null
+}
+\`\`\`
+
+{{recentMessages}}
+
+Extract the following information about the requested {{operation}}:
+- Amount: SOL to stake, or liquid staking tokens to unstake (null to unstake everything)
+- Liquid staking token symbol (mSOL, jitoSOL, bSOL or JSOL), null if not specified
+- Whether the user wants to unstake immediately rather than wait for the epoch to end
+
+Respond with a JSON markdown block containing only the extracted values.`;
+
+const extractStakeRequest = async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    operation: string
+): Promise<StakeRequest> => {
+    if (!state) {
+        state = (await runtime.composeState(message)) as State;
+    } else {
+        state = await runtime.updateRecentMessageState(state);
+    }
+
+    const context = composeContext({
+        state: { ...state, operation },
+        template: stakeRequestTemplate,
+    });
+
+    const content = await generateObjectV2({
+        runtime,
+        context,
+        modelClass: ModelClass.SMALL,
+        schema: StakeRequestSchema,
+    });
+
+    return StakeRequestSchema.parse(content.object);
+};
+
+async function getLstBalance(
+    runtime: IAgentRuntime,
+    owner: PublicKey,
+    mint: string
+): Promise<number> {
+    const connection = new Connection(
+        runtime.getSetting("RPC_URL") || "https://api.mainnet-beta.solana.com"
+    );
+    const { value } = await connection.getParsedTokenAccountsByOwner(owner, {
+        mint: new PublicKey(mint),
+    });
+    return value.reduce(
+        (sum, account) =>
+            sum + (account.account.data.parsed.info.tokenAmount.uiAmount ?? 0),
+        0
+    );
+}
+
+export const stakeSolAction: Action = {
+    name: "STAKE_SOL",
+    similes: ["LIQUID_STAKE", "STAKE", "BUY_LST", "MINT_LST"],
+    description:
+        "Stake SOL into a liquid staking token, minting through the stake pool or buying on a DEX, whichever gives more",
+    risk: ActionRisk.HIGH,
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "Stake 10 SOL into jitoSOL" },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Stake 10 SOL for ~8.4312 jitoSOL by staking directly with Jito at 7.85% APY",
+                    action: "STAKE_SOL",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "Put 5 SOL in the best liquid staking pool" },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Stake 5 SOL for ~3.9371 mSOL by buying on Jupiter (0.12% more than staking directly) at 8.02% APY",
+                    action: "STAKE_SOL",
+                },
+            },
+        ],
+    ],
+    validate: async (_runtime: IAgentRuntime, message: Memory) =>
+        /\bstak/i.test(message.content?.text || ""),
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const request = await extractStakeRequest(
+                runtime,
+                message,
+                state,
+                "SOL stake"
+            );
+            if (!request.amount) {
+                callback?.({ text: "How much SOL should I stake?" });
+                return false;
+            }
+
+            const provider = getLiquidStakingProvider(runtime);
+            const router = getStakeRouter(
+                runtime,
+                { action: "STAKE_SOL", message },
+                provider
+            );
+            const route = await router.quoteStake(
+                request.amount,
+                request.lst ?? undefined
+            );
+            const notionalUsd =
+                route.amountSol * (await provider.getSolPriceUsd());
+
+            if (getExecutionMode(runtime) === "paper") {
+                const position = await new PaperLedger(
+                    runtime.cacheManager
+                ).open({
+                    protocol: route.lst.protocol,
+                    kind: "STAKING",
+                    pool: route.lst.mint,
+                    tokens: ["SOL", route.lst.symbol],
+                    entryPrice: route.lst.exchangeRate,
+                    notionalUsd,
+                    apr: route.lst.apy,
+                });
+                callback?.({
+                    text: `${formatStakeRoute(route)} (paper position ${position.id})`,
+                    content: request,
+                });
+                return true;
+            }
+
+            const { keypair } = await getWalletKey(runtime, true);
+            const signatures = await router.stake(route, keypair);
+            recordPosition(getPositionLedger(runtime), (ledger) =>
+                ledger.open({
+                    protocol: route.lst.protocol,
+                    kind: "STAKING",
+                    poolAddress: route.lst.mint,
+                    depositedAmounts: { [WSOL_MINT]: route.amountSol },
+                    entryPrice: route.lst.exchangeRate,
+                    notionalUsd,
+                    txSignatures: signatures,
+                })
+            );
+
+            callback?.({
+                text: `${formatStakeRoute(route)}\nTransactions: ${signatures.join(", ")}`,
+                content: request,
+            });
+            return true;
+        } catch (error) {
+            console.error("Error in STAKE_SOL action:", error);
+            callback?.({ text: `Failed to stake SOL: ${error.message}` });
+            return false;
+        }
+    },
+};
+
+export const unstakeSolAction: Action = {
+    name: "UNSTAKE_SOL",
+    similes: ["LIQUID_UNSTAKE", "UNSTAKE", "SELL_LST", "REDEEM_LST"],
+    description:
+        "Unstake a liquid staking token back to SOL, selling on a DEX when the discount is small and otherwise unstaking through the pool",
+    risk: ActionRisk.HIGH,
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "Unstake all my mSOL" },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Unstake 12.5 mSOL for ~15.8421 SOL via selling on Jupiter now (0.08% below the pool rate)",
+                    action: "UNSTAKE_SOL",
+                },
+            },
+        ],
+    ],
+    validate: async (_runtime: IAgentRuntime, message: Memory) =>
+        /\bunstak|\b(sell|redeem)\b.*\b\w+sol\b/i.test(
+            message.content?.text || ""
+        ),
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const request = await extractStakeRequest(
+                runtime,
+                message,
+                state,
+                "liquid staking token unstake"
+            );
+            if (!request.lst) {
+                callback?.({
+                    text: "Which liquid staking token should I unstake?",
+                });
+                return false;
+            }
+
+            const provider = getLiquidStakingProvider(runtime);
+            const router = getStakeRouter(
+                runtime,
+                { action: "UNSTAKE_SOL", message },
+                provider
+            );
+            const lst = (await provider.getLstMetrics()).find(
+                (m) => m.symbol.toLowerCase() === request.lst.toLowerCase()
+            );
+            if (!lst) throw new Error(`Unsupported token ${request.lst}`);
+
+            if (getExecutionMode(runtime) === "paper") {
+                const ledger = new PaperLedger(runtime.cacheManager);
+                const solPrice = await provider.getSolPriceUsd();
+                const heldUsd = (
+                    await ledger.findOpen(lst.protocol, lst.mint)
+                ).reduce((sum, position) => sum + position.notionalUsd, 0);
+                const heldLst = heldUsd / solPrice / lst.exchangeRate;
+                const amount = request.amount ?? heldLst;
+
+                const route = await router.quoteUnstake(
+                    amount,
+                    lst.symbol,
+                    request.instant ?? false
+                );
+                const closed = await ledger.closePool(
+                    lst.protocol,
+                    lst.mint,
+                    lst.exchangeRate,
+                    heldLst > 0 ? Math.min(amount / heldLst, 1) : 1
+                );
+                callback?.({
+                    text: `${formatUnstakeRoute(route)} (closed ${closed.length} paper position(s))`,
+                    content: request,
+                });
+                return true;
+            }
+
+            const { keypair: wallet } = await getWalletKey(runtime, true);
+            const amount =
+                request.amount ??
+                (await getLstBalance(runtime, wallet.publicKey, lst.mint));
+            const route = await router.quoteUnstake(
+                amount,
+                lst.symbol,
+                request.instant ?? false
+            );
+            const signatures = await router.unstake(route, wallet);
+
+            // The ledger has no partial closes, so only a full exit closes
+            // the recorded positions
+            if (request.amount === null) {
+                recordPosition(getPositionLedger(runtime), (ledger) =>
+                    ledger.closePool(lst.protocol, lst.mint, signatures)
+                );
+            }
+
+            callback?.({
+                text: `${formatUnstakeRoute(route)}\nTransactions: ${signatures.join(", ")}`,
+                content: request,
+            });
+            return true;
+        } catch (error) {
+            console.error("Error in UNSTAKE_SOL action:", error);
+            callback?.({ text: `Failed to unstake: ${error.message}` });
+            return false;
+        }
+    },
+};
@@ -1,11 +1,30 @@
-import { Action, IAgentRuntime, Memory } from "@ai16z/eliza";
+import {
+    Action,
+    formatTxPreview,
+    getJupiterPrices,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+    TxGuard,
+    TxIntent,
+} from "@ai16z/eliza";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
 import {
     Connection,
     PublicKey,
-    Transaction,
     VersionedTransaction,
     TransactionMessage,
 } from "@solana/web3.js";
+import { z } from "zod";
+import { getExecutionMode, PaperLedger } from "../utils/paperTrading";
+import { getOpportunityApy } from "../providers/yieldAggregator";
+import {
+    getPositionLedger,
+    PositionLedger,
+    recordPosition,
+} from "../utils/positionLedger";
+import { getTxGuard } from "../utils/txGuard";
 
 interface LuloDepositParams {
     owner: string;
@@ -21,6 +40,8 @@ interface LuloWithdrawParams {
     withdrawAll?: boolean;
 }
 
+type LuloTransactionType = "deposit" | "withdraw";
+
 interface LuloTransactionMeta {
     transaction: string; // base64 serialized transaction
     protocol: string;
@@ -35,10 +56,19 @@ const LULO_CONFIG = {
 export class LuloActions {
     private connection: Connection;
     private apiKey: string;
+    private ledger?: PositionLedger | null;
+    private guard?: TxGuard | null;
 
-    constructor(connection: Connection, apiKey: string) {
+    constructor(
+        connection: Connection,
+        apiKey: string,
+        ledger?: PositionLedger | null,
+        guard?: TxGuard | null
+    ) {
         this.connection = connection;
         this.apiKey = apiKey;
+        this.ledger = ledger;
+        this.guard = guard;
     }
 
     async generateDepositTransaction(
@@ -71,6 +101,7 @@ export class LuloActions {
             const {
                 data: { transactionMeta },
             } = await response.json();
+
             return transactionMeta;
         } catch (error) {
             console.error("Error generating deposit transaction:", error);
@@ -108,6 +139,7 @@ export class LuloActions {
             const {
                 data: { transactionMeta },
             } = await response.json();
+
             return transactionMeta;
         } catch (error) {
             console.error("Error generating withdraw transaction:", error);
@@ -115,63 +147,323 @@ export class LuloActions {
         }
     }
 
-    private async deserializeAndSignTransaction(
+    /**
+     * Records a deposit handed out for signing as pending until the owner
+     * confirms the signed transactions.
+     */
+    recordDeposit(params: LuloDepositParams): void {
+        recordPosition(this.ledger, (ledger) =>
+            ledger.open({
+                protocol: "LuLo",
+                kind: "LENDING",
+                status: "pending",
+                poolAddress: params.mintAddress,
+                depositedAmounts: {
+                    [params.mintAddress]: Number(params.depositAmount),
+                },
+                entryPrice: 1,
+                notionalUsd: Number(params.depositAmount),
+            })
+        );
+    }
+
+    /**
+     * Marks the positions a full withdrawal handed out for signing as
+     * closing until the owner confirms the signed transactions.
+     */
+    recordWithdraw(params: LuloWithdrawParams): void {
+        if (!params.withdrawAll) return;
+        recordPosition(this.ledger, (ledger) =>
+            ledger
+                .findActive("LuLo", params.mintAddress)
+                .map((position) => ledger.beginClose(position.id))
+        );
+    }
+
+    /**
+     * Settles the ledger once the owner has sent the generated transactions:
+     * pending deposits are opened and closing positions closed. Throws
+     * unless every signature is confirmed without error.
+     */
+    async confirmTransactions(
+        mintAddress: string,
+        signatures: string[],
+        type: LuloTransactionType
+    ): Promise<LedgerPosition[]> {
+        const { value } = await this.connection.getSignatureStatuses(
+            signatures,
+            { searchTransactionHistory: true }
+        );
+        const unconfirmed = signatures.filter((_, i) => {
+            const status = value[i];
+            return (
+                !status ||
+                status.err ||
+                !["confirmed", "finalized"].includes(status.confirmationStatus)
+            );
+        });
+        if (unconfirmed.length > 0) {
+            throw new Error(
+                `Transactions not confirmed: ${unconfirmed.join(", ")}`
+            );
+        }
+
+        return (
+            recordPosition(this.ledger, (ledger) =>
+                ledger
+                    .findActive("LuLo", mintAddress)
+                    .filter((position) =>
+                        type === "deposit"
+                            ? position.status === "pending"
+                            : position.status === "closing"
+                    )
+                    .map((position) =>
+                        type === "deposit"
+                            ? ledger.confirm(position.id, signatures)
+                            : ledger.close(position.id, signatures)
+                    )
+            ) ?? []
+        );
+    }
+
+    /**
+     * Simulates the generated transactions for the owner to review before
+     * signing them.
+     * @param amounts UI amounts the intent spends or receives, by mint
+     * @returns A formatted preview per transaction, empty without a guard
+     */
+    async previewTransactions(
+        transactionMeta: LuloTransactionMeta[],
+        owner: string,
+        description: string,
+        amounts: {
+            spend?: Record<string, number>;
+            receive?: Record<string, number>;
+        }
+    ): Promise<string[]> {
+        if (!this.guard) return [];
+
+        const intent: TxIntent = {
+            description,
+            spend: await this.toRawAmounts(amounts.spend),
+            receive: await this.toRawAmounts(amounts.receive),
+        };
+        const previews: string[] = [];
+        for (const meta of transactionMeta) {
+            const preview = await this.guard.preview(
+                this.deserializeTransaction(meta.transaction),
+                new PublicKey(owner),
+                {
+                    ...intent,
+                    description: `${description} via ${meta.protocol}`,
+                }
+            );
+            previews.push(formatTxPreview(preview));
+        }
+        return previews;
+    }
+
+    private async toRawAmounts(
+        amounts?: Record<string, number>
+    ): Promise<Record<string, bigint> | undefined> {
+        if (!amounts) return undefined;
+
+        const raw: Record<string, bigint> = {};
+        for (const [mint, amount] of Object.entries(amounts)) {
+            const { value } = await this.connection.getTokenSupply(
+                new PublicKey(mint)
+            );
+            raw[mint] = BigInt(Math.floor(amount * 10 ** value.decimals));
+        }
+        return raw;
+    }
+
+    // Reads both legacy and versioned transactions
+    private deserializeTransaction(
         base64Transaction: string
-    ): Promise<Transaction> {
-        const buffer = Buffer.from(base64Transaction, "base64");
-        const transaction = Transaction.from(buffer);
-        return transaction;
+    ): VersionedTransaction {
+        return VersionedTransaction.deserialize(
+            Buffer.from(base64Transaction, "base64")
+        );
     }
 }
 
+// Answers through the callback and passes the handler result on
+function reply(
+    callback: HandlerCallback | undefined,
+    text: string,
+    success: boolean
+): boolean {
+    callback?.({ text });
+    return success;
+}
+
+export const LuloDepositParamsSchema = z.object({
+    amount: z.coerce.string().describe("Amount to deposit"),
+    token: z.string().describe("Token mint address to deposit"),
+    protocols: z
+        .string()
+        .optional()
+        .describe("Comma-separated list of allowed protocols"),
+});
+
+export const LuloWithdrawParamsSchema = z.object({
+    amount: z.coerce
+        .string()
+        .describe("Amount to withdraw (or 'all' for full withdrawal)"),
+    token: z.string().describe("Token mint address to withdraw"),
+});
+
+export const LuloConfirmParamsSchema = z.object({
+    signatures: z.string().describe("Comma-separated transaction signatures"),
+    token: z.string().describe("Token mint address deposited or withdrawn"),
+    type: z.enum(["deposit", "withdraw"]),
+});
+
 // Create deposit action for the Eliza framework
 export const depositAction: Action = {
     name: "lulo-deposit",
+    similes: ["LULO_DEPOSIT", "LEND_ON_LULO"],
     description: "Deposit funds into LuLo for yield farming",
-    parameters: {
-        type: "object",
-        properties: {
-            amount: { type: "string", description: "Amount to deposit" },
-            token: {
-                type: "string",
-                description: "Token mint address to deposit",
+    schema: LuloDepositParamsSchema,
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "Deposit 100 USDC into LuLo" },
             },
-            protocols: {
-                type: "string",
-                description:
-                    "Comma-separated list of allowed protocols (optional)",
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Generated deposit transactions for 100 to LuLo:\n- kamino: $100",
+                    action: "lulo-deposit",
+                    params: {
+                        amount: "100",
+                        token: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+                    },
+                },
             },
-        },
-        required: ["amount", "token"],
+        ],
+    ],
+    validate: async (_runtime: IAgentRuntime, message: Memory) => {
+        const text = message.content?.text || "";
+        return /\blulo\b/i.test(text) && /\b(deposit|lend)/i.test(text);
     },
-    execute: async (runtime: IAgentRuntime, params: any, _message: Memory) => {
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state?: State,
+        options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
         try {
+            const params = LuloDepositParamsSchema.parse(options ?? {});
             const connection = new Connection(runtime.getSetting("RPC_URL"));
             const apiKey = runtime.getSetting("FLEXLEND_API_KEY");
             const walletAddress = runtime.getSetting("WALLET_PUBLIC_KEY");
 
+            if (getExecutionMode(runtime) === "paper") {
+                const price = (await getJupiterPrices([params.token]))[
+                    params.token
+                ];
+                if (price === undefined) {
+                    return reply(
+                        callback,
+                        `No USD price for ${params.token}, cannot record the paper deposit`,
+                        false
+                    );
+                }
+
+                const ledger = new PaperLedger(runtime.cacheManager);
+                const position = await ledger.open({
+                    protocol: "LuLo",
+                    kind: "LENDING",
+                    pool: params.token,
+                    tokens: [params.token],
+                    entryPrice: price,
+                    notionalUsd: Number(params.amount) * price,
+                    apr: await getOpportunityApy(
+                        runtime,
+                        "LuLo",
+                        walletAddress
+                    ),
+                });
+
+                return reply(
+                    callback,
+                    `Recorded paper deposit of ${params.amount} ($${position.notionalUsd.toFixed(2)}) to LuLo at ${position.apr.toFixed(2)}% APY (position ${position.id})`,
+                    true
+                );
+            }
+
             if (!apiKey) {
-                return "LuLo API key not configured";
+                return reply(callback, "LuLo API key not configured", false);
             }
 
-            const luloActions = new LuloActions(connection, apiKey);
+            const luloActions = new LuloActions(
+                connection,
+                apiKey,
+                getPositionLedger(runtime),
+                getTxGuard(runtime, connection, {
+                    action: "lulo-deposit",
+                    message,
+                })
+            );
+            const depositParams: LuloDepositParams = {
+                owner: walletAddress,
+                mintAddress: params.token,
+                depositAmount: params.amount,
+                allowedProtocols: params.protocols,
+            };
             const transactionMeta =
-                await luloActions.generateDepositTransaction({
-                    owner: walletAddress,
-                    mintAddress: params.token,
-                    depositAmount: params.amount,
-                    allowedProtocols: params.protocols,
-                });
+                await luloActions.generateDepositTransaction(depositParams);
+            const previews = await luloActions.previewTransactions(
+                transactionMeta,
+                walletAddress,
+                `Deposit ${params.amount} to LuLo`,
+                { spend: { [params.token]: Number(params.amount) } }
+            );
+
+            // Authorized once the transactions are ready to be signed, so
+            // failures building them count no spend
+            const prices = await getJupiterPrices([params.token]);
+            const price = prices[params.token];
+            const decision = await runtime.walletPolicy.authorize({
+                action: "lulo-deposit",
+                userId: message.userId,
+                roomId: message.roomId,
+                valueUsd:
+                    price === undefined ? null : Number(params.amount) * price,
+                tokens: [params.token],
+            });
+            if (!decision.allowed) {
+                return reply(
+                    callback,
+                    `Deposit blocked by the wallet policy: ${decision.reason}`,
+                    false
+                );
+            }
+            luloActions.recordDeposit(depositParams);
 
-            return `Generated deposit transactions for ${params.amount} to LuLo:\n${transactionMeta
-                .map(
-                    (meta) =>
-                        `- ${meta.protocol}: $${meta.totalDeposit.toLocaleString()}`
-                )
-                .join("\n")}`;
+            return reply(
+                callback,
+                `Generated deposit transactions for ${params.amount} to LuLo:\n${transactionMeta
+                    .map(
+                        (meta) =>
+                            `- ${meta.protocol}: $${meta.totalDeposit.toLocaleString()}`
+                    )
+                    .join(
+                        "\n"
+                    )}${previews.map((preview) => `\n\n${preview}`).join("")}`,
+                true
+            );
         } catch (error) {
             console.error("Error in LuLo deposit action:", error);
-            return "Failed to generate deposit transaction";
+            return reply(
+                callback,
+                "Failed to generate deposit transaction",
+                false
+            );
         }
     },
 };
@@ -179,51 +471,234 @@ export const depositAction: Action = {
 // Create withdraw action for the Eliza framework
 export const withdrawAction: Action = {
     name: "lulo-withdraw",
+    similes: ["LULO_WITHDRAW", "WITHDRAW_FROM_LULO"],
     description: "Withdraw funds from LuLo yield farming",
-    parameters: {
-        type: "object",
-        properties: {
-            amount: {
-                type: "string",
-                description:
-                    "Amount to withdraw (or 'all' for full withdrawal)",
+    schema: LuloWithdrawParamsSchema,
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "Withdraw all my USDC from LuLo" },
             },
-            token: {
-                type: "string",
-                description: "Token mint address to withdraw",
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Generated withdraw transactions from LuLo:\n- kamino: $100",
+                    action: "lulo-withdraw",
+                    params: {
+                        amount: "all",
+                        token: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+                    },
+                },
             },
-        },
-        required: ["amount", "token"],
+        ],
+    ],
+    validate: async (_runtime: IAgentRuntime, message: Memory) => {
+        const text = message.content?.text || "";
+        return /\blulo\b/i.test(text) && /\bwithdraw/i.test(text);
     },
-    execute: async (runtime: IAgentRuntime, params: any, _message: Memory) => {
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state?: State,
+        options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
         try {
+            const params = LuloWithdrawParamsSchema.parse(options ?? {});
             const connection = new Connection(runtime.getSetting("RPC_URL"));
             const apiKey = runtime.getSetting("FLEXLEND_API_KEY");
             const walletAddress = runtime.getSetting("WALLET_PUBLIC_KEY");
 
+            if (getExecutionMode(runtime) === "paper") {
+                const ledger = new PaperLedger(runtime.cacheManager);
+                const open = await ledger.findOpen("LuLo", params.token);
+                // Deposits are booked in USD at their entry price, so the
+                // token amount is compared against deposited tokens
+                const deposited = open.reduce(
+                    (sum, position) =>
+                        sum +
+                        (position.entryPrice > 0
+                            ? position.notionalUsd / position.entryPrice
+                            : 0),
+                    0
+                );
+                const fraction =
+                    params.amount === "all" || deposited === 0
+                        ? 1
+                        : Math.min(Number(params.amount) / deposited, 1);
+
+                const closed = await ledger.closePool(
+                    "LuLo",
+                    params.token,
+                    1,
+                    fraction
+                );
+                const interest = closed.reduce(
+                    (sum, position) => sum + position.realizedPnlUsd,
+                    0
+                );
+
+                return reply(
+                    callback,
+                    `Closed ${closed.length} paper LuLo position(s), earned $${interest.toFixed(4)} in interest`,
+                    true
+                );
+            }
+
             if (!apiKey) {
-                return "LuLo API key not configured";
+                return reply(callback, "LuLo API key not configured", false);
             }
 
-            const luloActions = new LuloActions(connection, apiKey);
+            const luloActions = new LuloActions(
+                connection,
+                apiKey,
+                getPositionLedger(runtime),
+                getTxGuard(runtime, connection, {
+                    action: "lulo-withdraw",
+                    message,
+                })
+            );
+            const withdrawParams: LuloWithdrawParams = {
+                owner: walletAddress,
+                mintAddress: params.token,
+                withdrawAmount: params.amount === "all" ? "0" : params.amount,
+                withdrawAll: params.amount === "all",
+            };
             const transactionMeta =
-                await luloActions.generateWithdrawTransaction({
-                    owner: walletAddress,
-                    mintAddress: params.token,
-                    withdrawAmount:
-                        params.amount === "all" ? "0" : params.amount,
-                    withdrawAll: params.amount === "all",
-                });
+                await luloActions.generateWithdrawTransaction(withdrawParams);
+            const previews = await luloActions.previewTransactions(
+                transactionMeta,
+                walletAddress,
+                `Withdraw ${params.amount} from LuLo`,
+                params.amount === "all"
+                    ? {}
+                    : { receive: { [params.token]: Number(params.amount) } }
+            );
 
-            return `Generated withdraw transactions from LuLo:\n${transactionMeta
-                .map(
-                    (meta) =>
-                        `- ${meta.protocol}: $${meta.totalDeposit.toLocaleString()}`
-                )
-                .join("\n")}`;
+            // A withdrawal spends nothing, so only the token lists apply
+            const decision = await runtime.walletPolicy.authorize({
+                action: "lulo-withdraw",
+                userId: message.userId,
+                roomId: message.roomId,
+                valueUsd: 0,
+                tokens: [params.token],
+            });
+            if (!decision.allowed) {
+                return reply(
+                    callback,
+                    `Withdraw blocked by the wallet policy: ${decision.reason}`,
+                    false
+                );
+            }
+            luloActions.recordWithdraw(withdrawParams);
+
+            return reply(
+                callback,
+                `Generated withdraw transactions from LuLo:\n${transactionMeta
+                    .map(
+                        (meta) =>
+                            `- ${meta.protocol}: $${meta.totalDeposit.toLocaleString()}`
+                    )
+                    .join(
+                        "\n"
+                    )}${previews.map((preview) => `\n\n${preview}`).join("")}`,
+                true
+            );
         } catch (error) {
             console.error("Error in LuLo withdraw action:", error);
-            return "Failed to generate withdraw transaction";
+            return reply(
+                callback,
+                "Failed to generate withdraw transaction",
+                false
+            );
+        }
+    },
+};
+
+// Create confirm action for the Eliza framework
+export const confirmAction: Action = {
+    name: "lulo-confirm",
+    similes: ["LULO_CONFIRM", "SETTLE_LULO_TRANSACTIONS"],
+    description:
+        "Confirm sent LuLo deposit or withdraw transactions to settle the positions",
+    schema: LuloConfirmParamsSchema,
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "I sent the LuLo deposit, signature 5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW",
+                },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Confirmed LuLo deposit, settled 1 position(s)",
+                    action: "lulo-confirm",
+                    params: {
+                        signatures:
+                            "5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW",
+                        token: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+                        type: "deposit",
+                    },
+                },
+            },
+        ],
+    ],
+    validate: async (_runtime: IAgentRuntime, message: Memory) => {
+        const text = message.content?.text || "";
+        return (
+            /\blulo\b/i.test(text) && /\b(confirm|sent|signature)/i.test(text)
+        );
+    },
+    handler: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        _state?: State,
+        options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const params = LuloConfirmParamsSchema.parse(options ?? {});
+            const connection = new Connection(runtime.getSetting("RPC_URL"));
+            const apiKey = runtime.getSetting("FLEXLEND_API_KEY");
+            const signatures = params.signatures
+                .split(",")
+                .map((signature) => signature.trim())
+                .filter(Boolean);
+
+            if (signatures.length === 0) {
+                return reply(
+                    callback,
+                    "No transaction signatures given",
+                    false
+                );
+            }
+
+            const luloActions = new LuloActions(
+                connection,
+                apiKey,
+                getPositionLedger(runtime)
+            );
+            const settled = await luloActions.confirmTransactions(
+                params.token,
+                signatures,
+                params.type
+            );
+
+            return reply(
+                callback,
+                `Confirmed LuLo ${params.type}, settled ${settled.length} position(s)`,
+                true
+            );
+        } catch (error) {
+            console.error("Error in LuLo confirm action:", error);
+            return reply(
+                callback,
+                `Failed to confirm LuLo transactions: ${error.message}`,
+                false
+            );
         }
     },
 };
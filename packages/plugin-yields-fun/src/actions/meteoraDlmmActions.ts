@@ -1,12 +1,26 @@
-import { IAgentRuntime, Memory, State } from "@ai16z/eliza";
+import { IAgentRuntime, Memory, State, TxGuard, TxIntent } from "@ai16z/eliza";
 import {
     Connection,
     PublicKey,
+    Signer,
     Transaction,
     sendAndConfirmTransaction,
 } from "@solana/web3.js";
 import DLMM from "@meteora-ag/dlmm";
+import { z } from "zod";
 import { BN } from "@coral-xyz/anchor";
+import {
+    getExecutionMode,
+    PaperLedger,
+    valuePaperPosition,
+} from "../utils/paperTrading";
+import { getOpportunityApy } from "../providers/yieldAggregator";
+import {
+    getPositionLedger,
+    PositionLedger,
+    recordPosition,
+} from "../utils/positionLedger";
+import { getTxGuard, sendGuarded } from "../utils/txGuard";
 
 export enum StrategyType {
     SpotBalanced = "SpotBalanced",
@@ -22,9 +36,88 @@ export interface DlmmStrategy {
 
 export class MeteoraDlmmActions {
     private connection: Connection;
+    private ledger?: PositionLedger | null;
+    private guard?: TxGuard | null;
 
-    constructor(connection: Connection) {
+    constructor(
+        connection: Connection,
+        ledger?: PositionLedger | null,
+        guard?: TxGuard | null
+    ) {
         this.connection = connection;
+        this.ledger = ledger;
+        this.guard = guard;
+    }
+
+    // The first signer is the agent wallet
+    private async send(
+        transaction: Transaction,
+        signers: Signer[],
+        intent: TxIntent
+    ): Promise<string> {
+        return sendGuarded(
+            this.guard,
+            transaction,
+            signers[0].publicKey,
+            intent,
+            () =>
+                sendAndConfirmTransaction(this.connection, transaction, signers)
+        );
+    }
+
+    private depositIntent(
+        dlmmPool: DLMM,
+        description: string,
+        amountX: number,
+        amountY: number
+    ): TxIntent {
+        return {
+            description,
+            spend: {
+                [dlmmPool.tokenX.publicKey.toBase58()]: BigInt(amountX),
+                [dlmmPool.tokenY.publicKey.toBase58()]: BigInt(amountY),
+            },
+        };
+    }
+
+    private async recordOpen(
+        poolAddress: string,
+        positionAddress: string,
+        strategy: DlmmStrategy,
+        amountX: number,
+        amountY: number,
+        txHash: string
+    ) {
+        if (!this.ledger) return;
+
+        try {
+            const quote = await this.getPoolQuote(poolAddress, strategy);
+            recordPosition(this.ledger, (ledger) =>
+                ledger.open({
+                    protocol: "Meteora",
+                    kind: "LP",
+                    poolAddress,
+                    positionMint: positionAddress,
+                    rangeLower: strategy.minBinId,
+                    rangeUpper: strategy.maxBinId,
+                    rangeUnit: "bin",
+                    lowerPrice: quote.lowerPrice,
+                    upperPrice: quote.upperPrice,
+                    depositedAmounts: {
+                        [quote.tokens[0]]: Number(amountX),
+                        [quote.tokens[1]]: Number(amountY),
+                    },
+                    entryPrice: quote.price,
+                    notionalUsd:
+                        (Number(amountX) / 10 ** quote.decimalsX) *
+                            quote.price +
+                        Number(amountY) / 10 ** quote.decimalsY,
+                    txSignatures: [txHash],
+                })
+            );
+        } catch (error) {
+            console.error("Error recording DLMM position:", error);
+        }
     }
 
     async createPosition(
@@ -58,12 +151,26 @@ export class MeteoraDlmmActions {
                     },
                 });
 
-            const txHash = await sendAndConfirmTransaction(
-                this.connection,
+            const txHash = await this.send(
                 Array.isArray(createPositionTx)
                     ? createPositionTx[0]
                     : createPositionTx,
-                [owner, newPosition]
+                [owner, newPosition],
+                this.depositIntent(
+                    dlmmPool,
+                    `Open DLMM position in ${poolAddress}`,
+                    amountX,
+                    amountY
+                )
+            );
+
+            await this.recordOpen(
+                poolAddress,
+                newPosition.publicKey.toBase58(),
+                strategy,
+                amountX,
+                amountY,
+                txHash
             );
 
             return {
@@ -108,14 +215,24 @@ export class MeteoraDlmmActions {
                 },
             });
 
-            const txHash = await sendAndConfirmTransaction(
-                this.connection,
+            const txHash = await this.send(
                 Array.isArray(addLiquidityTx)
                     ? addLiquidityTx[0]
                     : addLiquidityTx,
-                [owner]
+                [owner],
+                this.depositIntent(
+                    dlmmPool,
+                    `Add liquidity to DLMM position ${positionAddress}`,
+                    amountX,
+                    amountY
+                )
             );
 
+            recordPosition(this.ledger, (ledger) => {
+                const position = ledger.findByMint(positionAddress);
+                return position && ledger.addTransaction(position.id, txHash);
+            });
+
             return {
                 success: true,
                 txHash,
@@ -168,12 +285,29 @@ export class MeteoraDlmmActions {
             });
 
             // Handle multiple transactions if needed
+            const signatures: string[] = [];
             for (let tx of Array.isArray(removeLiquidityTx)
                 ? removeLiquidityTx
                 : [removeLiquidityTx]) {
-                await sendAndConfirmTransaction(this.connection, tx, [owner]);
+                signatures.push(
+                    await this.send(tx, [owner], {
+                        description: `Remove ${percentageToRemove}% of DLMM position ${positionAddress}`,
+                    })
+                );
             }
 
+            recordPosition(this.ledger, (ledger) => {
+                const recorded = ledger.findByMint(positionAddress);
+                if (!recorded) return null;
+                return shouldClaimAndClose || percentageToRemove >= 100
+                    ? ledger.close(recorded.id, signatures)
+                    : signatures.reduce(
+                          (_, signature) =>
+                              ledger.addTransaction(recorded.id, signature),
+                          recorded
+                      );
+            });
+
             return {
                 success: true,
                 message: `Liquidity removed successfully${shouldClaimAndClose ? " and position closed" : ""}`,
@@ -190,6 +324,60 @@ export class MeteoraDlmmActions {
         }
     }
 
+    /**
+     * Read-only price lookup used by paper mode. Bin ids are converted to
+     * human-readable prices when a strategy is given.
+     */
+    async getPoolQuote(poolAddress: string, strategy?: DlmmStrategy) {
+        const dlmmPool = await DLMM.create(
+            this.connection,
+            new PublicKey(poolAddress)
+        );
+        const binPrice = (binId: number) =>
+            Number(
+                dlmmPool.fromPricePerLamport(
+                    Number(dlmmPool.getPriceOfBinByBinId(binId))
+                )
+            );
+        const activeBin = await dlmmPool.getActiveBin();
+
+        return {
+            price: Number(activeBin.pricePerToken),
+            lowerPrice: strategy ? binPrice(strategy.minBinId) : undefined,
+            upperPrice: strategy ? binPrice(strategy.maxBinId) : undefined,
+            decimalsX: dlmmPool.tokenX.decimal,
+            decimalsY: dlmmPool.tokenY.decimal,
+            tokens: [
+                dlmmPool.tokenX.publicKey.toBase58(),
+                dlmmPool.tokenY.publicKey.toBase58(),
+            ],
+        };
+    }
+
+    /**
+     * Bin ids covering a price range, used to place a new position.
+     */
+    async getBinRange(
+        poolAddress: string,
+        lowerPrice: number,
+        upperPrice: number
+    ): Promise<{ minBinId: number; maxBinId: number }> {
+        const dlmmPool = await DLMM.create(
+            this.connection,
+            new PublicKey(poolAddress)
+        );
+        const binId = (price: number, min: boolean) =>
+            dlmmPool.getBinIdFromPrice(
+                Number(dlmmPool.toPricePerLamport(price)),
+                min
+            );
+
+        return {
+            minBinId: binId(lowerPrice, true),
+            maxBinId: binId(upperPrice, false),
+        };
+    }
+
     async claimRewards(
         poolAddress: string,
         positionAddress: string,
@@ -209,7 +397,9 @@ export class MeteoraDlmmActions {
             ]);
 
             for (const tx of claimTxs) {
-                await sendAndConfirmTransaction(this.connection, tx, [owner]);
+                await this.send(tx, [owner], {
+                    description: `Claim DLMM rewards of ${positionAddress}`,
+                });
             }
 
             return {
@@ -226,6 +416,109 @@ export class MeteoraDlmmActions {
     }
 }
 
+// Parameters of a paper command, taken from the message's action params
+const MeteoraPaperParamsSchema = z.object({
+    strategy: z
+        .object({
+            maxBinId: z.number(),
+            minBinId: z.number(),
+            strategyType: z.nativeEnum(StrategyType),
+        })
+        .optional(),
+    amountX: z.coerce.number().optional(),
+    amountY: z.coerce.number().optional(),
+    positionAddress: z.string().optional(),
+    percentage: z.number().optional(),
+});
+
+/**
+ * Records simulated DLMM positions in the paper ledger. The paper position id
+ * stands in for the position address in follow-up commands.
+ */
+async function executePaper(
+    runtime: IAgentRuntime,
+    actions: MeteoraDlmmActions,
+    command: string,
+    message: Memory,
+    poolAddress: string
+) {
+    const params = MeteoraPaperParamsSchema.parse(message.content.params ?? {});
+    const ledger = new PaperLedger(runtime.cacheManager);
+
+    switch (command) {
+        case "createPosition": {
+            const { strategy, amountX, amountY } = params;
+
+            if (!strategy || !amountX || !amountY) {
+                return { success: false, message: "Missing parameters" };
+            }
+
+            const quote = await actions.getPoolQuote(poolAddress, {
+                minBinId: strategy.minBinId,
+                maxBinId: strategy.maxBinId,
+                strategyType: strategy.strategyType,
+            });
+            // Notional is expressed in token Y, i.e. USD for USDC pairs
+            const notional =
+                (Number(amountX) / 10 ** quote.decimalsX) * quote.price +
+                Number(amountY) / 10 ** quote.decimalsY;
+
+            return {
+                success: true,
+                paper: true,
+                position: await ledger.open({
+                    protocol: "Meteora",
+                    kind: "LP",
+                    pool: poolAddress,
+                    tokens: quote.tokens,
+                    entryPrice: quote.price,
+                    lowerPrice: quote.lowerPrice,
+                    upperPrice: quote.upperPrice,
+                    notionalUsd: notional,
+                    apr: await getOpportunityApy(
+                        runtime,
+                        "Meteora",
+                        poolAddress
+                    ),
+                }),
+            };
+        }
+
+        case "removeLiquidity":
+        case "claimRewards": {
+            const position = await ledger.get(params.positionAddress);
+            if (!position) {
+                return { success: false, message: "Paper position not found" };
+            }
+
+            const { price } = await actions.getPoolQuote(poolAddress);
+            if (command === "claimRewards") {
+                return {
+                    success: true,
+                    paper: true,
+                    valuation: valuePaperPosition(position, price),
+                };
+            }
+
+            return {
+                success: true,
+                paper: true,
+                position: await ledger.close(
+                    position.id,
+                    price,
+                    (params.percentage || 100) / 100
+                ),
+            };
+        }
+
+        default:
+            return {
+                success: false,
+                message: `${command} is not supported in paper mode`,
+            };
+    }
+}
+
 export const meteoraDlmmActions = {
     execute: async (
         runtime: IAgentRuntime,
@@ -237,7 +530,14 @@ export const meteoraDlmmActions = {
                 runtime.getSetting("RPC_URL") ||
                     "https://api.mainnet-beta.solana.com"
             );
-            const actions = new MeteoraDlmmActions(connection);
+            const actions = new MeteoraDlmmActions(
+                connection,
+                getPositionLedger(runtime),
+                getTxGuard(runtime, connection, {
+                    action: "meteora-dlmm",
+                    message,
+                })
+            );
             const command = message.get("command");
             const poolAddress = message.get("poolAddress");
 
@@ -245,6 +545,18 @@ export const meteoraDlmmActions = {
                 return "Missing required parameters";
             }
 
+            if (getExecutionMode(runtime) === "paper") {
+                return JSON.stringify(
+                    await executePaper(
+                        runtime,
+                        actions,
+                        command,
+                        message,
+                        poolAddress
+                    )
+                );
+            }
+
             switch (command) {
                 case "createPosition": {
                     const strategy = message.get("strategy");
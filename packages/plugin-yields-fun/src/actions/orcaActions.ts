@@ -9,6 +9,18 @@ import {
     setWhirlpoolsConfig,
 } from "@orca-so/whirlpools";
 import { IAgentRuntime, Memory, State } from "@ai16z/eliza";
+import { z } from "zod";
+import { OrcaProvider, OrcaWhirlpoolListItem } from "../providers/orcaProvider";
+import {
+    getExecutionMode,
+    PaperLedger,
+    valuePaperPosition,
+} from "../utils/paperTrading";
+import {
+    getPositionLedger,
+    PositionLedger,
+    recordPosition,
+} from "../utils/positionLedger";
 
 export interface OrcaLiquidityParam {
     tokenA?: bigint;
@@ -21,14 +33,67 @@ export interface PriceRange {
     upperPrice: number;
 }
 
+// Value of a deposit in token B, i.e. USD for USDC pairs
+function whirlpoolNotional(
+    whirlpool: OrcaWhirlpoolListItem,
+    liquidityParam: OrcaLiquidityParam
+): number {
+    return (
+        (Number(liquidityParam.tokenA ?? 0) / 10 ** whirlpool.tokenA.decimals) *
+            whirlpool.price +
+        Number(liquidityParam.tokenB ?? 0) / 10 ** whirlpool.tokenB.decimals
+    );
+}
+
 export class OrcaActions {
     private connection: Connection;
+    private ledger?: PositionLedger | null;
 
-    constructor(connection: Connection) {
+    constructor(connection: Connection, ledger?: PositionLedger | null) {
         this.connection = connection;
+        this.ledger = ledger;
         setWhirlpoolsConfig("mainnet");
     }
 
+    /**
+     * Positions are recorded as pending: this class only builds the
+     * instructions, sending them is up to the caller.
+     */
+    private async recordOpen(
+        whirlpoolAddress: PublicKey,
+        positionMint: PublicKey,
+        liquidityParam: OrcaLiquidityParam,
+        priceRange?: PriceRange
+    ) {
+        if (!this.ledger) return;
+
+        const whirlpool = await new OrcaProvider(this.connection).getWhirlpool(
+            whirlpoolAddress.toBase58()
+        );
+        recordPosition(this.ledger, (ledger) =>
+            ledger.open({
+                protocol: "Orca",
+                kind: "LP",
+                status: "pending",
+                poolAddress: whirlpoolAddress.toBase58(),
+                positionMint: positionMint.toBase58(),
+                rangeLower: priceRange?.lowerPrice,
+                rangeUpper: priceRange?.upperPrice,
+                rangeUnit: priceRange ? "price" : undefined,
+                lowerPrice: priceRange?.lowerPrice,
+                upperPrice: priceRange?.upperPrice,
+                depositedAmounts: {
+                    tokenA: Number(liquidityParam.tokenA ?? 0),
+                    tokenB: Number(liquidityParam.tokenB ?? 0),
+                },
+                entryPrice: whirlpool?.price ?? 0,
+                notionalUsd: whirlpool
+                    ? whirlpoolNotional(whirlpool, liquidityParam)
+                    : 0,
+            })
+        );
+    }
+
     async openPosition(
         whirlpoolAddress: PublicKey,
         liquidityParam: OrcaLiquidityParam,
@@ -48,6 +113,13 @@ export class OrcaActions {
                     wallet
                 );
 
+            await this.recordOpen(
+                whirlpoolAddress,
+                positionMint,
+                liquidityParam,
+                priceRange
+            );
+
             return {
                 quote,
                 instructions,
@@ -76,6 +148,12 @@ export class OrcaActions {
                     wallet
                 );
 
+            await this.recordOpen(
+                whirlpoolAddress,
+                positionMint,
+                liquidityParam
+            );
+
             return {
                 quote,
                 instructions,
@@ -162,6 +240,12 @@ export class OrcaActions {
                     wallet
                 );
 
+            // Closed for good once the caller sends the instructions
+            recordPosition(this.ledger, (ledger) => {
+                const position = ledger.findByMint(positionMint.toBase58());
+                return position && ledger.beginClose(position.id);
+            });
+
             return { instructions, quote, feesQuote, rewardsQuote };
         } catch (error) {
             console.error("Error closing position:", error);
@@ -170,6 +254,103 @@ export class OrcaActions {
     }
 }
 
+// Parameters of a paper command, taken from the message's action params
+const OrcaPaperParamsSchema = z.object({
+    whirlpoolAddress: z.string().optional(),
+    positionMint: z.string().optional(),
+    liquidityParam: z
+        .object({
+            tokenA: z.coerce.bigint().optional(),
+            tokenB: z.coerce.bigint().optional(),
+            liquidity: z.coerce.bigint().optional(),
+        })
+        .optional(),
+    priceRange: z
+        .object({ lowerPrice: z.number(), upperPrice: z.number() })
+        .optional(),
+});
+
+/**
+ * Records simulated whirlpool positions in the paper ledger. The paper
+ * position id stands in for the position mint in follow-up commands.
+ */
+async function executePaper(
+    runtime: IAgentRuntime,
+    connection: Connection,
+    command: string,
+    message: Memory
+) {
+    const params = OrcaPaperParamsSchema.parse(message.content.params ?? {});
+    const ledger = new PaperLedger(runtime.cacheManager);
+    const orca = new OrcaProvider(connection);
+
+    const getWhirlpool = async (address: string) => {
+        const whirlpool = await orca.getWhirlpool(address);
+        if (!whirlpool) throw new Error("Whirlpool not found");
+        return whirlpool;
+    };
+
+    switch (command) {
+        case "openPosition":
+        case "openFullRangePosition": {
+            const { whirlpoolAddress, liquidityParam } = params;
+            const priceRange =
+                command === "openPosition" ? params.priceRange : undefined;
+
+            if (!whirlpoolAddress || !liquidityParam) {
+                return { success: false, message: "Missing parameters" };
+            }
+
+            const whirlpool = await getWhirlpool(whirlpoolAddress);
+
+            return {
+                success: true,
+                paper: true,
+                position: await ledger.open({
+                    protocol: "Orca",
+                    kind: "LP",
+                    pool: whirlpoolAddress,
+                    tokens: [whirlpool.tokenA.symbol, whirlpool.tokenB.symbol],
+                    entryPrice: whirlpool.price,
+                    lowerPrice: priceRange?.lowerPrice,
+                    upperPrice: priceRange?.upperPrice,
+                    notionalUsd: whirlpoolNotional(whirlpool, liquidityParam),
+                    apr: (whirlpool.totalApr?.day ?? 0) * 100,
+                }),
+            };
+        }
+
+        case "harvestPosition":
+        case "closePosition": {
+            const position = await ledger.get(params.positionMint);
+            if (!position) {
+                return { success: false, message: "Paper position not found" };
+            }
+
+            const { price } = await getWhirlpool(position.pool);
+            if (command === "harvestPosition") {
+                return {
+                    success: true,
+                    paper: true,
+                    valuation: valuePaperPosition(position, price),
+                };
+            }
+
+            return {
+                success: true,
+                paper: true,
+                position: await ledger.close(position.id, price),
+            };
+        }
+
+        default:
+            return {
+                success: false,
+                message: `${command} is not supported in paper mode`,
+            };
+    }
+}
+
 export const orcaActions = {
     execute: async (
         runtime: IAgentRuntime,
@@ -181,8 +362,18 @@ export const orcaActions = {
                 runtime.getSetting("RPC_URL") ||
                     "https://api.mainnet-beta.solana.com"
             );
-            const actions = new OrcaActions(connection);
+            const actions = new OrcaActions(
+                connection,
+                getPositionLedger(runtime)
+            );
             const command = message.get("command");
+
+            if (getExecutionMode(runtime) === "paper") {
+                return JSON.stringify(
+                    await executePaper(runtime, connection, command, message)
+                );
+            }
+
             const wallet = state?.get("agentWallet");
 
             if (!command || !wallet) {
@@ -1,5 +1,12 @@
 import { IAgentRuntime, Memory, State } from "@ai16z/eliza";
+import { z } from "zod";
 import { OxProvider } from "../providers/oxProvider";
+import { getExecutionMode, PaperLedger } from "../utils/paperTrading";
+import {
+    getPositionLedger,
+    PositionLedger,
+    recordPosition,
+} from "../utils/positionLedger";
 
 export interface OxPositionParams {
     marketCode: string;
@@ -17,7 +24,10 @@ export class OxActions {
     private readonly MAX_LEVERAGE = 10;
     private readonly DEFAULT_LEVERAGE = 3;
 
-    constructor(provider: OxProvider) {
+    constructor(
+        provider: OxProvider,
+        private ledger?: PositionLedger | null
+    ) {
         this.provider = provider;
     }
 
@@ -58,12 +68,35 @@ export class OxActions {
         };
 
         // Place order
-        return this.provider.makeRequest("POST", "/v3/orders/place", {
-            recvWindow: 20000,
-            timestamp: Date.now(),
-            responseType: "FULL",
-            orders: [order],
-        });
+        const response = await this.provider.makeRequest(
+            "POST",
+            "/v3/orders/place",
+            {
+                recvWindow: 20000,
+                timestamp: Date.now(),
+                responseType: "FULL",
+                orders: [order],
+            }
+        );
+
+        const filled = response?.data?.[0];
+        const entryPrice = parseFloat(filled?.price ?? params.price ?? "0");
+        recordPosition(this.ledger, (ledger) =>
+            ledger.open({
+                protocol: "OX",
+                kind: "PERP",
+                poolAddress: params.marketCode,
+                depositedAmounts: {
+                    [params.marketCode]: parseFloat(params.quantity),
+                },
+                entryPrice,
+                notionalUsd: parseFloat(params.quantity) * entryPrice,
+                side: params.side === "SELL" ? "SHORT" : "LONG",
+                txSignatures: filled?.orderId ? [String(filled.orderId)] : [],
+            })
+        );
+
+        return response;
     }
 
     async closePosition(marketCode: string) {
@@ -87,12 +120,23 @@ export class OxActions {
             timeInForce: "IOC",
         };
 
-        return this.provider.makeRequest("POST", "/v3/orders/place", {
-            recvWindow: 20000,
-            timestamp: Date.now(),
-            responseType: "FULL",
-            orders: [order],
-        });
+        const response = await this.provider.makeRequest(
+            "POST",
+            "/v3/orders/place",
+            {
+                recvWindow: 20000,
+                timestamp: Date.now(),
+                responseType: "FULL",
+                orders: [order],
+            }
+        );
+
+        const orderId = response?.data?.[0]?.orderId;
+        recordPosition(this.ledger, (ledger) =>
+            ledger.closePool("OX", marketCode, orderId ? [String(orderId)] : [])
+        );
+
+        return response;
     }
 
     async modifyPosition(marketCode: string, newQuantity: string) {
@@ -120,12 +164,133 @@ export class OxActions {
             timeInForce: "IOC",
         };
 
-        return this.provider.makeRequest("POST", "/v3/orders/place", {
-            recvWindow: 20000,
-            timestamp: Date.now(),
-            responseType: "FULL",
-            orders: [order],
+        const response = await this.provider.makeRequest(
+            "POST",
+            "/v3/orders/place",
+            {
+                recvWindow: 20000,
+                timestamp: Date.now(),
+                responseType: "FULL",
+                orders: [order],
+            }
+        );
+
+        const orderId = response?.data?.[0]?.orderId;
+        recordPosition(this.ledger, (ledger) =>
+            ledger
+                .findActive("OX", marketCode)
+                .map((recorded) =>
+                    ledger.addTransaction(
+                        recorded.id,
+                        orderId ? String(orderId) : undefined
+                    )
+                )
+        );
+
+        return response;
+    }
+}
+
+// Parameters of a paper command, taken from the message's action params
+const OxPaperParamsSchema = z.object({
+    marketCode: z.string().optional(),
+    side: z.enum(["BUY", "SELL"]).optional(),
+    quantity: z.coerce.string().optional(),
+    newQuantity: z.coerce.string().optional(),
+});
+
+/**
+ * Records simulated perp positions at the current mark price instead of
+ * placing orders.
+ */
+async function executePaper(
+    runtime: IAgentRuntime,
+    provider: OxProvider,
+    command: string,
+    message: Memory
+) {
+    const { marketCode, side, quantity, newQuantity } =
+        OxPaperParamsSchema.parse(message.content.params ?? {});
+    if (!marketCode) throw new Error("Missing marketCode");
+    const ledger = new PaperLedger(runtime.cacheManager);
+
+    const getMarkPrice = async () => {
+        const ticker = await provider.getTicker(marketCode);
+        const price = parseFloat(ticker?.data?.[0]?.markPrice);
+        if (!Number.isFinite(price)) {
+            throw new Error(`No mark price for ${marketCode}`);
+        }
+        return price;
+    };
+
+    const open = (
+        marketCode: string,
+        side: "LONG" | "SHORT",
+        quantity: string,
+        price: number
+    ) =>
+        ledger.open({
+            protocol: "OX",
+            kind: "PERP",
+            pool: marketCode,
+            tokens: [marketCode],
+            entryPrice: price,
+            notionalUsd: parseFloat(quantity) * price,
+            // Funding is not simulated yet
+            apr: 0,
+            side,
         });
+
+    switch (command) {
+        case "openPosition": {
+            if (!side || !quantity) throw new Error("Missing side or quantity");
+            const price = await getMarkPrice();
+            return {
+                success: true,
+                paper: true,
+                position: await open(
+                    marketCode,
+                    side === "SELL" ? "SHORT" : "LONG",
+                    quantity,
+                    price
+                ),
+            };
+        }
+
+        case "closePosition": {
+            const price = await getMarkPrice();
+            return {
+                success: true,
+                paper: true,
+                closed: await ledger.closePool("OX", marketCode, price),
+            };
+        }
+
+        case "modifyPosition": {
+            if (!newQuantity) throw new Error("Missing newQuantity");
+            const [current] = await ledger.findOpen("OX", marketCode);
+            if (!current) throw new Error("No position found to modify");
+
+            const price = await getMarkPrice();
+            const closed = await ledger.closePool("OX", marketCode, price);
+            return {
+                success: true,
+                paper: true,
+                closed,
+                position:
+                    parseFloat(newQuantity) > 0
+                        ? await open(
+                              marketCode,
+                              current.side,
+                              newQuantity,
+                              price
+                          )
+                        : null,
+            };
+        }
+
+        default:
+            return { success: false, message: "Unknown command" };
     }
 }
 
@@ -143,9 +308,15 @@ export const oxActions = {
             };
 
             const provider = new OxProvider(config);
-            const actions = new OxActions(provider);
+            const actions = new OxActions(provider, getPositionLedger(runtime));
             const command = message.get("command");
 
+            if (getExecutionMode(runtime) === "paper") {
+                return JSON.stringify(
+                    await executePaper(runtime, provider, command, message)
+                );
+            }
+
             switch (command) {
                 case "openPosition": {
                     const params = message.get("params") as OxPositionParams;
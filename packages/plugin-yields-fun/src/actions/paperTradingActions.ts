@@ -0,0 +1,212 @@
+import {
+    Action,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    State,
+} from "@ai16z/eliza";
+import { z } from "zod";
+import { getMarkPrice } from "../providers/markPrice";
+import {
+    PaperLedger,
+    PaperPosition,
+    PaperValuation,
+    valuePaperPosition,
+} from "../utils/paperTrading";
+
+export const PaperPositionsParamsSchema = z.object({
+    status: z
+        .enum(["open", "closed"])
+        .optional()
+        .describe("leave out to list every position"),
+});
+
+export const ClosePaperPositionParamsSchema = z.object({
+    positionId: z.string().describe("id of the paper position"),
+    percentage: z
+        .number()
+        .gt(0)
+        .max(100)
+        .optional()
+        .describe("share to close in percent, all of it when left out"),
+});
+
+const markPaperPosition = async (
+    runtime: IAgentRuntime,
+    position: PaperPosition
+): Promise<number> =>
+    getMarkPrice(
+        runtime,
+        position.protocol,
+        position.pool,
+        position.entryPrice
+    );
+
+const formatUsd = (value: number) =>
+    `${value >= 0 ? "+" : "-"}$${Math.abs(value).toFixed(2)}`;
+
+function formatPaperPosition(
+    position: PaperPosition,
+    valuation: PaperValuation | null,
+    index: number
+): string {
+    let text = `${index + 1}. ${position.protocol} ${position.kind} ${position.tokens.join("/")} [${position.status}] (${position.id})\n`;
+    text += valuation
+        ? `Deposited: $${position.notionalUsd.toFixed(2)} | Value: $${valuation.valueUsd.toFixed(2)} | Unrealized PnL: ${formatUsd(valuation.pnlUsd)}\n`
+        : `Closed: $${position.notionalUsd.toFixed(2)} at ${position.exitPrice} | Realized PnL: ${formatUsd(position.realizedPnlUsd ?? 0)}\n`;
+    return text;
+}
+
+export const paperPositionsAction: Action = {
+    name: "PAPER_POSITIONS",
+    similes: ["LIST_PAPER_POSITIONS", "SHOW_PAPER_TRADES", "PAPER_LEDGER"],
+    description:
+        "List the simulated positions of the paper ledger, marked to the current price while open",
+    schema: PaperPositionsParamsSchema,
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "Show my paper positions" },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "📒 Paper Positions\n\n1. Orca LP SOL/USDC [open] (5f0c2b1e-8d4a-4c3e-9b7f-2a6d1e0c4b93)\nDeposited: $1000.00 | Value: $1012.40 | Unrealized PnL: +$12.40",
+                    action: "PAPER_POSITIONS",
+                },
+            },
+        ],
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "Which paper trades did I close?" },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "📒 Closed Paper Positions\n\n1. Raydium LP SOL/USDC [closed] (9a3e7c52-1f6b-4d8e-a0c4-7b2e9d5f1a68)\nClosed: $250.00 at 204.1 | Realized PnL: +$3.10",
+                    action: "PAPER_POSITIONS",
+                    params: { status: "closed" },
+                },
+            },
+        ],
+    ],
+    validate: async (_runtime: IAgentRuntime, message: Memory) =>
+        /\bpaper\b/i.test(message.content?.text || ""),
+    handler: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        _state?: State,
+        options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const { status } = PaperPositionsParamsSchema.parse(options ?? {});
+            const positions = await new PaperLedger(runtime.cacheManager).list(
+                status
+            );
+            const heading = `📒 ${{ open: "Open ", closed: "Closed " }[status] ?? ""}Paper Positions`;
+            if (positions.length === 0) {
+                callback?.({ text: `${heading}\n\nNone yet.` });
+                return true;
+            }
+
+            const lines = await Promise.all(
+                positions.map(async (position, i) =>
+                    formatPaperPosition(
+                        position,
+                        position.status === "open"
+                            ? valuePaperPosition(
+                                  position,
+                                  await markPaperPosition(runtime, position)
+                              )
+                            : null,
+                        i
+                    )
+                )
+            );
+            callback?.({ text: `${heading}\n\n${lines.join("\n")}` });
+            return true;
+        } catch (error) {
+            console.error("Error in PAPER_POSITIONS action:", error);
+            callback?.({
+                text: `Failed to list paper positions: ${error.message}`,
+            });
+            return false;
+        }
+    },
+};
+
+export const closePaperPositionAction: Action = {
+    name: "CLOSE_PAPER_POSITION",
+    similes: ["EXIT_PAPER_POSITION", "CLOSE_PAPER_TRADE"],
+    description:
+        "Close all or part of a simulated position of the paper ledger at the current price",
+    schema: ClosePaperPositionParamsSchema,
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Close half of paper position 5f0c2b1e-8d4a-4c3e-9b7f-2a6d1e0c4b93",
+                },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Closed 50% of paper position 5f0c2b1e-8d4a-4c3e-9b7f-2a6d1e0c4b93 at 204.1 for a realized PnL of +$6.20",
+                    action: "CLOSE_PAPER_POSITION",
+                    params: {
+                        positionId: "5f0c2b1e-8d4a-4c3e-9b7f-2a6d1e0c4b93",
+                        percentage: 50,
+                    },
+                },
+            },
+        ],
+    ],
+    validate: async (_runtime: IAgentRuntime, message: Memory) => {
+        const text = message.content?.text || "";
+        return /\bpaper\b/i.test(text) && /\b(close|exit)/i.test(text);
+    },
+    handler: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        _state?: State,
+        options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const { positionId, percentage = 100 } =
+                ClosePaperPositionParamsSchema.parse(options ?? {});
+            const ledger = new PaperLedger(runtime.cacheManager);
+            const position = await ledger.get(positionId);
+            if (!position) {
+                callback?.({ text: `Paper position ${positionId} not found` });
+                return false;
+            }
+
+            const closed = await ledger.close(
+                position.id,
+                await markPaperPosition(runtime, position),
+                percentage / 100
+            );
+            callback?.({
+                text: `Closed ${percentage}% of paper position ${position.id} at ${closed.exitPrice} for a realized PnL of ${formatUsd(closed.realizedPnlUsd ?? 0)}`,
+                content: { position: closed },
+            });
+            return true;
+        } catch (error) {
+            console.error("Error in CLOSE_PAPER_POSITION action:", error);
+            callback?.({
+                text: `Failed to close the paper position: ${error.message}`,
+            });
+            return false;
+        }
+    },
+};
+
+export const paperTradingActions = [
+    paperPositionsAction,
+    closePaperPositionAction,
+];
@@ -1,5 +1,12 @@
-import { IAgentRuntime, Memory, State } from "@ai16z/eliza";
-import { Keypair, PublicKey } from "@solana/web3.js";
+import { IAgentRuntime, Memory, State, TxGuard, TxIntent } from "@ai16z/eliza";
+import {
+    Connection,
+    Keypair,
+    PublicKey,
+    sendAndConfirmTransaction,
+    Signer,
+    Transaction,
+} from "@solana/web3.js";
 import {
     AmmConfig,
     ApiClmmPoolInfo,
@@ -8,16 +15,58 @@ import {
     ClmmPoolRewardInfo,
     ClmmPoolRewardLayoutInfo,
 } from "@raydium-io/raydium-sdk";
+import { z } from "zod";
 import { initSdk } from "../config";
+import { getExecutionMode, PaperLedger } from "../utils/paperTrading";
+import { getOpportunityApy } from "../providers/yieldAggregator";
+import {
+    getPositionLedger,
+    PositionLedger,
+    recordPosition,
+} from "../utils/positionLedger";
+import { getTxGuard, sendGuarded } from "../utils/txGuard";
+
+const RAYDIUM_CONFIG = {
+    DEFAULT_RPC: "https://api.mainnet-beta.solana.com",
+};
 
 export class RaydiumClmActions {
     private clmm: Clmm;
 
-    constructor() {
+    constructor(
+        private ledger?: PositionLedger | null,
+        private connection: Connection = new Connection(
+            RAYDIUM_CONFIG.DEFAULT_RPC
+        ),
+        private guard?: TxGuard | null
+    ) {
         const { sdk } = initSdk();
         this.clmm = sdk.clmm;
     }
 
+    // The first signer is the agent wallet
+    private async send(
+        transaction: Transaction,
+        signers: Signer[],
+        intent: TxIntent
+    ): Promise<string> {
+        return sendGuarded(
+            this.guard,
+            transaction,
+            signers[0].publicKey,
+            intent,
+            () =>
+                sendAndConfirmTransaction(this.connection, transaction, signers)
+        );
+    }
+
+    private async toRawAmount(mint: string, amount: number): Promise<bigint> {
+        const { value } = await this.connection.getTokenSupply(
+            new PublicKey(mint)
+        );
+        return BigInt(Math.floor(amount * 10 ** value.decimals));
+    }
+
     async addLiquidity(
         baseAddress: string,
         quoteAddress: string,
@@ -41,22 +90,57 @@ export class RaydiumClmActions {
             const owner = state?.get("agentWallet");
             if (!owner) throw new Error("Agent wallet not found in state");
 
-            const transaction = await this.clmm.createOpenPositionTransaction({
-                poolInfo,
-                ownerInfo: {
-                    feePayer: owner.publicKey,
-                    wallet: owner.publicKey,
-                    tokenAccounts: [], // Will be filled by SDK
+            // Built unsigned so the guard sees it before the wallet signs
+            const { transaction, signers } =
+                await this.clmm.createOpenPositionTransaction({
+                    poolInfo,
+                    ownerInfo: {
+                        feePayer: owner.publicKey,
+                        wallet: owner.publicKey,
+                        tokenAccounts: [], // Will be filled by SDK
+                    },
+                    tickLower: lowerTick,
+                    tickUpper: upperTick,
+                    baseAmount,
+                    quoteAmount,
+                    otherAmountThreshold: 0,
+                });
+
+            const poolId = poolInfo.id.toBase58();
+            const txId = await this.send(transaction, [owner, ...signers], {
+                description: `Open Raydium position in ${poolId} from tick ${lowerTick} to ${upperTick}`,
+                spend: {
+                    [baseAddress]: await this.toRawAmount(
+                        baseAddress,
+                        baseAmount
+                    ),
+                    [quoteAddress]: await this.toRawAmount(
+                        quoteAddress,
+                        quoteAmount
+                    ),
                 },
-                tickLower: lowerTick,
-                tickUpper: upperTick,
-                baseAmount,
-                quoteAmount,
-                otherAmountThreshold: 0,
             });
 
-            // Sign and send transaction
-            await transaction.confirm();
+            const entryPrice = poolInfo.currentPrice.toNumber();
+            recordPosition(this.ledger, (ledger) =>
+                ledger.open({
+                    protocol: "Raydium",
+                    kind: "LP",
+                    poolAddress: poolId,
+                    rangeLower: lowerTick,
+                    rangeUpper: upperTick,
+                    rangeUnit: "tick",
+                    lowerPrice: this.tickToPrice(lowerTick),
+                    upperPrice: this.tickToPrice(upperTick),
+                    depositedAmounts: {
+                        [baseAddress]: baseAmount,
+                        [quoteAddress]: quoteAmount,
+                    },
+                    entryPrice,
+                    notionalUsd: amountUsd,
+                    txSignatures: [txId],
+                })
+            );
 
             return {
                 success: true,
@@ -92,8 +176,9 @@ export class RaydiumClmActions {
                 pos.poolId.equals(poolInfo.id)
             );
 
+            const signatures: string[] = [];
             for (const position of poolPositions) {
-                const transaction =
+                const { transaction, signers } =
                     await this.clmm.createDecreaseLiquidityTransaction({
                         poolInfo,
                         ownerInfo: {
@@ -109,8 +194,21 @@ export class RaydiumClmActions {
                         amountMinB: 0,
                     });
 
-                // Sign and send transaction
-                await transaction.confirm();
+                signatures.push(
+                    await this.send(transaction, [owner, ...signers], {
+                        description: `Remove ${percentageToRemove}% of Raydium position ${position.nftMint.toBase58()}`,
+                    })
+                );
+            }
+
+            if (percentageToRemove >= 100) {
+                recordPosition(this.ledger, (ledger) =>
+                    ledger.closePool(
+                        "Raydium",
+                        poolInfo.id.toBase58(),
+                        signatures
+                    )
+                );
             }
 
             return {
@@ -161,6 +259,42 @@ export class RaydiumClmActions {
         }
     }
 
+    /**
+     * Read-only pool lookup used by paper mode to price simulated positions.
+     */
+    async getPoolQuote(
+        baseAddress: string,
+        quoteAddress: string
+    ): Promise<{ poolId: string; price: number } | null> {
+        const poolInfo = await this.getPoolInfo(baseAddress, quoteAddress);
+        if (!poolInfo) return null;
+
+        return {
+            poolId: poolInfo.id.toBase58(),
+            price: poolInfo.currentPrice.toNumber(),
+        };
+    }
+
+    async getPoolQuoteById(poolId: string): Promise<{
+        poolId: string;
+        price: number;
+        mintA: string;
+        mintB: string;
+        tickSpacing: number;
+    } | null> {
+        const pools = await this.clmm.getPools();
+        const poolInfo = pools.find((pool) => pool.id.toBase58() === poolId);
+        if (!poolInfo) return null;
+
+        return {
+            poolId,
+            price: poolInfo.currentPrice.toNumber(),
+            mintA: poolInfo.mintA.toBase58(),
+            mintB: poolInfo.mintB.toBase58(),
+            tickSpacing: poolInfo.tickSpacing,
+        };
+    }
+
     private async getPoolInfo(
         baseAddress: string,
         quoteAddress: string
@@ -201,9 +335,101 @@ export class RaydiumClmActions {
         };
     }
 
-    private tickToPrice(tick: number): number {
+    tickToPrice(tick: number): number {
         return Math.pow(1.0001, tick);
     }
+
+    // Rounds down to a tick the pool accepts
+    priceToTick(price: number, tickSpacing: number = 1): number {
+        const tick = Math.log(price) / Math.log(1.0001);
+        return Math.floor(tick / tickSpacing) * tickSpacing;
+    }
+}
+
+// Parameters of a paper command, taken from the message's action params
+const RaydiumPaperParamsSchema = z.object({
+    lowerTick: z.number().optional(),
+    upperTick: z.number().optional(),
+    amountUsd: z.number().optional(),
+    percentage: z.number().optional(),
+});
+
+/**
+ * Records simulated positions in the paper ledger instead of sending
+ * transactions. Mirrors the live commands handled below.
+ */
+async function executePaper(
+    runtime: IAgentRuntime,
+    actions: RaydiumClmActions,
+    command: string,
+    message: Memory,
+    baseAddress: string,
+    quoteAddress: string
+) {
+    const params = RaydiumPaperParamsSchema.parse(message.content.params ?? {});
+    const ledger = new PaperLedger(runtime.cacheManager);
+    const quote = await actions.getPoolQuote(baseAddress, quoteAddress);
+    if (!quote) throw new Error("Pool not found");
+
+    const closeOpen = (fraction: number) =>
+        ledger.closePool("Raydium", quote.poolId, quote.price, fraction);
+
+    const open = async (
+        lowerTick: number,
+        upperTick: number,
+        amountUsd: number
+    ) => {
+        if (!lowerTick || !upperTick || !amountUsd) {
+            throw new Error(`Missing parameters for ${command}`);
+        }
+
+        return ledger.open({
+            protocol: "Raydium",
+            kind: "LP",
+            pool: quote.poolId,
+            tokens: [baseAddress, quoteAddress],
+            entryPrice: quote.price,
+            lowerPrice: actions.tickToPrice(lowerTick),
+            upperPrice: actions.tickToPrice(upperTick),
+            notionalUsd: Number(amountUsd),
+            apr: await getOpportunityApy(runtime, "Raydium", quote.poolId),
+        });
+    };
+
+    switch (command) {
+        case "addLiquidity":
+            return {
+                success: true,
+                paper: true,
+                position: await open(
+                    params.lowerTick,
+                    params.upperTick,
+                    params.amountUsd
+                ),
+            };
+
+        case "removeLiquidity":
+            return {
+                success: true,
+                paper: true,
+                closed: await closeOpen((params.percentage || 100) / 100),
+            };
+
+        case "adjustPosition":
+            return {
+                success: true,
+                paper: true,
+                closed: await closeOpen(1),
+                position: await open(
+                    params.lowerTick,
+                    params.upperTick,
+                    params.amountUsd
+                ),
+            };
+
+        default:
+            return { success: false, message: "Unknown command" };
+    }
 }
 
 export const raydiumClmActions = {
@@ -213,7 +439,17 @@ export const raydiumClmActions = {
         state?: State
     ): Promise<string> => {
         try {
-            const actions = new RaydiumClmActions();
+            const connection = new Connection(
+                runtime.getSetting("RPC_URL") || RAYDIUM_CONFIG.DEFAULT_RPC
+            );
+            const actions = new RaydiumClmActions(
+                getPositionLedger(runtime),
+                connection,
+                getTxGuard(runtime, connection, {
+                    action: "raydium-clm",
+                    message,
+                })
+            );
             const command = message.get("command");
             const baseAddress = message.get("baseTokenAddress");
             const quoteAddress = message.get("quoteTokenAddress");
@@ -222,6 +458,19 @@ export const raydiumClmActions = {
                 return "Missing required parameters";
             }
 
+            if (getExecutionMode(runtime) === "paper") {
+                return JSON.stringify(
+                    await executePaper(
+                        runtime,
+                        actions,
+                        command,
+                        message,
+                        baseAddress,
+                        quoteAddress
+                    )
+                );
+            }
+
             switch (command) {
                 case "addLiquidity": {
                     const lowerTick = message.get("lowerTick");
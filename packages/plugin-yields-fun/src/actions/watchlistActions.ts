@@ -0,0 +1,273 @@
+import {
+    Action,
+    composeContext,
+    generateObjectV2,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    ModelClass,
+    State,
+} from "@ai16z/eliza";
+import { z } from "zod";
+import {
+    formatWatchlist,
+    getWatchlistProvider,
+    WatchlistProvider,
+} from "../providers/watchlistProvider";
+
+export const WatchRequestSchema = z.object({
+    // Token mint address
+    tokenAddress: z.string().nullable(),
+    // Alert thresholds in percent, null keeps the configured default
+    priceChangePercent: z.number().nullable(),
+    volumeChangePercent: z.number().nullable(),
+    liquidityChangePercent: z.number().nullable(),
+});
+
+export type WatchRequest = z.infer<typeof WatchRequestSchema>;
+
+const watchRequestTemplate = `Respond with a JSON markdown block containing only the extracted values. Use null for any values that cannot be determined.
+
+Example response:
+\`\`\`json
+{
+    "tokenAddress": "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263",
+    "priceChangePercent": 10,
+    "volumeChangePercent": null,
+    "liquidityChangePercent": null
+}
+\`\`\`
+
+{{recentMessages}}
+
+Extract the following information about the token to {{operation}}:
+- Token mint address
+- Price change in percent that should raise an alert, null if not specified
+- 24h volume change in percent that should raise an alert, null if not specified
+- Liquidity change in percent that should raise an alert, null if not specified
+
+Respond with a JSON markdown block containing only the extracted values.`;
+
+const extractWatchRequest = async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    operation: string
+): Promise<WatchRequest> => {
+    if (!state) {
+        state = (await runtime.composeState(message)) as State;
+    } else {
+        state = await runtime.updateRecentMessageState(state);
+    }
+
+    const context = composeContext({
+        state: { ...state, operation },
+        template: watchRequestTemplate,
+    });
+
+    const content = await generateObjectV2({
+        runtime,
+        context,
+        modelClass: ModelClass.SMALL,
+        schema: WatchRequestSchema,
+    });
+
+    return WatchRequestSchema.parse(content.object);
+};
+
+const requireWatchlist = (runtime: IAgentRuntime): WatchlistProvider => {
+    const watchlist = getWatchlistProvider(runtime);
+    if (!watchlist) throw new Error("The watchlist needs a database");
+    return watchlist;
+};
+
+export const watchTokenAction: Action = {
+    name: "WATCH_TOKEN",
+    similes: ["ADD_TO_WATCHLIST", "TRACK_TOKEN", "MONITOR_TOKEN"],
+    description:
+        "Add a token to the watchlist and alert when its price, volume or liquidity moves past a threshold",
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Watch DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263 and tell me if the price moves 10%",
+                },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Watching Bonk at $0.00002150. Alerts at: price ±10% | volume ±20% | liquidity ±10%",
+                    action: "WATCH_TOKEN",
+                },
+            },
+        ],
+    ],
+    validate: async (_runtime: IAgentRuntime, message: Memory) => {
+        const text = message.content?.text || "";
+        return (
+            /\b(watch|track|monitor)/i.test(text) &&
+            !/\b(unwatch|untrack|stop)/i.test(text)
+        );
+    },
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const request = await extractWatchRequest(
+                runtime,
+                message,
+                state,
+                "watch"
+            );
+            if (!request.tokenAddress) {
+                callback?.({ text: "Which token address should I watch?" });
+                return false;
+            }
+
+            const thresholds = Object.fromEntries(
+                Object.entries({
+                    priceChangePercent: request.priceChangePercent,
+                    volumeChangePercent: request.volumeChangePercent,
+                    liquidityChangePercent: request.liquidityChangePercent,
+                }).filter(([, value]) => value !== null && value > 0)
+            );
+            const entry = await requireWatchlist(runtime).addToWatchlist(
+                request.tokenAddress,
+                thresholds,
+                message.roomId
+            );
+
+            const {
+                priceChangePercent,
+                volumeChangePercent,
+                liquidityChangePercent,
+            } = entry.alertThresholds;
+            callback?.({
+                text: `Watching ${entry.symbol || entry.tokenAddress} at $${entry.baseline.price}. Alerts at: price ±${priceChangePercent}% | volume ±${volumeChangePercent}% | liquidity ±${liquidityChangePercent}%`,
+                content: request,
+            });
+            return true;
+        } catch (error) {
+            console.error("Error in WATCH_TOKEN action:", error);
+            callback?.({ text: `Failed to watch token: ${error.message}` });
+            return false;
+        }
+    },
+};
+
+export const unwatchTokenAction: Action = {
+    name: "UNWATCH_TOKEN",
+    similes: ["REMOVE_FROM_WATCHLIST", "UNTRACK_TOKEN", "STOP_WATCHING"],
+    description: "Remove a token from the watchlist",
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: {
+                    text: "Stop watching DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263",
+                },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "Removed DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263 from the watchlist",
+                    action: "UNWATCH_TOKEN",
+                },
+            },
+        ],
+    ],
+    validate: async (_runtime: IAgentRuntime, message: Memory) =>
+        /\b(unwatch|untrack|stop (watching|tracking|monitoring))/i.test(
+            message.content?.text || ""
+        ),
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const request = await extractWatchRequest(
+                runtime,
+                message,
+                state,
+                "stop watching"
+            );
+            if (!request.tokenAddress) {
+                callback?.({ text: "Which token should I stop watching?" });
+                return false;
+            }
+
+            const removed = requireWatchlist(runtime).removeFromWatchlist(
+                request.tokenAddress
+            );
+            callback?.({
+                text: removed
+                    ? `Removed ${request.tokenAddress} from the watchlist`
+                    : `${request.tokenAddress} is not on the watchlist`,
+                content: request,
+            });
+            return removed;
+        } catch (error) {
+            console.error("Error in UNWATCH_TOKEN action:", error);
+            callback?.({ text: `Failed to unwatch token: ${error.message}` });
+            return false;
+        }
+    },
+};
+
+export const listWatchlistAction: Action = {
+    name: "LIST_WATCHLIST",
+    similes: ["SHOW_WATCHLIST", "GET_WATCHLIST", "WATCHED_TOKENS"],
+    description: "List the tokens watched in this room with their baselines",
+    examples: [
+        [
+            {
+                user: "{{user1}}",
+                content: { text: "What's on my watchlist?" },
+            },
+            {
+                user: "{{user2}}",
+                content: {
+                    text: "👀 Watchlist\n\nBONK (DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263)\nBaseline: price $0.00002150 | volume $12,400,000 | liquidity $3,100,000\nAlerts at: price ±10% | volume ±20% | liquidity ±10%",
+                    action: "LIST_WATCHLIST",
+                },
+            },
+        ],
+    ],
+    validate: async (_runtime: IAgentRuntime, message: Memory) =>
+        /\bwatch ?list|\bwatching\b/i.test(message.content?.text || ""),
+    handler: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state?: State,
+        _options?: { [key: string]: unknown },
+        callback?: HandlerCallback
+    ) => {
+        try {
+            const entries = requireWatchlist(runtime).getWatchlist(
+                message.roomId
+            );
+            callback?.({ text: formatWatchlist(entries) });
+            return true;
+        } catch (error) {
+            console.error("Error in LIST_WATCHLIST action:", error);
+            callback?.({
+                text: `Failed to list the watchlist: ${error.message}`,
+            });
+            return false;
+        }
+    },
+};
+
+export const watchlistActions = [
+    watchTokenAction,
+    unwatchTokenAction,
+    listWatchlistAction,
+];
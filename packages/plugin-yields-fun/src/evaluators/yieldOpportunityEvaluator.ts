@@ -25,6 +25,7 @@ import { TokenProvider } from "../providers/token";
 import { TokenPairTrustManager } from "../providers/tokenPairTrustManager";
 import { DexScreenerProvider } from "../providers/dexScreenerProvider";
 import { OxProvider } from "../providers/oxProvider";
+import { getApyTrendLines, getYieldHistoryStore } from "../utils/yieldHistory";
 
 const shouldProcessTemplate = `# Task: Decide if the recent messages should be processed for yield opportunity evaluation.
 
@@ -275,6 +276,7 @@ export const yieldOpportunityEvaluator: Evaluator = {
             });
 
             const { publicKey } = await getWalletKey(runtime, false);
+            const history = getYieldHistoryStore(runtime);
 
             // TODO: Everything else - market data gathering, metrics calculation, etc.
             // This is where we'll add:
@@ -360,6 +362,12 @@ export const yieldOpportunityEvaluator: Evaluator = {
                             lastUpdated: Date.now(),
                         });
 
+                        // The pool's APY trend tells a spike from a sustained yield
+                        const apyTrend = getApyTrendLines(
+                            history,
+                            bestDex.pairAddress
+                        );
+
                         // 8. Create memory entry with all the analyzed data
                         const recMemory = {
                             userId: message.userId,
@@ -377,6 +385,7 @@ export const yieldOpportunityEvaluator: Evaluator = {
                                         },
                                         allPairs: solPairs,
                                         trustState,
+                                        apyTrend,
                                         maxExposure: Math.min(
                                             trustState.recommendations
                                                 .maxExposure,
@@ -1,29 +1,100 @@
 import { Plugin } from "@ai16z/eliza";
-import { raydiumProvider } from "./providers/raydiumProvider";
-import { marinadeProvider } from "./providers/marinadeProvider";
-import { lidoProvider } from "./providers/lidoProvider";
-import { jpoolProvider } from "./providers/jpoolProvider";
-import { luloProvider } from "./providers/luloProvider";
-import { depositAction, withdrawAction } from "./actions/luloActions";
+import { liquidStakingProvider } from "./providers/liquidStakingProvider";
+import { yieldAggregatorProvider } from "./providers/yieldAggregator";
+import { lendingMarketProvider } from "./providers/lendingMarketProvider";
+import { fundingProvider } from "./providers/fundingProvider";
+import { positionsProvider } from "./providers/positionsProvider";
+import { watchlistProvider } from "./providers/watchlistProvider";
+import {
+    confirmAction,
+    depositAction,
+    withdrawAction,
+} from "./actions/luloActions";
+import { clmActions } from "./actions/clmActions";
+import {
+    stakeSolAction,
+    unstakeSolAction,
+} from "./actions/liquidStakingActions";
+import { watchlistActions } from "./actions/watchlistActions";
+import { alertActions } from "./actions/alertActions";
+import { paperTradingActions } from "./actions/paperTradingActions";
+import { poolMonitorJob } from "./jobs/poolMonitorJob";
+import { watchlistJob } from "./jobs/watchlistJob";
+import { fundingCollectorJob } from "./jobs/fundingCollectorJob";
+import { rebalanceJob } from "./jobs/rebalanceJob";
+import { deltaNeutralJob } from "./jobs/deltaNeutralJob";
 
 // Import providers, actions, and evaluators as they are created
 // export * from "./providers/token";
 // export * from "./evaluators/yield";
 // export * from "./actions/stake";
+export * from "./providers/yieldAggregator";
+export * from "./utils/riskModel";
+export * from "./utils/yieldHistory";
+export * from "./utils/fundingHistory";
+export * from "./utils/paperTrading";
+export * from "./utils/positionLedger";
+export * from "./utils/clmPnlCalculator";
+export * from "./utils/backtester";
+export * from "./utils/rebalancer";
+export * from "./utils/rebalanceVenues";
+export * from "./utils/liquidityMigration";
+export * from "./utils/portfolioAllocator";
+export * from "./utils/stakeRouter";
+export * from "./utils/rateCurve";
+export * from "./utils/deltaNeutral";
+export * from "./utils/alertDispatcher";
+export * from "./utils/txGuard";
+export * from "./jobs/rebalanceJob";
+export * from "./jobs/deltaNeutralJob";
+export * from "./jobs/fundingCollectorJob";
+export * from "./jobs/watchlistJob";
+export * from "./jobs/poolMonitorJob";
+export * from "./programs/vaultMath";
+export * from "./programs/vaultClient";
+export * from "./providers/positionsProvider";
+export * from "./providers/liquidStakingProvider";
+export * from "./providers/lendingMarketProvider";
+export * from "./providers/fundingProvider";
+export * from "./providers/watchlistProvider";
+export * from "./actions/clmActions";
+export * from "./actions/liquidStakingActions";
+export * from "./actions/watchlistActions";
+export * from "./actions/alertActions";
+export * from "./actions/paperTradingActions";
 
 export const yieldsFunPlugin: Plugin = {
     name: "yields-fun",
     description: "Yields Fun Plugin for Eliza",
-    actions: [depositAction, withdrawAction],
+    actions: [
+        depositAction,
+        withdrawAction,
+        confirmAction,
+        ...clmActions,
+        stakeSolAction,
+        unstakeSolAction,
+        ...watchlistActions,
+        ...alertActions,
+        ...paperTradingActions,
+    ],
     evaluators: [
         // Add evaluators here
     ],
     providers: [
-        raydiumProvider,
-        marinadeProvider,
-        lidoProvider,
-        jpoolProvider,
-        luloProvider,
+        yieldAggregatorProvider,
+        positionsProvider,
+        liquidStakingProvider,
+        lendingMarketProvider,
+        fundingProvider,
+        watchlistProvider,
+    ],
+    // Run by the auto client
+    jobs: [
+        poolMonitorJob,
+        watchlistJob,
+        fundingCollectorJob,
+        rebalanceJob,
+        deltaNeutralJob,
     ],
 };
 
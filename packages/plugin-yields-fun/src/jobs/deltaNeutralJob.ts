@@ -0,0 +1,39 @@
+import { IAgentRuntime, Job, Memory, State } from "@ai16z/eliza";
+import {
+    formatHedgePlans,
+    getDeltaNeutralStrategy,
+} from "../utils/deltaNeutral";
+import { getExecutionMode } from "../utils/paperTrading";
+
+/**
+ * Keeps an OX short against the token A held by the ledger's LP positions,
+ * resizing it once delta drifts past YIELDS_FUN_REHEDGE_THRESHOLD. Paper
+ * mode and YIELDS_FUN_HEDGE_DRY_RUN=true only report the planned hedges.
+ */
+export const deltaNeutralJob: Job = {
+    name: "yields-fun/delta-neutral",
+    description: "Resizes the OX hedge of LP positions",
+    intervalMs: 15 * 60 * 1000,
+    run: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        _state?: State
+    ): Promise<string> => {
+        try {
+            const strategy = getDeltaNeutralStrategy(runtime);
+            if (!strategy) {
+                return "Delta-neutral hedging needs a position ledger and OX credentials";
+            }
+
+            const dryRun =
+                getExecutionMode(runtime) === "paper" ||
+                runtime.getSetting("YIELDS_FUN_HEDGE_DRY_RUN") === "true";
+            const { plans, results } = await strategy.run(dryRun);
+
+            return formatHedgePlans(plans, results);
+        } catch (error) {
+            console.error("Error in delta-neutral job:", error);
+            return "Failed to hedge LP positions";
+        }
+    },
+};
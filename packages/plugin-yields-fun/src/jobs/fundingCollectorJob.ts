@@ -0,0 +1,36 @@
+import { IAgentRuntime, Job, Memory, State } from "@ai16z/eliza";
+import { getFundingCollector } from "../utils/fundingHistory";
+
+/**
+ * Snapshots funding, basis and open interest of the YIELDS_FUN_FUNDING_MARKETS
+ * perps and reports funding or basis sign flips since the last run.
+ */
+export const fundingCollectorJob: Job = {
+    name: "yields-fun/funding-collector",
+    description: "Records funding, basis and open interest",
+    cron: "0 * * * *",
+    run: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        _state?: State
+    ): Promise<string> => {
+        try {
+            const collector = getFundingCollector(runtime);
+            if (!collector) {
+                return "Funding collection needs a database and OX credentials";
+            }
+
+            const { snapshots, alerts } = await collector.collect();
+            if (snapshots.length === 0) return "No funding snapshot due";
+
+            let report = `📊 Recorded funding for ${snapshots.map((s) => s.marketCode).join(", ")}`;
+            for (const alert of alerts) {
+                report += `\n⚠️ ${alert.message}`;
+            }
+            return report;
+        } catch (error) {
+            console.error("Error in funding collector job:", error);
+            return "Failed to collect funding rates";
+        }
+    },
+};
@@ -1,7 +1,18 @@
-import { IAgentRuntime, Memory, State } from "@ai16z/eliza";
+import { IAgentRuntime, Job, JobState, Memory, State } from "@ai16z/eliza";
 import { DexScreenerProvider } from "../providers/dexScreenerProvider";
 import { TokenPairEvaluator } from "../evaluators/tokenPairEvaluator";
 import { RaydiumClmActions } from "../actions/raydiumClmActions";
+import { getPositionLedger, PositionLedger } from "../utils/positionLedger";
+import {
+    formatMigration,
+    LiquidityMigrator,
+} from "../utils/liquidityMigration";
+import { getLiquidityMigrator } from "../utils/rebalanceVenues";
+import {
+    AlertDispatcher,
+    AlertSeverity,
+    getAlertDispatcher,
+} from "../utils/alertDispatcher";
 
 interface MonitoredPool {
     baseAddress: string;
@@ -18,10 +29,14 @@ export class PoolMonitorJob {
     private monitoredPools: Map<string, MonitoredPool>;
     private checkInterval: number = 5 * 60 * 1000; // 5 minutes
 
-    constructor() {
+    constructor(
+        ledger?: PositionLedger | null,
+        private migrator?: LiquidityMigrator | null,
+        private alerts?: AlertDispatcher | null
+    ) {
         this.dexScreener = new DexScreenerProvider();
         this.evaluator = new TokenPairEvaluator();
-        this.clmActions = new RaydiumClmActions();
+        this.clmActions = new RaydiumClmActions(ledger);
         this.monitoredPools = new Map();
     }
 
@@ -29,7 +44,47 @@ export class PoolMonitorJob {
         return `${baseAddress.toLowerCase()}-${quoteAddress.toLowerCase()}`;
     }
 
-    async addPoolToMonitor(baseAddress: string, quoteAddress: string) {
+    /**
+     * Logs a pool event and sends it to rooms subscribed to alerts.
+     */
+    private async notify(
+        poolKey: string,
+        event: string,
+        severity: AlertSeverity,
+        message: string
+    ) {
+        console.log(message);
+        if (!this.alerts) return;
+
+        try {
+            await this.alerts.dispatch([
+                {
+                    source: "pool-monitor",
+                    key: `pool-monitor:${poolKey}:${event}`,
+                    severity,
+                    message,
+                    timestamp: new Date(),
+                },
+            ]);
+        } catch (error) {
+            console.error("Error dispatching pool alert:", error);
+        }
+    }
+
+    /**
+     * Picks up pools saved to job state by earlier runs.
+     */
+    restorePools(pools: Record<string, MonitoredPool>) {
+        for (const [poolKey, pool] of Object.entries(pools)) {
+            this.monitoredPools.set(poolKey, pool);
+        }
+    }
+
+    async addPoolToMonitor(
+        baseAddress: string,
+        quoteAddress: string,
+        state?: JobState
+    ) {
         const poolKey = this.getPoolKey(baseAddress, quoteAddress);
 
         if (!this.monitoredPools.has(poolKey)) {
@@ -38,13 +93,15 @@ export class PoolMonitorJob {
                 quoteAddress
             );
 
-            this.monitoredPools.set(poolKey, {
+            const pool: MonitoredPool = {
                 baseAddress,
                 quoteAddress,
                 lastCheck: Date.now(),
                 lastAnalysis: initialAnalysis,
                 currentAmm: initialAnalysis.recommendation.preferredAmm,
-            });
+            };
+            this.monitoredPools.set(poolKey, pool);
+            this.savePool(poolKey, pool, state);
 
             console.log(
                 `Added pool to monitor with initial AMM: ${initialAnalysis.recommendation.preferredAmm}`
@@ -56,7 +113,7 @@ export class PoolMonitorJob {
         }
     }
 
-    async checkPool(poolKey: string, state?: State) {
+    async checkPool(poolKey: string, state?: JobState) {
         const pool = this.monitoredPools.get(poolKey);
         if (!pool) return;
 
@@ -70,21 +127,44 @@ export class PoolMonitorJob {
 
         // Check if we need to switch AMMs
         if (analysis.recommendation.preferredAmm !== pool.currentAmm) {
-            console.log(`AMM Switch needed for ${poolKey}`);
-            console.log(
-                `Current: ${pool.currentAmm} -> New: ${analysis.recommendation.preferredAmm}`
+            await this.notify(
+                poolKey,
+                "amm-switch",
+                "MEDIUM",
+                `AMM switch needed for ${poolKey}: ${pool.currentAmm} -> ${analysis.recommendation.preferredAmm}`
             );
             console.log("New AMM Scores:", analysis.recommendation.ammScores);
 
-            // Remove liquidity from current AMM before switching
-            if (pool.currentAmm === "raydium") {
+            if (this.migrator) {
+                // Withdraw, swap and redeposit on the new AMM's best pool
+                try {
+                    const migration = await this.migrator.migrate(
+                        {
+                            baseAddress: pool.baseAddress,
+                            quoteAddress: pool.quoteAddress,
+                            fromAmm: pool.currentAmm,
+                            toAmm: analysis.recommendation.preferredAmm,
+                        },
+                        state
+                    );
+                    console.log(formatMigration(migration));
+                } catch (error) {
+                    console.error("Error migrating liquidity:", error);
+                    await this.notify(
+                        poolKey,
+                        "migration-failed",
+                        "HIGH",
+                        `Liquidity migration for ${poolKey} failed: ${error.message}`
+                    );
+                }
+            } else if (pool.currentAmm === "raydium") {
+                // Remove liquidity from current AMM before switching
                 await this.clmActions.removeLiquidity(
                     pool.baseAddress,
                     pool.quoteAddress,
                     100
                 );
             }
-            // TODO: Add similar removal logic for other AMMs
         }
 
         // Update pool state
@@ -93,12 +173,7 @@ export class PoolMonitorJob {
         pool.currentAmm = analysis.recommendation.preferredAmm;
         this.monitoredPools.set(poolKey, pool);
 
-        // Store in global state
-        if (state) {
-            const monitoredPoolsState = state.get("monitoredPools") || {};
-            monitoredPoolsState[poolKey] = pool;
-            state.set("monitoredPools", monitoredPoolsState);
-        }
+        this.savePool(poolKey, pool, state);
 
         // Check if action is needed
         if (this.shouldAdjustPosition(pool.lastAnalysis, analysis)) {
@@ -106,6 +181,16 @@ export class PoolMonitorJob {
         }
     }
 
+    // Job state persists between scheduled runs
+    private savePool(poolKey: string, pool: MonitoredPool, state?: JobState) {
+        if (!state) return;
+
+        const monitoredPoolsState =
+            state.get<Record<string, MonitoredPool>>("monitoredPools") || {};
+        monitoredPoolsState[poolKey] = pool;
+        state.set("monitoredPools", monitoredPoolsState);
+    }
+
     private shouldAdjustPosition(oldAnalysis: any, newAnalysis: any): boolean {
         // Significant changes in metrics that would warrant position adjustment
         const volatilityChange = Math.abs(
@@ -133,12 +218,18 @@ export class PoolMonitorJob {
         analysis: any,
         state?: State
     ) {
+        const poolKey = this.getPoolKey(pool.baseAddress, pool.quoteAddress);
         console.log(
             `Adjusting position for pool using ${analysis.recommendation.preferredAmm}`
         );
 
         if (!analysis.recommendation.shouldProvide) {
-            console.log("Analysis suggests removing liquidity");
+            await this.notify(
+                poolKey,
+                "remove-liquidity",
+                "HIGH",
+                `Analysis suggests removing liquidity from ${poolKey}`
+            );
             if (pool.currentAmm === "raydium") {
                 await this.clmActions.removeLiquidity(
                     pool.baseAddress,
@@ -170,17 +261,34 @@ export class PoolMonitorJob {
     }
 }
 
-export const poolMonitorJob = {
+export const poolMonitorJob: Job = {
+    name: "yields-fun/pool-monitor",
+    description: "Re-evaluates monitored pools and migrates liquidity",
+    intervalMs: 5 * 60 * 1000,
     run: async (
         runtime: IAgentRuntime,
         message: Memory,
-        state?: State
+        state?: JobState
     ): Promise<string> => {
         try {
-            const monitor = new PoolMonitorJob();
+            const migrator = getLiquidityMigrator(runtime);
+            const monitor = new PoolMonitorJob(
+                getPositionLedger(runtime),
+                migrator,
+                getAlertDispatcher(runtime)
+            );
+
+            // Finish migrations interrupted by a restart before new checks
+            const resumed = migrator ? await migrator.resumeAll(state) : [];
+            for (const migration of resumed) {
+                console.log(formatMigration(migration));
+            }
 
             // Load monitored pools from state
-            const monitoredPools = state?.get("monitoredPools") || {};
+            const monitoredPools =
+                state?.get<Record<string, MonitoredPool>>("monitoredPools") ||
+                {};
+            monitor.restorePools(monitoredPools);
 
             // Check each pool
             for (const poolKey of Object.keys(monitoredPools)) {
@@ -188,11 +296,15 @@ export const poolMonitorJob = {
             }
 
             // Add new pool if specified in message
-            const baseAddress = message.get("baseTokenAddress");
-            const quoteAddress = message.get("quoteTokenAddress");
+            const baseAddress = message.content?.baseTokenAddress as string;
+            const quoteAddress = message.content?.quoteTokenAddress as string;
 
             if (baseAddress && quoteAddress) {
-                await monitor.addPoolToMonitor(baseAddress, quoteAddress);
+                await monitor.addPoolToMonitor(
+                    baseAddress,
+                    quoteAddress,
+                    state
+                );
             }
 
             return "Pool monitoring completed successfully";
@@ -0,0 +1,42 @@
+import { IAgentRuntime, Job, Memory, State } from "@ai16z/eliza";
+import { getAlertDispatcher } from "../utils/alertDispatcher";
+import { getExecutionMode } from "../utils/paperTrading";
+import {
+    formatRebalancePlans,
+    getPositionHealthAlerts,
+} from "../utils/rebalancer";
+import { getRebalancer } from "../utils/rebalanceVenues";
+
+/**
+ * Re-centres out-of-range CLM positions from the position ledger. Paper mode
+ * and YIELDS_FUN_REBALANCE_DRY_RUN=true only report the planned moves.
+ * Positions left out of range or failing to rebalance are sent as alerts.
+ */
+export const rebalanceJob: Job = {
+    name: "yields-fun/rebalance",
+    description: "Re-centres out-of-range CLM positions",
+    cron: "30 * * * *",
+    run: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        state?: State
+    ): Promise<string> => {
+        try {
+            const rebalancer = getRebalancer(runtime);
+            if (!rebalancer) return "No position ledger available";
+
+            const dryRun =
+                getExecutionMode(runtime) === "paper" ||
+                runtime.getSetting("YIELDS_FUN_REBALANCE_DRY_RUN") === "true";
+            const { plans, results } = await rebalancer.run(state, dryRun);
+            await getAlertDispatcher(runtime).dispatch(
+                getPositionHealthAlerts(plans, results)
+            );
+
+            return formatRebalancePlans(plans, results);
+        } catch (error) {
+            console.error("Error in rebalance job:", error);
+            return "Failed to rebalance positions";
+        }
+    },
+};
@@ -0,0 +1,50 @@
+import { IAgentRuntime, Job, Memory, State } from "@ai16z/eliza";
+import {
+    formatWatchlistAlerts,
+    getWatchlistProvider,
+} from "../providers/watchlistProvider";
+import { getAlertDispatcher } from "../utils/alertDispatcher";
+
+/**
+ * Checks every watched token against its baseline and reports the alerts
+ * stored by this run. Alerts go to the rooms that watched the token.
+ */
+export const watchlistJob: Job = {
+    name: "yields-fun/watchlist",
+    description: "Checks watched tokens for alerts",
+    intervalMs: 10 * 60 * 1000,
+    run: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        _state?: State
+    ): Promise<string> => {
+        try {
+            const watchlist = getWatchlistProvider(runtime);
+            if (!watchlist) return "The watchlist needs a database";
+
+            const alerts = await watchlist.checkWatchlistAlerts();
+            if (alerts.length === 0) return "No watchlist alerts";
+
+            const rooms = new Map(
+                watchlist
+                    .getWatchlist()
+                    .map((entry) => [entry.tokenAddress, entry.roomId] as const)
+            );
+            await getAlertDispatcher(runtime).dispatch(
+                alerts.map((alert) => ({
+                    source: "watchlist",
+                    key: `watchlist:${alert.tokenAddress}:${alert.alertType}`,
+                    severity: alert.severity,
+                    message: alert.message,
+                    roomId: rooms.get(alert.tokenAddress),
+                    timestamp: alert.timestamp,
+                }))
+            );
+
+            return `👀 Watchlist alerts\n${formatWatchlistAlerts(alerts)}`;
+        } catch (error) {
+            console.error("Error in watchlist job:", error);
+            return "Failed to check the watchlist";
+        }
+    },
+};
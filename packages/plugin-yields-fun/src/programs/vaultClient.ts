@@ -0,0 +1,285 @@
+import { createHash } from "crypto";
+import { IAgentRuntime } from "@ai16z/eliza";
+import {
+    getAssociatedTokenAddressSync,
+    TOKEN_PROGRAM_ID,
+} from "@solana/spl-token";
+import {
+    AccountMeta,
+    Connection,
+    PublicKey,
+    Transaction,
+    TransactionInstruction,
+} from "@solana/web3.js";
+import {
+    HarvestSimulation,
+    UserPositionAccount,
+    VaultStateAccount,
+} from "../types/vault";
+import {
+    calculateAmount,
+    calculateShares,
+    sharePrice,
+    simulateHarvest,
+} from "./vaultMath";
+
+// VaultProgram.PROGRAM_ID until the program is deployed
+export const VAULT_PROGRAM_ID = new PublicKey(
+    "11111111111111111111111111111111"
+);
+
+export interface VaultAddresses {
+    state: PublicKey;
+    auth: PublicKey;
+    vault: PublicKey;
+}
+
+export interface VaultDepositParams {
+    // Owner the vault state was initialized with
+    vaultOwner: PublicKey;
+    user: PublicKey;
+    mint: PublicKey;
+    userPosition: PublicKey;
+    amount: bigint;
+}
+
+export interface VaultWithdrawParams {
+    vaultOwner: PublicKey;
+    user: PublicKey;
+    mint: PublicKey;
+    userPosition: PublicKey;
+    shares: bigint;
+}
+
+export interface VaultHarvestParams {
+    vaultOwner: PublicKey;
+    feeAccount: PublicKey;
+}
+
+// Anchor prefixes instruction data and accounts with the first 8 bytes of
+// sha256("global:<ix>") and sha256("account:<Name>")
+const discriminator = (preimage: string): Buffer =>
+    createHash("sha256").update(preimage).digest().subarray(0, 8);
+
+const u64 = (value: bigint): Buffer => {
+    const buffer = Buffer.alloc(8);
+    buffer.writeBigUInt64LE(value);
+    return buffer;
+};
+
+const meta = (
+    pubkey: PublicKey,
+    isWritable: boolean,
+    isSigner = false
+): AccountMeta => ({ pubkey, isSigner, isWritable });
+
+export function decodeVaultState(data: Buffer): VaultStateAccount {
+    if (!data.subarray(0, 8).equals(discriminator("account:VaultState"))) {
+        throw new Error("Account is not a VaultState");
+    }
+    return {
+        owner: new PublicKey(data.subarray(8, 40)),
+        totalShares: data.readBigUInt64LE(40),
+        totalAssets: data.readBigUInt64LE(48),
+        performanceFee: data.readUInt8(56),
+        managementFee: data.readUInt8(57),
+        lastHarvestTime: data.readBigUInt64LE(58),
+        stateBump: data.readUInt8(66),
+        authBump: data.readUInt8(67),
+        vaultBump: data.readUInt8(68),
+    };
+}
+
+export function decodeUserPosition(data: Buffer): UserPositionAccount {
+    if (!data.subarray(0, 8).equals(discriminator("account:UserPosition"))) {
+        throw new Error("Account is not a UserPosition");
+    }
+    return {
+        owner: new PublicKey(data.subarray(8, 40)),
+        shares: data.readBigUInt64LE(40),
+        depositedAmount: data.readBigUInt64LE(48),
+        lastDepositTime: data.readBigUInt64LE(56),
+    };
+}
+
+/**
+ * Client for programs/vaultProgram.ts. Derives the vault PDAs, reads its
+ * accounts and builds unsigned deposit, withdraw and harvest transactions
+ * for the caller to sign.
+ */
+export class VaultClient {
+    constructor(
+        private connection: Connection,
+        private programId: PublicKey = VAULT_PROGRAM_ID
+    ) {}
+
+    getAddresses(vaultOwner: PublicKey): VaultAddresses {
+        const [state] = PublicKey.findProgramAddressSync(
+            [Buffer.from("state"), vaultOwner.toBuffer()],
+            this.programId
+        );
+        const [auth] = PublicKey.findProgramAddressSync(
+            [Buffer.from("auth"), state.toBuffer()],
+            this.programId
+        );
+        const [vault] = PublicKey.findProgramAddressSync(
+            [Buffer.from("vault"), auth.toBuffer()],
+            this.programId
+        );
+        return { state, auth, vault };
+    }
+
+    async getVaultState(
+        vaultOwner: PublicKey
+    ): Promise<VaultStateAccount | null> {
+        const { state } = this.getAddresses(vaultOwner);
+        const account = await this.connection.getAccountInfo(state);
+        return account ? decodeVaultState(account.data) : null;
+    }
+
+    async getUserPosition(
+        address: PublicKey
+    ): Promise<UserPositionAccount | null> {
+        const account = await this.connection.getAccountInfo(address);
+        return account ? decodeUserPosition(account.data) : null;
+    }
+
+    async getSharePrice(vaultOwner: PublicKey): Promise<number> {
+        const state = await this.getVaultState(vaultOwner);
+        return state ? sharePrice(state.totalAssets, state.totalShares) : 1;
+    }
+
+    // Shares a deposit of `amount` would mint at the current share price
+    async previewDeposit(
+        vaultOwner: PublicKey,
+        amount: bigint
+    ): Promise<bigint> {
+        const state = await this.getVaultState(vaultOwner);
+        if (!state) return amount;
+        return calculateShares(amount, state.totalAssets, state.totalShares);
+    }
+
+    // Tokens a withdrawal of `shares` would return at the current price
+    async previewWithdraw(
+        vaultOwner: PublicKey,
+        shares: bigint
+    ): Promise<bigint> {
+        const state = await this.getVaultState(vaultOwner);
+        if (!state) return 0n;
+        return calculateAmount(shares, state.totalAssets, state.totalShares);
+    }
+
+    async simulateHarvest(
+        vaultOwner: PublicKey,
+        now: bigint = BigInt(Math.floor(Date.now() / 1000))
+    ): Promise<HarvestSimulation | null> {
+        const state = await this.getVaultState(vaultOwner);
+        if (!state) return null;
+
+        const { vault } = this.getAddresses(vaultOwner);
+        const balance = await this.connection.getTokenAccountBalance(vault);
+        return simulateHarvest(state, BigInt(balance.value.amount), now);
+    }
+
+    depositInstruction(params: VaultDepositParams): TransactionInstruction {
+        return this.userInstruction("deposit", params, params.amount);
+    }
+
+    withdrawInstruction(params: VaultWithdrawParams): TransactionInstruction {
+        return this.userInstruction("withdraw", params, params.shares);
+    }
+
+    harvestInstruction(params: VaultHarvestParams): TransactionInstruction {
+        const { state, auth, vault } = this.getAddresses(params.vaultOwner);
+        return new TransactionInstruction({
+            programId: this.programId,
+            keys: [
+                meta(params.vaultOwner, false, true),
+                meta(state, true),
+                meta(auth, false),
+                meta(vault, true),
+                meta(params.feeAccount, true),
+                meta(TOKEN_PROGRAM_ID, false),
+            ],
+            data: discriminator("global:harvest"),
+        });
+    }
+
+    async buildDepositTransaction(
+        params: VaultDepositParams
+    ): Promise<Transaction> {
+        return this.buildTransaction(
+            this.depositInstruction(params),
+            params.user
+        );
+    }
+
+    async buildWithdrawTransaction(
+        params: VaultWithdrawParams
+    ): Promise<Transaction> {
+        return this.buildTransaction(
+            this.withdrawInstruction(params),
+            params.user
+        );
+    }
+
+    async buildHarvestTransaction(
+        params: VaultHarvestParams
+    ): Promise<Transaction> {
+        return this.buildTransaction(
+            this.harvestInstruction(params),
+            params.vaultOwner
+        );
+    }
+
+    // deposit and withdraw take the same accounts and one u64 argument
+    private userInstruction(
+        name: "deposit" | "withdraw",
+        params: Omit<VaultDepositParams, "amount">,
+        value: bigint
+    ): TransactionInstruction {
+        const { state, auth, vault } = this.getAddresses(params.vaultOwner);
+        const userToken = getAssociatedTokenAddressSync(
+            params.mint,
+            params.user
+        );
+
+        return new TransactionInstruction({
+            programId: this.programId,
+            keys: [
+                meta(params.user, true, true),
+                meta(state, true),
+                meta(auth, false),
+                meta(vault, true),
+                meta(userToken, true),
+                meta(params.userPosition, true),
+                meta(TOKEN_PROGRAM_ID, false),
+            ],
+            data: Buffer.concat([discriminator(`global:${name}`), u64(value)]),
+        });
+    }
+
+    private async buildTransaction(
+        instruction: TransactionInstruction,
+        feePayer: PublicKey
+    ): Promise<Transaction> {
+        const { blockhash, lastValidBlockHeight } =
+            await this.connection.getLatestBlockhash();
+        return new Transaction({
+            feePayer,
+            blockhash,
+            lastValidBlockHeight,
+        }).add(instruction);
+    }
+}
+
+export function getVaultClient(runtime: IAgentRuntime): VaultClient {
+    const connection = new Connection(
+        runtime.getSetting("RPC_URL") || "https://api.mainnet-beta.solana.com"
+    );
+    const programId = runtime.getSetting("YIELDS_FUN_VAULT_PROGRAM_ID");
+    return new VaultClient(
+        connection,
+        programId ? new PublicKey(programId) : VAULT_PROGRAM_ID
+    );
+}
@@ -0,0 +1,99 @@
+import { HarvestSimulation, VaultStateAccount } from "../types/vault";
+
+// Share and fee math of programs/vaultProgram.ts. All amounts are u64 token
+// base units and every division rounds down, as on chain.
+
+const SECONDS_PER_YEAR = BigInt(365 * 24 * 60 * 60);
+
+export function calculateShares(
+    amount: bigint,
+    totalAssets: bigint,
+    totalShares: bigint
+): bigint {
+    if (totalAssets === 0n || totalShares === 0n) return amount;
+    return (amount * totalShares) / totalAssets;
+}
+
+export function calculateAmount(
+    shares: bigint,
+    totalAssets: bigint,
+    totalShares: bigint
+): bigint {
+    if (totalShares === 0n) return 0n;
+    return (shares * totalAssets) / totalShares;
+}
+
+/**
+ * Assets per share. An empty vault mints shares 1:1.
+ */
+export function sharePrice(totalAssets: bigint, totalShares: bigint): number {
+    if (totalShares === 0n) return 1;
+    return Number(totalAssets) / Number(totalShares);
+}
+
+/**
+ * Annual `feeRate` percent of `totalAssets`, accrued per second.
+ */
+export function calculateManagementFee(
+    totalAssets: bigint,
+    feeRate: number,
+    elapsedSeconds: bigint
+): bigint {
+    if (elapsedSeconds <= 0n) return 0n;
+    return (
+        (totalAssets * BigInt(feeRate) * elapsedSeconds) /
+        (100n * SECONDS_PER_YEAR)
+    );
+}
+
+/**
+ * `feeRate` percent of the growth from `oldTotal` to `newTotal`.
+ */
+export function calculatePerformanceFee(
+    oldTotal: bigint,
+    newTotal: bigint,
+    feeRate: number
+): bigint {
+    if (newTotal <= oldTotal) return 0n;
+    return ((newTotal - oldTotal) * BigInt(feeRate)) / 100n;
+}
+
+/**
+ * Fees the `harvest` instruction would take at `now` (unix seconds) given
+ * the vault token balance, and the resulting share price. Like the program,
+ * the management fee accrues from `lastHarvestTime`.
+ */
+export function simulateHarvest(
+    state: Pick<
+        VaultStateAccount,
+        | "totalAssets"
+        | "totalShares"
+        | "managementFee"
+        | "performanceFee"
+        | "lastHarvestTime"
+    >,
+    vaultBalance: bigint,
+    now: bigint
+): HarvestSimulation {
+    const managementFee = calculateManagementFee(
+        state.totalAssets,
+        state.managementFee,
+        now - state.lastHarvestTime
+    );
+    const performanceFee = calculatePerformanceFee(
+        state.totalAssets,
+        vaultBalance,
+        state.performanceFee
+    );
+    const totalFees = managementFee + performanceFee;
+    const totalAssets =
+        vaultBalance > totalFees ? vaultBalance - totalFees : 0n;
+
+    return {
+        managementFee,
+        performanceFee,
+        totalFees,
+        totalAssets,
+        sharePrice: sharePrice(totalAssets, state.totalShares),
+    };
+}
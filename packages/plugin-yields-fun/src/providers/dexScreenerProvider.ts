@@ -170,9 +170,14 @@ export class DexScreenerProvider {
         }
     }
 
+    /**
+     * Highest scoring pool for a token pair, optionally restricted to one
+     * DEX such as "raydium", "orca" or "meteora".
+     */
     async getBestDexForPair(
         baseAddress: string,
-        quoteAddress: string
+        quoteAddress: string,
+        dexId?: string
     ): Promise<{
         dexId: string;
         score: number;
@@ -185,14 +190,15 @@ export class DexScreenerProvider {
         // Find all pairs matching our token pair
         const matchingPairs = pairs.filter(
             (pair) =>
-                (pair.baseToken.address.toLowerCase() ===
+                (!dexId || pair.dexId === dexId.toLowerCase()) &&
+                ((pair.baseToken.address.toLowerCase() ===
                     baseAddress.toLowerCase() &&
                     pair.quoteToken.address.toLowerCase() ===
                         quoteAddress.toLowerCase()) ||
-                (pair.baseToken.address.toLowerCase() ===
-                    quoteAddress.toLowerCase() &&
-                    pair.quoteToken.address.toLowerCase() ===
-                        baseAddress.toLowerCase())
+                    (pair.baseToken.address.toLowerCase() ===
+                        quoteAddress.toLowerCase() &&
+                        pair.quoteToken.address.toLowerCase() ===
+                            baseAddress.toLowerCase()))
         );
 
         if (matchingPairs.length === 0) {
@@ -0,0 +1,40 @@
+import { IAgentRuntime, Memory, Provider, State } from "@ai16z/eliza";
+import {
+    formatFundingStats,
+    getFundingHistoryStore,
+    getFundingMarkets,
+} from "../utils/fundingHistory";
+
+const PROVIDER_CONFIG = {
+    WINDOW_DAYS: 7,
+};
+
+/**
+ * Reports recorded carry and basis per perp market, so basis trades are
+ * judged on collected history rather than model guesses.
+ */
+export const fundingProvider: Provider = {
+    get: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        _state?: State
+    ): Promise<string> => {
+        try {
+            const store = getFundingHistoryStore(runtime);
+            if (!store) return "";
+
+            const lines = getFundingMarkets(runtime)
+                .map((market) =>
+                    store.getStats(market, PROVIDER_CONFIG.WINDOW_DAYS)
+                )
+                .filter(Boolean)
+                .map(formatFundingStats);
+
+            if (lines.length === 0) return "No funding history recorded yet.";
+            return `💸 Perp Funding & Basis (${PROVIDER_CONFIG.WINDOW_DAYS}d)\n\n${lines.join("\n")}`;
+        } catch (error) {
+            console.error("Error in funding provider:", error);
+            return "Unable to read funding history.";
+        }
+    },
+};
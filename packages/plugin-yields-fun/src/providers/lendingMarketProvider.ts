@@ -0,0 +1,112 @@
+import { IAgentRuntime, Memory, Provider, State } from "@ai16z/eliza";
+import { Connection } from "@solana/web3.js";
+import { LendingMarket, LendingReserve } from "../types/lending";
+import { getKink, projectDepositApy } from "../utils/rateCurve";
+import { getRiskModel } from "../utils/riskModel";
+import { LuloProvider } from "./luloProvider";
+
+const PROVIDER_CONFIG = {
+    DEFAULT_RPC: "https://api.mainnet-beta.solana.com",
+    // Deposit size shown in the report's "after deposit" line
+    DEFAULT_PROJECTION_USD: 100_000,
+};
+
+/**
+ * Builds the lending markets configured in runtime settings. Lulo is only
+ * included when an API key is set.
+ */
+export function getLendingMarkets(runtime: IAgentRuntime): LendingMarket[] {
+    const markets: LendingMarket[] = [];
+
+    const luloApiKey = runtime.getSetting("FLEXLEND_API_KEY");
+    if (luloApiKey) {
+        markets.push(
+            new LuloProvider(
+                new Connection(
+                    runtime.getSetting("RPC_URL") || PROVIDER_CONFIG.DEFAULT_RPC
+                ),
+                runtime.cacheManager,
+                luloApiKey,
+                getRiskModel(runtime)
+            )
+        );
+    }
+
+    return markets;
+}
+
+/**
+ * Reserves from every market. A failing market is logged and skipped.
+ */
+export async function getLendingReserves(
+    markets: LendingMarket[]
+): Promise<LendingReserve[]> {
+    const results = await Promise.allSettled(
+        markets.map((market) => market.getReserves())
+    );
+
+    return results.flatMap((result, i) => {
+        if (result.status === "rejected") {
+            console.error(
+                `Error fetching ${markets[i].protocol} reserves:`,
+                result.reason
+            );
+            return [];
+        }
+        return result.value;
+    });
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export function formatLendingReserves(
+    reserves: LendingReserve[],
+    projectionUsd: number = PROVIDER_CONFIG.DEFAULT_PROJECTION_USD
+): string {
+    let report = "🏦 Lending Markets\n";
+
+    for (const reserve of [...reserves].sort((a, b) => b.apy - a.apy)) {
+        const kink = getKink(reserve.curve);
+        const projected = projectDepositApy(reserve, projectionUsd);
+
+        report += `\n${reserve.token} on ${reserve.protocol}\n`;
+        report += `Supply APY: ${reserve.apy.toFixed(2)}% | Borrow APY: ${reserve.borrowApy.toFixed(2)}%\n`;
+        report += `Utilization: ${pct(reserve.utilization)}`;
+        if (kink) report += ` (kink at ${pct(kink.utilization)})`;
+        report += `\nSupplied: $${Math.round(reserve.tvl).toLocaleString()} | Withdrawable: $${Math.round(reserve.availableLiquidity).toLocaleString()}\n`;
+        report += `After a $${projectionUsd.toLocaleString()} deposit: ${projected.apy.toFixed(2)}% APY at ${pct(projected.utilization)} utilization\n`;
+    }
+
+    return report;
+}
+
+export const lendingMarketProvider: Provider = {
+    get: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        _state?: State
+    ): Promise<string> => {
+        try {
+            const markets = getLendingMarkets(runtime);
+            if (markets.length === 0) {
+                return "No lending markets configured";
+            }
+
+            const reserves = await getLendingReserves(markets);
+            if (reserves.length === 0) {
+                return "No lending reserves available right now.";
+            }
+
+            const projectionUsd = parseFloat(
+                runtime.getSetting("YIELDS_FUN_LENDING_PROJECTION_USD")
+            );
+            return formatLendingReserves(
+                reserves,
+                projectionUsd > 0 ? projectionUsd : undefined
+            );
+        } catch (error) {
+            console.error("Error in lending market provider:", error);
+            return "Unable to fetch lending markets. Please try again later.";
+        }
+    },
+};
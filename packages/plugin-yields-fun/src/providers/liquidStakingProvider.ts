@@ -0,0 +1,253 @@
+import { IAgentRuntime, Memory, Provider, State } from "@ai16z/eliza";
+import { Connection } from "@solana/web3.js";
+import axios from "axios";
+import NodeCache from "node-cache";
+import { LstInfo, LstMetrics } from "../types/staking";
+import { YieldOpportunity } from "../types/yield";
+import { JupiterSwapClient } from "../utils/jupiterSwap";
+import { getRiskModel, RiskModel, WeightedRiskModel } from "../utils/riskModel";
+
+export const WSOL_MINT = "So11111111111111111111111111111111111111112";
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+const PROVIDER_CONFIG = {
+    SANCTUM_API_URL: "https://extra-api.sanctum.so/v1",
+    DEFAULT_RPC: "https://api.mainnet-beta.solana.com",
+    CACHE_TTL: 300, // 5 minutes
+    // LST sold per quote when measuring the market rate
+    MARKET_PROBE_LAMPORTS: 10n * 1_000_000_000n,
+    SLOT_SECONDS: 0.4,
+};
+
+// Every LST here has 9 decimals like SOL
+export const LST_REGISTRY: LstInfo[] = [
+    {
+        symbol: "mSOL",
+        protocol: "Marinade",
+        mint: "mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So",
+        program: "marinade",
+        poolAddress: "8szGkuLTAux9XMgZ2vtY39jVSowEcpBfFfD8hXSEqdGC",
+        protocolRisk: 3,
+    },
+    {
+        symbol: "jitoSOL",
+        protocol: "Jito",
+        mint: "J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn",
+        program: "spl-stake-pool",
+        poolAddress: "Jito4APyf642JPZPx3hGc6WWJ8zPKtRbRs4P815Awbb",
+        protocolRisk: 3,
+    },
+    {
+        symbol: "bSOL",
+        protocol: "BlazeStake",
+        mint: "bSo13r4TkiE4KumL71LsHTPpL2euBYLFx6h9HP3piy1",
+        program: "spl-stake-pool",
+        poolAddress: "stk9ApL5HeVAwPLr3TLhDXdZS8ptVu7zp6ov8HFDuMi",
+        protocolRisk: 4,
+    },
+    {
+        symbol: "JSOL",
+        protocol: "JPool",
+        mint: "7Q2afV64in6N6SeZsAAB81TJzwDoD6zpqmHkzi9Dcavn",
+        program: "spl-stake-pool",
+        poolAddress: "CtMyWsrUtAwXWiGr9WjHT5fC3p3fgV8cyGpLTo2LJzG1",
+        protocolRisk: 5,
+    },
+];
+
+/**
+ * Compares liquid staking tokens: staking APY, TVL and the stake pool
+ * exchange rate come from Sanctum's stats API, the market rate from a
+ * Jupiter quote, so the depeg is what selling the LST costs right now.
+ */
+export class LiquidStakingProvider {
+    private cache: NodeCache;
+
+    constructor(
+        private connection: Connection,
+        private swapClient: JupiterSwapClient = new JupiterSwapClient(
+            connection
+        ),
+        private riskModel: RiskModel = new WeightedRiskModel(),
+        private lsts: LstInfo[] = LST_REGISTRY
+    ) {
+        this.cache = new NodeCache({ stdTTL: PROVIDER_CONFIG.CACHE_TTL });
+    }
+
+    async getLstMetrics(): Promise<LstMetrics[]> {
+        const cacheKey = "lst_metrics";
+        const cached = this.cache.get<LstMetrics[]>(cacheKey);
+        if (cached) return cached;
+
+        const mints = this.lsts.map((lst) => lst.mint);
+        const [apys, solValues, tvls, delay] = await Promise.all([
+            this.fetchSanctum<number>("apy/latest", "apys", mints),
+            this.fetchSanctum<string>("sol-value/current", "solValues", mints),
+            this.fetchSanctum<string>("tvl/current", "tvls", mints),
+            this.getUnstakeDelaySeconds(),
+        ]);
+
+        const metrics: LstMetrics[] = [];
+        for (const lst of this.lsts) {
+            const exchangeRate = Number(solValues[lst.mint]) / 1e9;
+            if (!(exchangeRate > 0)) continue;
+
+            const marketRate = await this.getMarketRate(lst.mint).catch(
+                (error) => {
+                    console.error(
+                        `Error quoting ${lst.symbol} market rate:`,
+                        error
+                    );
+                    return exchangeRate;
+                }
+            );
+
+            metrics.push({
+                ...lst,
+                apy: (apys[lst.mint] ?? 0) * 100,
+                exchangeRate,
+                marketRate,
+                depegBps: (marketRate / exchangeRate - 1) * 10_000,
+                unstakeDelaySeconds: delay,
+                tvlSol: Number(tvls[lst.mint] ?? 0) / 1e9,
+            });
+        }
+
+        this.cache.set(cacheKey, metrics);
+        return metrics;
+    }
+
+    async getStakingOpportunities(): Promise<YieldOpportunity[]> {
+        try {
+            const [metrics, solPrice] = await Promise.all([
+                this.getLstMetrics(),
+                this.getSolPriceUsd(),
+            ]);
+
+            return metrics.map((lst) => ({
+                protocol: lst.protocol,
+                type: "STAKING",
+                apy: lst.apy,
+                tvl: lst.tvlSol * solPrice,
+                risk: this.calculateRisk(lst, solPrice),
+                tokens: ["SOL", lst.symbol],
+                address: lst.mint,
+                description: `${lst.protocol} liquid staking (${lst.symbol}), ${formatDepeg(lst.depegBps)} vs stake pool`,
+            }));
+        } catch (error) {
+            console.error(
+                "Error fetching liquid staking opportunities:",
+                error
+            );
+            return [];
+        }
+    }
+
+    async getSolPriceUsd(): Promise<number> {
+        const cacheKey = "sol_price";
+        const cached = this.cache.get<number>(cacheKey);
+        if (cached) return cached;
+
+        const quote = await this.swapClient.quote(
+            WSOL_MINT,
+            USDC_MINT,
+            1_000_000_000n
+        );
+        const price = Number(quote.outAmount) / 1e6;
+        this.cache.set(cacheKey, price);
+        return price;
+    }
+
+    // SOL per LST when selling MARKET_PROBE_LAMPORTS on Jupiter
+    private async getMarketRate(mint: string): Promise<number> {
+        const quote = await this.swapClient.quote(
+            mint,
+            WSOL_MINT,
+            PROVIDER_CONFIG.MARKET_PROBE_LAMPORTS
+        );
+        return Number(quote.outAmount) / Number(quote.inAmount);
+    }
+
+    // Stake deactivates at the end of the current epoch
+    private async getUnstakeDelaySeconds(): Promise<number> {
+        const epoch = await this.connection.getEpochInfo();
+        return Math.round(
+            (epoch.slotsInEpoch - epoch.slotIndex) *
+                PROVIDER_CONFIG.SLOT_SECONDS
+        );
+    }
+
+    private async fetchSanctum<T>(
+        path: string,
+        field: string,
+        mints: string[]
+    ): Promise<Record<string, T>> {
+        // The API takes the lst parameter repeated, not as lst[]
+        const query = mints.map((mint) => `lst=${mint}`).join("&");
+        const { data } = await axios.get(
+            `${PROVIDER_CONFIG.SANCTUM_API_URL}/${path}?${query}`
+        );
+        return data?.[field] ?? {};
+    }
+
+    private calculateRisk(lst: LstMetrics, solPrice: number): number {
+        // A discount means holders are exiting or the pool is distrusted
+        const discount = Math.max(-lst.depegBps, 0);
+        let counterpartyRisk = 1;
+        if (discount > 100) counterpartyRisk = 7;
+        else if (discount > 30) counterpartyRisk = 4;
+
+        return this.riskModel.calculate({
+            type: "STAKING",
+            tvl: lst.tvlSol * solPrice,
+            protocolRisk: lst.protocolRisk,
+            counterpartyRisk,
+        }).score;
+    }
+}
+
+export function getLiquidStakingProvider(
+    runtime: IAgentRuntime
+): LiquidStakingProvider {
+    const connection = new Connection(
+        runtime.getSetting("RPC_URL") || PROVIDER_CONFIG.DEFAULT_RPC
+    );
+    return new LiquidStakingProvider(
+        connection,
+        new JupiterSwapClient(connection),
+        getRiskModel(runtime)
+    );
+}
+
+const formatDepeg = (bps: number) =>
+    `${bps >= 0 ? "+" : ""}${(bps / 100).toFixed(2)}%`;
+
+export function formatLstMetrics(metrics: LstMetrics[]): string {
+    let report = "💧 Liquid Staking Comparison\n";
+
+    for (const lst of [...metrics].sort((a, b) => b.apy - a.apy)) {
+        report += `\n${lst.symbol} (${lst.protocol})\n`;
+        report += `APY: ${lst.apy.toFixed(2)}% | TVL: ${Math.round(lst.tvlSol).toLocaleString()} SOL\n`;
+        report += `Rate: ${lst.exchangeRate.toFixed(4)} SOL | Market: ${lst.marketRate.toFixed(4)} SOL (${formatDepeg(lst.depegBps)})\n`;
+        report += `Unstake delay: ${(lst.unstakeDelaySeconds / 3600).toFixed(1)}h\n`;
+    }
+
+    return report;
+}
+
+export const liquidStakingProvider: Provider = {
+    get: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        _state?: State
+    ): Promise<string> => {
+        try {
+            const metrics =
+                await getLiquidStakingProvider(runtime).getLstMetrics();
+            return formatLstMetrics(metrics);
+        } catch (error) {
+            console.error("Error in liquid staking provider:", error);
+            return "Unable to fetch liquid staking data. Please try again later.";
+        }
+    },
+};
@@ -2,7 +2,9 @@ import { Connection, PublicKey } from "@solana/web3.js";
 import { ICacheManager } from "@ai16z/eliza";
 import NodeCache from "node-cache";
 import { YieldOpportunity } from "../types/yield";
+import { LendingMarket, LendingReserve, RateCurve } from "../types/lending";
 import BigNumber from "bignumber.js";
+import { RiskModel, WeightedRiskModel } from "../utils/riskModel";
 
 interface LuloAccountData {
     totalValue: number;
@@ -24,6 +26,27 @@ interface LuloOpportunity {
     minimumDeposit: number;
 }
 
+interface LuloPoolData {
+    mint: string;
+    symbol: string;
+    // USD supplied and USD not currently lent out
+    totalLiquidity: number;
+    availableLiquidity: number;
+    apy: number;
+}
+
+// Lulo does not publish a curve of its own, it moves deposits between the
+// Kamino, MarginFi and Solend reserves, which all kink around 80-90%. Only
+// the shape matters for deposit projections.
+export const LULO_RATE_CURVE: RateCurve = {
+    points: [
+        { utilization: 0, borrowApy: 0 },
+        { utilization: 0.85, borrowApy: 12 },
+        { utilization: 1, borrowApy: 100 },
+    ],
+    reserveFactor: 0.1,
+};
+
 const PROVIDER_CONFIG = {
     API_URL: "https://api.flexlend.fi",
     MAX_RETRIES: 3,
@@ -31,7 +54,8 @@ const PROVIDER_CONFIG = {
     CACHE_TTL: 300, // 5 minutes
 };
 
-export class LuloProvider {
+export class LuloProvider implements LendingMarket {
+    readonly protocol = "LuLo";
     private cache: NodeCache;
     private connection: Connection;
     private apiKey: string;
@@ -39,7 +63,8 @@ export class LuloProvider {
     constructor(
         connection: Connection,
         private cacheManager: ICacheManager,
-        apiKey: string
+        apiKey: string,
+        private riskModel: RiskModel = new WeightedRiskModel()
     ) {
         this.cache = new NodeCache({ stdTTL: PROVIDER_CONFIG.CACHE_TTL });
         this.connection = connection;
@@ -80,6 +105,61 @@ export class LuloProvider {
         }
     }
 
+    async getReserves(): Promise<LendingReserve[]> {
+        const cacheKey = "lulo_reserves";
+        const cached = this.cache.get<LendingReserve[]>(cacheKey);
+        if (cached) return cached;
+
+        try {
+            const response = await fetch(`${PROVIDER_CONFIG.API_URL}/pools`, {
+                headers: { "x-api-key": this.apiKey },
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP error! status: ${response.status}`);
+            }
+
+            const { data } = await response.json();
+            const reserves = (data as LuloPoolData[]).map((pool) =>
+                this.toReserve(pool)
+            );
+
+            this.cache.set(cacheKey, reserves);
+            return reserves;
+        } catch (error) {
+            console.error("Error fetching LuLo reserves:", error);
+            return [];
+        }
+    }
+
+    // Borrow APY is implied from the supply APY, since suppliers earn the
+    // borrow rate on the lent-out share less the reserve factor
+    private toReserve(pool: LuloPoolData): LendingReserve {
+        const totalBorrowed = Math.max(
+            pool.totalLiquidity - pool.availableLiquidity,
+            0
+        );
+        const utilization =
+            pool.totalLiquidity > 0 ? totalBorrowed / pool.totalLiquidity : 0;
+
+        return {
+            protocol: this.protocol,
+            address: pool.mint,
+            mint: pool.mint,
+            token: pool.symbol,
+            apy: pool.apy,
+            tvl: pool.totalLiquidity,
+            utilization,
+            borrowApy:
+                utilization > 0
+                    ? pool.apy /
+                      (utilization * (1 - LULO_RATE_CURVE.reserveFactor))
+                    : 0,
+            totalBorrowed,
+            availableLiquidity: pool.availableLiquidity,
+            curve: LULO_RATE_CURVE,
+        };
+    }
+
     private async fetchAccountData(
         walletAddress: string
     ): Promise<LuloAccountData> {
@@ -108,26 +188,27 @@ export class LuloProvider {
         // 1. Protocol diversification
         // 2. Minimum rate setting
         // 3. Total value locked
-        // 4. Historical performance
-        let risk = 3; // Base risk score - LuLo has good protocol diversification
+        const protocolRisk = 3; // LuLo has good protocol diversification
+        let counterpartyRisk = 0;
 
         // Protocol diversification risk
         const protocolCount =
             accountData.settings.allowedProtocols.split(",").length;
-        if (protocolCount < 2) risk += 3;
-        else if (protocolCount < 3) risk += 2;
-        else if (protocolCount < 4) risk += 1;
+        if (protocolCount < 2) counterpartyRisk += 6;
+        else if (protocolCount < 3) counterpartyRisk += 4;
+        else if (protocolCount < 4) counterpartyRisk += 2;
 
         // Minimum rate risk (higher minimum rate means higher risk as it may miss opportunities)
         const minRate = parseFloat(accountData.settings.minimumRate);
-        if (minRate > 8) risk += 2;
-        else if (minRate > 5) risk += 1;
-
-        // TVL risk
-        if (accountData.totalValue < 10000) risk += 2;
-        else if (accountData.totalValue < 100000) risk += 1;
+        if (minRate > 8) counterpartyRisk += 4;
+        else if (minRate > 5) counterpartyRisk += 2;
 
-        return Math.min(risk, 10); // Cap at 10
+        return this.riskModel.calculate({
+            type: "LENDING",
+            tvl: accountData.totalValue,
+            protocolRisk,
+            counterpartyRisk,
+        }).score;
     }
 
     async getAccountStats(walletAddress: string): Promise<string> {
@@ -3,6 +3,7 @@ import { ICacheManager } from "@ai16z/eliza";
 import NodeCache from "node-cache";
 import { YieldOpportunity } from "../types/yield";
 import BigNumber from "bignumber.js";
+import { RiskModel, WeightedRiskModel } from "../utils/riskModel";
 
 interface MarinadeStakeData {
     totalStaked: number;
@@ -39,7 +40,8 @@ export class MarinadeProvider {
 
     constructor(
         connection: Connection,
-        private cacheManager: ICacheManager
+        private cacheManager: ICacheManager,
+        private riskModel: RiskModel = new WeightedRiskModel()
     ) {
         this.cache = new NodeCache({ stdTTL: PROVIDER_CONFIG.CACHE_TTL });
         this.connection = connection;
@@ -142,39 +144,48 @@ export class MarinadeProvider {
         // 1. Validator concentration
         // 2. Average validator score
         // 3. Protocol security (fixed score based on audits, TVL history, etc.)
-        let risk = 3; // Base risk score - Marinade is considered relatively safe
+        const protocolRisk = 3; // Marinade is considered relatively safe
+        let counterpartyRisk = 0;
 
         // Validator concentration risk
         const validatorRatio =
             stakeData.validatorCount / stakeData.totalValidators;
-        if (validatorRatio < 0.3) risk += 2;
-        else if (validatorRatio < 0.5) risk += 1;
+        if (validatorRatio < 0.3) counterpartyRisk += 4;
+        else if (validatorRatio < 0.5) counterpartyRisk += 2;
 
         // Average validator score risk
         const avgScore =
             validators.reduce((sum, v) => sum + v.score, 0) / validators.length;
-        if (avgScore < 70) risk += 2;
-        else if (avgScore < 85) risk += 1;
-
-        return Math.min(risk, 10); // Cap at 10
+        if (avgScore < 70) counterpartyRisk += 4;
+        else if (avgScore < 85) counterpartyRisk += 2;
+
+        return this.riskModel.calculate({
+            type: "STAKING",
+            tvl: stakeData.totalStaked,
+            protocolRisk,
+            counterpartyRisk,
+        }).score;
     }
 
     private calculateValidatorRisk(validator: ValidatorInfo): number {
-        let risk = 4; // Base risk score - individual validators are riskier than the pool
+        const protocolRisk = 4; // Individual validators are riskier than the pool
+        let counterpartyRisk = 0;
 
         // Commission risk
-        if (validator.commission > 10) risk += 1;
+        if (validator.commission > 10) counterpartyRisk += 2;
 
         // Score risk
-        if (validator.score < 70) risk += 3;
-        else if (validator.score < 85) risk += 2;
-        else if (validator.score < 95) risk += 1;
-
-        // Stake concentration risk
-        if (validator.activeStake < 100000) risk += 2;
-        else if (validator.activeStake < 500000) risk += 1;
-
-        return Math.min(risk, 10); // Cap at 10
+        if (validator.score < 70) counterpartyRisk += 6;
+        else if (validator.score < 85) counterpartyRisk += 4;
+        else if (validator.score < 95) counterpartyRisk += 2;
+
+        // Stake concentration is captured by the model's liquidity depth
+        return this.riskModel.calculate({
+            type: "STAKING",
+            tvl: validator.activeStake,
+            protocolRisk,
+            counterpartyRisk,
+        }).score;
     }
 }
 
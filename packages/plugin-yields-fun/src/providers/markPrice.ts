@@ -0,0 +1,64 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { Connection } from "@solana/web3.js";
+import { MeteoraDlmmActions } from "../actions/meteoraDlmmActions";
+import { RaydiumClmActions } from "../actions/raydiumClmActions";
+import { OrcaProvider } from "./orcaProvider";
+import { OxProvider } from "./oxProvider";
+
+/**
+ * Current price of a pool or market on the venue a position was opened on.
+ * Falls back to `fallbackPrice` (usually the entry price) when the venue
+ * cannot be read, and for lending positions which are tracked at par.
+ */
+export async function getMarkPrice(
+    runtime: IAgentRuntime,
+    protocol: string,
+    pool: string,
+    fallbackPrice: number
+): Promise<number> {
+    const connection = new Connection(
+        runtime.getSetting("RPC_URL") || "https://api.mainnet-beta.solana.com"
+    );
+
+    try {
+        switch (protocol) {
+            case "Raydium": {
+                const quote = await new RaydiumClmActions().getPoolQuoteById(
+                    pool
+                );
+                return quote?.price ?? fallbackPrice;
+            }
+
+            case "Orca": {
+                const whirlpool = await new OrcaProvider(
+                    connection
+                ).getWhirlpool(pool);
+                return whirlpool?.price ?? fallbackPrice;
+            }
+
+            case "Meteora": {
+                const { price } = await new MeteoraDlmmActions(
+                    connection
+                ).getPoolQuote(pool);
+                return price;
+            }
+
+            case "OX": {
+                const provider = new OxProvider({
+                    apiKey: runtime.getSetting("OX_API_KEY"),
+                    apiSecret: runtime.getSetting("OX_API_SECRET"),
+                    isTestnet: runtime.getSetting("OX_TESTNET") === "true",
+                });
+                const ticker = await provider.getTicker(pool);
+                const price = parseFloat(ticker?.data?.[0]?.markPrice);
+                return Number.isFinite(price) ? price : fallbackPrice;
+            }
+
+            default:
+                return fallbackPrice;
+        }
+    } catch (error) {
+        console.error(`Error fetching ${protocol} mark price:`, error);
+        return fallbackPrice;
+    }
+}
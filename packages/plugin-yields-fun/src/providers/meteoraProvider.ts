@@ -3,6 +3,7 @@ import { YieldProvider } from "./yieldProvider";
 import { ICacheManager } from "@ai16z/eliza";
 import { YieldOpportunity, PoolData, RiskMetrics } from "../types/yield";
 import BigNumber from "bignumber.js";
+import { RiskModel } from "../utils/riskModel";
 
 interface MeteoraPool {
     address: string;
@@ -30,9 +31,10 @@ export class MeteoraProvider extends YieldProvider {
         connection: Connection,
         walletPublicKey: PublicKey,
         cacheManager: ICacheManager,
-        apiKey: string
+        apiKey: string,
+        riskModel?: RiskModel
     ) {
-        super(connection, walletPublicKey, cacheManager);
+        super(connection, walletPublicKey, cacheManager, riskModel);
         this.meteoraApiUrl = `https://api.meteora.ag/v1`;
     }
 
@@ -94,37 +96,15 @@ export class MeteoraProvider extends YieldProvider {
     }
 
     private calculatePoolRisk(pool: MeteoraPool): RiskMetrics {
-        // Implement risk calculation specific to Meteora pools
-        const volumeToTvlRatio = new BigNumber(pool.volume24h).dividedBy(
-            pool.tvl
-        );
-        const volatilityScore = volumeToTvlRatio.multipliedBy(10).toNumber();
-
-        // Calculate impermanent loss risk based on volume and TVL
-        const ilRisk = Math.min(volatilityScore * 1.5, 10);
-
-        // Calculate liquidity depth score
-        const liquidityScore = Math.min(
-            new BigNumber(pool.tvl).dividedBy(1000000).toNumber(),
-            10
-        );
-
         // Protocol risk score for Meteora (can be adjusted based on protocol security)
         const protocolRisk = 3;
 
-        // Calculate overall risk score
-        const score =
-            (volatilityScore + ilRisk + (10 - liquidityScore) + protocolRisk) /
-            4;
-
-        return {
-            volatility: volatilityScore,
-            impermanentLoss: ilRisk,
-            liquidityDepth: liquidityScore,
-            counterpartyRisk: 0, // No counterparty risk in AMMs
-            protocolRisk,
-            score,
-        };
+        return this.calculateBaseRiskMetrics(
+            pool.tvl,
+            pool.volume24h,
+            undefined,
+            protocolRisk
+        );
     }
 
     async getYieldOpportunities(): Promise<YieldOpportunity[]> {
@@ -176,7 +156,9 @@ export const meteoraProvider = {
             const connection = new Connection(runtime.getSetting("RPC_URL"));
             const provider = new MeteoraProvider(
                 connection,
-                runtime.cacheManager
+                null,
+                runtime.cacheManager,
+                runtime.getSetting("METEORA_API_KEY")
             );
             const opportunities = await provider.getYieldOpportunities();
 
@@ -7,15 +7,110 @@ import {
     fetchWhirlpoolsByTokenPair,
     setWhirlpoolsConfig,
 } from "@orca-so/whirlpools";
+import axios from "axios";
+import NodeCache from "node-cache";
+import { YieldOpportunity } from "../types/yield";
+import { RiskModel, WeightedRiskModel } from "../utils/riskModel";
+
+export interface OrcaWhirlpoolListItem {
+    address: string;
+    tokenA: { mint: string; symbol: string; decimals: number };
+    tokenB: { mint: string; symbol: string; decimals: number };
+    tickSpacing: number;
+    price: number;
+    lpFeeRate: number;
+    tvl: number;
+    volume?: { day: number; week: number; month: number };
+    totalApr?: { day: number; week: number; month: number };
+}
+
+const PROVIDER_CONFIG = {
+    API_URL: "https://api.mainnet.orca.so/v1",
+    CACHE_TTL: 300, // 5 minutes
+    MIN_TVL: 10000,
+};
 
 export class OrcaProvider {
     private connection: Connection;
+    private cache: NodeCache;
+    private riskModel: RiskModel;
 
-    constructor(connection: Connection) {
+    constructor(
+        connection: Connection,
+        riskModel: RiskModel = new WeightedRiskModel()
+    ) {
         this.connection = connection;
+        this.riskModel = riskModel;
+        this.cache = new NodeCache({ stdTTL: PROVIDER_CONFIG.CACHE_TTL });
         setWhirlpoolsConfig("mainnet");
     }
 
+    private async getWhirlpoolList(): Promise<OrcaWhirlpoolListItem[]> {
+        const cacheKey = "orca_whirlpool_list";
+        const cached = this.cache.get<OrcaWhirlpoolListItem[]>(cacheKey);
+        if (cached) return cached;
+
+        const response = await axios.get<{
+            whirlpools: OrcaWhirlpoolListItem[];
+        }>(`${PROVIDER_CONFIG.API_URL}/whirlpool/list`);
+
+        const whirlpools = response.data.whirlpools || [];
+        this.cache.set(cacheKey, whirlpools);
+        return whirlpools;
+    }
+
+    /**
+     * Current price and APR of a single whirlpool from the public list API.
+     */
+    async getWhirlpool(address: string): Promise<OrcaWhirlpoolListItem | null> {
+        try {
+            const whirlpools = await this.getWhirlpoolList();
+            return whirlpools.find((pool) => pool.address === address) || null;
+        } catch (error) {
+            console.error("Error fetching Orca whirlpool:", error);
+            return null;
+        }
+    }
+
+    async getYieldOpportunities(): Promise<YieldOpportunity[]> {
+        const cacheKey = "orca_whirlpool_opportunities";
+        const cached = this.cache.get<YieldOpportunity[]>(cacheKey);
+        if (cached) return cached;
+
+        try {
+            const whirlpools = await this.getWhirlpoolList();
+
+            const opportunities: YieldOpportunity[] = whirlpools
+                .filter((pool) => pool.tvl >= PROVIDER_CONFIG.MIN_TVL)
+                .map((pool) => ({
+                    protocol: "Orca",
+                    type: "LP",
+                    // Orca reports APR as a fraction, e.g. 0.25 for 25%
+                    apy: (pool.totalApr?.day ?? 0) * 100,
+                    tvl: pool.tvl,
+                    risk: this.calculatePoolRisk(pool),
+                    tokens: [pool.tokenA.symbol, pool.tokenB.symbol],
+                    address: pool.address,
+                    description: `Orca Whirlpool for ${pool.tokenA.symbol}/${pool.tokenB.symbol} with ${(pool.lpFeeRate * 100).toFixed(2)}% fee`,
+                }));
+
+            this.cache.set(cacheKey, opportunities);
+            return opportunities;
+        } catch (error) {
+            console.error("Error fetching Orca opportunities:", error);
+            return [];
+        }
+    }
+
+    private calculatePoolRisk(pool: OrcaWhirlpoolListItem): number {
+        return this.riskModel.calculate({
+            type: "LP",
+            tvl: pool.tvl,
+            volume24h: pool.volume?.day ?? 0,
+            protocolRisk: 3, // Whirlpools are audited and battle-tested
+        }).score;
+    }
+
     async fetchSplashPool(tokenMintA: PublicKey, tokenMintB: PublicKey) {
         try {
             const poolInfo = await fetchSplashPool(
@@ -0,0 +1,143 @@
+import { IAgentRuntime, Memory, Provider, State } from "@ai16z/eliza";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import { getMarkPrice } from "./markPrice";
+import {
+    getExecutionMode,
+    PaperLedger,
+    PaperValuation,
+    valuePaperPosition,
+} from "../utils/paperTrading";
+import { getPositionLedger } from "../utils/positionLedger";
+
+interface PositionReportLine {
+    label: string;
+    status: string;
+    notionalUsd: number;
+    valuation: PaperValuation;
+}
+
+/**
+ * Marks a ledger position to the current price. Fee income is not tracked on
+ * chain yet, so unrealized PnL here is price-driven only.
+ */
+export function valueLedgerPosition(
+    position: LedgerPosition,
+    currentPrice: number
+): PaperValuation {
+    return valuePaperPosition(
+        {
+            // Staked SOL is held at par like lending deposits
+            kind: position.kind === "STAKING" ? "LENDING" : position.kind,
+            entryPrice: position.entryPrice,
+            notionalUsd: position.notionalUsd,
+            apr: 0,
+            openedAt: position.openedAt.getTime(),
+            lowerPrice: position.lowerPrice,
+            upperPrice: position.upperPrice,
+            side: position.side,
+        },
+        currentPrice
+    );
+}
+
+function formatLine(line: PositionReportLine, index: number): string {
+    const { valuation } = line;
+    const pnlSign = valuation.pnlUsd >= 0 ? "+" : "";
+
+    let text = `${index + 1}. ${line.label} [${line.status}${valuation.inRange ? "" : ", out of range"}]\n`;
+    text += `Deposited: $${line.notionalUsd.toFixed(2)} | Value: $${valuation.valueUsd.toFixed(2)} | Unrealized PnL: ${pnlSign}$${valuation.pnlUsd.toFixed(2)}\n`;
+    if (valuation.impermanentLossUsd !== 0) {
+        text += `IL vs HODL: $${valuation.impermanentLossUsd.toFixed(2)}\n`;
+    }
+    return text + "\n";
+}
+
+async function getPaperLines(
+    runtime: IAgentRuntime
+): Promise<PositionReportLine[]> {
+    const positions = await new PaperLedger(runtime.cacheManager).list("open");
+
+    return Promise.all(
+        positions.map(async (position) => ({
+            label: `${position.protocol} ${position.kind} ${position.tokens.join("/")}`,
+            status: "paper",
+            notionalUsd: position.notionalUsd,
+            valuation: valuePaperPosition(
+                position,
+                await getMarkPrice(
+                    runtime,
+                    position.protocol,
+                    position.pool,
+                    position.entryPrice
+                )
+            ),
+        }))
+    );
+}
+
+async function getLedgerLines(
+    runtime: IAgentRuntime
+): Promise<PositionReportLine[]> {
+    const ledger = getPositionLedger(runtime);
+    if (!ledger) return [];
+
+    const positions = ledger
+        .list()
+        .filter((position) => position.status !== "closed");
+
+    return Promise.all(
+        positions.map(async (position) => ({
+            label: `${position.protocol} ${position.kind} ${position.positionMint ?? position.poolAddress}`,
+            status: position.status,
+            notionalUsd: position.notionalUsd,
+            valuation: valueLedgerPosition(
+                position,
+                await getMarkPrice(
+                    runtime,
+                    position.protocol,
+                    position.poolAddress,
+                    position.entryPrice
+                )
+            ),
+        }))
+    );
+}
+
+export const positionsProvider: Provider = {
+    get: async (
+        runtime: IAgentRuntime,
+        _message: Memory,
+        _state?: State
+    ): Promise<string> => {
+        try {
+            const paper = getExecutionMode(runtime) === "paper";
+            const lines = paper
+                ? await getPaperLines(runtime)
+                : await getLedgerLines(runtime);
+
+            if (lines.length === 0) {
+                return paper
+                    ? "No open paper positions."
+                    : "No open positions.";
+            }
+
+            const totalValue = lines.reduce(
+                (sum, line) => sum + line.valuation.valueUsd,
+                0
+            );
+            const totalPnl = lines.reduce(
+                (sum, line) => sum + line.valuation.pnlUsd,
+                0
+            );
+
+            let report = `📒 Open ${paper ? "Paper " : ""}Positions\n\n`;
+            report += lines.map(formatLine).join("");
+            report += `Total Value: $${totalValue.toFixed(2)} | Total Unrealized PnL: $${totalPnl.toFixed(2)}`;
+
+            return report;
+        } catch (error) {
+            console.error("Error in positions provider:", error);
+            return "Unable to fetch open positions. Please try again later.";
+        }
+    },
+};
@@ -1,14 +1,16 @@
 import { Connection, PublicKey, Keypair } from "@solana/web3.js";
 import { ICacheManager } from "@ai16z/eliza";
-import { ApiV3PoolInfoStandardItem } from "@raydium-io/raydium-sdk-v2";
+import { ApiV3PoolInfoConcentratedItem } from "@raydium-io/raydium-sdk-v2";
 import NodeCache from "node-cache";
 import { YieldOpportunity } from "../types/yield";
 import axios from "axios";
 import { initSdk } from "../config";
+import { RiskModel, WeightedRiskModel } from "../utils/riskModel";
 
 const PROVIDER_CONFIG = {
     DEFAULT_RPC: "https://api.mainnet-beta.solana.com",
     CACHE_TTL: 300, // 5 minutes
+    POOL_PAGE_SIZE: 100,
 };
 
 export class RaydiumProvider {
@@ -18,7 +20,8 @@ export class RaydiumProvider {
 
     constructor(
         connection: Connection,
-        private cacheManager: ICacheManager
+        private cacheManager: ICacheManager,
+        private riskModel: RiskModel = new WeightedRiskModel()
     ) {
         this.cache = new NodeCache({ stdTTL: PROVIDER_CONFIG.CACHE_TTL });
         this.connection = connection;
@@ -119,6 +122,50 @@ export class RaydiumProvider {
         }
     }
 
+    async getYieldOpportunities(): Promise<YieldOpportunity[]> {
+        const cacheKey = "raydium_clmm_opportunities";
+        const cached = this.cache.get<YieldOpportunity[]>(cacheKey);
+        if (cached) return cached;
+
+        try {
+            const sdk = await this.ensureSDKInitialized();
+            const { data: pools } = await sdk.api.getPoolList({
+                type: "concentrated",
+                sort: "liquidity",
+                order: "desc",
+                pageSize: PROVIDER_CONFIG.POOL_PAGE_SIZE,
+            });
+
+            const opportunities: YieldOpportunity[] = pools.map(
+                (pool: ApiV3PoolInfoConcentratedItem) => ({
+                    protocol: "Raydium",
+                    type: "LP",
+                    apy: pool.day?.apr ?? 0,
+                    tvl: pool.tvl,
+                    risk: this.calculatePoolRisk(pool),
+                    tokens: [pool.mintA.symbol, pool.mintB.symbol],
+                    address: pool.id,
+                    description: `Raydium CLMM pool for ${pool.mintA.symbol}/${pool.mintB.symbol} with ${(pool.feeRate * 100).toFixed(2)}% fee`,
+                })
+            );
+
+            this.cache.set(cacheKey, opportunities);
+            return opportunities;
+        } catch (error) {
+            console.error("Error fetching Raydium opportunities:", error);
+            return [];
+        }
+    }
+
+    private calculatePoolRisk(pool: ApiV3PoolInfoConcentratedItem): number {
+        return this.riskModel.calculate({
+            type: "LP",
+            tvl: pool.tvl,
+            volume24h: pool.day.volume,
+            protocolRisk: 3, // Raydium CLMM is audited and battle-tested
+        }).score;
+    }
+
     async getPoolLiquidity(poolId: string) {
         try {
             const poolState = await this.getPoolState(poolId);
@@ -1,173 +1,382 @@
-import { IAgentRuntime, Memory, Provider } from "@ai16z/eliza";
-import { TrustScoreManager } from "./trustScoreProvider";
-import { TokenProvider } from "./tokenProvider";
-import { ProcessedTokenData } from "../types/trustDB";
-
-export interface WatchlistEntry {
-    tokenAddress: string;
-    addedAt: Date;
-    lastChecked: Date;
-    alertThresholds: {
-        priceChangePercent: number;
-        volumeChangePercent: number;
-        liquidityChangePercent: number;
+import { IAgentRuntime, Memory, Provider, State } from "@ai16z/eliza";
+import {
+    TrustScoreDatabase,
+    WatchlistAlert,
+    WatchlistEntry,
+    WatchlistSnapshot,
+    WatchlistThresholds,
+} from "@ai16z/plugin-trustdb";
+import { DexScreenerProvider } from "./dexScreenerProvider";
+
+export const WATCHLIST_DEFAULTS: WatchlistThresholds = {
+    priceChangePercent: 5,
+    volumeChangePercent: 20,
+    liquidityChangePercent: 10,
+};
+
+const WATCHLIST_CONFIG = {
+    // Moves this many times past a threshold raise MEDIUM and HIGH alerts
+    MEDIUM_MULTIPLE: 2,
+    HIGH_MULTIPLE: 3,
+    // Alerts the provider reports alongside the watchlist
+    ALERT_LOOKBACK_HOURS: 24,
+};
+
+export type TokenSnapshot = WatchlistSnapshot & { symbol?: string };
+
+export interface WatchlistChanges {
+    priceChangePercent: number | null;
+    volumeChangePercent: number | null;
+    liquidityChangePercent: number | null;
+}
+
+const ALERT_METRICS: {
+    type: WatchlistAlert["alertType"];
+    label: string;
+    change: keyof WatchlistChanges;
+    threshold: keyof WatchlistThresholds;
+}[] = [
+    {
+        type: "PRICE",
+        label: "price",
+        change: "priceChangePercent",
+        threshold: "priceChangePercent",
+    },
+    {
+        type: "VOLUME",
+        label: "24h volume",
+        change: "volumeChangePercent",
+        threshold: "volumeChangePercent",
+    },
+    {
+        type: "LIQUIDITY",
+        label: "liquidity",
+        change: "liquidityChangePercent",
+        threshold: "liquidityChangePercent",
+    },
+];
+
+/**
+ * Current price, 24h volume and liquidity of a token across its Solana
+ * pairs. Price comes from the most liquid pair quoting the token as base.
+ */
+export async function getTokenSnapshot(
+    dexScreener: Pick<DexScreenerProvider, "getPairsByTokenAddress">,
+    tokenAddress: string,
+    timestamp: Date = new Date()
+): Promise<TokenSnapshot | null> {
+    const pairs = await dexScreener.getPairsByTokenAddress(tokenAddress);
+    const priced = pairs
+        .filter((pair) => pair.baseToken.address === tokenAddress)
+        .filter((pair) => parseFloat(pair.priceUsd) > 0)
+        .sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0));
+    if (priced.length === 0) return null;
+
+    return {
+        symbol: priced[0].baseToken.symbol,
+        price: parseFloat(priced[0].priceUsd),
+        volume24h: pairs.reduce(
+            (sum, pair) => sum + (pair.volume?.h24 ?? 0),
+            0
+        ),
+        liquidity: pairs.reduce(
+            (sum, pair) => sum + (pair.liquidity?.usd ?? 0),
+            0
+        ),
+        timestamp,
     };
-    isActive: boolean;
 }
 
-export class WatchlistProvider implements Provider {
-    private runtime: IAgentRuntime;
-    private trustScoreManager: TrustScoreManager;
-    private tokenProvider: TokenProvider;
-    private tableName = "watchlist_memories";
+const percentChange = (from: number, to: number): number | null =>
+    from > 0 ? ((to - from) / from) * 100 : null;
 
-    constructor(runtime: IAgentRuntime) {
-        this.runtime = runtime;
-        this.trustScoreManager = new TrustScoreManager(runtime);
-        this.tokenProvider = new TokenProvider(runtime);
-    }
+/**
+ * Percent changes of a snapshot against the watchlist baseline. A metric
+ * with a zero baseline has no meaningful change and is null.
+ */
+export function getWatchlistChanges(
+    baseline: WatchlistSnapshot,
+    current: WatchlistSnapshot
+): WatchlistChanges {
+    return {
+        priceChangePercent: percentChange(baseline.price, current.price),
+        volumeChangePercent: percentChange(
+            baseline.volume24h,
+            current.volume24h
+        ),
+        liquidityChangePercent: percentChange(
+            baseline.liquidity,
+            current.liquidity
+        ),
+    };
+}
 
-    async initialize(): Promise<void> {
-        // Register memory manager for watchlist
-        const memoryManager = this.runtime.getMemoryManager(this.tableName);
-        if (!memoryManager) {
-            await this.runtime.registerMemoryManager({
-                runtime: this.runtime,
-                tableName: this.tableName,
-            });
-        }
-    }
+export function getAlertSeverity(
+    changePercent: number,
+    thresholdPercent: number
+): WatchlistAlert["severity"] {
+    const multiple = Math.abs(changePercent) / thresholdPercent;
+    if (multiple >= WATCHLIST_CONFIG.HIGH_MULTIPLE) return "HIGH";
+    if (multiple >= WATCHLIST_CONFIG.MEDIUM_MULTIPLE) return "MEDIUM";
+    return "LOW";
+}
+
+/**
+ * Watches tokens against a baseline snapshot taken when they were added.
+ * Once a token alerts its baseline moves to the snapshot that triggered it,
+ * so the next alert needs a fresh move rather than repeating every check.
+ */
+export class WatchlistProvider {
+    constructor(
+        private db: TrustScoreDatabase,
+        private dexScreener: Pick<
+            DexScreenerProvider,
+            "getPairsByTokenAddress"
+        > = new DexScreenerProvider(),
+        private defaults: WatchlistThresholds = WATCHLIST_DEFAULTS
+    ) {}
 
     async addToWatchlist(
         tokenAddress: string,
-        alertThresholds?: Partial<WatchlistEntry["alertThresholds"]>
-    ): Promise<void> {
+        alertThresholds: Partial<WatchlistThresholds> = {},
+        roomId?: string,
+        now: Date = new Date()
+    ): Promise<WatchlistEntry> {
+        const snapshot = await getTokenSnapshot(
+            this.dexScreener,
+            tokenAddress,
+            now
+        );
+        if (!snapshot) {
+            throw new Error(`No Solana market found for ${tokenAddress}`);
+        }
+
+        const { symbol, ...baseline } = snapshot;
         const entry: WatchlistEntry = {
             tokenAddress,
-            addedAt: new Date(),
-            lastChecked: new Date(),
-            alertThresholds: {
-                priceChangePercent: alertThresholds?.priceChangePercent || 5,
-                volumeChangePercent: alertThresholds?.volumeChangePercent || 20,
-                liquidityChangePercent:
-                    alertThresholds?.liquidityChangePercent || 10,
-            },
+            symbol,
+            roomId,
+            addedAt: now,
+            lastChecked: now,
+            alertThresholds: { ...this.defaults, ...alertThresholds },
+            baseline,
             isActive: true,
         };
-
-        const memory: Memory = {
-            id: `${tokenAddress}-${Date.now()}`,
-            content: { text: JSON.stringify(entry) },
-            roomId: this.runtime.roomId,
-            userId: this.runtime.userId,
-            agentId: this.runtime.agentId,
-            createdAt: Date.now(),
-        };
-
-        const memoryManager = this.runtime.getMemoryManager(this.tableName);
-        await memoryManager.createMemory(memory, true);
-    }
-
-    async removeFromWatchlist(tokenAddress: string): Promise<void> {
-        const memoryManager = this.runtime.getMemoryManager(this.tableName);
-        const memories = await memoryManager.getMemories({
-            roomId: this.runtime.roomId,
-        });
-
-        for (const memory of memories) {
-            const entry: WatchlistEntry = JSON.parse(memory.content.text);
-            if (entry.tokenAddress === tokenAddress) {
-                await memoryManager.removeMemory(memory.id);
-            }
+        if (!this.db.addToWatchlist(entry)) {
+            throw new Error(`Could not add ${tokenAddress} to the watchlist`);
         }
+        return entry;
     }
 
-    async getWatchlist(): Promise<WatchlistEntry[]> {
-        const memoryManager = this.runtime.getMemoryManager(this.tableName);
-        const memories = await memoryManager.getMemories({
-            roomId: this.runtime.roomId,
-        });
-
-        return memories.map((memory) => JSON.parse(memory.content.text));
+    removeFromWatchlist(tokenAddress: string): boolean {
+        return this.db.removeFromWatchlist(tokenAddress);
     }
 
-    async checkWatchlistAlerts(): Promise<
-        {
-            tokenAddress: string;
-            alerts: string[];
-        }[]
-    > {
-        const watchlist = await this.getWatchlist();
-        const alerts: { tokenAddress: string; alerts: string[] }[] = [];
+    getWatchlist(roomId?: string): WatchlistEntry[] {
+        return this.db.getWatchlist(roomId);
+    }
 
-        for (const entry of watchlist) {
-            if (!entry.isActive) continue;
+    getRecentAlerts(
+        hours: number = WATCHLIST_CONFIG.ALERT_LOOKBACK_HOURS,
+        now: Date = new Date()
+    ): WatchlistAlert[] {
+        return this.db.getWatchlistAlerts(
+            undefined,
+            new Date(now.getTime() - hours * 60 * 60 * 1000)
+        );
+    }
 
-            const tokenData = await this.tokenProvider.getProcessedTokenData();
-            const alerts: string[] = [];
+    /**
+     * Compares every active token against its baseline and stores an alert
+     * for each metric that moved past its threshold.
+     * @returns The alerts raised by this check
+     */
+    async checkWatchlistAlerts(
+        now: Date = new Date()
+    ): Promise<WatchlistAlert[]> {
+        const raised: WatchlistAlert[] = [];
 
-            // Check price changes
-            if (
-                Math.abs(tokenData.tradeData.price_change_24h_percent) >
-                entry.alertThresholds.priceChangePercent
-            ) {
-                alerts.push(
-                    `Price change of ${tokenData.tradeData.price_change_24h_percent}% exceeded threshold`
+        for (const entry of this.db.getWatchlist()) {
+            try {
+                const snapshot = await getTokenSnapshot(
+                    this.dexScreener,
+                    entry.tokenAddress,
+                    now
                 );
-            }
+                if (!snapshot) continue;
 
-            // Check volume changes
-            if (
-                Math.abs(tokenData.tradeData.volume_24h_change_percent) >
-                entry.alertThresholds.volumeChangePercent
-            ) {
-                alerts.push(
-                    `Volume change of ${tokenData.tradeData.volume_24h_change_percent}% exceeded threshold`
+                const alerts = this.getAlerts(entry, snapshot, now);
+                for (const alert of alerts) {
+                    alert.id = this.db.addWatchlistAlert(alert) ?? undefined;
+                }
+                if (alerts.length > 0) {
+                    const { symbol: _symbol, ...baseline } = snapshot;
+                    this.db.updateWatchlistBaseline(
+                        entry.tokenAddress,
+                        baseline
+                    );
+                }
+                raised.push(...alerts);
+            } catch (error) {
+                console.error(
+                    `Error checking watchlist token ${entry.tokenAddress}:`,
+                    error
                 );
+            } finally {
+                this.db.updateWatchlistLastChecked(entry.tokenAddress, now);
             }
+        }
+
+        return raised;
+    }
 
-            // Check liquidity changes
-            const liquidityChange =
-                tokenData.dexScreenerData.pairs[0]?.liquidity.usd || 0;
+    private getAlerts(
+        entry: WatchlistEntry,
+        snapshot: TokenSnapshot,
+        now: Date
+    ): WatchlistAlert[] {
+        const changes = getWatchlistChanges(entry.baseline, snapshot);
+        const name = entry.symbol || snapshot.symbol || entry.tokenAddress;
+        const metrics: Record<string, number> = {
+            price: snapshot.price,
+            volume24h: snapshot.volume24h,
+            liquidity: snapshot.liquidity,
+        };
+        for (const [key, value] of Object.entries(changes)) {
+            if (value !== null) metrics[key] = value;
+        }
+
+        return ALERT_METRICS.flatMap(({ type, label, change, threshold }) => {
+            const changePercent = changes[change];
+            const thresholdPercent = entry.alertThresholds[threshold];
             if (
-                Math.abs(liquidityChange) >
-                entry.alertThresholds.liquidityChangePercent
+                changePercent === null ||
+                Math.abs(changePercent) < thresholdPercent
             ) {
-                alerts.push(
-                    `Liquidity change of ${liquidityChange}% exceeded threshold`
-                );
+                return [];
             }
 
-            if (alerts.length > 0) {
-                alerts.push({
+            const direction = changePercent > 0 ? "up" : "down";
+            return [
+                {
                     tokenAddress: entry.tokenAddress,
-                    alerts,
-                });
-            }
+                    timestamp: now,
+                    alertType: type,
+                    message: `${name} ${label} ${direction} ${Math.abs(changePercent).toFixed(2)}% since ${entry.baseline.timestamp.toISOString()} (threshold ${thresholdPercent}%)`,
+                    severity: getAlertSeverity(changePercent, thresholdPercent),
+                    metrics,
+                },
+            ];
+        });
+    }
+}
 
-            // Update last checked timestamp
-            await this.updateLastChecked(entry.tokenAddress);
-        }
+export function getWatchlistThresholds(
+    runtime: IAgentRuntime
+): WatchlistThresholds {
+    const setting = (key: string) => {
+        const value = parseFloat(runtime.getSetting(key));
+        return Number.isFinite(value) && value > 0 ? value : undefined;
+    };
+
+    const thresholds: Partial<WatchlistThresholds> = {
+        priceChangePercent: setting("YIELDS_FUN_WATCHLIST_PRICE_CHANGE"),
+        volumeChangePercent: setting("YIELDS_FUN_WATCHLIST_VOLUME_CHANGE"),
+        liquidityChangePercent: setting(
+            "YIELDS_FUN_WATCHLIST_LIQUIDITY_CHANGE"
+        ),
+    };
+
+    // Unset values fall back to WATCHLIST_DEFAULTS
+    return {
+        ...WATCHLIST_DEFAULTS,
+        ...Object.fromEntries(
+            Object.entries(thresholds).filter(
+                ([, value]) => value !== undefined
+            )
+        ),
+    };
+}
+
+/**
+ * Watchlist backed by the runtime's database, or null when there is none.
+ */
+export function getWatchlistProvider(
+    runtime: IAgentRuntime
+): WatchlistProvider | null {
+    const db = runtime.databaseAdapter?.db;
+    if (!db?.prepare) return null;
 
-        return alerts;
+    try {
+        return new WatchlistProvider(
+            new TrustScoreDatabase(db),
+            new DexScreenerProvider(),
+            getWatchlistThresholds(runtime)
+        );
+    } catch (error) {
+        console.error("Error opening watchlist:", error);
+        return null;
     }
+}
 
-    private async updateLastChecked(tokenAddress: string): Promise<void> {
-        const memoryManager = this.runtime.getMemoryManager(this.tableName);
-        const memories = await memoryManager.getMemories({
-            roomId: this.runtime.roomId,
-        });
+const formatUsd = (value: number) =>
+    value >= 1
+        ? `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+        : `$${value.toPrecision(4)}`;
 
-        for (const memory of memories) {
-            const entry: WatchlistEntry = JSON.parse(memory.content.text);
-            if (entry.tokenAddress === tokenAddress) {
-                entry.lastChecked = new Date();
-                const updatedMemory: Memory = {
-                    ...memory,
-                    content: { text: JSON.stringify(entry) },
-                };
-                await memoryManager.createMemory(updatedMemory, true);
-            }
-        }
+export function formatWatchlist(entries: WatchlistEntry[]): string {
+    if (entries.length === 0) return "The watchlist is empty.";
+
+    let report = "👀 Watchlist\n";
+    for (const entry of entries) {
+        const {
+            priceChangePercent,
+            volumeChangePercent,
+            liquidityChangePercent,
+        } = entry.alertThresholds;
+        report += `\n${entry.symbol || "Unknown"} (${entry.tokenAddress})\n`;
+        report += `Baseline: price ${formatUsd(entry.baseline.price)} | volume ${formatUsd(entry.baseline.volume24h)} | liquidity ${formatUsd(entry.baseline.liquidity)}\n`;
+        report += `Alerts at: price ±${priceChangePercent}% | volume ±${volumeChangePercent}% | liquidity ±${liquidityChangePercent}%\n`;
     }
+    return report;
 }
+
+export function formatWatchlistAlerts(alerts: WatchlistAlert[]): string {
+    const icons = { HIGH: "🚨", MEDIUM: "⚠️", LOW: "ℹ️" };
+    return alerts
+        .map(
+            (alert) =>
+                `${icons[alert.severity]} [${alert.severity}] ${alert.message}`
+        )
+        .join("\n");
+}
+
+export const watchlistProvider: Provider = {
+    get: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state?: State
+    ): Promise<string> => {
+        try {
+            const watchlist = getWatchlistProvider(runtime);
+            if (!watchlist) return "Watchlist unavailable without a database";
+
+            const entries = watchlist.getWatchlist(message.roomId);
+            if (entries.length === 0) return "The watchlist is empty.";
+
+            const watched = new Set(entries.map((entry) => entry.tokenAddress));
+            const alerts = watchlist
+                .getRecentAlerts()
+                .filter((alert) => watched.has(alert.tokenAddress));
+
+            let report = formatWatchlist(entries);
+            if (alerts.length > 0) {
+                report += `\nAlerts in the last ${WATCHLIST_CONFIG.ALERT_LOOKBACK_HOURS}h:\n${formatWatchlistAlerts(alerts)}`;
+            }
+            return report;
+        } catch (error) {
+            console.error("Error in watchlist provider:", error);
+            return "Unable to load the watchlist. Please try again later.";
+        }
+    },
+};
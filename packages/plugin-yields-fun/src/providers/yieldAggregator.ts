@@ -0,0 +1,413 @@
+import { Connection, PublicKey } from "@solana/web3.js";
+import { IAgentRuntime, Memory, Provider, State } from "@ai16z/eliza";
+import { YieldOpportunity } from "../types/yield";
+import { MeteoraProvider } from "./meteoraProvider";
+import { LiquidStakingProvider, LST_REGISTRY } from "./liquidStakingProvider";
+import { LuloProvider } from "./luloProvider";
+import { RaydiumProvider } from "./raydiumProvider";
+import { OrcaProvider } from "./orcaProvider";
+import { JupiterSwapClient } from "../utils/jupiterSwap";
+import { getRiskModel, RiskModel, WeightedRiskModel } from "../utils/riskModel";
+import {
+    getApyTrendLines,
+    getYieldHistoryStore,
+    YieldHistoryStore,
+} from "../utils/yieldHistory";
+
+export type YieldOpportunityType = YieldOpportunity["type"];
+export type YieldSortField = "apy" | "riskAdjustedApy";
+
+/**
+ * Anything that can list yield opportunities for a single protocol.
+ */
+export interface YieldSource {
+    protocol: string;
+    getYieldOpportunities(): Promise<YieldOpportunity[]>;
+}
+
+export interface YieldQuery {
+    type?: YieldOpportunityType;
+    token?: string;
+    minTvl?: number;
+    maxRisk?: number;
+    minApy?: number;
+    limit?: number;
+    sortBy?: YieldSortField;
+}
+
+const PROVIDER_CONFIG = {
+    DEFAULT_RPC: "https://api.mainnet-beta.solana.com",
+    MAX_RISK: 10,
+    REPORT_LIMIT: 15,
+};
+
+const QUERY_PATTERNS = {
+    // "under risk 4", "max risk 4", "risk below 4", "risk <= 4"
+    MAX_RISK: [
+        /(?:under|below|max(?:imum)?|at most|<=?)\s*(?:a\s+)?risk\s*(?:of\s*)?(\d+(?:\.\d+)?)/i,
+        /risk\s*(?:score\s*)?(?:under|below|of at most|at most|max|<=?)\s*(\d+(?:\.\d+)?)/i,
+    ],
+    // "above 10% APY", "at least 8 apr", "apy over 12%"
+    MIN_APY: [
+        /(?:over|above|at least|min(?:imum)?|>=?)\s*(\d+(?:\.\d+)?)\s*%?\s*(?:apy|apr)/i,
+        /(?:apy|apr)\s*(?:over|above|of at least|at least|>=?)\s*(\d+(?:\.\d+)?)/i,
+    ],
+    // "best USDC yield", "yields for JitoSOL"; only known symbols count
+    TOKEN: [
+        /\b([a-z][a-z0-9]{1,9})\s+(?:yields?|apy|apr|pools?|lending|staking|vaults?|farms?)\b/gi,
+        /\b(?:yields?|apy|apr|pools?|vaults?|farms?)\s+(?:for|on|in|with)\s+([a-z][a-z0-9]{1,9})\b/gi,
+    ],
+    TYPE: [
+        { pattern: /\b(?:stak(?:e|ing)|lsts?)\b/i, type: "STAKING" },
+        { pattern: /\b(?:lend(?:ing)?|borrow(?:ing)?)\b/i, type: "LENDING" },
+        { pattern: /\b(?:lps?|liquidity|clmm?|dlmm)\b/i, type: "LP" },
+    ] as { pattern: RegExp; type: YieldOpportunityType }[],
+};
+
+const firstMatch = (text: string, patterns: RegExp[]) => {
+    for (const pattern of patterns) {
+        const match = text.match(pattern);
+        if (match) return match[1];
+    }
+    return undefined;
+};
+
+/**
+ * Reads the constraints of a yield question such as "best USDC yield under
+ * risk 4" or "staking above 7% APY" into a query. A token is only read when
+ * it is one of `knownTokens`, so "low risk yields" sets no token. Anything
+ * the text does not mention is left unset.
+ */
+export function parseYieldQuery(
+    text: string = "",
+    knownTokens: Iterable<string> = []
+): YieldQuery {
+    const query: YieldQuery = {};
+
+    const maxRisk = Number(firstMatch(text, QUERY_PATTERNS.MAX_RISK));
+    if (Number.isFinite(maxRisk)) query.maxRisk = maxRisk;
+
+    const minApy = Number(firstMatch(text, QUERY_PATTERNS.MIN_APY));
+    if (Number.isFinite(minApy)) query.minApy = minApy;
+
+    const known = new Set(
+        Array.from(knownTokens, (token) => token.toUpperCase())
+    );
+    const token = QUERY_PATTERNS.TOKEN.flatMap((pattern) =>
+        Array.from(text.matchAll(pattern), (match) => match[1].toUpperCase())
+    ).find((candidate) => known.has(candidate));
+    if (token) query.token = token;
+
+    const type = QUERY_PATTERNS.TYPE.find(({ pattern }) =>
+        pattern.test(text)
+    )?.type;
+    if (type) query.type = type;
+
+    return query;
+}
+
+export class YieldAggregator {
+    constructor(
+        private sources: YieldSource[],
+        private riskModel: RiskModel = new WeightedRiskModel(),
+        private history?: YieldHistoryStore
+    ) {}
+
+    /**
+     * Fetches opportunities from every source, normalizes and dedupes them.
+     * A failing source is logged and skipped so one bad API cannot blank the
+     * whole list. When a history store is attached the result is snapshotted.
+     */
+    async getAllOpportunities(): Promise<YieldOpportunity[]> {
+        const results = await Promise.allSettled(
+            this.sources.map((source) => source.getYieldOpportunities())
+        );
+
+        const opportunities: YieldOpportunity[] = [];
+        results.forEach((result, i) => {
+            if (result.status === "rejected") {
+                console.error(
+                    `Error fetching ${this.sources[i].protocol} opportunities:`,
+                    result.reason
+                );
+                return;
+            }
+
+            for (const opportunity of result.value || []) {
+                const normalized = this.normalize(
+                    opportunity,
+                    this.sources[i].protocol
+                );
+                if (normalized) opportunities.push(normalized);
+            }
+        });
+
+        const deduped = this.dedupe(opportunities);
+        this.history?.record(deduped);
+
+        return deduped;
+    }
+
+    /**
+     * Returns opportunities matching the query, ranked by raw APY unless
+     * `sortBy: "riskAdjustedApy"` is requested.
+     */
+    async getOpportunities(
+        query: YieldQuery = {}
+    ): Promise<YieldOpportunity[]> {
+        const opportunities = await this.getAllOpportunities();
+        const ranked = this.rank(
+            this.filter(opportunities, query),
+            query.sortBy
+        );
+
+        return query.limit ? ranked.slice(0, query.limit) : ranked;
+    }
+
+    async getBestOpportunity(
+        query: YieldQuery = {}
+    ): Promise<YieldOpportunity | null> {
+        const [best] = await this.getOpportunities({ ...query, limit: 1 });
+        return best || null;
+    }
+
+    filter(
+        opportunities: YieldOpportunity[],
+        query: YieldQuery
+    ): YieldOpportunity[] {
+        const token = query.token?.toUpperCase();
+
+        return opportunities.filter(
+            (opp) =>
+                (!query.type || opp.type === query.type) &&
+                (!token || opp.tokens.some((t) => t.toUpperCase() === token)) &&
+                (query.minTvl === undefined || opp.tvl >= query.minTvl) &&
+                (query.maxRisk === undefined || opp.risk <= query.maxRisk) &&
+                (query.minApy === undefined || opp.apy >= query.minApy)
+        );
+    }
+
+    rank(
+        opportunities: YieldOpportunity[],
+        sortBy: YieldSortField = "apy"
+    ): YieldOpportunity[] {
+        return [...opportunities].sort(
+            (a, b) =>
+                (b[sortBy] ?? 0) - (a[sortBy] ?? 0) ||
+                a.risk - b.risk ||
+                b.tvl - a.tvl
+        );
+    }
+
+    private normalize(
+        opportunity: YieldOpportunity,
+        protocol: string
+    ): YieldOpportunity | null {
+        if (!opportunity?.address) return null;
+
+        const toNumber = (value: unknown) => {
+            const num = Number(value);
+            return Number.isFinite(num) ? num : 0;
+        };
+
+        const apy = toNumber(opportunity.apy);
+        const risk = Math.min(
+            Math.max(toNumber(opportunity.risk), 0),
+            PROVIDER_CONFIG.MAX_RISK
+        );
+
+        return {
+            ...opportunity,
+            protocol: opportunity.protocol || protocol,
+            apy,
+            tvl: toNumber(opportunity.tvl),
+            risk,
+            tokens: (opportunity.tokens || [])
+                .filter(Boolean)
+                .map((token) => token.trim()),
+            riskAdjustedApy: this.riskModel.riskAdjustedApy(apy, risk),
+        };
+    }
+
+    /**
+     * Keeps a single entry per pool address. When several sources report the
+     * same pool, the one backed by the most TVL wins.
+     */
+    private dedupe(opportunities: YieldOpportunity[]): YieldOpportunity[] {
+        const byAddress = new Map<string, YieldOpportunity>();
+
+        for (const opportunity of opportunities) {
+            const existing = byAddress.get(opportunity.address);
+            if (!existing || opportunity.tvl > existing.tvl) {
+                byAddress.set(opportunity.address, opportunity);
+            }
+        }
+
+        return Array.from(byAddress.values());
+    }
+}
+
+/**
+ * Builds the default set of sources from runtime settings. Lulo is only
+ * included when an API key and wallet are configured.
+ */
+export function getYieldSources(
+    runtime: IAgentRuntime,
+    riskModel: RiskModel = getRiskModel(runtime)
+): YieldSource[] {
+    const connection = new Connection(
+        runtime.getSetting("RPC_URL") || PROVIDER_CONFIG.DEFAULT_RPC
+    );
+    const walletAddress = runtime.getSetting("WALLET_PUBLIC_KEY");
+
+    const meteora = new MeteoraProvider(
+        connection,
+        walletAddress ? new PublicKey(walletAddress) : null,
+        runtime.cacheManager,
+        runtime.getSetting("METEORA_API_KEY"),
+        riskModel
+    );
+    const liquidStaking = new LiquidStakingProvider(
+        connection,
+        new JupiterSwapClient(connection),
+        riskModel
+    );
+    const raydium = new RaydiumProvider(
+        connection,
+        runtime.cacheManager,
+        riskModel
+    );
+    const orca = new OrcaProvider(connection, riskModel);
+
+    const sources: YieldSource[] = [
+        {
+            protocol: "Meteora",
+            getYieldOpportunities: () => meteora.getYieldOpportunities(),
+        },
+        {
+            protocol: "Raydium",
+            getYieldOpportunities: () => raydium.getYieldOpportunities(),
+        },
+        {
+            protocol: "Orca",
+            getYieldOpportunities: () => orca.getYieldOpportunities(),
+        },
+    ];
+
+    // One source per LST protocol, sharing the provider's cached metrics
+    for (const protocol of new Set(LST_REGISTRY.map((lst) => lst.protocol))) {
+        sources.push({
+            protocol,
+            getYieldOpportunities: async () =>
+                (await liquidStaking.getStakingOpportunities()).filter(
+                    (opportunity) => opportunity.protocol === protocol
+                ),
+        });
+    }
+
+    const luloApiKey = runtime.getSetting("FLEXLEND_API_KEY");
+    if (luloApiKey && walletAddress) {
+        const lulo = new LuloProvider(
+            connection,
+            runtime.cacheManager,
+            luloApiKey,
+            riskModel
+        );
+        sources.push({
+            protocol: "LuLo",
+            getYieldOpportunities: () =>
+                lulo.getYieldOpportunities(walletAddress),
+        });
+    }
+
+    return sources;
+}
+
+/**
+ * Looks up the current APY of one pool from its protocol's source. Returns 0
+ * when the protocol or pool is unknown.
+ */
+export async function getOpportunityApy(
+    runtime: IAgentRuntime,
+    protocol: string,
+    address: string
+): Promise<number> {
+    const source = getYieldSources(runtime).find(
+        (s) => s.protocol.toLowerCase() === protocol.toLowerCase()
+    );
+    if (!source) return 0;
+
+    try {
+        const opportunities = await source.getYieldOpportunities();
+        return opportunities.find((opp) => opp.address === address)?.apy ?? 0;
+    } catch (error) {
+        console.error(`Error fetching ${protocol} APY:`, error);
+        return 0;
+    }
+}
+
+function formatYieldQuery(query: YieldQuery): string {
+    return [
+        query.token,
+        query.type,
+        query.maxRisk !== undefined && `risk <= ${query.maxRisk}`,
+        query.minApy !== undefined && `APY >= ${query.minApy}%`,
+    ]
+        .filter(Boolean)
+        .join(", ");
+}
+
+export const yieldAggregatorProvider: Provider = {
+    get: async (
+        runtime: IAgentRuntime,
+        message: Memory,
+        _state?: State
+    ): Promise<string> => {
+        try {
+            const riskModel = getRiskModel(runtime);
+            const history = getYieldHistoryStore(runtime);
+            const aggregator = new YieldAggregator(
+                getYieldSources(runtime, riskModel),
+                riskModel,
+                history
+            );
+            const sortBy: YieldSortField =
+                runtime.getSetting("YIELDS_FUN_RANK_BY") === "riskAdjustedApy"
+                    ? "riskAdjustedApy"
+                    : "apy";
+            const all = await aggregator.getAllOpportunities();
+            const query = parseYieldQuery(
+                message?.content?.text,
+                all.flatMap((opp) => opp.tokens)
+            );
+            const opportunities = aggregator
+                .rank(aggregator.filter(all, query), sortBy)
+                .slice(0, PROVIDER_CONFIG.REPORT_LIMIT);
+
+            const constraints = formatYieldQuery(query);
+            if (opportunities.length === 0) {
+                return constraints
+                    ? `No yield opportunities match ${constraints} right now.`
+                    : "No yield opportunities available right now.";
+            }
+
+            // Format opportunities into a single ranked report
+            let report = `📈 Top Yield Opportunities (${constraints || "all protocols"}, ranked by ${sortBy === "apy" ? "APY" : "risk-adjusted APY"})\n\n`;
+
+            opportunities.forEach((opp, i) => {
+                report += `${i + 1}. [${opp.protocol} ${opp.type}] ${opp.tokens.join("/")}\n`;
+                report += `${opp.description}\n`;
+                report += `APY: ${opp.apy.toFixed(2)}% | TVL: $${opp.tvl.toLocaleString()} | Risk: ${opp.risk.toFixed(1)}/10 | Risk-adjusted: ${opp.riskAdjustedApy.toFixed(2)}\n`;
+                for (const line of getApyTrendLines(history, opp.address)) {
+                    report += `${line}\n`;
+                }
+                report += `Address: ${opp.address}\n\n`;
+            });
+
+            return report;
+        } catch (error) {
+            console.error("Error in yield aggregator provider:", error);
+            return "Unable to fetch yield opportunities. Please try again later.";
+        }
+    },
+};
@@ -1,21 +1,25 @@
 import { Connection, PublicKey } from "@solana/web3.js";
 import { ICacheManager } from "@ai16z/eliza";
 import { YieldOpportunity, RiskMetrics } from "../types/yield";
+import { RiskModel, WeightedRiskModel } from "../utils/riskModel";
 import axios from "axios";
 
 export abstract class YieldProvider {
     protected connection: Connection;
     protected walletPublicKey: PublicKey | null;
     protected cacheManager: ICacheManager;
+    protected riskModel: RiskModel;
 
     constructor(
         connection: Connection,
         walletPublicKey: PublicKey | null,
-        cacheManager: ICacheManager
+        cacheManager: ICacheManager,
+        riskModel: RiskModel = new WeightedRiskModel()
     ) {
         this.connection = connection;
         this.walletPublicKey = walletPublicKey;
         this.cacheManager = cacheManager;
+        this.riskModel = riskModel;
     }
 
     // Core methods that all providers must implement
@@ -62,29 +66,17 @@ export abstract class YieldProvider {
     protected calculateBaseRiskMetrics(
         tvl: number,
         volume24h: number,
-        volatility: number = 0,
-        protocolRisk: number = 5
+        volatility?: number,
+        protocolRisk: number = 5,
+        type: YieldOpportunity["type"] = "LP"
     ): RiskMetrics {
-        const volumeToTvlRatio = volume24h / tvl;
-        const volatilityScore = Math.min(volatility * 10, 10);
-        const liquidityScore = Math.min(tvl / 1000000, 10);
-
-        // Calculate impermanent loss risk based on volume and TVL
-        const ilRisk = Math.min(volumeToTvlRatio * 10, 10);
-
-        return {
-            volatility: volatilityScore,
-            impermanentLoss: ilRisk,
-            liquidityDepth: liquidityScore,
-            counterpartyRisk: 0,
+        return this.riskModel.calculate({
+            type,
+            tvl,
+            volume24h,
+            volatility,
             protocolRisk,
-            score:
-                (volatilityScore +
-                    ilRisk +
-                    (10 - liquidityScore) +
-                    protocolRisk) /
-                4,
-        };
+        });
     }
 
     // Helper methods for APY/APR calculations
@@ -0,0 +1,46 @@
+import { StableYieldData } from "./yield";
+
+export interface RateCurvePoint {
+    // 0-1
+    utilization: number;
+    borrowApy: number;
+}
+
+/**
+ * Borrow APY against utilization, linear between points. A single-kink
+ * market has three points: 0, the kink and 100% utilization.
+ */
+export interface RateCurve {
+    points: RateCurvePoint[];
+    // Share of borrow interest the protocol keeps instead of paying suppliers
+    reserveFactor: number;
+}
+
+/**
+ * One asset of a lending market. tvl and totalBorrowed are in USD, apy is
+ * what suppliers earn including any rewards.
+ */
+export interface LendingReserve extends StableYieldData {
+    address: string;
+    mint: string;
+    // USD that can be withdrawn right now, supply not lent out
+    availableLiquidity: number;
+    curve: RateCurve;
+}
+
+/**
+ * A lending protocol that reports per-reserve rates and utilization.
+ */
+export interface LendingMarket {
+    protocol: string;
+    getReserves(): Promise<LendingReserve[]>;
+}
+
+export interface DepositProjection {
+    amountUsd: number;
+    apy: number;
+    borrowApy: number;
+    utilization: number;
+    // Projected APY minus the current one, negative as deposits dilute it
+    apyChange: number;
+}
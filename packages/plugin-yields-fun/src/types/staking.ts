@@ -0,0 +1,54 @@
+export type LstProgram = "marinade" | "spl-stake-pool";
+
+export interface LstInfo {
+    symbol: string;
+    protocol: string;
+    mint: string;
+    program: LstProgram;
+    // Marinade state or SPL stake pool account
+    poolAddress: string;
+    // 0-10, audits, track record and upgrade authority of the protocol
+    protocolRisk: number;
+}
+
+export interface LstMetrics extends LstInfo {
+    apy: number;
+    // SOL redeemable for one LST through the stake pool
+    exchangeRate: number;
+    // SOL one LST sells for on a DEX
+    marketRate: number;
+    // Market rate against the exchange rate, negative when trading at a
+    // discount
+    depegBps: number;
+    // Time until a delayed unstake started now becomes withdrawable
+    unstakeDelaySeconds: number;
+    tvlSol: number;
+}
+
+export interface StakeRoute {
+    lst: LstMetrics;
+    method: "direct" | "dex";
+    amountSol: number;
+    // LST received through each route
+    directLst: number;
+    dexLst: number;
+    expectedLst: number;
+    // Extra LST the DEX gives over staking directly
+    discountBps: number;
+    // Jupiter quote to execute when routing through the DEX
+    quote?: unknown;
+}
+
+export interface UnstakeRoute {
+    lst: LstMetrics;
+    method: "delayed" | "dex";
+    amountLst: number;
+    // SOL received through each route
+    delayedSol: number;
+    dexSol: number;
+    expectedSol: number;
+    // SOL given up by selling on the DEX instead of waiting
+    discountBps: number;
+    delaySeconds: number;
+    quote?: unknown;
+}
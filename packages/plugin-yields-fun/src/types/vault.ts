@@ -50,3 +50,33 @@ export interface VaultConfig {
     allowedTokens: PublicKey[];
     allowedStrategies: PublicKey[];
 }
+
+// On-chain VaultState of programs/vaultProgram.ts, u64 fields as bigint
+export interface VaultStateAccount {
+    owner: PublicKey;
+    totalShares: bigint;
+    totalAssets: bigint;
+    // Percent, e.g. 20 for 20%
+    performanceFee: number;
+    managementFee: number;
+    lastHarvestTime: bigint;
+    stateBump: number;
+    authBump: number;
+    vaultBump: number;
+}
+
+export interface UserPositionAccount {
+    owner: PublicKey;
+    shares: bigint;
+    depositedAmount: bigint;
+    lastDepositTime: bigint;
+}
+
+export interface HarvestSimulation {
+    managementFee: bigint;
+    performanceFee: bigint;
+    totalFees: bigint;
+    // Vault state after the harvest
+    totalAssets: bigint;
+    sharePrice: number;
+}
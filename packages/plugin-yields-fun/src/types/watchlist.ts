@@ -1,25 +1,9 @@
-import { TokenPerformance } from "@ai16z/plugin-trustdb";
-
-export interface WatchlistEntry {
-    tokenAddress: string;
-    addedAt: Date;
-    lastChecked: Date;
-    alertThresholds: {
-        priceChangePercent: number;
-        volumeChangePercent: number;
-        liquidityChangePercent: number;
-    };
-    isActive: boolean;
-}
-
-export interface WatchlistAlert {
-    tokenAddress: string;
-    timestamp: Date;
-    alertType: "PRICE" | "VOLUME" | "LIQUIDITY" | "SECURITY";
-    message: string;
-    severity: "LOW" | "MEDIUM" | "HIGH";
-    metrics: Partial<TokenPerformance>;
-}
+export type {
+    WatchlistAlert,
+    WatchlistEntry,
+    WatchlistSnapshot,
+    WatchlistThresholds,
+} from "@ai16z/plugin-trustdb";
 
 export interface WatchlistStats {
     totalTokens: number;
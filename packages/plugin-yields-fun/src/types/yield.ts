@@ -7,6 +7,8 @@ export interface YieldOpportunity {
     tokens: string[];
     address: string;
     description: string;
+    // Excess APY per point of risk, filled in by the YieldAggregator
+    riskAdjustedApy?: number;
 }
 
 export interface PoolData {
@@ -0,0 +1,345 @@
+import { Content, IAgentRuntime, ICacheManager, Memory } from "@ai16z/eliza";
+import axios from "axios";
+
+export type AlertSeverity = "LOW" | "MEDIUM" | "HIGH";
+
+export type AlertChannel = "discord" | "telegram" | "webhook";
+
+export interface YieldsAlert {
+    // Subsystem raising the alert, e.g. watchlist or pool-monitor
+    source: string;
+    // Alerts sharing a key repeat the same condition and are deduplicated
+    key: string;
+    severity: AlertSeverity;
+    message: string;
+    // Room the alert belongs to; unset alerts go to every subscriber
+    roomId?: string;
+    timestamp: Date;
+}
+
+export interface AlertSubscription {
+    roomId: string;
+    channel: AlertChannel;
+    // Discord channel ID, Telegram chat ID or webhook URL
+    target: string;
+    minSeverity: AlertSeverity;
+    createdAt: number;
+}
+
+export interface AlertSink {
+    channel: AlertChannel;
+    send(target: string, text: string, alert: YieldsAlert): Promise<void>;
+}
+
+export interface AlertDispatchConfig {
+    // Minutes a repeat of an alert key is suppressed, by severity
+    cooldownMinutes: Record<AlertSeverity, number>;
+}
+
+export interface AlertDelivery {
+    alert: YieldsAlert;
+    // Repeat within its cooldown, not sent
+    suppressed: boolean;
+    delivered: number;
+    failed: number;
+}
+
+interface SentAlert {
+    severity: AlertSeverity;
+    sentAt: number;
+}
+
+// The Telegram client stores the raw chat id with each message
+type ClientContent = Content & { chatId?: string };
+
+export const ALERT_DISPATCH_DEFAULTS: AlertDispatchConfig = {
+    cooldownMinutes: { LOW: 240, MEDIUM: 60, HIGH: 15 },
+};
+
+const ALERT_CONFIG = {
+    SUBSCRIPTIONS_CACHE_KEY: "yields-fun/alert-subscriptions",
+    SENT_CACHE_PREFIX: "yields-fun/alert-sent",
+    ICONS: { LOW: "ℹ️", MEDIUM: "⚠️", HIGH: "🚨" } as Record<
+        AlertSeverity,
+        string
+    >,
+};
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = {
+    LOW: 0,
+    MEDIUM: 1,
+    HIGH: 2,
+};
+
+export const formatAlert = (alert: YieldsAlert): string =>
+    `${ALERT_CONFIG.ICONS[alert.severity]} [${alert.severity}] ${alert.message}`;
+
+/**
+ * Posts to a Discord text channel through the running Discord client.
+ */
+export class DiscordAlertSink implements AlertSink {
+    readonly channel = "discord" as const;
+
+    constructor(
+        private discord: {
+            client: { channels: { fetch(id: string): Promise<any> } };
+        }
+    ) {}
+
+    async send(target: string, text: string): Promise<void> {
+        const channel = await this.discord.client.channels.fetch(target);
+        if (!channel?.isTextBased?.()) {
+            throw new Error(`Discord channel ${target} is not a text channel`);
+        }
+        await channel.send(text);
+    }
+}
+
+/**
+ * Sends to a Telegram chat through the running Telegram client's bot.
+ */
+export class TelegramAlertSink implements AlertSink {
+    readonly channel = "telegram" as const;
+
+    constructor(
+        private telegram: {
+            bot: {
+                telegram: {
+                    sendMessage(chatId: string, text: string): Promise<unknown>;
+                };
+            };
+        }
+    ) {}
+
+    async send(target: string, text: string): Promise<void> {
+        await this.telegram.bot.telegram.sendMessage(target, text);
+    }
+}
+
+/**
+ * Posts alerts as JSON to a webhook, for direct clients that have no
+ * channel to push to.
+ */
+export class WebhookAlertSink implements AlertSink {
+    readonly channel = "webhook" as const;
+
+    async send(target: string, text: string, alert: YieldsAlert) {
+        await axios.post(target, {
+            ...alert,
+            timestamp: alert.timestamp.toISOString(),
+            text,
+        });
+    }
+}
+
+/**
+ * Routes alerts to the rooms subscribed to them. An alert reaches every
+ * subscription of its room whose minimum severity it meets, and repeats of
+ * the same key are held back for the severity's cooldown unless the
+ * severity rises.
+ */
+export class AlertDispatcher {
+    private sinks: Map<AlertChannel, AlertSink>;
+
+    constructor(
+        private cacheManager: ICacheManager,
+        sinks: AlertSink[],
+        private config: AlertDispatchConfig = ALERT_DISPATCH_DEFAULTS
+    ) {
+        this.sinks = new Map(sinks.map((sink) => [sink.channel, sink]));
+    }
+
+    async getSubscriptions(roomId?: string): Promise<AlertSubscription[]> {
+        const subscriptions =
+            (await this.cacheManager.get<AlertSubscription[]>(
+                ALERT_CONFIG.SUBSCRIPTIONS_CACHE_KEY
+            )) ?? [];
+        return roomId
+            ? subscriptions.filter((sub) => sub.roomId === roomId)
+            : subscriptions;
+    }
+
+    /**
+     * Adds a subscription, replacing one for the same room and target.
+     */
+    async subscribe(subscription: AlertSubscription): Promise<void> {
+        const subscriptions = (await this.getSubscriptions()).filter(
+            (sub) =>
+                !(
+                    sub.roomId === subscription.roomId &&
+                    sub.channel === subscription.channel &&
+                    sub.target === subscription.target
+                )
+        );
+        await this.cacheManager.set(ALERT_CONFIG.SUBSCRIPTIONS_CACHE_KEY, [
+            ...subscriptions,
+            subscription,
+        ]);
+    }
+
+    /**
+     * Removes every subscription of a room.
+     * @returns The removed subscriptions
+     */
+    async unsubscribe(roomId: string): Promise<AlertSubscription[]> {
+        const subscriptions = await this.getSubscriptions();
+        const removed = subscriptions.filter((sub) => sub.roomId === roomId);
+        await this.cacheManager.set(
+            ALERT_CONFIG.SUBSCRIPTIONS_CACHE_KEY,
+            subscriptions.filter((sub) => sub.roomId !== roomId)
+        );
+        return removed;
+    }
+
+    async dispatch(alerts: YieldsAlert[]): Promise<AlertDelivery[]> {
+        const subscriptions = await this.getSubscriptions();
+        const deliveries: AlertDelivery[] = [];
+
+        for (const alert of alerts) {
+            if (await this.isCoolingDown(alert)) {
+                deliveries.push({
+                    alert,
+                    suppressed: true,
+                    delivered: 0,
+                    failed: 0,
+                });
+                continue;
+            }
+
+            const routes = subscriptions.filter(
+                (sub) =>
+                    (!alert.roomId || sub.roomId === alert.roomId) &&
+                    SEVERITY_RANK[alert.severity] >=
+                        SEVERITY_RANK[sub.minSeverity]
+            );
+            const text = formatAlert(alert);
+            const results = await Promise.allSettled(
+                routes.map(async (sub) => {
+                    const sink = this.sinks.get(sub.channel);
+                    if (!sink) {
+                        throw new Error(`No ${sub.channel} client running`);
+                    }
+                    return sink.send(sub.target, text, alert);
+                })
+            );
+
+            const failed = results.filter((result, i) => {
+                if (result.status === "fulfilled") return false;
+                console.error(
+                    `Error sending alert to ${routes[i].channel} ${routes[i].target}:`,
+                    result.reason
+                );
+                return true;
+            }).length;
+            const delivered = results.length - failed;
+
+            if (delivered > 0) await this.markSent(alert);
+            deliveries.push({ alert, suppressed: false, delivered, failed });
+        }
+
+        return deliveries;
+    }
+
+    private sentKey(alert: YieldsAlert): string {
+        return `${ALERT_CONFIG.SENT_CACHE_PREFIX}/${alert.key}`;
+    }
+
+    private async isCoolingDown(alert: YieldsAlert): Promise<boolean> {
+        const sent = await this.cacheManager.get<SentAlert>(
+            this.sentKey(alert)
+        );
+        if (!sent) return false;
+        if (SEVERITY_RANK[alert.severity] > SEVERITY_RANK[sent.severity]) {
+            return false;
+        }
+
+        const cooldownMs =
+            this.config.cooldownMinutes[alert.severity] * 60 * 1000;
+        return alert.timestamp.getTime() - sent.sentAt < cooldownMs;
+    }
+
+    private async markSent(alert: YieldsAlert): Promise<void> {
+        const sentAt = alert.timestamp.getTime();
+        const longestCooldownMs =
+            Math.max(...Object.values(this.config.cooldownMinutes)) * 60 * 1000;
+        await this.cacheManager.set(
+            this.sentKey(alert),
+            { severity: alert.severity, sentAt },
+            { expires: sentAt + longestCooldownMs }
+        );
+    }
+}
+
+/**
+ * Where alerts for the room a message came from should go. Discord alerts go
+ * to the message's channel, Telegram alerts to its chat, and anything else
+ * (the direct client) needs a webhook URL.
+ */
+export function getSubscriptionTarget(
+    message: Memory,
+    webhookUrl?: string | null
+): { channel: AlertChannel; target: string } | null {
+    const content: ClientContent | undefined = message.content;
+
+    if (content?.source === "discord" && typeof content.url === "string") {
+        const channelId = content.url.match(/\/channels\/[^/]+\/(\d+)/)?.[1];
+        if (channelId) return { channel: "discord", target: channelId };
+    }
+    if (content?.source === "telegram" && content.chatId) {
+        return { channel: "telegram", target: content.chatId };
+    }
+    if (webhookUrl && /^https?:\/\//.test(webhookUrl)) {
+        return { channel: "webhook", target: webhookUrl };
+    }
+    return null;
+}
+
+/**
+ * Sinks for the clients the agent started, plus webhooks which need no
+ * client.
+ */
+export function getAlertSinks(runtime: IAgentRuntime): AlertSink[] {
+    const sinks: AlertSink[] = [new WebhookAlertSink()];
+    const clients = runtime.clients ?? {};
+
+    if (clients.discord?.client) {
+        sinks.push(new DiscordAlertSink(clients.discord));
+    }
+    if (clients.telegram?.bot) {
+        sinks.push(new TelegramAlertSink(clients.telegram));
+    }
+    return sinks;
+}
+
+function getAlertDispatchConfig(runtime: IAgentRuntime): AlertDispatchConfig {
+    const setting = (key: string) => {
+        const value = parseFloat(runtime.getSetting(key));
+        return Number.isFinite(value) && value >= 0 ? value : undefined;
+    };
+
+    const cooldownMinutes: Partial<Record<AlertSeverity, number>> = {
+        LOW: setting("YIELDS_FUN_ALERT_COOLDOWN_LOW"),
+        MEDIUM: setting("YIELDS_FUN_ALERT_COOLDOWN_MEDIUM"),
+        HIGH: setting("YIELDS_FUN_ALERT_COOLDOWN_HIGH"),
+    };
+
+    // Unset values fall back to ALERT_DISPATCH_DEFAULTS
+    return {
+        cooldownMinutes: {
+            ...ALERT_DISPATCH_DEFAULTS.cooldownMinutes,
+            ...Object.fromEntries(
+                Object.entries(cooldownMinutes).filter(
+                    ([, value]) => value !== undefined
+                )
+            ),
+        },
+    };
+}
+
+export function getAlertDispatcher(runtime: IAgentRuntime): AlertDispatcher {
+    return new AlertDispatcher(
+        runtime.cacheManager,
+        getAlertSinks(runtime),
+        getAlertDispatchConfig(runtime)
+    );
+}
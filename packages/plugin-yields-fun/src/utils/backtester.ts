@@ -0,0 +1,404 @@
+import { readFileSync } from "fs";
+import type { StrategyType } from "../actions/meteoraDlmmActions";
+import { OHLCVResponse } from "../providers/birdeyeEndpoints";
+import { getAmountsForLiquidity } from "./clmPnlCalculator";
+
+export interface PriceRange {
+    lowerPrice: number;
+    upperPrice: number;
+}
+
+export interface RangeStrategy {
+    name: string;
+    // Bounds for a position opened at the last candle of `history`
+    getRange(price: number, history: OHLCVResponse[]): PriceRange;
+    // How liquidity is spread across the range, uniform when omitted
+    shape?: `${StrategyType}`;
+}
+
+export interface BacktestConfig {
+    // Starting capital in token B (USD for Birdeye candles)
+    depositValue: number;
+    // Pool fee as a fraction, e.g. 0.003 for a 0.3% pool
+    feeRate: number;
+    // Active liquidity of the rest of the pool, enables volume based fees
+    poolLiquidity?: number;
+    // Fallback fee APR (fraction) of in-range capital when volume is unknown
+    feeApr?: number;
+    // Cost of one transaction; a rebalance is a close plus an open
+    gasCostPerTx?: number;
+    // Rebalance once price is this far beyond a range bound, as a fraction of
+    // the bound. 0 rebalances as soon as price leaves the range.
+    rebalanceThreshold?: number;
+    // Number of sub-ranges used to model non-uniform DLMM shapes
+    bins?: number;
+}
+
+export interface BacktestResult {
+    strategy: string;
+    candles: number;
+    startValue: number;
+    endValue: number;
+    hodlValue: number;
+    // (endValue - startValue) / startValue
+    totalReturn: number;
+    feeIncome: number;
+    // LP value minus HODL value, summed over every range held
+    impermanentLoss: number;
+    rebalances: number;
+    gasCost: number;
+    // Largest peak to trough fall of the equity curve, as a fraction
+    maxDrawdown: number;
+    timeInRange: number;
+}
+
+export interface OHLCVFixture {
+    token?: string;
+    interval?: string;
+    candles: OHLCVResponse[];
+}
+
+interface SimulatedBin extends PriceRange {
+    liquidity: number;
+}
+
+interface SimulatedPosition extends PriceRange {
+    bins: SimulatedBin[];
+    entryPrice: number;
+    // Token amounts at open, used for the HODL comparison
+    tokenA: number;
+    tokenB: number;
+}
+
+const BACKTEST_DEFAULTS = {
+    BINS: 20,
+    GAS_COST_PER_TX: 0,
+    REBALANCE_THRESHOLD: 0,
+};
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/**
+ * Reads candles saved from `BirdeyeProvider.getOHLCV`, either as a bare array
+ * or wrapped with token and interval metadata.
+ */
+export function loadOHLCVFixture(path: string): OHLCVResponse[] {
+    const fixture: OHLCVResponse[] | OHLCVFixture = JSON.parse(
+        readFileSync(path, "utf8")
+    );
+    const candles = Array.isArray(fixture) ? fixture : fixture.candles;
+
+    return [...(candles || [])].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Range of +/- `width` (a fraction) around the current price.
+ */
+export function fixedWidthStrategy(width: number): RangeStrategy {
+    return {
+        name: `fixed-${(width * 100).toFixed(1)}%`,
+        getRange: (price) => ({
+            lowerPrice: price * (1 - width),
+            upperPrice: price * (1 + width),
+        }),
+    };
+}
+
+/**
+ * Range of `multiplier` standard deviations of log returns over the last
+ * `lookback` candles, scaled to a `horizon` of candles. Falls back to
+ * `minWidth` until enough history is available.
+ */
+export function volatilityScaledStrategy(
+    multiplier: number = 2,
+    lookback: number = 24,
+    horizon: number = 24,
+    minWidth: number = 0.02
+): RangeStrategy {
+    return {
+        name: `vol-${multiplier}σ`,
+        getRange: (price, history) => {
+            const closes = history.slice(-(lookback + 1)).map((c) => c.close);
+            const returns = closes
+                .slice(1)
+                .map((close, i) => Math.log(close / closes[i]));
+
+            let width = Math.log(1 + minWidth);
+            if (returns.length >= 2) {
+                const mean =
+                    returns.reduce((a, b) => a + b, 0) / returns.length;
+                const variance =
+                    returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) /
+                    returns.length;
+                width = Math.max(
+                    width,
+                    multiplier * Math.sqrt(variance * horizon)
+                );
+            }
+
+            return {
+                lowerPrice: price * Math.exp(-width),
+                upperPrice: price * Math.exp(width),
+            };
+        },
+    };
+}
+
+/**
+ * Meteora DLMM liquidity shape over a fixed +/- `width` range.
+ */
+export function dlmmStrategy(
+    shape: `${StrategyType}`,
+    width: number
+): RangeStrategy {
+    return {
+        ...fixedWidthStrategy(width),
+        name: `dlmm-${shape}-${(width * 100).toFixed(1)}%`,
+        shape,
+    };
+}
+
+/**
+ * Relative liquidity of each bin for a DLMM shape. Spot is flat, Curve is
+ * peaked at the entry price and BidAsk is weighted towards the edges.
+ */
+function shapeWeights(shape: RangeStrategy["shape"], bins: number): number[] {
+    return Array.from({ length: bins }, (_, i) => {
+        // Bin center on [-1, 1]
+        const x = ((i + 0.5) / bins) * 2 - 1;
+        switch (shape) {
+            case "Curve":
+                return 1 - Math.abs(x) + 0.05;
+            case "BidAsk":
+                return Math.abs(x) + 0.05;
+            default:
+                return 1;
+        }
+    });
+}
+
+/**
+ * Replays OHLCV candles through a range strategy: opens a position on the
+ * first candle, collects fees while in range and re-centres the range when
+ * price moves past `rebalanceThreshold`. Runs entirely offline.
+ */
+export class Backtester {
+    constructor(private config: BacktestConfig) {}
+
+    run(strategy: RangeStrategy, candles: OHLCVResponse[]): BacktestResult {
+        const series = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+        if (series.length === 0) {
+            throw new Error("Backtest requires at least one candle");
+        }
+
+        const gasPerTx =
+            this.config.gasCostPerTx ?? BACKTEST_DEFAULTS.GAS_COST_PER_TX;
+        const threshold =
+            this.config.rebalanceThreshold ??
+            BACKTEST_DEFAULTS.REBALANCE_THRESHOLD;
+
+        const startValue = this.config.depositValue;
+        let gasCost = gasPerTx;
+        let position = this.open(
+            strategy,
+            series[0].close,
+            series.slice(0, 1),
+            startValue - gasPerTx
+        );
+        // HODL holds the opening split of the full deposit, with no gas paid
+        const hodlScale =
+            startValue > gasPerTx ? startValue / (startValue - gasPerTx) : 0;
+        const initial = {
+            tokenA: position.tokenA * hodlScale,
+            tokenB: position.tokenB * hodlScale,
+        };
+
+        let feeIncome = 0;
+        let impermanentLoss = 0;
+        let rebalances = 0;
+        let inRangeSeconds = 0;
+        let totalSeconds = 0;
+        let peak = startValue;
+        let maxDrawdown = 0;
+
+        for (let i = 1; i < series.length; i++) {
+            const candle = series[i];
+            const seconds = candle.timestamp - series[i - 1].timestamp;
+            const price = candle.close;
+
+            if (seconds > 0) {
+                totalSeconds += seconds;
+                const midpoint = (price + series[i - 1].close) / 2;
+                const fees = this.intervalFees(
+                    position,
+                    candle,
+                    midpoint,
+                    seconds
+                );
+                if (fees !== null) {
+                    inRangeSeconds += seconds;
+                    feeIncome += fees;
+                }
+            }
+
+            if (
+                i < series.length - 1 &&
+                (price < position.lowerPrice * (1 - threshold) ||
+                    price > position.upperPrice * (1 + threshold))
+            ) {
+                const value = this.value(position, price);
+                impermanentLoss += value - this.hodlValue(position, price);
+                gasCost += 2 * gasPerTx;
+                rebalances++;
+                position = this.open(
+                    strategy,
+                    price,
+                    series.slice(0, i + 1),
+                    value - 2 * gasPerTx
+                );
+            }
+
+            // Gas is paid out of the capital redeployed on every open
+            const equity = this.value(position, price) + feeIncome;
+            peak = Math.max(peak, equity);
+            maxDrawdown = Math.max(
+                maxDrawdown,
+                peak > 0 ? (peak - equity) / peak : 0
+            );
+        }
+
+        const finalPrice = series[series.length - 1].close;
+        const lpValue = this.value(position, finalPrice);
+        impermanentLoss += lpValue - this.hodlValue(position, finalPrice);
+        const endValue = lpValue + feeIncome;
+
+        return {
+            strategy: strategy.name,
+            candles: series.length,
+            startValue,
+            endValue,
+            hodlValue: initial.tokenA * finalPrice + initial.tokenB,
+            totalReturn:
+                startValue > 0 ? (endValue - startValue) / startValue : 0,
+            feeIncome,
+            impermanentLoss,
+            rebalances,
+            gasCost,
+            maxDrawdown,
+            timeInRange: totalSeconds > 0 ? inRangeSeconds / totalSeconds : 0,
+        };
+    }
+
+    /**
+     * Runs each strategy over the same candles, best total return first.
+     */
+    compare(
+        strategies: RangeStrategy[],
+        candles: OHLCVResponse[]
+    ): BacktestResult[] {
+        return strategies
+            .map((strategy) => this.run(strategy, candles))
+            .sort((a, b) => b.totalReturn - a.totalReturn);
+    }
+
+    private open(
+        strategy: RangeStrategy,
+        price: number,
+        history: OHLCVResponse[],
+        capital: number
+    ): SimulatedPosition {
+        const { lowerPrice, upperPrice } = strategy.getRange(price, history);
+        const binCount = strategy.shape
+            ? (this.config.bins ?? BACKTEST_DEFAULTS.BINS)
+            : 1;
+        const weights = shapeWeights(strategy.shape, binCount);
+        const step = Math.pow(upperPrice / lowerPrice, 1 / binCount);
+
+        const unitBins: SimulatedBin[] = weights.map((weight, i) => ({
+            lowerPrice: lowerPrice * step ** i,
+            upperPrice: lowerPrice * step ** (i + 1),
+            liquidity: weight,
+        }));
+        const unitValue = this.binsValue(unitBins, price);
+        const scale = unitValue > 0 ? Math.max(capital, 0) / unitValue : 0;
+        const bins = unitBins.map((bin) => ({
+            ...bin,
+            liquidity: bin.liquidity * scale,
+        }));
+
+        const amounts = bins.reduce(
+            (sum, bin) => {
+                const { tokenA, tokenB } = getAmountsForLiquidity(
+                    bin.liquidity,
+                    price,
+                    bin.lowerPrice,
+                    bin.upperPrice
+                );
+                return {
+                    tokenA: sum.tokenA + tokenA,
+                    tokenB: sum.tokenB + tokenB,
+                };
+            },
+            { tokenA: 0, tokenB: 0 }
+        );
+
+        return {
+            lowerPrice,
+            upperPrice,
+            bins,
+            entryPrice: price,
+            ...amounts,
+        };
+    }
+
+    private binsValue(bins: SimulatedBin[], price: number): number {
+        return bins.reduce((sum, bin) => {
+            const { tokenA, tokenB } = getAmountsForLiquidity(
+                bin.liquidity,
+                price,
+                bin.lowerPrice,
+                bin.upperPrice
+            );
+            return sum + tokenA * price + tokenB;
+        }, 0);
+    }
+
+    private value(position: SimulatedPosition, price: number): number {
+        return this.binsValue(position.bins, price);
+    }
+
+    private hodlValue(position: SimulatedPosition, price: number): number {
+        return position.tokenA * price + position.tokenB;
+    }
+
+    /**
+     * Fees for one candle, or null when price was out of range. Volume is in
+     * token A like Birdeye candles and is converted at the candle close.
+     */
+    private intervalFees(
+        position: SimulatedPosition,
+        candle: OHLCVResponse,
+        price: number,
+        seconds: number
+    ): number | null {
+        const active = position.bins.find(
+            (bin) => price >= bin.lowerPrice && price <= bin.upperPrice
+        );
+        if (!active) return null;
+
+        if (this.config.poolLiquidity && candle.volume !== undefined) {
+            const share =
+                active.liquidity /
+                (active.liquidity + this.config.poolLiquidity);
+            return candle.volume * candle.close * this.config.feeRate * share;
+        }
+
+        if (!this.config.feeApr) return 0;
+
+        return (
+            this.value(position, price) *
+            this.config.feeApr *
+            (seconds / SECONDS_PER_YEAR)
+        );
+    }
+}
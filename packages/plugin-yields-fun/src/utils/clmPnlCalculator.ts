@@ -0,0 +1,274 @@
+import {
+    HistoricalPriceResponse,
+    OHLCVResponse,
+} from "../providers/birdeyeEndpoints";
+import { BirdeyeProvider } from "../providers/birdeyeProvider";
+
+export type ClmVenue = "raydium" | "orca" | "meteora";
+
+export interface ClmPositionInput {
+    venue: ClmVenue;
+    // Tick indexes for Raydium/Orca, bin ids for Meteora
+    lower: number;
+    upper: number;
+    // Meteora bin step in basis points
+    binStep?: number;
+    decimalsA?: number;
+    decimalsB?: number;
+    // Price of token A in token B when the position was opened
+    entryPrice: number;
+    // Virtual liquidity; derived from depositValue when omitted
+    liquidity?: number;
+    // Deposit value in token B
+    depositValue?: number;
+    // Pool fee as a fraction, e.g. 0.003 for a 0.3% pool
+    feeRate: number;
+    // Active liquidity of the rest of the pool, enables volume based fees
+    poolLiquidity?: number;
+    // Fallback fee APR (fraction) of in-range capital when volume is unknown
+    feeApr?: number;
+}
+
+export interface PricePoint {
+    timestamp: number; // unix seconds
+    price: number;
+    // Traded volume in token B over the interval ending at `timestamp`
+    volume?: number;
+}
+
+export interface ClmPnlResult {
+    lowerPrice: number;
+    upperPrice: number;
+    liquidity: number;
+    entryValue: number;
+    currentValue: number;
+    hodlValue: number;
+    // currentValue / hodlValue - 1, excluding fees
+    valueVsHodl: number;
+    impermanentLoss: number;
+    // Fraction of elapsed time the price spent inside the range
+    timeInRange: number;
+    feeIncome: number;
+    // currentValue + feeIncome - entryValue
+    netPnl: number;
+    amounts: { tokenA: number; tokenB: number };
+}
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/**
+ * Token amounts of a concentrated position with virtual liquidity
+ * `liquidity` over [lower, upper] at `price`. Bounds of 0 and Infinity give a
+ * full range (constant product) position.
+ */
+export function getAmountsForLiquidity(
+    liquidity: number,
+    price: number,
+    lower = 0,
+    upper = Infinity
+): { tokenA: number; tokenB: number } {
+    const sqrtP = Math.sqrt(Math.min(Math.max(price, lower), upper));
+    const sqrtLower = Math.sqrt(lower);
+    const sqrtUpper = Math.sqrt(upper);
+
+    return {
+        tokenA: liquidity * (1 / sqrtP - 1 / sqrtUpper),
+        tokenB: liquidity * (sqrtP - sqrtLower),
+    };
+}
+
+/**
+ * Value-vs-HODL, impermanent loss, time in range and fee income for
+ * concentrated liquidity positions on Raydium CLMM, Orca Whirlpools and
+ * Meteora DLMM, replayed over a price series.
+ */
+export class ClmPnlCalculator {
+    /**
+     * Converts a tick (Raydium/Orca) or bin id (Meteora) into a price of
+     * token A in token B.
+     */
+    indexToPrice(
+        position: Pick<
+            ClmPositionInput,
+            "venue" | "binStep" | "decimalsA" | "decimalsB"
+        >,
+        index: number
+    ): number {
+        const base =
+            position.venue === "meteora"
+                ? 1 + (position.binStep ?? 0) / 10000
+                : 1.0001;
+        const decimalAdjustment =
+            10 ** ((position.decimalsA ?? 0) - (position.decimalsB ?? 0));
+
+        return base ** index * decimalAdjustment;
+    }
+
+    /**
+     * Price bounds of a position. A DLMM bin covers one bin step, so the
+     * upper bound is the start of the bin after `upper`.
+     */
+    getPriceRange(position: ClmPositionInput): {
+        lowerPrice: number;
+        upperPrice: number;
+    } {
+        return {
+            lowerPrice: this.indexToPrice(position, position.lower),
+            upperPrice: this.indexToPrice(
+                position,
+                position.venue === "meteora"
+                    ? position.upper + 1
+                    : position.upper
+            ),
+        };
+    }
+
+    getLiquidity(position: ClmPositionInput): number {
+        if (position.liquidity !== undefined) return position.liquidity;
+
+        const { lowerPrice, upperPrice } = this.getPriceRange(position);
+        const unit = getAmountsForLiquidity(
+            1,
+            position.entryPrice,
+            lowerPrice,
+            upperPrice
+        );
+        const unitValue = unit.tokenA * position.entryPrice + unit.tokenB;
+
+        return unitValue > 0 ? (position.depositValue ?? 0) / unitValue : 0;
+    }
+
+    calculate(position: ClmPositionInput, prices: PricePoint[]): ClmPnlResult {
+        const { lowerPrice, upperPrice } = this.getPriceRange(position);
+        const liquidity = this.getLiquidity(position);
+        const series = [...prices].sort((a, b) => a.timestamp - b.timestamp);
+
+        const entry = getAmountsForLiquidity(
+            liquidity,
+            position.entryPrice,
+            lowerPrice,
+            upperPrice
+        );
+        const entryValue = entry.tokenA * position.entryPrice + entry.tokenB;
+
+        const finalPrice = series.length
+            ? series[series.length - 1].price
+            : position.entryPrice;
+        const amounts = getAmountsForLiquidity(
+            liquidity,
+            finalPrice,
+            lowerPrice,
+            upperPrice
+        );
+        const currentValue = amounts.tokenA * finalPrice + amounts.tokenB;
+        const hodlValue = entry.tokenA * finalPrice + entry.tokenB;
+
+        let inRangeSeconds = 0;
+        let totalSeconds = 0;
+        let feeIncome = 0;
+
+        for (let i = 1; i < series.length; i++) {
+            const seconds = series[i].timestamp - series[i - 1].timestamp;
+            if (seconds <= 0) continue;
+            totalSeconds += seconds;
+
+            // Use the interval midpoint so a single boundary touch is not
+            // counted as a full interval in or out of range
+            const price = (series[i].price + series[i - 1].price) / 2;
+            if (price < lowerPrice || price > upperPrice) continue;
+            inRangeSeconds += seconds;
+
+            feeIncome += this.intervalFees(
+                position,
+                liquidity,
+                series[i],
+                seconds,
+                price,
+                lowerPrice,
+                upperPrice
+            );
+        }
+
+        return {
+            lowerPrice,
+            upperPrice,
+            liquidity,
+            entryValue,
+            currentValue,
+            hodlValue,
+            valueVsHodl: hodlValue > 0 ? currentValue / hodlValue - 1 : 0,
+            impermanentLoss: currentValue - hodlValue,
+            timeInRange: totalSeconds > 0 ? inRangeSeconds / totalSeconds : 0,
+            feeIncome,
+            netPnl: currentValue + feeIncome - entryValue,
+            amounts,
+        };
+    }
+
+    /**
+     * Fees earned over one in-range interval. With volume and the pool's
+     * active liquidity, the position earns its pro-rata share of swap fees;
+     * otherwise the fallback fee APR is applied to the position value.
+     */
+    private intervalFees(
+        position: ClmPositionInput,
+        liquidity: number,
+        point: PricePoint,
+        seconds: number,
+        price: number,
+        lowerPrice: number,
+        upperPrice: number
+    ): number {
+        if (point.volume !== undefined && position.poolLiquidity) {
+            const share = liquidity / (liquidity + position.poolLiquidity);
+            return point.volume * position.feeRate * share;
+        }
+
+        if (!position.feeApr) return 0;
+
+        const { tokenA, tokenB } = getAmountsForLiquidity(
+            liquidity,
+            price,
+            lowerPrice,
+            upperPrice
+        );
+        return (
+            (tokenA * price + tokenB) *
+            position.feeApr *
+            (seconds / SECONDS_PER_YEAR)
+        );
+    }
+
+    static fromHistoricalPrices(
+        response: HistoricalPriceResponse
+    ): PricePoint[] {
+        return (response?.data || []).map((point) => ({
+            timestamp: point.unixTime,
+            price: point.value,
+        }));
+    }
+
+    static fromOHLCV(candles: OHLCVResponse[]): PricePoint[] {
+        return (candles || []).map((candle) => ({
+            timestamp: candle.timestamp,
+            price: candle.close,
+            // Birdeye reports volume in token units, fees accrue in token B
+            volume: candle.volume * candle.close,
+        }));
+    }
+
+    /**
+     * Replays a position over Birdeye OHLCV candles of token A. Candle volume
+     * is used for fee estimates when `poolLiquidity` is set.
+     */
+    async calculateFromBirdeye(
+        birdeye: BirdeyeProvider,
+        tokenAddress: string,
+        position: ClmPositionInput,
+        interval: string = "1h",
+        limit: number = 168
+    ): Promise<ClmPnlResult> {
+        const candles = await birdeye.getOHLCV(tokenAddress, interval, limit);
+        return this.calculate(position, ClmPnlCalculator.fromOHLCV(candles));
+    }
+}
@@ -0,0 +1,473 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import { Connection } from "@solana/web3.js";
+import { OxActions } from "../actions/oxActions";
+import { OxProvider } from "../providers/oxProvider";
+import { getOpportunityApy } from "../providers/yieldAggregator";
+import { annualizeFunding } from "./fundingHistory";
+import { getPositionLedger, PositionLedger } from "./positionLedger";
+import {
+    ApyLookup,
+    estimatePositionAmounts,
+    PoolQuote,
+    RebalanceVenue,
+} from "./rebalancer";
+import { createClmVenues, getAgentWallet } from "./rebalanceVenues";
+import { getTxGuard } from "./txGuard";
+
+export interface DeltaNeutralConfig {
+    // Short size as a share of the LPs' token A exposure
+    hedgeRatio: number;
+    // Re-hedge once the short is off its target by more than this share
+    rehedgeThreshold: number;
+    leverage: number;
+}
+
+export const DELTA_NEUTRAL_DEFAULTS: DeltaNeutralConfig = {
+    hedgeRatio: 1,
+    rehedgeThreshold: 0.1,
+    leverage: 3,
+};
+
+const DELTA_NEUTRAL_CONFIG = {
+    // OX perp hedging each LP base token
+    MARKETS: {
+        So11111111111111111111111111111111111111112: "SOL-USD-SWAP-LIN",
+        "7vfCXTUXx5WJV5JADk17DUJ4ksgau7utNKj4b963voxs": "ETH-USD-SWAP-LIN",
+        JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN: "JUP-USD-SWAP-LIN",
+    } as Record<string, string>,
+    // The LP's token B has to be worth a dollar for a short to cancel its
+    // exposure
+    STABLE_MINTS: [
+        "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+        "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+    ],
+    PROFILE_STEPS: 4,
+};
+
+export interface DeltaPoint {
+    price: number;
+    // Token A held by the LPs at this price
+    delta: number;
+}
+
+/**
+ * Hedge for all LP positions sharing one perp market, or a skipped
+ * position that cannot be hedged.
+ */
+export interface HedgePlan {
+    marketCode?: string;
+    positions: LedgerPosition[];
+    action: "open" | "resize" | "hold" | "skip";
+    reason: string;
+    price: number;
+    // Token A held by the LPs now and the short against it, in token A.
+    // currentShort is negative while the perp position is net long.
+    lpDelta: number;
+    currentShort: number;
+    targetShort: number;
+    // lpDelta - currentShort
+    netDelta: number;
+    // |targetShort - currentShort| as a share of the larger of the two
+    drift: number;
+    // LP exposure from the lowest to the highest bound, before the hedge
+    deltaProfile: DeltaPoint[];
+    lpValueUsd: number;
+    lpApy: number;
+    // Annualized funding a short receives, negative when shorts pay
+    fundingApy: number;
+    // LP yield plus funding over LP value and short margin
+    netApy: number;
+}
+
+export interface HedgeResult {
+    marketCode: string;
+    success: boolean;
+    message: string;
+}
+
+/**
+ * Token A held by the positions at prices spread from the lowest lower bound
+ * to the highest upper bound. Full range positions use half to double the
+ * current price.
+ */
+export function getDeltaProfile(
+    positions: LedgerPosition[],
+    price: number,
+    steps: number = DELTA_NEUTRAL_CONFIG.PROFILE_STEPS
+): DeltaPoint[] {
+    const low = Math.min(...positions.map((p) => p.lowerPrice || price / 2));
+    const high = Math.max(...positions.map((p) => p.upperPrice || price * 2));
+
+    return Array.from({ length: steps + 1 }, (_, i) => {
+        const at = low + ((high - low) * i) / steps;
+        return {
+            price: at,
+            delta: positions.reduce(
+                (sum, p) => sum + estimatePositionAmounts(p, at).tokenA,
+                0
+            ),
+        };
+    });
+}
+
+/**
+ * Pairs Raydium CLMM, Orca Whirlpool and Meteora DLMM positions with an OX
+ * perp short on their token A. Positions sharing a base token share one
+ * short, sized to their combined token A holdings, which shrink as price
+ * rises through the range and grow as it falls. `preview` plans without
+ * placing orders; the short is only resized once it drifts more than
+ * rehedgeThreshold from its target, and every order needs the wallet
+ * policy's approval.
+ */
+export class DeltaNeutralStrategy {
+    private config: DeltaNeutralConfig;
+
+    constructor(
+        private venues: RebalanceVenue[],
+        private ledger: PositionLedger,
+        private ox: Pick<OxProvider, "getFundingRates" | "getPositions">,
+        private oxActions: Pick<OxActions, "openPosition" | "modifyPosition">,
+        // Perp orders are authorized against the wallet policy like swaps
+        private runtime: Pick<IAgentRuntime, "agentId" | "walletPolicy">,
+        private getApy: ApyLookup,
+        config: Partial<DeltaNeutralConfig> = {}
+    ) {
+        this.config = { ...DELTA_NEUTRAL_DEFAULTS, ...config };
+    }
+
+    async preview(): Promise<HedgePlan[]> {
+        const plans: HedgePlan[] = [];
+        const groups = new Map<
+            string,
+            { positions: LedgerPosition[]; price: number }
+        >();
+
+        const positions = this.ledger
+            .list()
+            .filter(
+                (position) =>
+                    position.status !== "closed" && position.kind === "LP"
+            );
+
+        for (const position of positions) {
+            const venue = this.getVenue(position.protocol);
+            if (!venue) continue;
+
+            let quote: PoolQuote;
+            try {
+                quote = await venue.getQuote(position.poolAddress);
+            } catch (error) {
+                console.error("Error quoting position for hedge:", error);
+                plans.push(this.skip(position, "pool quote unavailable"));
+                continue;
+            }
+
+            const marketCode = DELTA_NEUTRAL_CONFIG.MARKETS[quote.mintA];
+            if (!marketCode) {
+                plans.push(this.skip(position, "no OX market for token A"));
+                continue;
+            }
+            if (!DELTA_NEUTRAL_CONFIG.STABLE_MINTS.includes(quote.mintB)) {
+                plans.push(this.skip(position, "token B is not a stablecoin"));
+                continue;
+            }
+
+            const group = groups.get(marketCode) ?? {
+                positions: [],
+                price: quote.price,
+            };
+            group.positions.push(position);
+            groups.set(marketCode, group);
+        }
+
+        for (const [marketCode, group] of groups) {
+            plans.push(
+                await this.planMarket(marketCode, group.positions, group.price)
+            );
+        }
+        return plans;
+    }
+
+    async execute(plans: HedgePlan[]): Promise<HedgeResult[]> {
+        const results: HedgeResult[] = [];
+        for (const plan of plans) {
+            if (plan.action !== "open" && plan.action !== "resize") continue;
+            results.push(await this.hedge(plan));
+        }
+        return results;
+    }
+
+    async run(dryRun: boolean = false) {
+        const plans = await this.preview();
+        const results = dryRun ? [] : await this.execute(plans);
+        return { plans, results };
+    }
+
+    private getVenue(protocol: string): RebalanceVenue | undefined {
+        return this.venues.find((venue) => venue.protocol === protocol);
+    }
+
+    private skip(position: LedgerPosition, reason: string): HedgePlan {
+        return {
+            positions: [position],
+            action: "skip",
+            reason,
+            price: 0,
+            lpDelta: 0,
+            currentShort: 0,
+            targetShort: 0,
+            netDelta: 0,
+            drift: 0,
+            deltaProfile: [],
+            lpValueUsd: 0,
+            lpApy: 0,
+            fundingApy: 0,
+            netApy: 0,
+        };
+    }
+
+    private async planMarket(
+        marketCode: string,
+        positions: LedgerPosition[],
+        price: number
+    ): Promise<HedgePlan> {
+        let lpDelta = 0;
+        let lpValueUsd = 0;
+        let lpYieldUsd = 0;
+        for (const position of positions) {
+            const { tokenA, tokenB } = estimatePositionAmounts(position, price);
+            const value = tokenA * price + tokenB;
+            const apy = await this.getApy(
+                position.protocol,
+                position.poolAddress
+            );
+
+            lpDelta += tokenA;
+            lpValueUsd += value;
+            lpYieldUsd += value * apy;
+        }
+
+        const [currentShort, fundingApy] = await Promise.all([
+            this.getShortSize(marketCode),
+            this.getFundingApy(marketCode),
+        ]);
+
+        const targetShort = lpDelta * this.config.hedgeRatio;
+        const largest = Math.max(targetShort, Math.abs(currentShort));
+        const drift =
+            largest > 0 ? Math.abs(targetShort - currentShort) / largest : 0;
+
+        const hedgeUsd = targetShort * price;
+        const capital = lpValueUsd + hedgeUsd / this.config.leverage;
+        const netApy =
+            capital > 0 ? (lpYieldUsd + hedgeUsd * fundingApy) / capital : 0;
+
+        let action: HedgePlan["action"] = "hold";
+        let reason = `short within ${(this.config.rehedgeThreshold * 100).toFixed(0)}% of target`;
+        if (currentShort < 0) {
+            // Opening a short would only reduce the long; resizing flips it
+            action = "resize";
+            reason = "perp position is net long";
+        } else if (currentShort === 0 && targetShort > 0) {
+            action = "open";
+            reason = "LP exposure is unhedged";
+        } else if (drift > this.config.rehedgeThreshold) {
+            action = "resize";
+            reason = `short ${(drift * 100).toFixed(1)}% off target`;
+        }
+
+        return {
+            marketCode,
+            positions,
+            action,
+            reason,
+            price,
+            lpDelta,
+            currentShort,
+            targetShort,
+            netDelta: lpDelta - currentShort,
+            drift,
+            deltaProfile: getDeltaProfile(positions, price),
+            lpValueUsd,
+            lpApy: lpValueUsd > 0 ? lpYieldUsd / lpValueUsd : 0,
+            fundingApy,
+            netApy,
+        };
+    }
+
+    private async hedge(plan: HedgePlan): Promise<HedgeResult> {
+        const quantity = plan.targetShort.toFixed(4);
+
+        try {
+            // The order posts margin for the change in size
+            const decision = await this.runtime.walletPolicy.authorize({
+                action: "yields-fun/delta-neutral",
+                userId: this.runtime.agentId,
+                roomId: this.runtime.agentId,
+                valueUsd:
+                    (Math.abs(plan.targetShort - plan.currentShort) *
+                        plan.price) /
+                    this.config.leverage,
+                tokens: Object.keys(DELTA_NEUTRAL_CONFIG.MARKETS).filter(
+                    (mint) =>
+                        DELTA_NEUTRAL_CONFIG.MARKETS[mint] === plan.marketCode
+                ),
+            });
+            if (!decision.allowed) {
+                return {
+                    marketCode: plan.marketCode,
+                    success: false,
+                    message: `Blocked by the wallet policy: ${decision.reason}`,
+                };
+            }
+
+            try {
+                if (plan.action === "open") {
+                    await this.oxActions.openPosition({
+                        marketCode: plan.marketCode,
+                        side: "SELL",
+                        quantity,
+                        leverage: this.config.leverage,
+                    });
+                } else {
+                    // OX reports shorts as negative positions
+                    await this.oxActions.modifyPosition(
+                        plan.marketCode,
+                        (-plan.targetShort).toFixed(4)
+                    );
+                }
+            } catch (error) {
+                await this.runtime.walletPolicy.release(decision);
+                throw error;
+            }
+
+            return {
+                marketCode: plan.marketCode,
+                success: true,
+                message: `Short ${quantity} on ${plan.marketCode}`,
+            };
+        } catch (error) {
+            console.error("Error hedging LP positions:", error);
+            return {
+                marketCode: plan.marketCode,
+                success: false,
+                message: error.message,
+            };
+        }
+    }
+
+    private async getShortSize(marketCode: string): Promise<number> {
+        const positions = await this.ox.getPositions(marketCode);
+        const position = positions?.data?.[0]?.positions?.find(
+            (p: any) => p.marketCode === marketCode
+        );
+        const size = parseFloat(position?.position ?? "0");
+        return Number.isFinite(size) && size !== 0 ? -size : 0;
+    }
+
+    private async getFundingApy(marketCode: string): Promise<number> {
+        try {
+            const response = await this.ox.getFundingRates(marketCode);
+            return annualizeFunding(
+                (response?.data ?? []).map((entry: any) =>
+                    parseFloat(entry.fundingRate)
+                )
+            );
+        } catch (error) {
+            console.error(`Error fetching ${marketCode} funding:`, error);
+            return 0;
+        }
+    }
+}
+
+function getDeltaNeutralConfig(
+    runtime: IAgentRuntime
+): Partial<DeltaNeutralConfig> {
+    const setting = (key: string) => {
+        const value = parseFloat(runtime.getSetting(key));
+        return Number.isFinite(value) ? value : undefined;
+    };
+
+    const config: Partial<DeltaNeutralConfig> = {
+        hedgeRatio: setting("YIELDS_FUN_HEDGE_RATIO"),
+        rehedgeThreshold: setting("YIELDS_FUN_REHEDGE_THRESHOLD"),
+        leverage: setting("YIELDS_FUN_HEDGE_LEVERAGE"),
+    };
+
+    // Unset values fall back to DELTA_NEUTRAL_DEFAULTS
+    return Object.fromEntries(
+        Object.entries(config).filter(([, value]) => value !== undefined)
+    );
+}
+
+/**
+ * Returns the strategy over the agent's position ledger, or null when the
+ * adapter does not expose a SQLite handle or OX is not configured.
+ */
+export function getDeltaNeutralStrategy(
+    runtime: IAgentRuntime
+): DeltaNeutralStrategy | null {
+    const ledger = getPositionLedger(runtime);
+    const apiKey = runtime.getSetting("OX_API_KEY");
+    if (!ledger || !apiKey) return null;
+
+    const connection = new Connection(
+        runtime.getSetting("RPC_URL") || "https://api.mainnet-beta.solana.com"
+    );
+    const ox = new OxProvider({
+        apiKey,
+        apiSecret: runtime.getSetting("OX_API_SECRET"),
+        isTestnet: runtime.getSetting("OX_TESTNET") === "true",
+    });
+
+    return new DeltaNeutralStrategy(
+        createClmVenues(
+            connection,
+            ledger,
+            getAgentWallet(runtime),
+            getTxGuard(runtime, connection, {
+                action: "yields-fun/delta-neutral",
+            })
+        ),
+        ledger,
+        ox,
+        new OxActions(ox, ledger),
+        runtime,
+        (protocol, pool) => getOpportunityApy(runtime, protocol, pool),
+        getDeltaNeutralConfig(runtime)
+    );
+}
+
+export function formatHedgePlans(
+    plans: HedgePlan[],
+    results: HedgeResult[] = []
+): string {
+    if (plans.length === 0) return "No LP positions to hedge.";
+
+    const lines = plans.map((plan, index) => {
+        const pools = plan.positions
+            .map((p) => `${p.protocol} ${p.positionMint ?? p.poolAddress}`)
+            .join(", ");
+        let line = `${index + 1}. ${plan.marketCode ?? pools}: ${plan.action} (${plan.reason})`;
+        if (plan.action === "skip") return line;
+
+        line += `\n   LPs: ${pools}`;
+        line += `\n   Delta: ${plan.lpDelta.toFixed(4)} LP, ${plan.currentShort.toFixed(4)} short, ${plan.targetShort.toFixed(4)} target (net ${plan.netDelta.toFixed(4)})`;
+        line += `\n   Across range: ${plan.deltaProfile
+            .map(
+                (point) =>
+                    `${point.delta.toFixed(2)} @ ${point.price.toFixed(2)}`
+            )
+            .join(", ")}`;
+        line += `\n   APY: ${plan.lpApy.toFixed(2)}% LP, ${plan.fundingApy.toFixed(2)}% funding, ${plan.netApy.toFixed(2)}% net`;
+
+        const result = results.find((r) => r.marketCode === plan.marketCode);
+        if (result) {
+            line += `\n   ${result.success ? "✅" : "❌"} ${result.message}`;
+        }
+        return line;
+    });
+
+    return `⚖️ Delta-Neutral Hedge ${results.length ? "Report" : "Preview"}\n\n${lines.join("\n\n")}`;
+}
@@ -0,0 +1,383 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { FundingSnapshot, TrustScoreDatabase } from "@ai16z/plugin-trustdb";
+import { OxProvider } from "../providers/oxProvider";
+
+export interface FundingStats {
+    marketCode: string;
+    windowDays: number;
+    samples: number;
+    currentFundingRate: number;
+    // Annualized funding a short collects, in percent
+    currentCarryApy: number;
+    averageCarryApy: number;
+    // Standard deviation of annualized funding, in APY points
+    carryVolatility: number;
+    // Standard deviations between current funding and the window mean
+    fundingZScore: number;
+    // Hours for a deviation from mean funding to halve, null when funding
+    // did not revert in the window
+    halfLifeHours: number | null;
+    // Mark price over index price, in basis points
+    currentBasisBps: number;
+    averageBasisBps: number;
+    // Percent change in open interest from the first to the last snapshot
+    openInterestTrend: number;
+}
+
+export interface FundingAlert {
+    marketCode: string;
+    field: "funding" | "basis";
+    previous: number;
+    current: number;
+    timestamp: Date;
+    message: string;
+}
+
+const FUNDING_CONFIG = {
+    // OX settles funding hourly
+    PERIODS_PER_YEAR: 24 * 365,
+    SNAPSHOT_INTERVAL_MS: 60 * 60 * 1000,
+    RETENTION_DAYS: 30,
+    // How far back to look for the snapshot a new one is compared against
+    FLIP_LOOKBACK_MS: 24 * 60 * 60 * 1000,
+    DEFAULT_MARKETS: [
+        "SOL-USD-SWAP-LIN",
+        "BTC-USD-SWAP-LIN",
+        "ETH-USD-SWAP-LIN",
+    ],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export const getBasisBps = (snapshot: FundingSnapshot) =>
+    snapshot.indexPrice > 0
+        ? (snapshot.markPrice / snapshot.indexPrice - 1) * 10_000
+        : 0;
+
+const mean = (values: number[]) =>
+    values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * Annualizes OX funding rates, given per settlement period as fractions, into
+ * a percentage. Positive rates are paid by longs to shorts.
+ */
+export function annualizeFunding(rates: number[]): number {
+    const valid = rates.filter(Number.isFinite);
+    if (valid.length === 0) return 0;
+
+    return mean(valid) * FUNDING_CONFIG.PERIODS_PER_YEAR * 100;
+}
+
+/**
+ * Half-life of funding deviations from an AR(1) fit over consecutive
+ * snapshots: each deviation is some fraction φ of the one before, and
+ * log(0.5) / log(φ) intervals halve it.
+ */
+function getHalfLifeHours(window: FundingSnapshot[]): number | null {
+    if (window.length < 3) return null;
+
+    const average = mean(window.map((s) => s.fundingRate));
+    let cross = 0;
+    let squared = 0;
+    for (let i = 1; i < window.length; i++) {
+        const before = window[i - 1].fundingRate - average;
+        cross += before * (window[i].fundingRate - average);
+        squared += before ** 2;
+    }
+    if (squared === 0) return null;
+
+    const phi = cross / squared;
+    if (phi <= 0 || phi >= 1) return null;
+
+    const intervalHours =
+        (window[window.length - 1].timestamp.getTime() -
+            window[0].timestamp.getTime()) /
+        (window.length - 1) /
+        HOUR_MS;
+    return (intervalHours * Math.log(0.5)) / Math.log(phi);
+}
+
+/**
+ * Summarizes the snapshots of one market that fall inside the window ending
+ * at `now`. Returns null when there is no data in the window.
+ */
+export function summarizeFundingHistory(
+    history: FundingSnapshot[],
+    windowDays: number,
+    now: Date = new Date()
+): FundingStats | null {
+    const since = now.getTime() - windowDays * DAY_MS;
+    const window = history
+        .filter((snapshot) => snapshot.timestamp.getTime() >= since)
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    if (window.length === 0) return null;
+
+    const carries = window.map((s) => annualizeFunding([s.fundingRate]));
+    const averageCarryApy = mean(carries);
+    const carryVolatility = Math.sqrt(
+        mean(carries.map((carry) => (carry - averageCarryApy) ** 2))
+    );
+
+    const first = window[0];
+    const last = window[window.length - 1];
+    const currentCarryApy = carries[carries.length - 1];
+
+    return {
+        marketCode: last.marketCode,
+        windowDays,
+        samples: window.length,
+        currentFundingRate: last.fundingRate,
+        currentCarryApy,
+        averageCarryApy,
+        carryVolatility,
+        fundingZScore:
+            carryVolatility > 0
+                ? (currentCarryApy - averageCarryApy) / carryVolatility
+                : 0,
+        halfLifeHours: getHalfLifeHours(window),
+        currentBasisBps: getBasisBps(last),
+        averageBasisBps: mean(window.map(getBasisBps)),
+        openInterestTrend:
+            first.openInterest > 0
+                ? ((last.openInterest - first.openInterest) /
+                      first.openInterest) *
+                  100
+                : 0,
+    };
+}
+
+/**
+ * Alerts when funding or basis changed sign between two snapshots of the
+ * same market. A move to or from exactly zero is not a flip.
+ */
+export function detectSignFlips(
+    previous: FundingSnapshot,
+    current: FundingSnapshot
+): FundingAlert[] {
+    const alerts: FundingAlert[] = [];
+    const check = (field: FundingAlert["field"], from: number, to: number) => {
+        if (from * to >= 0) return;
+        const payer = to > 0 ? "longs pay shorts" : "shorts pay longs";
+        alerts.push({
+            marketCode: current.marketCode,
+            field,
+            previous: from,
+            current: to,
+            timestamp: current.timestamp,
+            message:
+                field === "funding"
+                    ? `${current.marketCode} funding flipped ${to > 0 ? "positive" : "negative"}, ${payer}`
+                    : `${current.marketCode} basis flipped to ${to > 0 ? "premium" : "discount"} (${to.toFixed(1)} bps)`,
+        });
+    };
+
+    check("funding", previous.fundingRate, current.fundingRate);
+    check("basis", getBasisBps(previous), getBasisBps(current));
+    return alerts;
+}
+
+export function formatFundingStats(stats: FundingStats): string {
+    const halfLife =
+        stats.halfLifeHours === null
+            ? "no reversion"
+            : `half-life ${stats.halfLifeHours.toFixed(1)}h`;
+    const oiSign = stats.openInterestTrend >= 0 ? "+" : "";
+    return `${stats.marketCode}: carry ${stats.currentCarryApy.toFixed(2)}% now vs ${stats.averageCarryApy.toFixed(2)}% ${stats.windowDays}d avg (σ ${stats.carryVolatility.toFixed(2)}, z ${stats.fundingZScore.toFixed(2)}, ${halfLife}), basis ${stats.currentBasisBps.toFixed(1)} bps vs ${stats.averageBasisBps.toFixed(1)} avg, OI ${oiSign}${stats.openInterestTrend.toFixed(1)}%`;
+}
+
+/**
+ * Persists perp funding, basis and open interest snapshots in the trust
+ * database.
+ */
+export class FundingHistoryStore {
+    constructor(private db: TrustScoreDatabase) {}
+
+    // At most one snapshot per SNAPSHOT_INTERVAL_MS
+    isDue(timestamp: Date = new Date()): boolean {
+        const latest = this.db.getLatestFundingSnapshotTime();
+        return (
+            !latest ||
+            timestamp.getTime() - latest.getTime() >=
+                FUNDING_CONFIG.SNAPSHOT_INTERVAL_MS
+        );
+    }
+
+    /**
+     * Stores the snapshots and returns sign flips against each market's
+     * previous snapshot.
+     */
+    record(snapshots: FundingSnapshot[]): FundingAlert[] {
+        try {
+            const alerts = snapshots.flatMap((snapshot) => {
+                const previous = this.db
+                    .getFundingHistory(
+                        snapshot.marketCode,
+                        new Date(
+                            snapshot.timestamp.getTime() -
+                                FUNDING_CONFIG.FLIP_LOOKBACK_MS
+                        )
+                    )
+                    .filter((s) => s.timestamp < snapshot.timestamp)
+                    .pop();
+                return previous ? detectSignFlips(previous, snapshot) : [];
+            });
+
+            this.db.addFundingSnapshots(snapshots);
+            if (snapshots.length > 0) {
+                this.db.pruneFundingHistory(
+                    new Date(
+                        snapshots[0].timestamp.getTime() -
+                            FUNDING_CONFIG.RETENTION_DAYS * DAY_MS
+                    )
+                );
+            }
+
+            return alerts;
+        } catch (error) {
+            console.error("Error recording funding history:", error);
+            return [];
+        }
+    }
+
+    getStats(
+        marketCode: string,
+        windowDays: number,
+        now: Date = new Date()
+    ): FundingStats | null {
+        try {
+            const history = this.db.getFundingHistory(
+                marketCode,
+                new Date(now.getTime() - windowDays * DAY_MS)
+            );
+            return summarizeFundingHistory(history, windowDays, now);
+        } catch (error) {
+            console.error("Error reading funding history:", error);
+            return null;
+        }
+    }
+}
+
+/**
+ * Snapshots funding, mark/index spread and open interest of OX perp markets
+ * into a FundingHistoryStore. Meant to run on a schedule; calls before the
+ * snapshot interval has passed do nothing.
+ */
+export class FundingCollector {
+    constructor(
+        private store: FundingHistoryStore,
+        private ox: Pick<
+            OxProvider,
+            "getFundingRates" | "getMarketInfo" | "getTicker"
+        >,
+        private markets: string[] = FUNDING_CONFIG.DEFAULT_MARKETS
+    ) {}
+
+    async collect(
+        timestamp: Date = new Date()
+    ): Promise<{ snapshots: FundingSnapshot[]; alerts: FundingAlert[] }> {
+        if (!this.store.isDue(timestamp)) return { snapshots: [], alerts: [] };
+
+        const results = await Promise.allSettled(
+            this.markets.map((market) => this.fetchSnapshot(market, timestamp))
+        );
+
+        const snapshots: FundingSnapshot[] = [];
+        results.forEach((result, i) => {
+            if (result.status === "rejected") {
+                console.error(
+                    `Error snapshotting ${this.markets[i]} funding:`,
+                    result.reason
+                );
+                return;
+            }
+            snapshots.push(result.value);
+        });
+
+        return { snapshots, alerts: this.store.record(snapshots) };
+    }
+
+    private async fetchSnapshot(
+        marketCode: string,
+        timestamp: Date
+    ): Promise<FundingSnapshot> {
+        const [funding, market, ticker] = await Promise.all([
+            this.ox.getFundingRates(marketCode),
+            this.ox.getMarketInfo(marketCode),
+            this.ox.getTicker(marketCode),
+        ]);
+
+        // Most recent settlement first when createdAt is missing
+        const [latest] = [...(funding?.data ?? [])].sort(
+            (a: any, b: any) =>
+                Number(b.createdAt ?? 0) - Number(a.createdAt ?? 0)
+        );
+        const snapshot = {
+            marketCode,
+            fundingRate: parseFloat(latest?.fundingRate),
+            markPrice: parseFloat(market?.data?.[0]?.markPrice),
+            indexPrice: parseFloat(market?.data?.[0]?.indexPrice),
+            openInterest: parseFloat(ticker?.data?.[0]?.openInterest ?? "0"),
+            timestamp,
+        };
+
+        if (
+            !Number.isFinite(snapshot.fundingRate) ||
+            !Number.isFinite(snapshot.markPrice) ||
+            !Number.isFinite(snapshot.indexPrice)
+        ) {
+            throw new Error(`Incomplete market data for ${marketCode}`);
+        }
+        return snapshot;
+    }
+}
+
+/**
+ * Returns a funding store backed by the agent's database, or null when the
+ * adapter does not expose a SQLite handle.
+ */
+export function getFundingHistoryStore(
+    runtime: IAgentRuntime
+): FundingHistoryStore | null {
+    const db = runtime.databaseAdapter?.db;
+    if (!db?.prepare) return null;
+
+    try {
+        return new FundingHistoryStore(new TrustScoreDatabase(db));
+    } catch (error) {
+        console.error("Error opening funding history store:", error);
+        return null;
+    }
+}
+
+// YIELDS_FUN_FUNDING_MARKETS is a comma separated list of OX market codes
+export function getFundingMarkets(runtime: IAgentRuntime): string[] {
+    const markets = (runtime.getSetting("YIELDS_FUN_FUNDING_MARKETS") ?? "")
+        .split(",")
+        .map((market) => market.trim())
+        .filter(Boolean);
+    return markets.length > 0 ? markets : FUNDING_CONFIG.DEFAULT_MARKETS;
+}
+
+/**
+ * Returns a collector over the agent's database, or null without a SQLite
+ * handle or OX credentials.
+ */
+export function getFundingCollector(
+    runtime: IAgentRuntime
+): FundingCollector | null {
+    const store = getFundingHistoryStore(runtime);
+    const apiKey = runtime.getSetting("OX_API_KEY");
+    if (!store || !apiKey) return null;
+
+    return new FundingCollector(
+        store,
+        new OxProvider({
+            apiKey,
+            apiSecret: runtime.getSetting("OX_API_SECRET"),
+            isTestnet: runtime.getSetting("OX_TESTNET") === "true",
+        }),
+        getFundingMarkets(runtime)
+    );
+}
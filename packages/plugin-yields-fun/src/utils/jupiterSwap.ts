@@ -0,0 +1,96 @@
+import { TxGuard } from "@ai16z/eliza";
+import axios from "axios";
+import { Connection, Keypair, VersionedTransaction } from "@solana/web3.js";
+import { sendGuarded } from "./txGuard";
+
+const JUPITER_CONFIG = {
+    API_URL: "https://quote-api.jup.ag/v6",
+    DEFAULT_SLIPPAGE_BPS: 50,
+};
+
+// Fields of a v6 quote response used here; the whole response is passed
+// back to /swap unchanged
+export interface JupiterQuote {
+    inputMint: string;
+    outputMint: string;
+    inAmount: string;
+    outAmount: string;
+    priceImpactPct: string;
+}
+
+/**
+ * Minimal Jupiter v6 client: quotes a route and sends the swap transaction
+ * signed by `wallet`. With a guard, swaps that would fill short of the quote
+ * or lose too much value are rejected before signing.
+ */
+export class JupiterSwapClient {
+    constructor(
+        private connection: Connection,
+        private guard: TxGuard | null = null,
+        private slippageBps: number = JUPITER_CONFIG.DEFAULT_SLIPPAGE_BPS
+    ) {}
+
+    // `amount` is in raw token units
+    async quote(
+        inputMint: string,
+        outputMint: string,
+        amount: bigint
+    ): Promise<JupiterQuote> {
+        const { data } = await axios.get(`${JUPITER_CONFIG.API_URL}/quote`, {
+            params: {
+                inputMint,
+                outputMint,
+                amount: amount.toString(),
+                slippageBps: this.slippageBps,
+            },
+        });
+        return data;
+    }
+
+    // `amount` is in raw token units
+    async swap(
+        inputMint: string,
+        outputMint: string,
+        amount: bigint,
+        wallet: Keypair
+    ): Promise<string> {
+        return this.swapQuote(
+            await this.quote(inputMint, outputMint, amount),
+            wallet
+        );
+    }
+
+    async swapQuote(
+        quoteResponse: JupiterQuote,
+        wallet: Keypair
+    ): Promise<string> {
+        const { data } = await axios.post(`${JUPITER_CONFIG.API_URL}/swap`, {
+            quoteResponse,
+            userPublicKey: wallet.publicKey.toBase58(),
+            wrapAndUnwrapSol: true,
+        });
+
+        const transaction = VersionedTransaction.deserialize(
+            Buffer.from(data.swapTransaction, "base64")
+        );
+        const signature = await sendGuarded(
+            this.guard,
+            transaction,
+            wallet.publicKey,
+            {
+                description: `Swap ${quoteResponse.inAmount} ${quoteResponse.inputMint} for ${quoteResponse.outputMint}`,
+                receive: {
+                    [quoteResponse.outputMint]: BigInt(quoteResponse.outAmount),
+                },
+            },
+            () => {
+                transaction.sign([wallet]);
+                return this.connection.sendRawTransaction(
+                    transaction.serialize()
+                );
+            }
+        );
+        await this.connection.confirmTransaction(signature, "confirmed");
+        return signature;
+    }
+}
@@ -0,0 +1,386 @@
+import { randomUUID } from "crypto";
+import { ICacheManager, State } from "@ai16z/eliza";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import { PriceRange } from "./backtester";
+import { PositionLedger } from "./positionLedger";
+import {
+    planSwapToRatio,
+    recenterRange,
+    RebalanceVenue,
+    RebalanceWallet,
+    TokenAmounts,
+} from "./rebalancer";
+
+export type MigrationStep =
+    | "claim"
+    | "withdraw"
+    | "swap"
+    | "deposit"
+    | "completed";
+
+export interface MigrationRequest {
+    baseAddress: string;
+    quoteAddress: string;
+    // AMM ids as used by DexScreener, e.g. "raydium"
+    fromAmm: string;
+    toAmm: string;
+}
+
+export interface MigrationState extends MigrationRequest {
+    id: string;
+    status: "in_progress" | "completed";
+    step: MigrationStep;
+    targetPool: string;
+    // Target pool mints in its token A/B order
+    mints: [string, string];
+    decimals: [number, number];
+    positionIds: string[];
+    // Width of the new range as upper / lower price
+    rangeRatio: number;
+    // Wallet balances of `mints` before the migration started. Anything
+    // above them belongs to the migration.
+    baselineBalances: number[];
+    signatures: string[];
+    lastError?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// Finds the best pool for a pair on one AMM, null when it has none
+export type PoolFinder = (
+    baseAddress: string,
+    quoteAddress: string,
+    amm: string
+) => Promise<string | null>;
+
+const MIGRATION_CONFIG = {
+    CACHE_KEY: "yields-fun/migrations",
+    // +/- 10% when the migrated positions have no recorded range
+    DEFAULT_RANGE_RATIO: 1.1 / 0.9,
+};
+
+const STEP_ORDER: MigrationStep[] = [
+    "claim",
+    "withdraw",
+    "swap",
+    "deposit",
+    "completed",
+];
+
+/**
+ * Moves a pair's liquidity from one AMM to the best pool on another: claim
+ * rewards, withdraw, swap to the new range's ratio and deposit. Progress is
+ * saved after every step so an interrupted migration resumes where it
+ * stopped instead of leaving funds idle in the wallet. Every step is safe to
+ * repeat: withdrawals skip closed positions, swaps and deposits work from
+ * the wallet balance above the baseline taken at the start.
+ */
+export class LiquidityMigrator {
+    constructor(
+        private venues: RebalanceVenue[],
+        private ledger: PositionLedger,
+        private cacheManager: ICacheManager,
+        private wallet: RebalanceWallet,
+        private findPool: PoolFinder
+    ) {}
+
+    /**
+     * Starts a migration, or resumes the unfinished one for the same pair.
+     */
+    async migrate(
+        request: MigrationRequest,
+        state: State
+    ): Promise<MigrationState> {
+        const existing = (await this.list("in_progress")).find(
+            (migration) =>
+                migration.baseAddress === request.baseAddress &&
+                migration.quoteAddress === request.quoteAddress
+        );
+        if (existing) return this.resume(existing.id, state);
+
+        const migration = await this.plan(request);
+        migration.baselineBalances = await this.wallet.getBalances(
+            migration.mints,
+            state
+        );
+        await this.save(migration);
+
+        return this.resume(migration.id, state);
+    }
+
+    /**
+     * Builds the migration without touching funds.
+     */
+    async plan(request: MigrationRequest): Promise<MigrationState> {
+        const from = this.getVenue(request.fromAmm);
+        const to = this.getVenue(request.toAmm);
+        if (!from) throw new Error(`Unsupported AMM ${request.fromAmm}`);
+        if (!to) throw new Error(`Unsupported AMM ${request.toAmm}`);
+
+        const targetPool = await this.findPool(
+            request.baseAddress,
+            request.quoteAddress,
+            request.toAmm
+        );
+        if (!targetPool) {
+            throw new Error(`No ${request.toAmm} pool found for the pair`);
+        }
+
+        const quote = await to.getQuote(targetPool);
+        const positions = await this.findPositions(from, request);
+        const ranged = positions.find(
+            (position) => position.lowerPrice > 0 && position.upperPrice
+        );
+        const now = Date.now();
+
+        return {
+            ...request,
+            id: randomUUID(),
+            status: "in_progress",
+            step: "claim",
+            targetPool,
+            mints: [quote.mintA, quote.mintB],
+            decimals: [quote.decimalsA, quote.decimalsB],
+            positionIds: positions.map((position) => position.id),
+            rangeRatio: ranged
+                ? ranged.upperPrice / ranged.lowerPrice
+                : MIGRATION_CONFIG.DEFAULT_RANGE_RATIO,
+            baselineBalances: [0, 0],
+            signatures: [],
+            createdAt: now,
+            updatedAt: now,
+        };
+    }
+
+    /**
+     * Runs the remaining steps of a migration. A failed step is recorded in
+     * `lastError` and retried on the next call.
+     */
+    async resume(id: string, state: State): Promise<MigrationState> {
+        let migration = await this.get(id);
+        if (!migration) throw new Error(`Migration ${id} not found`);
+
+        while (migration.status === "in_progress") {
+            try {
+                const signatures = await this.runStep(migration, state);
+                const next = STEP_ORDER[STEP_ORDER.indexOf(migration.step) + 1];
+
+                migration = {
+                    ...migration,
+                    step: next,
+                    status: next === "completed" ? "completed" : "in_progress",
+                    signatures: [...migration.signatures, ...signatures],
+                    lastError: undefined,
+                    updatedAt: Date.now(),
+                };
+                await this.save(migration);
+            } catch (error) {
+                console.error(
+                    `Error in migration step ${migration.step}:`,
+                    error
+                );
+                migration = {
+                    ...migration,
+                    lastError: error.message,
+                    updatedAt: Date.now(),
+                };
+                await this.save(migration);
+                break;
+            }
+        }
+
+        return migration;
+    }
+
+    async resumeAll(state: State): Promise<MigrationState[]> {
+        const migrations: MigrationState[] = [];
+        for (const migration of await this.list("in_progress")) {
+            migrations.push(await this.resume(migration.id, state));
+        }
+        return migrations;
+    }
+
+    async get(id: string): Promise<MigrationState | null> {
+        const migrations = await this.load();
+        return migrations.find((migration) => migration.id === id) || null;
+    }
+
+    async list(status?: MigrationState["status"]): Promise<MigrationState[]> {
+        const migrations = await this.load();
+        return status
+            ? migrations.filter((migration) => migration.status === status)
+            : migrations;
+    }
+
+    private async runStep(
+        migration: MigrationState,
+        state: State
+    ): Promise<string[]> {
+        const from = this.getVenue(migration.fromAmm);
+        const to = this.getVenue(migration.toAmm);
+        const signatures: string[] = [];
+
+        switch (migration.step) {
+            case "claim":
+                for (const position of this.openPositions(migration)) {
+                    if (from.harvest) {
+                        signatures.push(
+                            ...(await from.harvest(position, state))
+                        );
+                    }
+                }
+                return signatures;
+
+            case "withdraw":
+                for (const position of this.openPositions(migration)) {
+                    signatures.push(...(await from.close(position, state)));
+                }
+                return signatures;
+
+            case "swap": {
+                const quote = await to.getQuote(migration.targetPool);
+                const swap = planSwapToRatio(
+                    await this.migratedAmounts(migration, state),
+                    quote.price,
+                    this.targetRange(migration, quote.price)
+                );
+                if (!swap) return [];
+
+                const [inputMint, outputMint] =
+                    swap.sell === "A"
+                        ? migration.mints
+                        : [migration.mints[1], migration.mints[0]];
+                const signature = await this.wallet.swap(
+                    inputMint,
+                    outputMint,
+                    swap.amount,
+                    migration.decimals[swap.sell === "A" ? 0 : 1],
+                    state
+                );
+                return signature ? [signature] : [];
+            }
+
+            case "deposit": {
+                // The venue records new positions in the ledger, so one
+                // opened since the migration started means the deposit landed
+                const deposited = this.ledger
+                    .findActive(to.protocol, migration.targetPool)
+                    .some(
+                        (position) =>
+                            position.status === "open" &&
+                            position.openedAt.getTime() >= migration.createdAt
+                    );
+                if (deposited) return [];
+
+                const quote = await to.getQuote(migration.targetPool);
+                const amounts = await this.migratedAmounts(migration, state);
+                if (amounts.tokenA <= 0 && amounts.tokenB <= 0) return [];
+
+                return to.open(
+                    migration.targetPool,
+                    this.targetRange(migration, quote.price),
+                    amounts,
+                    quote,
+                    state
+                );
+            }
+
+            default:
+                return [];
+        }
+    }
+
+    private getVenue(amm: string): RebalanceVenue | undefined {
+        return this.venues.find(
+            (venue) => venue.protocol.toLowerCase() === amm.toLowerCase()
+        );
+    }
+
+    // Active positions on the source AMM whose pool trades the pair
+    private async findPositions(
+        venue: RebalanceVenue,
+        request: MigrationRequest
+    ): Promise<LedgerPosition[]> {
+        const pair = [request.baseAddress, request.quoteAddress].sort();
+        const positions = this.ledger
+            .list()
+            .filter(
+                (position) =>
+                    position.protocol === venue.protocol &&
+                    position.kind === "LP" &&
+                    position.status !== "closed"
+            );
+
+        const matches: LedgerPosition[] = [];
+        for (const position of positions) {
+            try {
+                const quote = await venue.getQuote(position.poolAddress);
+                const mints = [quote.mintA, quote.mintB].sort();
+                if (mints[0] === pair[0] && mints[1] === pair[1]) {
+                    matches.push(position);
+                }
+            } catch (error) {
+                console.error("Error quoting position for migration:", error);
+            }
+        }
+        return matches;
+    }
+
+    private openPositions(migration: MigrationState): LedgerPosition[] {
+        return migration.positionIds
+            .map((id) => this.ledger.get(id))
+            .filter((position) => position && position.status !== "closed");
+    }
+
+    private async migratedAmounts(
+        migration: MigrationState,
+        state: State
+    ): Promise<TokenAmounts> {
+        const balances = await this.wallet.getBalances(migration.mints, state);
+        return {
+            tokenA: Math.max(balances[0] - migration.baselineBalances[0], 0),
+            tokenB: Math.max(balances[1] - migration.baselineBalances[1], 0),
+        };
+    }
+
+    private targetRange(migration: MigrationState, price: number): PriceRange {
+        return recenterRange(
+            { lowerPrice: 1, upperPrice: migration.rangeRatio },
+            price
+        );
+    }
+
+    private async load(): Promise<MigrationState[]> {
+        return (
+            (await this.cacheManager.get<MigrationState[]>(
+                MIGRATION_CONFIG.CACHE_KEY
+            )) || []
+        );
+    }
+
+    private async save(migration: MigrationState): Promise<void> {
+        const migrations = await this.load();
+        const index = migrations.findIndex((m) => m.id === migration.id);
+        if (index >= 0) {
+            migrations[index] = migration;
+        } else {
+            migrations.push(migration);
+        }
+        await this.cacheManager.set(MIGRATION_CONFIG.CACHE_KEY, migrations);
+    }
+}
+
+export function formatMigration(migration: MigrationState): string {
+    const current = STEP_ORDER.indexOf(migration.step);
+    const progress = STEP_ORDER.slice(0, -1)
+        .map(
+            (step, index) =>
+                `${index < current ? "✅" : index === current ? "⏳" : "▫️"} ${step}`
+        )
+        .join(" → ");
+
+    let text = `🔀 Migration ${migration.fromAmm} → ${migration.toAmm} (${migration.status})\n`;
+    text += `Target pool: ${migration.targetPool}\n${progress}`;
+    if (migration.lastError) text += `\nLast error: ${migration.lastError}`;
+    return text;
+}
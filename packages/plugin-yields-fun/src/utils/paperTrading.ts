@@ -0,0 +1,280 @@
+import { randomUUID } from "crypto";
+import { IAgentRuntime, ICacheManager } from "@ai16z/eliza";
+import { getAmountsForLiquidity } from "./clmPnlCalculator";
+
+export type ExecutionMode = "live" | "paper";
+
+export type PaperPositionKind = "LP" | "LENDING" | "STAKING" | "PERP";
+
+export interface PaperOpenParams {
+    protocol: string;
+    kind: PaperPositionKind;
+    // Pool, whirlpool, lending mint or market code
+    pool: string;
+    tokens: string[];
+    entryPrice: number;
+    notionalUsd: number;
+    // Fee APR for LPs, supply APY for lending, staking APY for LSTs, funding
+    // APR for perps (percent)
+    apr: number;
+    lowerPrice?: number;
+    upperPrice?: number;
+    side?: "LONG" | "SHORT";
+}
+
+export interface PaperPosition extends PaperOpenParams {
+    id: string;
+    status: "open" | "closed";
+    openedAt: number;
+    closedAt?: number;
+    exitPrice?: number;
+    realizedPnlUsd?: number;
+}
+
+// Fields needed to mark any position, paper or live, to a price
+export type ValuationInput = Pick<
+    PaperPosition,
+    | "kind"
+    | "entryPrice"
+    | "notionalUsd"
+    | "apr"
+    | "openedAt"
+    | "lowerPrice"
+    | "upperPrice"
+    | "side"
+>;
+
+export interface PaperValuation {
+    valueUsd: number;
+    feesUsd: number;
+    impermanentLossUsd: number;
+    pnlUsd: number;
+    inRange: boolean;
+}
+
+const LEDGER_CONFIG = {
+    CACHE_KEY: "yields-fun/paper-ledger",
+};
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Ledger writes per cache, shared by every PaperLedger over that cache
+const ledgerQueues = new WeakMap<ICacheManager, Promise<unknown>>();
+
+export function getExecutionMode(runtime: IAgentRuntime): ExecutionMode {
+    return runtime.getSetting("YIELDS_FUN_EXECUTION_MODE") === "paper"
+        ? "paper"
+        : "live";
+}
+
+/**
+ * Marks a paper position to `currentPrice`. LP fees accrue linearly at the
+ * recorded APR, which assumes the position stayed in range while open.
+ */
+export function valuePaperPosition(
+    position: ValuationInput,
+    currentPrice: number,
+    at: number = Date.now()
+): PaperValuation {
+    const years = Math.max(at - position.openedAt, 0) / YEAR_MS;
+    const carryUsd = position.notionalUsd * (position.apr / 100) * years;
+
+    // Deposits and staked SOL are held at par
+    if (position.kind === "LENDING" || position.kind === "STAKING") {
+        return {
+            valueUsd: position.notionalUsd + carryUsd,
+            feesUsd: carryUsd,
+            impermanentLossUsd: 0,
+            pnlUsd: carryUsd,
+            inRange: true,
+        };
+    }
+
+    if (position.kind === "PERP") {
+        const direction = position.side === "SHORT" ? -1 : 1;
+        const pricePnl =
+            position.entryPrice > 0
+                ? direction *
+                  ((currentPrice - position.entryPrice) / position.entryPrice) *
+                  position.notionalUsd
+                : 0;
+
+        return {
+            valueUsd: position.notionalUsd + pricePnl + carryUsd,
+            feesUsd: carryUsd,
+            impermanentLossUsd: 0,
+            pnlUsd: pricePnl + carryUsd,
+            inRange: true,
+        };
+    }
+
+    const { entryPrice, lowerPrice, upperPrice, notionalUsd } = position;
+    const unit = getAmountsForLiquidity(1, entryPrice, lowerPrice, upperPrice);
+    const unitValue = unit.tokenA * entryPrice + unit.tokenB;
+    const liquidity = unitValue > 0 ? notionalUsd / unitValue : 0;
+
+    const held = getAmountsForLiquidity(
+        liquidity,
+        entryPrice,
+        lowerPrice,
+        upperPrice
+    );
+    const current = getAmountsForLiquidity(
+        liquidity,
+        currentPrice,
+        lowerPrice,
+        upperPrice
+    );
+
+    const lpValueUsd = current.tokenA * currentPrice + current.tokenB;
+    const holdValueUsd = held.tokenA * currentPrice + held.tokenB;
+
+    return {
+        valueUsd: lpValueUsd + carryUsd,
+        feesUsd: carryUsd,
+        impermanentLossUsd: lpValueUsd - holdValueUsd,
+        pnlUsd: lpValueUsd + carryUsd - notionalUsd,
+        inRange:
+            currentPrice >= (lowerPrice ?? 0) &&
+            currentPrice <= (upperPrice ?? Infinity),
+    };
+}
+
+/**
+ * Simulated positions opened while YIELDS_FUN_EXECUTION_MODE=paper, kept in
+ * the runtime cache so they survive restarts. Updates are queued so
+ * concurrent actions cannot overwrite each other's positions.
+ */
+export class PaperLedger {
+    constructor(private cacheManager: ICacheManager) {}
+
+    async open(params: PaperOpenParams): Promise<PaperPosition> {
+        const position: PaperPosition = {
+            ...params,
+            id: randomUUID(),
+            status: "open",
+            openedAt: Date.now(),
+        };
+
+        return this.update((positions) => {
+            positions.push(position);
+            return position;
+        });
+    }
+
+    async list(status?: PaperPosition["status"]): Promise<PaperPosition[]> {
+        const positions = await this.load();
+        return status
+            ? positions.filter((position) => position.status === status)
+            : positions;
+    }
+
+    async get(id: string): Promise<PaperPosition | null> {
+        const positions = await this.load();
+        return positions.find((position) => position.id === id) || null;
+    }
+
+    async findOpen(protocol: string, pool: string): Promise<PaperPosition[]> {
+        const positions = await this.list("open");
+        return positions.filter(
+            (position) =>
+                position.protocol === protocol && position.pool === pool
+        );
+    }
+
+    /**
+     * Closes `fraction` of a position at `exitPrice`. A partial close books
+     * the closed slice as its own entry and shrinks the open position.
+     */
+    async close(
+        id: string,
+        exitPrice: number,
+        fraction: number = 1
+    ): Promise<PaperPosition> {
+        return this.update((positions) => {
+            const index = positions.findIndex((position) => position.id === id);
+            const position = positions[index];
+
+            if (!position) throw new Error(`Paper position ${id} not found`);
+            if (position.status === "closed") {
+                throw new Error(`Paper position ${id} is already closed`);
+            }
+
+            const closedAt = Date.now();
+            const share = Math.min(Math.max(fraction, 0), 1);
+            const slice: PaperPosition = {
+                ...position,
+                notionalUsd: position.notionalUsd * share,
+            };
+            const closed: PaperPosition = {
+                ...slice,
+                id: share < 1 ? randomUUID() : position.id,
+                status: "closed",
+                closedAt,
+                exitPrice,
+                realizedPnlUsd: valuePaperPosition(slice, exitPrice, closedAt)
+                    .pnlUsd,
+            };
+
+            if (share < 1) {
+                positions[index] = {
+                    ...position,
+                    notionalUsd: position.notionalUsd - slice.notionalUsd,
+                };
+                positions.push(closed);
+            } else {
+                positions[index] = closed;
+            }
+
+            return closed;
+        });
+    }
+
+    /**
+     * Closes `fraction` of every open position in a pool, one at a time so
+     * each write sees the previous one.
+     */
+    async closePool(
+        protocol: string,
+        pool: string,
+        exitPrice: number,
+        fraction: number = 1
+    ): Promise<PaperPosition[]> {
+        const closed: PaperPosition[] = [];
+        for (const position of await this.findOpen(protocol, pool)) {
+            closed.push(await this.close(position.id, exitPrice, fraction));
+        }
+        return closed;
+    }
+
+    /**
+     * Runs `change` on the stored positions and saves them, after any update
+     * already queued on the same cache.
+     */
+    private update<T>(change: (positions: PaperPosition[]) => T): Promise<T> {
+        const queue = ledgerQueues.get(this.cacheManager) ?? Promise.resolve();
+        const result = queue.then(async () => {
+            const positions = await this.load();
+            const value = change(positions);
+            await this.save(positions);
+            return value;
+        });
+        ledgerQueues.set(
+            this.cacheManager,
+            result.catch(() => {})
+        );
+        return result;
+    }
+
+    private async load(): Promise<PaperPosition[]> {
+        return (
+            (await this.cacheManager.get<PaperPosition[]>(
+                LEDGER_CONFIG.CACHE_KEY
+            )) || []
+        );
+    }
+
+    private async save(positions: PaperPosition[]): Promise<void> {
+        await this.cacheManager.set(LEDGER_CONFIG.CACHE_KEY, positions);
+    }
+}
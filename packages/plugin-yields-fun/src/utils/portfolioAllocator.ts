@@ -0,0 +1,335 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import { YieldOpportunity } from "../types/yield";
+
+export interface AllocationConstraints {
+    // Shares of the book value, 0-1
+    maxProtocolShare: number;
+    // Exposure to one token; an opportunity's capital is split evenly
+    // across its tokens
+    maxTokenShare: number;
+    maxPositionShare: number;
+    // Capital that must sit in opportunities made only of stablecoins
+    minStableShare: number;
+    // Kept in the wallet for gas and slippage
+    reserveShare: number;
+    // Maximum capital-weighted risk score (0-10) of the book, idle capital
+    // counting as zero risk
+    riskBudget: number;
+    // Cap per pool as a share of its TVL
+    maxTvlShare: number;
+    // Allocations and trims below this are not worth the transactions
+    minAllocationUsd: number;
+}
+
+// Structural subset of the Solana plugin's WalletProvider
+export interface PortfolioSource {
+    fetchPortfolioValue(runtime: IAgentRuntime): Promise<{
+        totalUsd: string;
+        items: Array<{ symbol: string; valueUsd: string }>;
+    }>;
+}
+
+export interface AllocationTarget {
+    opportunity: YieldOpportunity;
+    targetUsd: number;
+    currentUsd: number;
+    // Positive to add, negative to trim
+    deltaUsd: number;
+    share: number;
+}
+
+export interface PositionTrim {
+    position: LedgerPosition;
+    currentUsd: number;
+    targetUsd: number;
+    trimUsd: number;
+    reason: string;
+}
+
+export interface AllocationPlan {
+    // Wallet value plus open positions
+    bookValueUsd: number;
+    allocations: AllocationTarget[];
+    trims: PositionTrim[];
+    unallocatedUsd: number;
+    stableShare: number;
+    weightedRisk: number;
+    protocolShares: Record<string, number>;
+    tokenShares: Record<string, number>;
+}
+
+export const ALLOCATION_DEFAULTS: AllocationConstraints = {
+    maxProtocolShare: 0.4,
+    maxTokenShare: 0.5,
+    maxPositionShare: 0.25,
+    minStableShare: 0.2,
+    reserveShare: 0.02,
+    riskBudget: 5,
+    maxTvlShare: 0.01,
+    minAllocationUsd: 10,
+};
+
+const STABLECOINS = new Set([
+    "USDC",
+    "USDT",
+    "PYUSD",
+    "USDS",
+    "USDE",
+    "UXD",
+    "USDH",
+    "DAI",
+]);
+
+export const isStableOpportunity = (opportunity: YieldOpportunity) =>
+    opportunity.tokens.length > 0 &&
+    opportunity.tokens.every((token) => STABLECOINS.has(token.toUpperCase()));
+
+const opportunityKey = (protocol: string, address: string) =>
+    `${protocol.toLowerCase()}:${address}`;
+
+/**
+ * Splits the agent's whole book across ranked yield opportunities instead of
+ * sizing each trade on its own. Stable opportunities are filled first up to
+ * the minimum stable share, then every opportunity in rank order gets as
+ * much as the per-position, protocol, token, pool and risk budget limits
+ * allow. Open positions missing from the plan or above their target are
+ * reported as trims.
+ */
+export class PortfolioAllocator {
+    private constraints: AllocationConstraints;
+
+    constructor(constraints: Partial<AllocationConstraints> = {}) {
+        this.constraints = { ...ALLOCATION_DEFAULTS, ...constraints };
+    }
+
+    async allocate(
+        runtime: IAgentRuntime,
+        wallet: PortfolioSource,
+        opportunities: YieldOpportunity[],
+        positions: LedgerPosition[] = []
+    ): Promise<AllocationPlan> {
+        const portfolio = await wallet.fetchPortfolioValue(runtime);
+        return this.plan(
+            parseFloat(portfolio.totalUsd) || 0,
+            opportunities,
+            positions
+        );
+    }
+
+    /**
+     * @param walletValueUsd value of the tokens held in the wallet
+     * @param opportunities best first
+     * @param positions currently open positions, already deployed capital
+     */
+    plan(
+        walletValueUsd: number,
+        opportunities: YieldOpportunity[],
+        positions: LedgerPosition[] = []
+    ): AllocationPlan {
+        const c = this.constraints;
+        const open = positions.filter((p) => p.status !== "closed");
+        const bookValueUsd =
+            walletValueUsd + open.reduce((sum, p) => sum + p.notionalUsd, 0);
+        const deployable = bookValueUsd * (1 - c.reserveShare);
+
+        const targets = new Map<YieldOpportunity, number>();
+        const protocolUsd: Record<string, number> = {};
+        const tokenUsd: Record<string, number> = {};
+        let allocated = 0;
+        let riskUsed = 0;
+
+        const headroom = (opportunity: YieldOpportunity, limit: number) => {
+            const current = targets.get(opportunity) || 0;
+            const tokenShare = 1 / Math.max(opportunity.tokens.length, 1);
+            const caps = [
+                limit - allocated,
+                c.maxPositionShare * bookValueUsd - current,
+                c.maxTvlShare * opportunity.tvl - current,
+                c.maxProtocolShare * bookValueUsd -
+                    (protocolUsd[opportunity.protocol] || 0),
+                ...opportunity.tokens.map(
+                    (token) =>
+                        (c.maxTokenShare * bookValueUsd -
+                            (tokenUsd[token.toUpperCase()] || 0)) /
+                        tokenShare
+                ),
+            ];
+            if (opportunity.risk > 0) {
+                caps.push(
+                    (c.riskBudget * bookValueUsd - riskUsed) / opportunity.risk
+                );
+            }
+            return Math.max(Math.min(...caps), 0);
+        };
+
+        const add = (opportunity: YieldOpportunity, limit: number) => {
+            const amount = headroom(opportunity, limit);
+            const current = targets.get(opportunity) || 0;
+            // Skip dust, but never leave a started allocation below minimum
+            if (amount <= 0 || current + amount < c.minAllocationUsd) return;
+
+            targets.set(opportunity, current + amount);
+            allocated += amount;
+            riskUsed += amount * opportunity.risk;
+            protocolUsd[opportunity.protocol] =
+                (protocolUsd[opportunity.protocol] || 0) + amount;
+            for (const token of opportunity.tokens) {
+                const key = token.toUpperCase();
+                tokenUsd[key] =
+                    (tokenUsd[key] || 0) + amount / opportunity.tokens.length;
+            }
+        };
+
+        const stable = opportunities.filter(isStableOpportunity);
+        for (const opportunity of stable) {
+            add(
+                opportunity,
+                Math.min(c.minStableShare * bookValueUsd, deployable)
+            );
+        }
+        for (const opportunity of opportunities) {
+            add(opportunity, deployable);
+        }
+
+        const current = new Map<string, number>();
+        for (const position of open) {
+            const key = opportunityKey(position.protocol, position.poolAddress);
+            current.set(key, (current.get(key) || 0) + position.notionalUsd);
+        }
+
+        const allocations: AllocationTarget[] = opportunities
+            .filter((opportunity) => targets.has(opportunity))
+            .map((opportunity) => {
+                const targetUsd = targets.get(opportunity);
+                const currentUsd =
+                    current.get(
+                        opportunityKey(
+                            opportunity.protocol,
+                            opportunity.address
+                        )
+                    ) || 0;
+                return {
+                    opportunity,
+                    targetUsd,
+                    currentUsd,
+                    deltaUsd: targetUsd - currentUsd,
+                    share: bookValueUsd ? targetUsd / bookValueUsd : 0,
+                };
+            });
+
+        const stableUsd = allocations
+            .filter((a) => isStableOpportunity(a.opportunity))
+            .reduce((sum, a) => sum + a.targetUsd, 0);
+        const share = (usd: number) => (bookValueUsd ? usd / bookValueUsd : 0);
+
+        return {
+            bookValueUsd,
+            allocations,
+            trims: this.planTrims(open, allocations),
+            unallocatedUsd: bookValueUsd - allocated,
+            stableShare: share(stableUsd),
+            weightedRisk: share(riskUsed),
+            protocolShares: Object.fromEntries(
+                Object.entries(protocolUsd).map(([k, v]) => [k, share(v)])
+            ),
+            tokenShares: Object.fromEntries(
+                Object.entries(tokenUsd).map(([k, v]) => [k, share(v)])
+            ),
+        };
+    }
+
+    // Spreads each pool's surplus over its open positions, largest first
+    private planTrims(
+        positions: LedgerPosition[],
+        allocations: AllocationTarget[]
+    ): PositionTrim[] {
+        const trims: PositionTrim[] = [];
+        const byPool = new Map<string, LedgerPosition[]>();
+        for (const position of positions) {
+            const key = opportunityKey(position.protocol, position.poolAddress);
+            byPool.set(key, [...(byPool.get(key) || []), position]);
+        }
+
+        for (const [key, pool] of byPool) {
+            const allocation = allocations.find(
+                (a) =>
+                    opportunityKey(
+                        a.opportunity.protocol,
+                        a.opportunity.address
+                    ) === key
+            );
+            let surplus = allocation ? -allocation.deltaUsd : Infinity;
+            if (surplus < this.constraints.minAllocationUsd) continue;
+
+            for (const position of [...pool].sort(
+                (a, b) => b.notionalUsd - a.notionalUsd
+            )) {
+                if (surplus <= 0) break;
+                const trimUsd = Math.min(position.notionalUsd, surplus);
+                surplus -= trimUsd;
+                trims.push({
+                    position,
+                    currentUsd: position.notionalUsd,
+                    targetUsd: position.notionalUsd - trimUsd,
+                    trimUsd,
+                    reason: allocation
+                        ? "above target allocation"
+                        : "not in allocation plan",
+                });
+            }
+        }
+
+        return trims.sort((a, b) => b.trimUsd - a.trimUsd);
+    }
+}
+
+export function getAllocationConstraints(
+    runtime: IAgentRuntime
+): Partial<AllocationConstraints> {
+    const setting = (key: string) => {
+        const value = parseFloat(runtime.getSetting(key));
+        return Number.isFinite(value) ? value : undefined;
+    };
+
+    const constraints: Partial<AllocationConstraints> = {
+        maxProtocolShare: setting("YIELDS_FUN_MAX_PROTOCOL_SHARE"),
+        maxTokenShare: setting("YIELDS_FUN_MAX_TOKEN_SHARE"),
+        maxPositionShare: setting("YIELDS_FUN_MAX_POSITION_SHARE"),
+        minStableShare: setting("YIELDS_FUN_MIN_STABLE_SHARE"),
+        riskBudget: setting("YIELDS_FUN_RISK_BUDGET"),
+    };
+
+    // Unset values fall back to ALLOCATION_DEFAULTS
+    return Object.fromEntries(
+        Object.entries(constraints).filter(([, value]) => value !== undefined)
+    );
+}
+
+export function formatAllocationPlan(plan: AllocationPlan): string {
+    const pct = (share: number) => `${(share * 100).toFixed(1)}%`;
+    const usd = (value: number) =>
+        `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+    let text = `📊 Allocation Plan (book ${usd(plan.bookValueUsd)})\n`;
+    text += `Stable share: ${pct(plan.stableShare)} | Weighted risk: ${plan.weightedRisk.toFixed(2)}/10 | Idle: ${usd(plan.unallocatedUsd)}\n`;
+
+    for (const allocation of plan.allocations) {
+        const { opportunity } = allocation;
+        const delta =
+            allocation.deltaUsd >= 0
+                ? `+${usd(allocation.deltaUsd)}`
+                : `-${usd(-allocation.deltaUsd)}`;
+        text += `\n• ${opportunity.protocol} ${opportunity.tokens.join("/")} ${usd(allocation.targetUsd)} (${pct(allocation.share)}, ${delta})`;
+        text += ` APY ${opportunity.apy.toFixed(2)}%, risk ${opportunity.risk}/10`;
+    }
+
+    if (plan.trims.length) {
+        text += "\n\nTrim:";
+        for (const trim of plan.trims) {
+            text += `\n• ${trim.position.protocol} ${trim.position.poolAddress} -${usd(trim.trimUsd)} (${trim.reason})`;
+        }
+    }
+
+    return text;
+}
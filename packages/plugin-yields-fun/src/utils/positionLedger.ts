@@ -0,0 +1,169 @@
+import { randomUUID } from "crypto";
+import { IAgentRuntime } from "@ai16z/eliza";
+import { LedgerPosition, TrustScoreDatabase } from "@ai16z/plugin-trustdb";
+
+export type LedgerPositionParams = Omit<
+    LedgerPosition,
+    "id" | "status" | "openedAt" | "closedAt" | "txSignatures"
+> & {
+    status?: LedgerPosition["status"];
+    txSignatures?: string[];
+};
+
+/**
+ * Record of every position the agent opens with real funds, stored in the
+ * trust database so holdings survive restarts. Positions whose transactions
+ * were built but not sent by the agent are kept as "pending", and positions
+ * whose close was built but not sent as "closing", until a confirmed
+ * signature settles them.
+ */
+export class PositionLedger {
+    constructor(private db: TrustScoreDatabase) {}
+
+    open(params: LedgerPositionParams): LedgerPosition {
+        const position: LedgerPosition = {
+            ...params,
+            id: randomUUID(),
+            status: params.status ?? "open",
+            txSignatures: params.txSignatures ?? [],
+            openedAt: new Date(),
+        };
+
+        if (!this.db.upsertPosition(position)) {
+            throw new Error("Failed to record position");
+        }
+        return position;
+    }
+
+    list(status?: LedgerPosition["status"]): LedgerPosition[] {
+        return this.db.getPositions(status);
+    }
+
+    get(id: string): LedgerPosition | null {
+        return this.db.getPosition(id);
+    }
+
+    findByMint(positionMint: string): LedgerPosition | null {
+        return (
+            this.db
+                .getPositions()
+                .find(
+                    (position) =>
+                        position.positionMint === positionMint &&
+                        position.status !== "closed"
+                ) || null
+        );
+    }
+
+    findActive(protocol: string, poolAddress: string): LedgerPosition[] {
+        return this.db
+            .getPositions()
+            .filter(
+                (position) =>
+                    position.protocol === protocol &&
+                    position.poolAddress === poolAddress &&
+                    position.status !== "closed"
+            );
+    }
+
+    addTransaction(id: string, signature?: string): LedgerPosition | null {
+        const position = this.db.getPosition(id);
+        if (!position || !signature) return position;
+
+        const updated = {
+            ...position,
+            txSignatures: [...position.txSignatures, signature],
+        };
+        this.db.upsertPosition(updated);
+        return updated;
+    }
+
+    /**
+     * Marks a pending position as open once its transactions have landed.
+     */
+    confirm(id: string, signatures: string[] = []): LedgerPosition | null {
+        const position = this.db.getPosition(id);
+        if (!position || position.status !== "pending") return position;
+
+        const confirmed: LedgerPosition = {
+            ...position,
+            status: "open",
+            txSignatures: [...position.txSignatures, ...signatures],
+        };
+        this.db.upsertPosition(confirmed);
+        return confirmed;
+    }
+
+    /**
+     * Marks a position as closing while its close transactions are signed
+     * elsewhere. It stays active until `close` records the signature.
+     */
+    beginClose(id: string): LedgerPosition | null {
+        const position = this.db.getPosition(id);
+        if (!position || position.status === "closed") return position;
+
+        const closing: LedgerPosition = { ...position, status: "closing" };
+        this.db.upsertPosition(closing);
+        return closing;
+    }
+
+    close(id: string, signatures: string[] = []): LedgerPosition | null {
+        const position = this.db.getPosition(id);
+        if (!position || position.status === "closed") return position;
+
+        const closed: LedgerPosition = {
+            ...position,
+            status: "closed",
+            closedAt: new Date(),
+            txSignatures: [...position.txSignatures, ...signatures],
+        };
+        this.db.upsertPosition(closed);
+        return closed;
+    }
+
+    closePool(
+        protocol: string,
+        poolAddress: string,
+        signatures: string[] = []
+    ): LedgerPosition[] {
+        return this.findActive(protocol, poolAddress).map((position) =>
+            this.close(position.id, signatures)
+        );
+    }
+}
+
+/**
+ * Returns a ledger backed by the agent's database, or null when the adapter
+ * does not expose a SQLite handle.
+ */
+export function getPositionLedger(
+    runtime: IAgentRuntime
+): PositionLedger | null {
+    const db = runtime.databaseAdapter?.db;
+    if (!db?.prepare) return null;
+
+    try {
+        return new PositionLedger(new TrustScoreDatabase(db));
+    } catch (error) {
+        console.error("Error opening position ledger:", error);
+        return null;
+    }
+}
+
+/**
+ * Applies `write` to a ledger when one is configured. Ledger failures are
+ * logged and never fail the on-chain action that triggered them.
+ */
+export function recordPosition<T>(
+    ledger: PositionLedger | null | undefined,
+    write: (ledger: PositionLedger) => T
+): T | null {
+    if (!ledger) return null;
+
+    try {
+        return write(ledger);
+    } catch (error) {
+        console.error("Error writing position ledger:", error);
+        return null;
+    }
+}
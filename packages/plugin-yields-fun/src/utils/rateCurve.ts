@@ -0,0 +1,120 @@
+import {
+    DepositProjection,
+    LendingReserve,
+    RateCurve,
+    RateCurvePoint,
+} from "../types/lending";
+
+const clampUtilization = (utilization: number) =>
+    Math.min(Math.max(utilization, 0), 1);
+
+export function borrowApyAt(curve: RateCurve, utilization: number): number {
+    const points = [...curve.points].sort(
+        (a, b) => a.utilization - b.utilization
+    );
+    if (points.length === 0) return 0;
+
+    const u = clampUtilization(utilization);
+    if (u <= points[0].utilization) return points[0].borrowApy;
+
+    for (let i = 1; i < points.length; i++) {
+        const lo = points[i - 1];
+        const hi = points[i];
+        if (u <= hi.utilization) {
+            const t = (u - lo.utilization) / (hi.utilization - lo.utilization);
+            return lo.borrowApy + t * (hi.borrowApy - lo.borrowApy);
+        }
+    }
+    return points[points.length - 1].borrowApy;
+}
+
+// Suppliers share the borrow interest on the lent-out part of the pool
+export function supplyApyAt(curve: RateCurve, utilization: number): number {
+    const u = clampUtilization(utilization);
+    return borrowApyAt(curve, u) * u * (1 - curve.reserveFactor);
+}
+
+/**
+ * The point where the curve gets steepest, the utilization the market
+ * targets. Null for a straight line.
+ */
+export function getKink(curve: RateCurve): RateCurvePoint | null {
+    const points = [...curve.points].sort(
+        (a, b) => a.utilization - b.utilization
+    );
+    const slope = (i: number) =>
+        (points[i].borrowApy - points[i - 1].borrowApy) /
+        (points[i].utilization - points[i - 1].utilization);
+
+    let kink: RateCurvePoint | null = null;
+    let jump = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+        const change = slope(i + 1) - slope(i);
+        if (change > jump) {
+            jump = change;
+            kink = points[i];
+        }
+    }
+    return kink;
+}
+
+/**
+ * Rates after supplying amountUsd more to the reserve. Borrows stay put, so
+ * utilization falls and the curve gives a lower rate. The reported APYs are
+ * scaled by the curve's ratio rather than replaced, so rewards and the
+ * protocol's own compounding stay in the projection.
+ */
+export function projectDepositApy(
+    reserve: LendingReserve,
+    amountUsd: number
+): DepositProjection {
+    const supplied = reserve.tvl + amountUsd;
+    const utilization =
+        supplied > 0 ? clampUtilization(reserve.totalBorrowed / supplied) : 0;
+
+    const scale = (current: number, before: number, after: number) =>
+        before > 0 ? (current * after) / before : after;
+
+    const apy = scale(
+        reserve.apy,
+        supplyApyAt(reserve.curve, reserve.utilization),
+        supplyApyAt(reserve.curve, utilization)
+    );
+    const borrowApy = scale(
+        reserve.borrowApy,
+        borrowApyAt(reserve.curve, reserve.utilization),
+        borrowApyAt(reserve.curve, utilization)
+    );
+
+    return {
+        amountUsd,
+        apy,
+        borrowApy,
+        utilization,
+        apyChange: apy - reserve.apy,
+    };
+}
+
+/**
+ * Largest deposit that keeps the projected APY at or above minApy, 0 when
+ * the reserve already pays less.
+ */
+export function maxDepositForApy(
+    reserve: LendingReserve,
+    minApy: number
+): number {
+    if (reserve.apy < minApy) return 0;
+    if (projectDepositApy(reserve, reserve.tvl * 1000).apy >= minApy) {
+        return Infinity;
+    }
+
+    // The projected APY only falls as the deposit grows
+    let lo = 0;
+    let hi = reserve.tvl * 1000;
+    for (let i = 0; i < 60; i++) {
+        const mid = (lo + hi) / 2;
+        if (projectDepositApy(reserve, mid).apy >= minApy) lo = mid;
+        else hi = mid;
+    }
+    return lo;
+}
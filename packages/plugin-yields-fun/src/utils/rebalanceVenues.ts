@@ -0,0 +1,516 @@
+import { IAgentRuntime, State, TxGuard, TxIntent } from "@ai16z/eliza";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import {
+    Connection,
+    Keypair,
+    LAMPORTS_PER_SOL,
+    PublicKey,
+    sendAndConfirmTransaction,
+    Transaction,
+    TransactionInstruction,
+} from "@solana/web3.js";
+import { OrcaActions } from "../actions/orcaActions";
+import { getWalletKey } from "../keypairUtils";
+import { RaydiumClmActions } from "../actions/raydiumClmActions";
+import {
+    MeteoraDlmmActions,
+    StrategyType,
+} from "../actions/meteoraDlmmActions";
+import { DexScreenerProvider } from "../providers/dexScreenerProvider";
+import { OrcaProvider } from "../providers/orcaProvider";
+import { getOpportunityApy } from "../providers/yieldAggregator";
+import { PriceRange } from "./backtester";
+import { getAmountsForLiquidity } from "./clmPnlCalculator";
+import { JupiterSwapClient } from "./jupiterSwap";
+import { LiquidityMigrator } from "./liquidityMigration";
+import {
+    getPositionLedger,
+    PositionLedger,
+    recordPosition,
+} from "./positionLedger";
+import {
+    PoolQuote,
+    RebalanceConfig,
+    Rebalancer,
+    RebalanceVenue,
+    RebalanceWallet,
+    TokenAmounts,
+} from "./rebalancer";
+import { getTxGuard, sendGuarded } from "./txGuard";
+
+const WSOL_MINT = "So11111111111111111111111111111111111111112";
+// Slippage for reopened positions, in basis points
+const OPEN_SLIPPAGE_BPS = 100;
+
+function toRawAmount(amount: number, decimals: number): bigint {
+    return BigInt(Math.floor(amount * 10 ** decimals));
+}
+
+// Loads the keypair that signs for the agent
+export type WalletLoader = () => Promise<Keypair>;
+
+export function getAgentWallet(runtime: IAgentRuntime): WalletLoader {
+    return async () => {
+        const { keypair } = await getWalletKey(runtime, true);
+        if (!keypair) throw new Error("Agent wallet keypair not configured");
+        return keypair;
+    };
+}
+
+/**
+ * Token whose full balance can be deposited without running short of the
+ * other one at the range's ratio.
+ */
+function bindingToken(
+    amounts: TokenAmounts,
+    price: number,
+    range: PriceRange
+): "A" | "B" {
+    const unit = getAmountsForLiquidity(
+        1,
+        price,
+        range.lowerPrice,
+        range.upperPrice
+    );
+    if (unit.tokenA <= 0) return "B";
+    if (unit.tokenB <= 0) return "A";
+
+    return amounts.tokenA / unit.tokenA <= amounts.tokenB / unit.tokenB
+        ? "A"
+        : "B";
+}
+
+export class RaydiumRebalanceVenue implements RebalanceVenue {
+    protocol = "Raydium";
+
+    constructor(
+        private connection: Connection,
+        private actions: RaydiumClmActions
+    ) {}
+
+    async getQuote(poolAddress: string): Promise<PoolQuote> {
+        const quote = await this.actions.getPoolQuoteById(poolAddress);
+        if (!quote) throw new Error("Raydium pool not found");
+
+        const [supplyA, supplyB] = await Promise.all([
+            this.connection.getTokenSupply(new PublicKey(quote.mintA)),
+            this.connection.getTokenSupply(new PublicKey(quote.mintB)),
+        ]);
+
+        return {
+            price: quote.price,
+            mintA: quote.mintA,
+            mintB: quote.mintB,
+            decimalsA: supplyA.value.decimals,
+            decimalsB: supplyB.value.decimals,
+        };
+    }
+
+    async close(position: LedgerPosition, state: State): Promise<string[]> {
+        const quote = await this.getQuote(position.poolAddress);
+        const result = await this.actions.removeLiquidity(
+            quote.mintA,
+            quote.mintB,
+            100,
+            state
+        );
+        if (!result.success) throw new Error(result.message);
+        return [];
+    }
+
+    async open(
+        poolAddress: string,
+        range: PriceRange,
+        amounts: TokenAmounts,
+        quote: PoolQuote,
+        state: State
+    ): Promise<string[]> {
+        const pool = await this.actions.getPoolQuoteById(poolAddress);
+        const result = await this.actions.addLiquidity(
+            quote.mintA,
+            quote.mintB,
+            this.actions.priceToTick(range.lowerPrice, pool?.tickSpacing),
+            this.actions.priceToTick(range.upperPrice, pool?.tickSpacing),
+            amounts.tokenA * quote.price + amounts.tokenB,
+            state
+        );
+        if (!result.success) throw new Error(result.message);
+        return [];
+    }
+}
+
+export class OrcaRebalanceVenue implements RebalanceVenue {
+    protocol = "Orca";
+
+    constructor(
+        private connection: Connection,
+        private actions: OrcaActions,
+        private ledger: PositionLedger,
+        private loadWallet: WalletLoader,
+        private guard: TxGuard | null = null
+    ) {}
+
+    async getQuote(poolAddress: string): Promise<PoolQuote> {
+        const whirlpool = await new OrcaProvider(this.connection).getWhirlpool(
+            poolAddress
+        );
+        if (!whirlpool) throw new Error("Orca whirlpool not found");
+
+        return {
+            price: whirlpool.price,
+            mintA: whirlpool.tokenA.mint,
+            mintB: whirlpool.tokenB.mint,
+            decimalsA: whirlpool.tokenA.decimals,
+            decimalsB: whirlpool.tokenB.decimals,
+        };
+    }
+
+    async harvest(position: LedgerPosition): Promise<string[]> {
+        if (!position.positionMint) return [];
+
+        const wallet = await this.loadWallet();
+        const { instructions } = await this.actions.harvestPosition(
+            new PublicKey(position.positionMint),
+            wallet
+        );
+        return [
+            await this.send(instructions, wallet, {
+                description: `Harvest Orca position ${position.positionMint}`,
+            }),
+        ];
+    }
+
+    async close(position: LedgerPosition): Promise<string[]> {
+        if (!position.positionMint) {
+            throw new Error("Orca position has no position mint recorded");
+        }
+
+        const wallet = await this.loadWallet();
+        const { instructions } = await this.actions.closePosition(
+            new PublicKey(position.positionMint),
+            OPEN_SLIPPAGE_BPS,
+            wallet
+        );
+        const signature = await this.send(instructions, wallet, {
+            description: `Close Orca position ${position.positionMint}`,
+        });
+
+        // OrcaActions records the close as pending until sent
+        recordPosition(this.ledger, (ledger) =>
+            ledger.close(position.id, [signature])
+        );
+
+        return [signature];
+    }
+
+    async open(
+        poolAddress: string,
+        range: PriceRange,
+        amounts: TokenAmounts,
+        quote: PoolQuote
+    ): Promise<string[]> {
+        const wallet = await this.loadWallet();
+        const liquidityParam =
+            bindingToken(amounts, quote.price, range) === "A"
+                ? { tokenA: toRawAmount(amounts.tokenA, quote.decimalsA) }
+                : { tokenB: toRawAmount(amounts.tokenB, quote.decimalsB) };
+
+        const { instructions, positionMint } = await this.actions.openPosition(
+            new PublicKey(poolAddress),
+            liquidityParam,
+            range,
+            OPEN_SLIPPAGE_BPS,
+            wallet
+        );
+        const signature = await this.send(instructions, wallet, {
+            description: `Open Orca position in ${poolAddress} from ${range.lowerPrice} to ${range.upperPrice}`,
+            // The other token is deposited at the range's ratio, up to the
+            // wallet's amount
+            spend: {
+                [quote.mintA]: toRawAmount(amounts.tokenA, quote.decimalsA),
+                [quote.mintB]: toRawAmount(amounts.tokenB, quote.decimalsB),
+            },
+        });
+
+        // OrcaActions records new positions as pending until sent
+        recordPosition(this.ledger, (ledger) => {
+            const opened = ledger.findByMint(positionMint.toBase58());
+            return opened && ledger.confirm(opened.id, [signature]);
+        });
+
+        return [signature];
+    }
+
+    private async send(
+        instructions: TransactionInstruction[],
+        wallet: Keypair,
+        intent: TxIntent
+    ): Promise<string> {
+        const transaction = new Transaction().add(...instructions);
+        return sendGuarded(
+            this.guard,
+            transaction,
+            wallet.publicKey,
+            intent,
+            () =>
+                sendAndConfirmTransaction(this.connection, transaction, [
+                    wallet,
+                ])
+        );
+    }
+}
+
+export class MeteoraRebalanceVenue implements RebalanceVenue {
+    protocol = "Meteora";
+
+    constructor(private actions: MeteoraDlmmActions) {}
+
+    async getQuote(poolAddress: string): Promise<PoolQuote> {
+        const quote = await this.actions.getPoolQuote(poolAddress);
+
+        return {
+            price: quote.price,
+            mintA: quote.tokens[0],
+            mintB: quote.tokens[1],
+            decimalsA: quote.decimalsX,
+            decimalsB: quote.decimalsY,
+        };
+    }
+
+    async harvest(position: LedgerPosition, state: State): Promise<string[]> {
+        if (!position.positionMint) return [];
+
+        const result = await this.actions.claimRewards(
+            position.poolAddress,
+            position.positionMint,
+            state
+        );
+        if (!result.success) {
+            throw new Error("error" in result ? result.error : result.message);
+        }
+        return [];
+    }
+
+    async close(position: LedgerPosition, state: State): Promise<string[]> {
+        if (!position.positionMint) {
+            throw new Error("DLMM position has no position address recorded");
+        }
+
+        // Claims fees and rewards and closes the position in one go
+        const result = await this.actions.removeLiquidity(
+            position.poolAddress,
+            position.positionMint,
+            100,
+            true,
+            state
+        );
+        if (!result.success) {
+            throw new Error("error" in result ? result.error : result.message);
+        }
+        return [];
+    }
+
+    async open(
+        poolAddress: string,
+        range: PriceRange,
+        amounts: TokenAmounts,
+        quote: PoolQuote,
+        state: State
+    ): Promise<string[]> {
+        const bins = await this.actions.getBinRange(
+            poolAddress,
+            range.lowerPrice,
+            range.upperPrice
+        );
+        const result = await this.actions.createPosition(
+            poolAddress,
+            { ...bins, strategyType: StrategyType.SpotBalanced },
+            Number(toRawAmount(amounts.tokenA, quote.decimalsA)),
+            Number(toRawAmount(amounts.tokenB, quote.decimalsB)),
+            state
+        );
+        if (!result.success || !("txHash" in result)) {
+            throw new Error(
+                "error" in result
+                    ? result.error
+                    : "Failed to open DLMM position"
+            );
+        }
+        return [result.txHash];
+    }
+}
+
+/**
+ * Agent wallet balances from the RPC node and swaps through Jupiter.
+ */
+export class SolanaRebalanceWallet implements RebalanceWallet {
+    constructor(
+        private connection: Connection,
+        private loadWallet: WalletLoader,
+        private swapClient: JupiterSwapClient = new JupiterSwapClient(
+            connection
+        )
+    ) {}
+
+    async getBalances(mints: string[]): Promise<number[]> {
+        const owner = (await this.loadWallet()).publicKey;
+
+        return Promise.all(
+            mints.map(async (mint) => {
+                // Pools unwrap SOL back into the native balance
+                if (mint === WSOL_MINT) {
+                    return (
+                        (await this.connection.getBalance(owner)) /
+                        LAMPORTS_PER_SOL
+                    );
+                }
+
+                const { value } =
+                    await this.connection.getParsedTokenAccountsByOwner(owner, {
+                        mint: new PublicKey(mint),
+                    });
+                return value.reduce(
+                    (sum, account) =>
+                        sum +
+                        (account.account.data.parsed.info.tokenAmount
+                            .uiAmount ?? 0),
+                    0
+                );
+            })
+        );
+    }
+
+    async swap(
+        inputMint: string,
+        outputMint: string,
+        amount: number,
+        decimals: number
+    ): Promise<string | null> {
+        const raw = toRawAmount(amount, decimals);
+        if (raw <= 0n) return null;
+
+        return this.swapClient.swap(
+            inputMint,
+            outputMint,
+            raw,
+            await this.loadWallet()
+        );
+    }
+}
+
+function getRebalanceConfig(runtime: IAgentRuntime): Partial<RebalanceConfig> {
+    const setting = (key: string, scale: number = 1) => {
+        const value = parseFloat(runtime.getSetting(key));
+        return Number.isFinite(value) ? value * scale : undefined;
+    };
+
+    const config: Partial<RebalanceConfig> = {
+        cooldownMs: setting(
+            "YIELDS_FUN_REBALANCE_COOLDOWN_HOURS",
+            60 * 60 * 1000
+        ),
+        rebalanceThreshold: setting("YIELDS_FUN_REBALANCE_THRESHOLD"),
+        minProfitUsd: setting("YIELDS_FUN_REBALANCE_MIN_PROFIT_USD"),
+        gasCostUsd: setting("YIELDS_FUN_REBALANCE_GAS_USD"),
+    };
+
+    // Unset values fall back to REBALANCE_DEFAULTS
+    return Object.fromEntries(
+        Object.entries(config).filter(([, value]) => value !== undefined)
+    );
+}
+
+export function createClmVenues(
+    connection: Connection,
+    ledger: PositionLedger,
+    loadWallet: WalletLoader,
+    guard: TxGuard | null = null
+): RebalanceVenue[] {
+    return [
+        new RaydiumRebalanceVenue(
+            connection,
+            new RaydiumClmActions(ledger, connection, guard)
+        ),
+        new OrcaRebalanceVenue(
+            connection,
+            new OrcaActions(connection, ledger),
+            ledger,
+            loadWallet,
+            guard
+        ),
+        new MeteoraRebalanceVenue(
+            new MeteoraDlmmActions(connection, ledger, guard)
+        ),
+    ];
+}
+
+function getConnection(runtime: IAgentRuntime): Connection {
+    return new Connection(
+        runtime.getSetting("RPC_URL") || "https://api.mainnet-beta.solana.com"
+    );
+}
+
+/**
+ * Returns a rebalancer over the agent's position ledger, or null when the
+ * adapter does not expose a SQLite handle.
+ */
+export function getRebalancer(runtime: IAgentRuntime): Rebalancer | null {
+    const ledger = getPositionLedger(runtime);
+    if (!ledger) return null;
+
+    const connection = getConnection(runtime);
+    const loadWallet = getAgentWallet(runtime);
+    const guard = getTxGuard(runtime, connection, {
+        action: "yields-fun/rebalance",
+    });
+    return new Rebalancer(
+        createClmVenues(connection, ledger, loadWallet, guard),
+        ledger,
+        runtime.cacheManager,
+        new SolanaRebalanceWallet(
+            connection,
+            loadWallet,
+            new JupiterSwapClient(connection, guard)
+        ),
+        (protocol, pool) => getOpportunityApy(runtime, protocol, pool),
+        getRebalanceConfig(runtime)
+    );
+}
+
+/**
+ * Returns a migrator that targets the best DexScreener pool on the new AMM,
+ * or null when the adapter does not expose a SQLite handle.
+ */
+export function getLiquidityMigrator(
+    runtime: IAgentRuntime
+): LiquidityMigrator | null {
+    const ledger = getPositionLedger(runtime);
+    if (!ledger) return null;
+
+    const connection = getConnection(runtime);
+    const loadWallet = getAgentWallet(runtime);
+    // Migrations run from the pool monitor
+    const guard = getTxGuard(runtime, connection, {
+        action: "yields-fun/pool-monitor",
+    });
+    const dexScreener = new DexScreenerProvider();
+
+    return new LiquidityMigrator(
+        createClmVenues(connection, ledger, loadWallet, guard),
+        ledger,
+        runtime.cacheManager,
+        new SolanaRebalanceWallet(
+            connection,
+            loadWallet,
+            new JupiterSwapClient(connection, guard)
+        ),
+        async (baseAddress, quoteAddress, amm) => {
+            const best = await dexScreener.getBestDexForPair(
+                baseAddress,
+                quoteAddress,
+                amm
+            );
+            return best.pairAddress || null;
+        }
+    );
+}
@@ -0,0 +1,506 @@
+import { ICacheManager, State } from "@ai16z/eliza";
+import { LedgerPosition } from "@ai16z/plugin-trustdb";
+import { YieldsAlert } from "./alertDispatcher";
+import { PriceRange } from "./backtester";
+import { getAmountsForLiquidity } from "./clmPnlCalculator";
+import { PositionLedger } from "./positionLedger";
+
+export interface TokenAmounts {
+    tokenA: number;
+    tokenB: number;
+}
+
+export interface PoolQuote {
+    // Price of token A in token B
+    price: number;
+    mintA: string;
+    mintB: string;
+    decimalsA: number;
+    decimalsB: number;
+}
+
+/**
+ * One CLM venue the rebalancer can move liquidity on. Amounts are in UI
+ * units; venues convert to raw amounts and record the ledger themselves.
+ * Returned signatures are the ones the venue sent, when it knows them.
+ */
+export interface RebalanceVenue {
+    protocol: string;
+    getQuote(poolAddress: string): Promise<PoolQuote>;
+    // Claims outstanding rewards without touching liquidity
+    harvest?(position: LedgerPosition, state: State): Promise<string[]>;
+    // Claims fees and removes all liquidity, closing the position
+    close(position: LedgerPosition, state: State): Promise<string[]>;
+    open(
+        poolAddress: string,
+        range: PriceRange,
+        amounts: TokenAmounts,
+        quote: PoolQuote,
+        state: State
+    ): Promise<string[]>;
+}
+
+/**
+ * Wallet operations shared by every venue: balances to measure what a close
+ * returned and a swap to reach the ratio the new range needs.
+ */
+export interface RebalanceWallet {
+    getBalances(mints: string[], state: State): Promise<number[]>;
+    swap(
+        inputMint: string,
+        outputMint: string,
+        amount: number,
+        decimals: number,
+        state: State
+    ): Promise<string | null>;
+}
+
+export interface RebalanceConfig {
+    // Minimum time between two rebalances of the same pool
+    cooldownMs: number;
+    // Rebalance once price is this far beyond a range bound, as a fraction
+    // of the bound. 0 rebalances as soon as price leaves the range.
+    rebalanceThreshold: number;
+    // Expected fees over this horizon must cover the rebalance cost
+    profitHorizonDays: number;
+    minProfitUsd: number;
+    gasCostUsd: number;
+    swapFeeRate: number;
+}
+
+export interface RebalancePlan {
+    position: LedgerPosition;
+    quote?: PoolQuote;
+    action: "rebalance" | "skip";
+    reason: string;
+    newRange?: PriceRange;
+    swap?: SwapPlan;
+    expectedFeesUsd: number;
+    estimatedCostUsd: number;
+}
+
+export interface RebalanceResult {
+    positionId: string;
+    success: boolean;
+    message: string;
+    signatures: string[];
+}
+
+export interface SwapPlan {
+    // "A" sells token A for token B
+    sell: "A" | "B";
+    amount: number;
+}
+
+export type ApyLookup = (protocol: string, pool: string) => Promise<number>;
+
+export const REBALANCE_DEFAULTS: RebalanceConfig = {
+    cooldownMs: 6 * 60 * 60 * 1000,
+    rebalanceThreshold: 0,
+    profitHorizonDays: 7,
+    minProfitUsd: 0,
+    gasCostUsd: 0.05,
+    swapFeeRate: 0.003,
+};
+
+const REBALANCER_CONFIG = {
+    CACHE_KEY: "yields-fun/rebalancer",
+    // Skip swaps worth less than this share of the position
+    MIN_SWAP_SHARE: 0.005,
+};
+
+export function isOutOfRange(
+    price: number,
+    range: PriceRange,
+    threshold: number = 0
+): boolean {
+    return (
+        price < range.lowerPrice * (1 - threshold) ||
+        price > range.upperPrice * (1 + threshold)
+    );
+}
+
+/**
+ * Keeps the width of `range` (as a price ratio) and centres it
+ * geometrically on `price`.
+ */
+export function recenterRange(range: PriceRange, price: number): PriceRange {
+    const halfWidth = Math.sqrt(range.upperPrice / range.lowerPrice);
+    return {
+        lowerPrice: price / halfWidth,
+        upperPrice: price * halfWidth,
+    };
+}
+
+/**
+ * Swap that turns `amounts` into the token ratio a new position over `range`
+ * needs at `price`. Returns null when the amounts are already close enough.
+ */
+export function planSwapToRatio(
+    amounts: TokenAmounts,
+    price: number,
+    range: PriceRange
+): SwapPlan | null {
+    const unit = getAmountsForLiquidity(
+        1,
+        price,
+        range.lowerPrice,
+        range.upperPrice
+    );
+    const unitValue = unit.tokenA * price + unit.tokenB;
+    const total = amounts.tokenA * price + amounts.tokenB;
+    if (unitValue <= 0 || total <= 0) return null;
+
+    const targetValueA = total * ((unit.tokenA * price) / unitValue);
+    const excessValueA = amounts.tokenA * price - targetValueA;
+    if (Math.abs(excessValueA) < total * REBALANCER_CONFIG.MIN_SWAP_SHARE) {
+        return null;
+    }
+
+    return excessValueA > 0
+        ? { sell: "A", amount: excessValueA / price }
+        : { sell: "B", amount: -excessValueA };
+}
+
+/**
+ * Token amounts implied by an LP position's recorded deposit, marked to
+ * `price`. Missing bounds are treated as a full range position.
+ */
+export function estimatePositionAmounts(
+    position: LedgerPosition,
+    price: number
+): TokenAmounts {
+    const unit = getAmountsForLiquidity(
+        1,
+        position.entryPrice,
+        position.lowerPrice,
+        position.upperPrice
+    );
+    const unitValue = unit.tokenA * position.entryPrice + unit.tokenB;
+    const liquidity = unitValue > 0 ? position.notionalUsd / unitValue : 0;
+
+    return getAmountsForLiquidity(
+        liquidity,
+        price,
+        position.lowerPrice,
+        position.upperPrice
+    );
+}
+
+/**
+ * Moves out-of-range Raydium CLMM, Orca Whirlpool and Meteora DLMM positions
+ * back around the current price: harvest and close, swap to the new range's
+ * ratio, reopen. `preview` plans without sending anything.
+ */
+export class Rebalancer {
+    private config: RebalanceConfig;
+
+    constructor(
+        private venues: RebalanceVenue[],
+        private ledger: PositionLedger,
+        private cacheManager: ICacheManager,
+        private wallet: RebalanceWallet,
+        private getApy: ApyLookup,
+        config: Partial<RebalanceConfig> = {}
+    ) {
+        this.config = { ...REBALANCE_DEFAULTS, ...config };
+    }
+
+    async preview(): Promise<RebalancePlan[]> {
+        const lastRun = await this.loadLastRun();
+        const positions = this.ledger
+            .list()
+            .filter(
+                (position) =>
+                    position.status !== "closed" &&
+                    position.kind === "LP" &&
+                    this.getVenue(position.protocol)
+            );
+
+        const plans: RebalancePlan[] = [];
+        for (const position of positions) {
+            plans.push(await this.planPosition(position, lastRun));
+        }
+        return plans;
+    }
+
+    async execute(
+        plans: RebalancePlan[],
+        state: State
+    ): Promise<RebalanceResult[]> {
+        const results: RebalanceResult[] = [];
+        for (const plan of plans) {
+            if (plan.action !== "rebalance") continue;
+            results.push(await this.rebalance(plan, state));
+        }
+        return results;
+    }
+
+    async run(state: State, dryRun: boolean = false) {
+        const plans = await this.preview();
+        const results = dryRun ? [] : await this.execute(plans, state);
+        return { plans, results };
+    }
+
+    private getVenue(protocol: string): RebalanceVenue | undefined {
+        return this.venues.find((venue) => venue.protocol === protocol);
+    }
+
+    private async planPosition(
+        position: LedgerPosition,
+        lastRun: Record<string, number>
+    ): Promise<RebalancePlan> {
+        const skip = (reason: string, quote?: PoolQuote): RebalancePlan => ({
+            position,
+            quote,
+            action: "skip",
+            reason,
+            expectedFeesUsd: 0,
+            estimatedCostUsd: 0,
+        });
+
+        if (position.lowerPrice === undefined || !position.upperPrice) {
+            return skip("no price range recorded");
+        }
+
+        const last = lastRun[position.poolAddress];
+        if (last && Date.now() - last < this.config.cooldownMs) {
+            return skip("cooling down after the last rebalance");
+        }
+
+        let quote: PoolQuote;
+        try {
+            quote = await this.getVenue(position.protocol).getQuote(
+                position.poolAddress
+            );
+        } catch (error) {
+            console.error("Error quoting position for rebalance:", error);
+            return skip("pool quote unavailable");
+        }
+
+        const range = {
+            lowerPrice: position.lowerPrice,
+            upperPrice: position.upperPrice,
+        };
+        if (!isOutOfRange(quote.price, range, this.config.rebalanceThreshold)) {
+            return skip("in range", quote);
+        }
+
+        const newRange = recenterRange(range, quote.price);
+        const value = this.estimateValue(position, quote.price);
+        const swap = planSwapToRatio(
+            this.estimateAmounts(position, quote.price),
+            quote.price,
+            newRange
+        );
+
+        const apy = await this.getApy(position.protocol, position.poolAddress);
+        const expectedFeesUsd =
+            value * (apy / 100) * (this.config.profitHorizonDays / 365);
+        const swapValue = swap
+            ? swap.sell === "A"
+                ? swap.amount * quote.price
+                : swap.amount
+            : 0;
+        const estimatedCostUsd =
+            this.config.gasCostUsd + swapValue * this.config.swapFeeRate;
+
+        if (expectedFeesUsd - estimatedCostUsd < this.config.minProfitUsd) {
+            return {
+                ...skip("expected fees do not cover gas and swap costs", quote),
+                newRange,
+                swap: swap ?? undefined,
+                expectedFeesUsd,
+                estimatedCostUsd,
+            };
+        }
+
+        return {
+            position,
+            quote,
+            action: "rebalance",
+            reason: `price ${quote.price} outside ${range.lowerPrice}-${range.upperPrice}`,
+            newRange,
+            swap: swap ?? undefined,
+            expectedFeesUsd,
+            estimatedCostUsd,
+        };
+    }
+
+    private async rebalance(
+        plan: RebalancePlan,
+        state: State
+    ): Promise<RebalanceResult> {
+        const { position, quote, newRange } = plan;
+        const venue = this.getVenue(position.protocol);
+        const signatures: string[] = [];
+
+        try {
+            const mints = [quote.mintA, quote.mintB];
+            const before = await this.wallet.getBalances(mints, state);
+            signatures.push(...(await venue.close(position, state)));
+            const after = await this.wallet.getBalances(mints, state);
+
+            // What the close returned, fees included
+            const withdrawn = {
+                tokenA: Math.max(after[0] - before[0], 0),
+                tokenB: Math.max(after[1] - before[1], 0),
+            };
+
+            const swap = planSwapToRatio(withdrawn, quote.price, newRange);
+            let amounts = withdrawn;
+            if (swap) {
+                const [inputMint, outputMint, decimals] =
+                    swap.sell === "A"
+                        ? [quote.mintA, quote.mintB, quote.decimalsA]
+                        : [quote.mintB, quote.mintA, quote.decimalsB];
+                const signature = await this.wallet.swap(
+                    inputMint,
+                    outputMint,
+                    swap.amount,
+                    decimals,
+                    state
+                );
+                if (signature) signatures.push(signature);
+
+                const swapped = await this.wallet.getBalances(mints, state);
+                amounts = {
+                    tokenA: Math.max(swapped[0] - before[0], 0),
+                    tokenB: Math.max(swapped[1] - before[1], 0),
+                };
+            }
+
+            signatures.push(
+                ...(await venue.open(
+                    position.poolAddress,
+                    newRange,
+                    amounts,
+                    quote,
+                    state
+                ))
+            );
+            await this.saveLastRun(position.poolAddress);
+
+            return {
+                positionId: position.id,
+                success: true,
+                message: `Rebalanced ${position.protocol} position to ${newRange.lowerPrice.toFixed(4)}-${newRange.upperPrice.toFixed(4)}`,
+                signatures,
+            };
+        } catch (error) {
+            console.error("Error rebalancing position:", error);
+            return {
+                positionId: position.id,
+                success: false,
+                message: error.message,
+                signatures,
+            };
+        }
+    }
+
+    private estimateAmounts(
+        position: LedgerPosition,
+        price: number
+    ): TokenAmounts {
+        return estimatePositionAmounts(position, price);
+    }
+
+    private estimateValue(position: LedgerPosition, price: number): number {
+        const { tokenA, tokenB } = this.estimateAmounts(position, price);
+        return tokenA * price + tokenB;
+    }
+
+    private async loadLastRun(): Promise<Record<string, number>> {
+        return (
+            (await this.cacheManager.get<Record<string, number>>(
+                REBALANCER_CONFIG.CACHE_KEY
+            )) || {}
+        );
+    }
+
+    private async saveLastRun(poolAddress: string): Promise<void> {
+        const lastRun = await this.loadLastRun();
+        lastRun[poolAddress] = Date.now();
+        await this.cacheManager.set(REBALANCER_CONFIG.CACHE_KEY, lastRun);
+    }
+}
+
+export function formatRebalancePlans(
+    plans: RebalancePlan[],
+    results: RebalanceResult[] = []
+): string {
+    if (plans.length === 0) return "No CLM positions to rebalance.";
+
+    const lines = plans.map((plan, index) => {
+        const { position } = plan;
+        let line = `${index + 1}. ${position.protocol} ${position.positionMint ?? position.poolAddress}: ${plan.action} (${plan.reason})`;
+        if (plan.newRange) {
+            line += `\n   New range: ${plan.newRange.lowerPrice.toFixed(4)} - ${plan.newRange.upperPrice.toFixed(4)}`;
+        }
+        if (plan.swap) {
+            line += `\n   Swap: sell ${plan.swap.amount.toFixed(6)} token ${plan.swap.sell}`;
+        }
+        if (plan.newRange) {
+            line += `\n   Expected fees: $${plan.expectedFeesUsd.toFixed(2)} vs cost: $${plan.estimatedCostUsd.toFixed(2)}`;
+        }
+
+        const result = results.find((r) => r.positionId === position.id);
+        if (result) {
+            line += `\n   ${result.success ? "✅" : "❌"} ${result.message}`;
+        }
+        return line;
+    });
+
+    return `🔄 CLM Rebalance ${results.length ? "Report" : "Preview"}\n\n${lines.join("\n\n")}`;
+}
+
+/**
+ * Health alerts for the positions a rebalance run looked at. Out-of-range
+ * positions earn no fees, so one left out of range is MEDIUM and a failed
+ * rebalance HIGH.
+ */
+export function getPositionHealthAlerts(
+    plans: RebalancePlan[],
+    results: RebalanceResult[] = [],
+    timestamp: Date = new Date()
+): YieldsAlert[] {
+    return plans.flatMap((plan): YieldsAlert[] => {
+        const { position } = plan;
+        const name = `${position.protocol} ${position.positionMint ?? position.poolAddress}`;
+        const alert = (
+            event: string,
+            severity: YieldsAlert["severity"],
+            message: string
+        ): YieldsAlert[] => [
+            {
+                source: "position-health",
+                key: `position-health:${position.id}:${event}`,
+                severity,
+                message,
+                timestamp,
+            },
+        ];
+
+        const result = results.find((r) => r.positionId === position.id);
+        if (result && !result.success) {
+            return alert(
+                "rebalance-failed",
+                "HIGH",
+                `${name} is out of range and its rebalance failed: ${result.message}`
+            );
+        }
+        if (!plan.newRange) return [];
+        if (plan.action === "skip") {
+            return alert(
+                "out-of-range",
+                "MEDIUM",
+                `${name} is out of range and was not rebalanced: ${plan.reason}`
+            );
+        }
+        return alert(
+            "rebalancing",
+            "LOW",
+            `${name} is out of range (${plan.reason}), ${result ? "rebalanced" : "rebalance planned"}`
+        );
+    });
+}
@@ -0,0 +1,154 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { RiskMetrics, YieldOpportunity } from "../types/yield";
+
+/**
+ * Raw inputs a provider knows about an opportunity. Every component of the
+ * resulting RiskMetrics is on a 0-10 scale so scores are comparable across
+ * protocols.
+ */
+export interface RiskInputs {
+    type: YieldOpportunity["type"];
+    tvl: number;
+    volume24h?: number;
+    // Annualized price volatility in percent (e.g. 80 for 80%)
+    volatility?: number;
+    // 0-10, audits, track record and upgrade authority of the protocol
+    protocolRisk: number;
+    // 0-10, validator/lender/venue exposure outside the protocol itself
+    counterpartyRisk?: number;
+}
+
+export interface RiskWeights {
+    volatility: number;
+    impermanentLoss: number;
+    liquidityDepth: number;
+    counterpartyRisk: number;
+    protocolRisk: number;
+}
+
+export interface RiskModelConfig {
+    weights: RiskWeights;
+    // APY (in percent) considered risk free when computing excess return
+    riskFreeRate: number;
+}
+
+export interface RiskModel {
+    calculate(inputs: RiskInputs): RiskMetrics;
+    riskAdjustedApy(apy: number, risk: RiskMetrics | number): number;
+}
+
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+    volatility: 1,
+    impermanentLoss: 1,
+    liquidityDepth: 1,
+    counterpartyRisk: 1,
+    protocolRisk: 1,
+};
+
+export const DEFAULT_RISK_MODEL_CONFIG: RiskModelConfig = {
+    weights: DEFAULT_RISK_WEIGHTS,
+    riskFreeRate: 0,
+};
+
+const MAX_SCORE = 10;
+// Floor for the Sharpe-like denominator so near-zero risk cannot explode
+const MIN_RISK_DENOMINATOR = 1;
+
+const clampScore = (value: number) =>
+    Number.isFinite(value) ? Math.min(Math.max(value, 0), MAX_SCORE) : 0;
+
+export class WeightedRiskModel implements RiskModel {
+    private config: RiskModelConfig;
+
+    constructor(config: Partial<RiskModelConfig> = {}) {
+        this.config = {
+            weights: { ...DEFAULT_RISK_WEIGHTS, ...config.weights },
+            riskFreeRate:
+                config.riskFreeRate ?? DEFAULT_RISK_MODEL_CONFIG.riskFreeRate,
+        };
+    }
+
+    calculate(inputs: RiskInputs): RiskMetrics {
+        const volatility = clampScore((inputs.volatility ?? 0) / 15);
+        const liquidityDepth = clampScore(inputs.tvl / 1000000);
+
+        let impermanentLoss = 0;
+        if (inputs.type === "LP") {
+            // Prefer realised volatility; fall back to turnover as a proxy
+            impermanentLoss =
+                inputs.volatility !== undefined
+                    ? volatility
+                    : clampScore(
+                          inputs.tvl > 0
+                              ? ((inputs.volume24h ?? 0) / inputs.tvl) * 10
+                              : MAX_SCORE
+                      );
+        }
+
+        const components = {
+            volatility,
+            impermanentLoss,
+            // Depth lowers risk, so the risk contribution is its complement
+            liquidityDepth: MAX_SCORE - liquidityDepth,
+            counterpartyRisk: clampScore(inputs.counterpartyRisk ?? 0),
+            protocolRisk: clampScore(inputs.protocolRisk),
+        };
+
+        const { weights } = this.config;
+        const totalWeight = Object.values(weights).reduce((a, b) => a + b, 0);
+        const weightedSum = (
+            Object.keys(components) as (keyof RiskWeights)[]
+        ).reduce((sum, key) => sum + components[key] * weights[key], 0);
+
+        return {
+            volatility,
+            impermanentLoss,
+            liquidityDepth,
+            counterpartyRisk: components.counterpartyRisk,
+            protocolRisk: components.protocolRisk,
+            score: totalWeight > 0 ? clampScore(weightedSum / totalWeight) : 0,
+        };
+    }
+
+    /**
+     * Sharpe-like excess APY per point of risk. Only meaningful relative to
+     * other opportunities scored by the same model.
+     */
+    riskAdjustedApy(apy: number, risk: RiskMetrics | number): number {
+        const score = typeof risk === "number" ? risk : risk.score;
+        return (
+            (apy - this.config.riskFreeRate) /
+            Math.max(score, MIN_RISK_DENOMINATOR)
+        );
+    }
+}
+
+const parseSetting = <T>(value: unknown): T | undefined => {
+    if (!value) return undefined;
+    if (typeof value === "object") return value as T;
+    try {
+        return JSON.parse(String(value)) as T;
+    } catch (error) {
+        console.error("Invalid risk model setting:", error);
+        return undefined;
+    }
+};
+
+/**
+ * Builds the risk model for a character. Weights come from
+ * `YIELDS_FUN_RISK_WEIGHTS` (an object in character settings or a JSON string
+ * in the environment) and the risk-free rate from `YIELDS_FUN_RISK_FREE_RATE`.
+ */
+export function getRiskModel(runtime: IAgentRuntime): RiskModel {
+    const weights = parseSetting<Partial<RiskWeights>>(
+        runtime.getSetting("YIELDS_FUN_RISK_WEIGHTS")
+    );
+    const riskFreeRate = parseFloat(
+        runtime.getSetting("YIELDS_FUN_RISK_FREE_RATE")
+    );
+
+    return new WeightedRiskModel({
+        weights: { ...DEFAULT_RISK_WEIGHTS, ...weights },
+        riskFreeRate: Number.isFinite(riskFreeRate) ? riskFreeRate : undefined,
+    });
+}
@@ -0,0 +1,215 @@
+import { Keypair } from "@solana/web3.js";
+import {
+    LstInfo,
+    LstMetrics,
+    LstProgram,
+    StakeRoute,
+    UnstakeRoute,
+} from "../types/staking";
+import { JupiterQuote, JupiterSwapClient } from "./jupiterSwap";
+
+const WSOL_MINT = "So11111111111111111111111111111111111111112";
+
+/**
+ * Stakes into and unstakes out of one kind of stake pool program. Amounts
+ * are raw: lamports in, LST base units out.
+ */
+export interface LstStaker {
+    program: LstProgram;
+    stake(lst: LstInfo, lamports: bigint, wallet: Keypair): Promise<string[]>;
+    // Starts a delayed unstake that is withdrawable after the epoch ends
+    unstake(lst: LstInfo, amount: bigint, wallet: Keypair): Promise<string[]>;
+}
+
+export interface LstSource {
+    getLstMetrics(): Promise<LstMetrics[]>;
+}
+
+export interface StakeRouterConfig {
+    // Largest loss accepted to unstake instantly on a DEX instead of waiting
+    // for the epoch to end
+    maxUnstakeDiscountBps: number;
+    // LSTs trading further below their exchange rate are not picked
+    // automatically
+    maxDepegBps: number;
+}
+
+export const STAKE_ROUTER_DEFAULTS: StakeRouterConfig = {
+    maxUnstakeDiscountBps: 30,
+    maxDepegBps: 100,
+};
+
+const toRaw = (amount: number) => BigInt(Math.floor(amount * 1e9));
+
+/**
+ * Picks how to get in and out of liquid staking. Staking compares minting
+ * through the stake pool with buying the LST on Jupiter, taking whichever
+ * gives more LST. Unstaking sells on Jupiter when the discount against the
+ * stake pool rate is within maxUnstakeDiscountBps, and otherwise starts a
+ * delayed unstake through the pool.
+ */
+export class StakeRouter {
+    private config: StakeRouterConfig;
+
+    constructor(
+        private source: LstSource,
+        private swapClient: Pick<JupiterSwapClient, "quote" | "swapQuote">,
+        private stakers: LstStaker[],
+        config: Partial<StakeRouterConfig> = {}
+    ) {
+        this.config = { ...STAKE_ROUTER_DEFAULTS, ...config };
+    }
+
+    /**
+     * @param symbol LST symbol or mint; the highest APY LST within
+     * maxDepegBps when omitted
+     */
+    async quoteStake(amountSol: number, symbol?: string): Promise<StakeRoute> {
+        if (!(amountSol > 0)) throw new Error("Stake amount must be positive");
+
+        const lst = await this.pickLst(symbol);
+        const directLst = amountSol / lst.exchangeRate;
+        const quote = await this.quote(WSOL_MINT, lst.mint, amountSol);
+        const dexLst = quote ? Number(quote.outAmount) / 1e9 : 0;
+        const method = dexLst > directLst ? "dex" : "direct";
+
+        return {
+            lst,
+            method,
+            amountSol,
+            directLst,
+            dexLst,
+            expectedLst: Math.max(directLst, dexLst),
+            discountBps: (dexLst / directLst - 1) * 10_000,
+            quote: method === "dex" ? quote : undefined,
+        };
+    }
+
+    async quoteUnstake(
+        amountLst: number,
+        symbol: string,
+        instant: boolean = false
+    ): Promise<UnstakeRoute> {
+        if (!(amountLst > 0)) {
+            throw new Error("Unstake amount must be positive");
+        }
+
+        const lst = await this.pickLst(symbol);
+        const delayedSol = amountLst * lst.exchangeRate;
+        const quote = await this.quote(lst.mint, WSOL_MINT, amountLst);
+        const dexSol = quote ? Number(quote.outAmount) / 1e9 : 0;
+        const discountBps = (1 - dexSol / delayedSol) * 10_000;
+
+        const method =
+            quote &&
+            (instant || discountBps <= this.config.maxUnstakeDiscountBps)
+                ? "dex"
+                : "delayed";
+
+        return {
+            lst,
+            method,
+            amountLst,
+            delayedSol,
+            dexSol,
+            expectedSol: method === "dex" ? dexSol : delayedSol,
+            discountBps,
+            delaySeconds: method === "dex" ? 0 : lst.unstakeDelaySeconds,
+            quote: method === "dex" ? quote : undefined,
+        };
+    }
+
+    async stake(route: StakeRoute, wallet: Keypair): Promise<string[]> {
+        if (route.method === "dex") {
+            return [
+                await this.swapClient.swapQuote(
+                    route.quote as JupiterQuote,
+                    wallet
+                ),
+            ];
+        }
+        return this.getStaker(route.lst).stake(
+            route.lst,
+            toRaw(route.amountSol),
+            wallet
+        );
+    }
+
+    async unstake(route: UnstakeRoute, wallet: Keypair): Promise<string[]> {
+        if (route.method === "dex") {
+            return [
+                await this.swapClient.swapQuote(
+                    route.quote as JupiterQuote,
+                    wallet
+                ),
+            ];
+        }
+        return this.getStaker(route.lst).unstake(
+            route.lst,
+            toRaw(route.amountLst),
+            wallet
+        );
+    }
+
+    private async pickLst(symbol?: string): Promise<LstMetrics> {
+        const metrics = await this.source.getLstMetrics();
+
+        if (symbol) {
+            const lst = metrics.find(
+                (m) =>
+                    m.symbol.toLowerCase() === symbol.toLowerCase() ||
+                    m.mint === symbol
+            );
+            if (!lst) {
+                throw new Error(`Unsupported liquid staking token ${symbol}`);
+            }
+            return lst;
+        }
+
+        const [best] = metrics
+            .filter((m) => m.depegBps >= -this.config.maxDepegBps)
+            .sort((a, b) => b.apy - a.apy);
+        if (!best) throw new Error("No liquid staking token available");
+        return best;
+    }
+
+    private getStaker(lst: LstInfo): LstStaker {
+        const staker = this.stakers.find((s) => s.program === lst.program);
+        if (!staker) throw new Error(`No staker for ${lst.program} pools`);
+        return staker;
+    }
+
+    // A missing route only rules out the DEX
+    private async quote(
+        inputMint: string,
+        outputMint: string,
+        amount: number
+    ): Promise<JupiterQuote | null> {
+        try {
+            return await this.swapClient.quote(
+                inputMint,
+                outputMint,
+                toRaw(amount)
+            );
+        } catch (error) {
+            console.error("Error fetching Jupiter quote:", error);
+            return null;
+        }
+    }
+}
+
+export function formatStakeRoute(route: StakeRoute): string {
+    const via =
+        route.method === "dex"
+            ? `buying on Jupiter (${(route.discountBps / 100).toFixed(2)}% more than staking directly)`
+            : `staking directly with ${route.lst.protocol}`;
+    return `Stake ${route.amountSol} SOL for ~${route.expectedLst.toFixed(4)} ${route.lst.symbol} by ${via} at ${route.lst.apy.toFixed(2)}% APY`;
+}
+
+export function formatUnstakeRoute(route: UnstakeRoute): string {
+    const via =
+        route.method === "dex"
+            ? `selling on Jupiter now (${(route.discountBps / 100).toFixed(2)}% below the pool rate)`
+            : `a delayed unstake through ${route.lst.protocol}, withdrawable in ~${(route.delaySeconds / 3600).toFixed(1)}h`;
+    return `Unstake ${route.amountLst} ${route.lst.symbol} for ~${route.expectedSol.toFixed(4)} SOL via ${via}`;
+}
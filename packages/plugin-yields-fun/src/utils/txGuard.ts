@@ -0,0 +1,161 @@
+import {
+    GuardConnection,
+    IAgentRuntime,
+    Memory,
+    PolicyDecision,
+    recordTxSignature,
+    TX_GUARD_DEFAULTS,
+    TxGuard,
+    TxGuardPolicy,
+    TxIntent,
+    TxPreview,
+} from "@ai16z/eliza";
+import {
+    PublicKey,
+    SendTransactionError,
+    Transaction,
+    VersionedTransaction,
+} from "@solana/web3.js";
+
+/**
+ * What a guarded transaction is sent for, as the wallet policy counts it.
+ * Steps that run outside of a message, such as jobs, spend for the agent.
+ */
+export interface TxSpender {
+    action: string;
+    message?: Memory;
+}
+
+/**
+ * TxGuard that also authorizes what a transaction spends against the
+ * runtime's wallet policy. The check runs right before signing, so every
+ * transaction the plugin signs is counted. The spend is held until settle
+ * reports whether the transaction was sent, and released if it was not.
+ */
+export class PolicyTxGuard extends TxGuard {
+    // Decisions for checked transactions whose send result is not known yet
+    private pending = new WeakMap<
+        Transaction | VersionedTransaction,
+        PolicyDecision
+    >();
+
+    constructor(
+        connection: GuardConnection,
+        policy: Partial<TxGuardPolicy>,
+        private runtime: IAgentRuntime,
+        private spender: TxSpender
+    ) {
+        super(connection, policy);
+    }
+
+    async check(
+        transaction: Transaction | VersionedTransaction,
+        wallet: PublicKey,
+        intent: TxIntent
+    ): Promise<TxPreview> {
+        const preview = await super.check(transaction, wallet, intent);
+
+        const outflows = preview.deltas.filter((delta) => delta.amount < 0n);
+        const decision = await this.runtime.walletPolicy.authorize({
+            action: this.spender.action,
+            userId: this.spender.message?.userId ?? this.runtime.agentId,
+            roomId: this.spender.message?.roomId ?? this.runtime.agentId,
+            valueUsd: outflows.some((delta) => delta.valueUsd === null)
+                ? null
+                : outflows.reduce(
+                      (sum, delta) => sum - (delta.valueUsd ?? 0),
+                      0
+                  ),
+            tokens: preview.deltas.map((delta) => delta.mint),
+        });
+        if (!decision.allowed) {
+            throw new Error(`Blocked by the wallet policy: ${decision.reason}`);
+        }
+        this.pending.set(transaction, decision);
+        return preview;
+    }
+
+    /**
+     * Keeps the spend authorized for a checked transaction counted when it
+     * was sent, and releases it when it was not.
+     */
+    async settle(
+        transaction: Transaction | VersionedTransaction,
+        sent: boolean
+    ): Promise<void> {
+        const decision = this.pending.get(transaction);
+        if (!decision) return;
+
+        this.pending.delete(transaction);
+        if (!sent) await this.runtime.walletPolicy.release(decision);
+    }
+}
+
+/**
+ * Checks a transaction with the guard, then signs and sends it with send.
+ * A transaction the RPC node rejects never reached the network, so its
+ * spend is released; once sent it stays counted, even when confirming it
+ * fails, since it may still land.
+ */
+export async function sendGuarded(
+    guard: TxGuard | null | undefined,
+    transaction: Transaction | VersionedTransaction,
+    wallet: PublicKey,
+    intent: TxIntent,
+    send: () => Promise<string>
+): Promise<string> {
+    await guard?.check(transaction, wallet, intent);
+
+    let sent = true;
+    try {
+        const signature = await send();
+        recordTxSignature(signature);
+        return signature;
+    } catch (error) {
+        if (error instanceof SendTransactionError) sent = false;
+        throw error;
+    } finally {
+        if (guard instanceof PolicyTxGuard) {
+            await guard.settle(transaction, sent);
+        }
+    }
+}
+
+function getTxGuardPolicy(runtime: IAgentRuntime): Partial<TxGuardPolicy> {
+    const setting = (key: string) => {
+        const value = parseFloat(runtime.getSetting(key));
+        return Number.isFinite(value) && value >= 0 ? value : undefined;
+    };
+    const extraPrograms = (
+        runtime.getSetting("YIELDS_FUN_TX_ALLOWED_PROGRAMS") ?? ""
+    )
+        .split(",")
+        .map((program) => program.trim())
+        .filter(Boolean);
+
+    const policy: Partial<TxGuardPolicy> = {
+        maxLossUsd: setting("YIELDS_FUN_TX_MAX_LOSS_USD"),
+        maxSlippageBps: setting("YIELDS_FUN_TX_MAX_SLIPPAGE_BPS"),
+        allowedPrograms: extraPrograms.length
+            ? [...TX_GUARD_DEFAULTS.allowedPrograms, ...extraPrograms]
+            : undefined,
+    };
+
+    // Unset values fall back to TX_GUARD_DEFAULTS
+    return Object.fromEntries(
+        Object.entries(policy).filter(([, value]) => value !== undefined)
+    );
+}
+
+export function getTxGuard(
+    runtime: IAgentRuntime,
+    connection: GuardConnection,
+    spender: TxSpender
+): TxGuard {
+    return new PolicyTxGuard(
+        connection,
+        getTxGuardPolicy(runtime),
+        runtime,
+        spender
+    );
+}
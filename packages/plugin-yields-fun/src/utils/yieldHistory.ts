@@ -0,0 +1,175 @@
+import { IAgentRuntime } from "@ai16z/eliza";
+import { TrustScoreDatabase, YieldSnapshot } from "@ai16z/plugin-trustdb";
+import { YieldOpportunity } from "../types/yield";
+
+export interface YieldStats {
+    poolAddress: string;
+    windowDays: number;
+    samples: number;
+    currentApy: number;
+    averageApy: number;
+    // Standard deviation of APY over the window, in APY points
+    apyVolatility: number;
+    // Percent change in TVL from the first to the last snapshot in the window
+    tvlTrend: number;
+}
+
+const HISTORY_CONFIG = {
+    // Providers are polled far more often than APYs move
+    SNAPSHOT_INTERVAL_MS: 60 * 60 * 1000,
+    RETENTION_DAYS: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Summarizes the snapshots of one pool that fall inside the window ending at
+ * `now`. Returns null when there is no data in the window.
+ */
+export function summarizeYieldHistory(
+    history: YieldSnapshot[],
+    windowDays: number,
+    now: Date = new Date()
+): YieldStats | null {
+    const since = now.getTime() - windowDays * DAY_MS;
+    const window = history
+        .filter((snapshot) => snapshot.timestamp.getTime() >= since)
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    if (window.length === 0) return null;
+
+    const apys = window.map((snapshot) => snapshot.apy);
+    const averageApy = apys.reduce((a, b) => a + b, 0) / apys.length;
+    const variance =
+        apys.reduce((sum, apy) => sum + (apy - averageApy) ** 2, 0) /
+        apys.length;
+
+    const first = window[0];
+    const last = window[window.length - 1];
+
+    return {
+        poolAddress: last.poolAddress,
+        windowDays,
+        samples: window.length,
+        currentApy: last.apy,
+        averageApy,
+        apyVolatility: Math.sqrt(variance),
+        tvlTrend:
+            first.tvl > 0 ? ((last.tvl - first.tvl) / first.tvl) * 100 : 0,
+    };
+}
+
+/**
+ * Formats the "APY 7d avg vs now" line shown in reports.
+ */
+export function formatApyTrend(stats: YieldStats): string {
+    const tvlSign = stats.tvlTrend >= 0 ? "+" : "";
+    return `APY ${stats.windowDays}d avg: ${stats.averageApy.toFixed(2)}% vs now ${stats.currentApy.toFixed(2)}% (σ ${stats.apyVolatility.toFixed(2)}, TVL ${tvlSign}${stats.tvlTrend.toFixed(1)}%)`;
+}
+
+/**
+ * The 7d and 30d trend lines of a pool, leaving out windows with fewer than
+ * two snapshots.
+ */
+export function getApyTrendLines(
+    store: YieldHistoryStore | null,
+    poolAddress: string
+): string[] {
+    return [store?.get7dStats(poolAddress), store?.get30dStats(poolAddress)]
+        .filter((stats) => stats && stats.samples > 1)
+        .map(formatApyTrend);
+}
+
+/**
+ * Persists aggregated opportunities as timestamped rows in the trust
+ * database so spikes can be told apart from sustained yields.
+ */
+export class YieldHistoryStore {
+    constructor(private db: TrustScoreDatabase) {}
+
+    /**
+     * Stores a snapshot of each opportunity whose pool has none from the last
+     * SNAPSHOT_INTERVAL_MS, so a pool first fetched late is not skipped.
+     * Returns true when a snapshot was written.
+     */
+    record(
+        opportunities: YieldOpportunity[],
+        timestamp: Date = new Date()
+    ): boolean {
+        try {
+            const latest = this.db.getLatestYieldSnapshotTimes();
+            const due = opportunities.filter(
+                (opp) =>
+                    !latest.has(opp.address) ||
+                    timestamp.getTime() - latest.get(opp.address).getTime() >=
+                        HISTORY_CONFIG.SNAPSHOT_INTERVAL_MS
+            );
+            if (due.length === 0) return false;
+
+            const recorded = this.db.addYieldSnapshots(
+                due.map((opp) => ({
+                    poolAddress: opp.address,
+                    protocol: opp.protocol,
+                    type: opp.type,
+                    apy: opp.apy,
+                    tvl: opp.tvl,
+                    risk: opp.risk,
+                    timestamp,
+                }))
+            );
+            this.db.pruneYieldHistory(
+                new Date(
+                    timestamp.getTime() - HISTORY_CONFIG.RETENTION_DAYS * DAY_MS
+                )
+            );
+
+            return recorded;
+        } catch (error) {
+            console.error("Error recording yield history:", error);
+            return false;
+        }
+    }
+
+    getStats(
+        poolAddress: string,
+        windowDays: number,
+        now: Date = new Date()
+    ): YieldStats | null {
+        try {
+            const history = this.db.getYieldHistory(
+                poolAddress,
+                new Date(now.getTime() - windowDays * DAY_MS)
+            );
+            return summarizeYieldHistory(history, windowDays, now);
+        } catch (error) {
+            console.error("Error reading yield history:", error);
+            return null;
+        }
+    }
+
+    get7dStats(poolAddress: string): YieldStats | null {
+        return this.getStats(poolAddress, 7);
+    }
+
+    get30dStats(poolAddress: string): YieldStats | null {
+        return this.getStats(poolAddress, 30);
+    }
+}
+
+/**
+ * Returns a history store backed by the agent's database, or null when the
+ * adapter does not expose a SQLite handle.
+ */
+export function getYieldHistoryStore(
+    runtime: IAgentRuntime
+): YieldHistoryStore | null {
+    const db = runtime.databaseAdapter?.db;
+    if (!db?.prepare) return null;
+
+    try {
+        return new YieldHistoryStore(new TrustScoreDatabase(db));
+    } catch (error) {
+        console.error("Error opening yield history store:", error);
+        return null;
+    }
+}